@@ -0,0 +1,276 @@
+import type pino from "pino";
+import WebSocket from "ws";
+import type { InboundMessage } from "../types.js";
+import { splitMessage } from "./text.js";
+
+interface DiscordConfig {
+  botToken: string;
+  /** In servers, only answer messages that mention the bot (AGENTS.md group-chat rules). */
+  requireMention: boolean;
+  /** Server ids to answer in; empty means every server the bot is in. */
+  guilds: string[];
+  gatewayUrl: string;
+  apiBaseUrl: string;
+}
+
+interface GatewayPayload {
+  op: number;
+  d?: unknown;
+  s?: number | null;
+  t?: string | null;
+}
+
+interface DiscordMessage {
+  id: string;
+  channel_id: string;
+  guild_id?: string;
+  content?: string;
+  author?: { id: string; bot?: boolean };
+  mentions?: Array<{ id: string }>;
+}
+
+type MessageHandler = (message: InboundMessage) => Promise<void>;
+
+const OP_DISPATCH = 0;
+const OP_HEARTBEAT = 1;
+const OP_IDENTIFY = 2;
+const OP_RESUME = 6;
+const OP_RECONNECT = 7;
+const OP_INVALID_SESSION = 9;
+const OP_HELLO = 10;
+
+// GUILD_MESSAGES | DIRECT_MESSAGES | MESSAGE_CONTENT
+const INTENTS = (1 << 9) | (1 << 12) | (1 << 15);
+/** Close codes after which reconnecting cannot help (bad token, bad intents). */
+const FATAL_CLOSE_CODES = new Set([4004, 4010, 4011, 4012, 4013, 4014]);
+const MAX_MESSAGE_LENGTH = 2000;
+
+/** `<guildId|dm>:<channelId>:<userId>`: one session per user and Discord channel. */
+export function discordSenderId(guildId: string | undefined, channelId: string, userId: string): string {
+  return `${guildId ?? "dm"}:${channelId}:${userId}`;
+}
+
+/** The Discord channel to post to for a sender id, or a bare channel id (cron jobs, `/api/send`). */
+export function discordChannelId(to: string): string {
+  const parts = to.split(":");
+  return parts.length === 3 ? parts[1] : to;
+}
+
+/**
+ * Receives DMs and server messages over the Discord gateway WebSocket and replies through the
+ * REST API. Reconnects with resume after drops; a rejected token stops it for good.
+ */
+export class DiscordChannel {
+  private socket: WebSocket | null = null;
+  private heartbeat: NodeJS.Timeout | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private sequence: number | null = null;
+  private sessionId: string | null = null;
+  private resumeUrl: string | null = null;
+  private attempts = 0;
+  private stopped = true;
+  /** Set from READY; needed to recognize mentions. */
+  botUserId: string | null = null;
+
+  constructor(
+    private readonly config: DiscordConfig,
+    private readonly onMessage: MessageHandler,
+    private readonly logger?: pino.Logger
+  ) {}
+
+  start(): void {
+    this.stopped = false;
+    this.connect();
+  }
+
+  stop(): void {
+    this.stopped = true;
+    this.clearTimers();
+    this.socket?.close(1000);
+    this.socket = null;
+  }
+
+  async send(to: string, text: string, replyTo?: string): Promise<void> {
+    const channelId = discordChannelId(to);
+    for (const [index, content] of splitMessage(text, MAX_MESSAGE_LENGTH).entries()) {
+      await this.callDiscord(`/channels/${channelId}/messages`, {
+        content,
+        allowed_mentions: { parse: [] },
+        ...(replyTo && index === 0 ? { message_reference: { message_id: replyTo, fail_if_not_exists: false } } : {})
+      });
+    }
+  }
+
+  private connect(): void {
+    // The resume URL comes without the version and encoding query of the configured one.
+    const url =
+      this.sessionId && this.resumeUrl
+        ? `${this.resumeUrl.replace(/\/$/, "")}/${new URL(this.config.gatewayUrl).search}`
+        : this.config.gatewayUrl;
+    const socket = new WebSocket(url);
+    this.socket = socket;
+    socket.on("message", (data) => {
+      let payload: GatewayPayload;
+      try {
+        payload = JSON.parse(data.toString()) as GatewayPayload;
+      } catch {
+        return;
+      }
+      this.handlePayload(socket, payload).catch((error) => {
+        this.logger?.error({ err: error }, "Discord event handling failed");
+      });
+    });
+    socket.on("close", (code) => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.clearTimers();
+      if (this.stopped) return;
+      if (FATAL_CLOSE_CODES.has(code)) {
+        this.logger?.error({ code }, "Discord gateway refused the connection; check the bot token and intents");
+        return;
+      }
+      this.scheduleReconnect();
+    });
+    socket.on("error", (error) => {
+      this.logger?.warn({ err: error }, "Discord gateway connection error");
+    });
+  }
+
+  private scheduleReconnect(): void {
+    const delay = Math.min(1000 * 2 ** this.attempts, 60000);
+    this.attempts += 1;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private clearTimers(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private sendPayload(socket: WebSocket, payload: GatewayPayload): void {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(payload));
+    }
+  }
+
+  private async handlePayload(socket: WebSocket, payload: GatewayPayload): Promise<void> {
+    if (typeof payload.s === "number") {
+      this.sequence = payload.s;
+    }
+    switch (payload.op) {
+      case OP_HELLO: {
+        const interval = (payload.d as { heartbeat_interval?: number } | undefined)?.heartbeat_interval ?? 41250;
+        this.heartbeat = setInterval(() => {
+          this.sendPayload(socket, { op: OP_HEARTBEAT, d: this.sequence });
+        }, interval);
+        if (this.sessionId) {
+          this.sendPayload(socket, {
+            op: OP_RESUME,
+            d: { token: this.config.botToken, session_id: this.sessionId, seq: this.sequence }
+          });
+        } else {
+          this.sendPayload(socket, {
+            op: OP_IDENTIFY,
+            d: {
+              token: this.config.botToken,
+              intents: INTENTS,
+              properties: { os: process.platform, browser: "gnamiai", device: "gnamiai" }
+            }
+          });
+        }
+        return;
+      }
+      case OP_HEARTBEAT:
+        this.sendPayload(socket, { op: OP_HEARTBEAT, d: this.sequence });
+        return;
+      case OP_RECONNECT:
+        socket.close(4000);
+        return;
+      case OP_INVALID_SESSION:
+        if (payload.d !== true) {
+          this.sessionId = null;
+          this.sequence = null;
+        }
+        socket.close(4000);
+        return;
+      case OP_DISPATCH:
+        await this.handleDispatch(payload.t ?? "", payload.d);
+        return;
+    }
+  }
+
+  private async handleDispatch(event: string, data: unknown): Promise<void> {
+    if (event === "READY") {
+      const ready = data as { session_id: string; resume_gateway_url?: string; user: { id: string } };
+      this.sessionId = ready.session_id;
+      this.resumeUrl = ready.resume_gateway_url ?? null;
+      this.botUserId = ready.user.id;
+      this.attempts = 0;
+      return;
+    }
+    if (event === "RESUMED") {
+      this.attempts = 0;
+      return;
+    }
+    if (event === "MESSAGE_CREATE") {
+      await this.handleMessage(data as DiscordMessage);
+    }
+  }
+
+  private async handleMessage(message: DiscordMessage): Promise<void> {
+    const author = message.author;
+    if (!author || author.bot || author.id === this.botUserId) {
+      return;
+    }
+    let content = message.content ?? "";
+    if (message.guild_id) {
+      if (this.config.guilds.length > 0 && !this.config.guilds.includes(message.guild_id)) {
+        return;
+      }
+      const mention = new RegExp(`<@!?${this.botUserId ?? "-"}>`, "g");
+      const mentioned = mention.test(content) || (message.mentions ?? []).some((entry) => entry.id === this.botUserId);
+      if (this.config.requireMention && !mentioned) {
+        return;
+      }
+      content = content.replace(mention, "");
+    }
+    content = content.trim();
+    if (!content) {
+      return;
+    }
+    await this.onMessage({
+      channel: "discord",
+      senderId: discordSenderId(message.guild_id, message.channel_id, author.id),
+      pairingId: author.id,
+      content,
+      reply: async (text: string) => {
+        await this.send(message.channel_id, text, message.id);
+      }
+    });
+  }
+
+  private async callDiscord(path: string, payload: Record<string, unknown>): Promise<Record<string, unknown>> {
+    const response = await fetch(`${this.config.apiBaseUrl}${path}`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bot ${this.config.botToken}`,
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify(payload)
+    });
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(`Discord API error (${response.status}): ${body}`);
+    }
+    return (await response.json()) as Record<string, unknown>;
+  }
+}
@@ -0,0 +1,302 @@
+import { randomUUID } from "node:crypto";
+import type pino from "pino";
+import type { InboundAttachment, InboundMessage } from "../types.js";
+import { ImapClient, type ImapConfig } from "./imap.js";
+import { buildMail, parseMail, type ParsedMail } from "./mime.js";
+import { sendMail, type SmtpConfig } from "./smtp.js";
+
+interface EmailConfig {
+  address: string;
+  name?: string;
+  imap: ImapConfig & { mailbox: string };
+  smtp: SmtpConfig;
+  allowFrom: string[];
+  requireAuthentication: boolean;
+  subject: string;
+  pollIntervalMs: number;
+}
+
+/** What the next message in a thread answers. */
+interface ThreadState {
+  /** Where replies go: the `From` address that pairing checked, never `Reply-To`. */
+  address: string;
+  subject: string;
+  messageId: string;
+  references: string[];
+}
+
+type MessageHandler = (message: InboundMessage) => Promise<void>;
+
+/** IDLE is re-entered before the 30-minute server timeout of RFC 2177. */
+const IDLE_RESTART_MS = 29 * 60 * 1000;
+const MAX_THREADS = 500;
+const MAX_REFERENCES = 10;
+
+/** `<address>:<root Message-ID>`; every email thread is its own session. */
+export function emailSenderId(address: string, threadId?: string): string {
+  return threadId ? `${address}:${threadId}` : address;
+}
+
+/** The address and thread of a sender id, or a bare address (cron jobs, `/api/send`). */
+export function emailTarget(to: string): { address: string; threadId?: string } {
+  const separator = to.indexOf(":<");
+  return separator < 0 ? { address: to } : { address: to.slice(0, separator), threadId: to.slice(separator + 1) };
+}
+
+/** The new part of a reply: quoted history (`On … wrote:`, `>` lines) and the signature are dropped. */
+export function stripQuotedReply(text: string): string {
+  const lines = text.split("\n");
+  const kept: string[] = [];
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index];
+    const attribution = `${line} ${lines[index + 1] ?? ""}`;
+    if (
+      /^On\b.*\bwrote:\s*$/.test(line) ||
+      /^On\b.*\bwrote:\s*$/.test(attribution.trim()) ||
+      /^-{2,}\s*Original Message\s*-{2,}/i.test(line) ||
+      line === "-- "
+    ) {
+      break;
+    }
+    if (!line.startsWith(">")) kept.push(line);
+  }
+  return kept.join("\n").trim();
+}
+
+/** Auto-replies, bounces and mailing lists, which must never be answered. */
+function isAutomated(mail: ParsedMail): boolean {
+  const autoSubmitted = mail.headers.get("auto-submitted");
+  return (
+    (autoSubmitted !== undefined && autoSubmitted.toLowerCase() !== "no") ||
+    /^(bulk|junk|list)$/i.test(mail.headers.get("precedence") ?? "") ||
+    mail.headers.has("list-id") ||
+    /^(mailer-daemon|postmaster)@/i.test(mail.from?.address ?? "")
+  );
+}
+
+/**
+ * Whether the receiving server verified the sender (DMARC, or a DKIM signature of the `From` domain).
+ * Only the topmost `Authentication-Results`, the one the receiving server added, counts.
+ */
+function isAuthenticated(mail: ParsedMail, address: string): boolean {
+  const results = mail.headers.get("authentication-results") ?? "";
+  if (/\bdmarc=pass\b/i.test(results)) return true;
+  const domain = address.split("@")[1];
+  return results.split(";").some((result) => {
+    const signer = /\bheader\.[di]=(\S+)/i.exec(result)?.[1];
+    return /^\s*dkim=pass\b/i.test(result) && signer?.split("@").at(-1)?.toLowerCase() === domain;
+  });
+}
+
+function attachmentKind(contentType: string): InboundAttachment["kind"] {
+  const type = contentType.split("/")[0];
+  return type === "image" || type === "audio" || type === "video" ? type : "document";
+}
+
+function replySubject(subject: string): string {
+  return /^re:/i.test(subject) ? subject : `Re: ${subject}`;
+}
+
+/**
+ * Email channel: waits for new mail to the configured address with IMAP IDLE (or polls), and
+ * answers over SMTP in the same thread. Each thread, keyed by its first `Message-ID`, is a session;
+ * pairing is per sender address.
+ */
+export class EmailChannel {
+  private client: ImapClient | null = null;
+  private stopped = true;
+  private sleeping: { timer: NodeJS.Timeout; resolve: () => void } | null = null;
+  private uidValidity = 0;
+  private lastUid = 0;
+  private readonly threads = new Map<string, ThreadState>();
+
+  constructor(
+    private readonly config: EmailConfig,
+    private readonly onMessage: MessageHandler,
+    private readonly logger?: pino.Logger
+  ) {}
+
+  private get domain(): string {
+    return this.config.address.split("@")[1] ?? "localhost";
+  }
+
+  start(): void {
+    if (!this.stopped) return;
+    this.stopped = false;
+    this.run().catch((error) => {
+      this.logger?.error({ err: error }, "Email channel stopped");
+    });
+  }
+
+  stop(): void {
+    this.stopped = true;
+    this.client?.close();
+    this.client = null;
+    this.wake();
+  }
+
+  async send(to: string, text: string): Promise<void> {
+    const target = emailTarget(to);
+    const thread = this.threads.get(to);
+    await this.deliver(thread?.address ?? target.address, text, thread, target.threadId);
+  }
+
+  private async run(): Promise<void> {
+    let attempts = 0;
+    while (!this.stopped) {
+      const client = new ImapClient(this.config.imap);
+      this.client = client;
+      try {
+        await client.connect();
+        await client.login();
+        const status = await client.select(this.config.imap.mailbox);
+        if (status.uidValidity !== this.uidValidity) {
+          // A new mailbox (or first start): only mail that arrives from now on is answered.
+          this.uidValidity = status.uidValidity;
+          this.lastUid = status.uidNext > 0 ? status.uidNext - 1 : ((await client.search("UID *")).at(-1) ?? 0);
+        }
+        attempts = 0;
+        while (!this.stopped) {
+          await this.checkMailbox(client);
+          if (client.capabilities.has("IDLE")) {
+            await client.idle(IDLE_RESTART_MS);
+          } else {
+            await this.sleep(this.config.pollIntervalMs);
+          }
+        }
+        await client.logout();
+      } catch (error) {
+        client.close();
+        if (this.stopped) return;
+        this.logger?.warn({ err: error }, "Email IMAP connection failed");
+        await this.sleep(Math.min(1000 * 2 ** attempts, 60000));
+        attempts += 1;
+      }
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.sleeping = null;
+        resolve();
+      }, ms);
+      this.sleeping = { timer, resolve };
+    });
+  }
+
+  private wake(): void {
+    if (!this.sleeping) return;
+    clearTimeout(this.sleeping.timer);
+    this.sleeping.resolve();
+    this.sleeping = null;
+  }
+
+  private async checkMailbox(client: ImapClient): Promise<void> {
+    // `n:*` also matches the newest message when its UID is below n, hence the filter.
+    const uids = (await client.search(`UID ${this.lastUid + 1}:*`)).filter((uid) => uid > this.lastUid);
+    for (const uid of uids) {
+      const raw = await client.fetch(uid);
+      this.lastUid = uid;
+      if (raw && this.handleMail(parseMail(raw), uid)) {
+        await client.addFlags(uid, ["\\Seen"]);
+      }
+    }
+  }
+
+  private allowed(address: string): boolean {
+    const { allowFrom } = this.config;
+    return (
+      allowFrom.length === 0 ||
+      allowFrom.some((entry) => {
+        const rule = entry.toLowerCase();
+        return rule.startsWith("@") ? address.endsWith(rule) : address === rule;
+      })
+    );
+  }
+
+  /** Passes a new mail on; false when it is ignored (and left unread). */
+  private handleMail(mail: ParsedMail, uid: number): boolean {
+    const from = mail.from?.address;
+    if (!from || from === this.config.address.toLowerCase() || isAutomated(mail) || !this.allowed(from)) {
+      return false;
+    }
+    if (this.config.requireAuthentication && !isAuthenticated(mail, from)) {
+      this.logger?.warn({ from }, "Ignoring email that failed DMARC/DKIM authentication");
+      return false;
+    }
+    const messageId = mail.messageId ?? `<${this.uidValidity}.${uid}@${this.domain}>`;
+    const parents = mail.references.length > 0 ? mail.references : mail.inReplyTo ? [mail.inReplyTo] : [];
+    const threadId = parents[0] ?? messageId;
+    const attachments: InboundAttachment[] = mail.attachments.map((part) => ({
+      kind: attachmentKind(part.contentType),
+      id: `${uid}:${part.partId}`,
+      mimeType: part.contentType,
+      ...(part.filename ? { filename: part.filename } : {})
+    }));
+    const labels = attachments.map((a) => (a.filename ? `[${a.kind}: ${a.filename}]` : `[${a.kind}]`)).join(" ");
+    // The subject carries meaning in the first mail of a thread; replies only repeat it.
+    const content = [parents.length === 0 ? mail.subject : "", labels, stripQuotedReply(mail.text)]
+      .filter(Boolean)
+      .join("\n\n");
+    if (!content) return false;
+
+    const senderId = emailSenderId(from, threadId);
+    const thread: ThreadState = {
+      // A forged `From` with a `Reply-To` elsewhere must not get the paired sender's answers.
+      address: from,
+      subject: mail.subject || this.config.subject,
+      messageId,
+      references: [...parents, messageId]
+    };
+    this.remember(senderId, thread);
+    this.onMessage({
+      channel: "email",
+      senderId,
+      pairingId: from,
+      content,
+      ...(attachments.length > 0 ? { attachments } : {}),
+      reply: async (text: string) => {
+        await this.deliver(thread.address, text, thread);
+      }
+    }).catch((error) => {
+      this.logger?.error({ err: error }, "Email message handling failed");
+    });
+    return true;
+  }
+
+  private remember(senderId: string, thread: ThreadState): void {
+    this.threads.delete(senderId);
+    this.threads.set(senderId, thread);
+    if (this.threads.size > MAX_THREADS) {
+      this.threads.delete(this.threads.keys().next().value!);
+    }
+  }
+
+  private async deliver(to: string, text: string, thread?: ThreadState, threadId?: string): Promise<void> {
+    const messageId = `<${randomUUID()}@${this.domain}>`;
+    const references = thread?.references ?? (threadId ? [threadId] : []);
+    const data = buildMail({
+      from: { address: this.config.address, ...(this.config.name ? { name: this.config.name } : {}) },
+      to: { address: to },
+      subject: thread ? replySubject(thread.subject) : this.config.subject,
+      text,
+      messageId,
+      inReplyTo: thread?.messageId ?? threadId,
+      // The root and the most recent ids are enough for clients to thread the reply.
+      references:
+        references.length > MAX_REFERENCES ? [references[0], ...references.slice(-(MAX_REFERENCES - 1))] : references
+    });
+    const { smtp, imap } = this.config;
+    await sendMail(
+      { ...smtp, user: smtp.user ?? imap.user, password: smtp.password ?? imap.password },
+      { from: this.config.address, to: [to] },
+      data,
+      this.domain
+    );
+    if (thread) {
+      thread.messageId = messageId;
+      thread.references = [...thread.references, messageId];
+    }
+  }
+}
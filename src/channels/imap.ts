@@ -0,0 +1,268 @@
+import { connect as connectTcp, type Socket } from "node:net";
+import { connect as connectTls } from "node:tls";
+
+export interface ImapConfig {
+  host: string;
+  port: number;
+  /** Implicit TLS (port 993); plain connections are only for local test servers. */
+  secure: boolean;
+  user: string;
+  password: string;
+}
+
+/** One response line with its literals (`{n}` blocks) in order. */
+interface ImapLine {
+  text: string;
+  literals: Buffer[];
+}
+
+interface PendingCommand {
+  tag: string;
+  untagged: ImapLine[];
+  resolve: (lines: ImapLine[]) => void;
+  reject: (error: Error) => void;
+}
+
+export interface MailboxStatus {
+  exists: number;
+  uidValidity: number;
+  uidNext: number;
+}
+
+const COMMAND_TIMEOUT_MS = 60000;
+
+function quote(value: string): string {
+  return `"${value.replace(/(["\\])/g, "\\$1")}"`;
+}
+
+/**
+ * The few IMAP4rev1 commands the email channel needs (LOGIN, SELECT, UID SEARCH/FETCH/STORE, IDLE),
+ * one command at a time.
+ */
+export class ImapClient {
+  private socket: Socket | null = null;
+  private buffer = Buffer.alloc(0);
+  private line: ImapLine = { text: "", literals: [] };
+  private literalBytes = 0;
+  private tagCounter = 0;
+  private current: PendingCommand | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private greeting: { resolve: () => void; reject: (error: Error) => void } | null = null;
+  private continuation: (() => void) | null = null;
+  private idleWake: (() => void) | null = null;
+  capabilities = new Set<string>();
+
+  constructor(private readonly config: ImapConfig) {}
+
+  async connect(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.greeting = { resolve, reject };
+      const { host, port } = this.config;
+      const socket = this.config.secure ? connectTls({ host, port, servername: host }) : connectTcp({ host, port });
+      this.socket = socket;
+      socket.on("data", (chunk: Buffer) => this.receive(chunk));
+      socket.on("error", (error) => this.fail(error));
+      socket.on("close", () => this.fail(new Error("IMAP connection closed")));
+    });
+    const capability = await this.command("CAPABILITY");
+    for (const line of capability) {
+      if (/^\* CAPABILITY /i.test(line.text)) {
+        this.capabilities = new Set(line.text.slice(13).toUpperCase().split(/\s+/));
+      }
+    }
+  }
+
+  close(): void {
+    this.socket?.destroy();
+    this.socket = null;
+  }
+
+  async login(): Promise<void> {
+    await this.command(`LOGIN ${quote(this.config.user)} ${quote(this.config.password)}`);
+  }
+
+  async select(mailbox: string): Promise<MailboxStatus> {
+    const status: MailboxStatus = { exists: 0, uidValidity: 0, uidNext: 0 };
+    for (const line of await this.command(`SELECT ${quote(mailbox)}`)) {
+      const exists = /^\* (\d+) EXISTS/i.exec(line.text);
+      if (exists) status.exists = Number(exists[1]);
+      const validity = /\[UIDVALIDITY (\d+)\]/i.exec(line.text);
+      if (validity) status.uidValidity = Number(validity[1]);
+      const next = /\[UIDNEXT (\d+)\]/i.exec(line.text);
+      if (next) status.uidNext = Number(next[1]);
+    }
+    return status;
+  }
+
+  /** UIDs matching a `UID SEARCH` criteria string, ascending. */
+  async search(criteria: string): Promise<number[]> {
+    const uids: number[] = [];
+    for (const line of await this.command(`UID SEARCH ${criteria}`)) {
+      if (/^\* SEARCH\b/i.test(line.text)) {
+        uids.push(...line.text.slice(8).trim().split(/\s+/).filter(Boolean).map(Number));
+      }
+    }
+    return uids.sort((a, b) => a - b);
+  }
+
+  /** The raw message, without setting `\Seen`. */
+  async fetch(uid: number): Promise<Buffer | null> {
+    for (const line of await this.command(`UID FETCH ${uid} (UID BODY.PEEK[])`)) {
+      if (/^\* \d+ FETCH/i.test(line.text) && line.literals.length > 0) {
+        return line.literals[0];
+      }
+    }
+    return null;
+  }
+
+  async addFlags(uid: number, flags: string[]): Promise<void> {
+    await this.command(`UID STORE ${uid} +FLAGS.SILENT (${flags.join(" ")})`);
+  }
+
+  /**
+   * Waits in IDLE until the server reports new mail or `timeoutMs` passes (servers drop idle
+   * clients after 30 minutes, so callers re-enter it).
+   */
+  async idle(timeoutMs: number): Promise<void> {
+    await this.enqueue(async () => {
+      const tag = this.nextTag();
+      // Written before tracking, so a closed connection cannot leave a pending command behind.
+      this.write(`${tag} IDLE\r\n`);
+      const done = this.track(tag, timeoutMs + COMMAND_TIMEOUT_MS);
+      const ready = new Promise<void>((resolve) => {
+        this.continuation = resolve;
+      });
+      await Promise.race([ready, done]);
+      await Promise.race([
+        new Promise<void>((resolve) => {
+          const timer = setTimeout(resolve, timeoutMs);
+          this.idleWake = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+        }),
+        done
+      ]);
+      this.idleWake = null;
+      this.write("DONE\r\n");
+      await done;
+    });
+  }
+
+  async logout(): Promise<void> {
+    await this.command("LOGOUT").catch(() => undefined);
+    this.close();
+  }
+
+  private command(text: string): Promise<ImapLine[]> {
+    return this.enqueue(async () => {
+      const tag = this.nextTag();
+      this.write(`${tag} ${text}\r\n`);
+      return await this.track(tag);
+    });
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private nextTag(): string {
+    this.tagCounter += 1;
+    return `A${this.tagCounter}`;
+  }
+
+  private track(tag: string, timeoutMs = COMMAND_TIMEOUT_MS): Promise<ImapLine[]> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.socket?.destroy(new Error(`IMAP command ${tag} timed out`));
+      }, timeoutMs);
+      this.current = {
+        tag,
+        untagged: [],
+        resolve: (lines) => {
+          clearTimeout(timer);
+          resolve(lines);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      };
+    });
+  }
+
+  private write(data: string): void {
+    if (!this.socket) throw new Error("IMAP connection closed");
+    this.socket.write(data);
+  }
+
+  private fail(error: Error): void {
+    this.greeting?.reject(error);
+    this.greeting = null;
+    this.current?.reject(error);
+    this.current = null;
+    this.continuation = null;
+    this.idleWake?.();
+    this.socket = null;
+  }
+
+  private receive(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    while (this.buffer.length > 0) {
+      if (this.literalBytes > 0) {
+        if (this.buffer.length < this.literalBytes) return;
+        this.line.literals.push(this.buffer.subarray(0, this.literalBytes));
+        this.buffer = this.buffer.subarray(this.literalBytes);
+        this.literalBytes = 0;
+        continue;
+      }
+      const end = this.buffer.indexOf("\r\n");
+      if (end < 0) return;
+      const text = this.buffer.subarray(0, end).toString("utf-8");
+      this.buffer = this.buffer.subarray(end + 2);
+      this.line.text += text;
+      // A line ending in `{n}` continues after n bytes of literal data.
+      const literal = /\{(\d+)\}$/.exec(text);
+      if (literal) {
+        this.literalBytes = Number(literal[1]);
+        if (this.literalBytes > 0) continue;
+      }
+      const line = this.line;
+      this.line = { text: "", literals: [] };
+      this.handleLine(line);
+    }
+  }
+
+  private handleLine(line: ImapLine): void {
+    if (line.text.startsWith("+")) {
+      this.continuation?.();
+      this.continuation = null;
+      return;
+    }
+    if (line.text.startsWith("* ")) {
+      if (this.greeting) {
+        const greeting = this.greeting;
+        this.greeting = null;
+        if (/^\* (OK|PREAUTH)\b/i.test(line.text)) greeting.resolve();
+        else greeting.reject(new Error(`IMAP server refused the connection: ${line.text}`));
+        return;
+      }
+      if (this.idleWake && /^\* \d+ (EXISTS|RECENT)\b/i.test(line.text)) {
+        this.idleWake();
+      }
+      this.current?.untagged.push(line);
+      return;
+    }
+    const current = this.current;
+    if (!current || !line.text.startsWith(`${current.tag} `)) return;
+    this.current = null;
+    const status = line.text.slice(current.tag.length + 1);
+    if (/^OK\b/i.test(status)) {
+      current.resolve([...current.untagged, line]);
+    } else {
+      current.reject(new Error(`IMAP error: ${status}`));
+    }
+  }
+}
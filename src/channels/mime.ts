@@ -0,0 +1,291 @@
+import { htmlToText } from "./text.js";
+
+export interface MailAddress {
+  address: string;
+  name?: string;
+}
+
+export interface MailPart {
+  /** MIME part number, e.g. `2` or `1.2`. */
+  partId: string;
+  contentType: string;
+  filename?: string;
+}
+
+export interface ParsedMail {
+  messageId?: string;
+  inReplyTo?: string;
+  references: string[];
+  subject: string;
+  from?: MailAddress;
+  replyTo?: MailAddress;
+  /** Unfolded header values by lower-cased name (the first occurrence). */
+  headers: Map<string, string>;
+  /** The text/plain body, or the text of the HTML body when there is none. */
+  text: string;
+  attachments: MailPart[];
+}
+
+interface Entity {
+  headers: Map<string, string>;
+  /** The body as a binary (latin1) string, so bytes survive until the charset is known. */
+  body: string;
+}
+
+interface Bodies {
+  plain?: string;
+  html?: string;
+  attachments: MailPart[];
+}
+
+function splitEntity(raw: string): Entity {
+  const match = /\r?\n\r?\n/.exec(raw);
+  const head = match ? raw.slice(0, match.index) : raw;
+  const body = match ? raw.slice(match.index + match[0].length) : "";
+  const headers = new Map<string, string>();
+  for (const line of head.replace(/\r?\n[ \t]+/g, " ").split(/\r?\n/)) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim());
+  }
+  return { headers, body };
+}
+
+/** `text/plain; charset="utf-8"` → the lower-cased value and its parameters (RFC 2231 values decoded). */
+function parseHeaderValue(value: string): { value: string; params: Record<string, string> } {
+  const [first, ...rest] = value.match(/(?:[^;"]+|"(?:\\.|[^"])*")+/g) ?? [""];
+  const params: Record<string, string> = {};
+  for (const part of rest) {
+    const eq = part.indexOf("=");
+    if (eq < 0) continue;
+    let name = part.slice(0, eq).trim().toLowerCase();
+    let paramValue = part
+      .slice(eq + 1)
+      .trim()
+      .replace(/^"(.*)"$/s, "$1")
+      .replace(/\\(.)/g, "$1");
+    if (name.endsWith("*")) {
+      name = name.slice(0, -1);
+      const [charset, , encoded] = paramValue.split("'");
+      if (encoded !== undefined) {
+        paramValue = decodeBytes(
+          encoded.replace(/%([0-9a-f]{2})/gi, (_m, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+          charset
+        );
+      }
+    }
+    params[name] = paramValue;
+  }
+  return { value: first.trim().toLowerCase(), params };
+}
+
+/** Decodes a binary (latin1) string as `charset`, falling back to UTF-8 for unknown charsets. */
+function decodeBytes(binary: string, charset = "utf-8"): string {
+  const bytes = Buffer.from(binary, "latin1");
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+}
+
+function decodeQuotedPrintable(value: string): string {
+  return value
+    .replace(/=\r?\n/g, "")
+    .replace(/=([0-9a-f]{2})/gi, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+function decodeTransfer(body: string, encoding: string | undefined): string {
+  switch (encoding?.toLowerCase()) {
+    case "base64":
+      return Buffer.from(body.replace(/\s+/g, ""), "base64").toString("latin1");
+    case "quoted-printable":
+      return decodeQuotedPrintable(body);
+    default:
+      return body;
+  }
+}
+
+/** Decodes RFC 2047 encoded words (`=?UTF-8?B?…?=`) in a header value. */
+export function decodeWords(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[bq]\?[^?]*\?=)\s+(?==\?)/gi, "$1")
+    .replace(/=\?([^?*]+)(?:\*[^?]*)?\?([bq])\?([^?]*)\?=/gi, (_match, charset: string, kind: string, text: string) => {
+      const binary =
+        kind.toLowerCase() === "b"
+          ? Buffer.from(text, "base64").toString("latin1")
+          : decodeQuotedPrintable(text.replace(/_/g, " "));
+      return decodeBytes(binary, charset);
+    });
+}
+
+/** Addresses of a `From`/`To`/`Reply-To` value, lower-cased. */
+export function parseAddressList(value: string | undefined): MailAddress[] {
+  if (!value) return [];
+  const entries = value.match(/(?:"(?:\\.|[^"])*"|<[^>]*>|[^,"<])+/g) ?? [];
+  const addresses: MailAddress[] = [];
+  for (const entry of entries) {
+    const angle = /<([^>]*)>/.exec(entry);
+    const address = (angle ? angle[1] : entry).trim().toLowerCase();
+    if (!address.includes("@")) continue;
+    const name = angle
+      ? decodeWords(
+          entry
+            .slice(0, angle.index)
+            .trim()
+            .replace(/^"(.*)"$/s, "$1")
+            .replace(/\\(.)/g, "$1")
+        )
+      : "";
+    addresses.push(name ? { address, name } : { address });
+  }
+  return addresses;
+}
+
+function messageIds(value: string | undefined): string[] {
+  return value?.match(/<[^<>\s]+>/g) ?? [];
+}
+
+function collectBodies(entity: Entity, partId: string, bodies: Bodies): void {
+  const type = parseHeaderValue(entity.headers.get("content-type") ?? "text/plain");
+  const disposition = parseHeaderValue(entity.headers.get("content-disposition") ?? "");
+  if (type.value.startsWith("multipart/") && type.params.boundary) {
+    const delimiter = `--${type.params.boundary}`;
+    const sections = entity.body.split(new RegExp(`\\r?\\n?${delimiter.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}`));
+    // The first section is the preamble; the one after the closing `--boundary--` the epilogue.
+    let index = 0;
+    for (const section of sections.slice(1)) {
+      if (section.startsWith("--")) break;
+      index += 1;
+      collectBodies(
+        splitEntity(section.replace(/^[ \t]*\r?\n/, "")),
+        partId ? `${partId}.${index}` : String(index),
+        bodies
+      );
+    }
+    return;
+  }
+  const filename = disposition.params.filename ?? type.params.name;
+  const inline = disposition.value !== "attachment" && !filename;
+  if (inline && (type.value === "text/plain" || type.value === "text/html")) {
+    const text = decodeBytes(
+      decodeTransfer(entity.body, entity.headers.get("content-transfer-encoding")),
+      type.params.charset
+    );
+    if (type.value === "text/plain") bodies.plain ??= text;
+    else bodies.html ??= text;
+    return;
+  }
+  if (type.value === "message/rfc822" || !inline || !type.value.startsWith("text/")) {
+    bodies.attachments.push({
+      partId: partId || "1",
+      contentType: type.value,
+      ...(filename ? { filename: decodeWords(filename) } : {})
+    });
+  }
+}
+
+/** Parses a raw RFC 5322 message: threading headers, addresses, the readable text and attachment names. */
+export function parseMail(raw: string | Buffer): ParsedMail {
+  const entity = splitEntity(typeof raw === "string" ? raw : raw.toString("latin1"));
+  const bodies: Bodies = { attachments: [] };
+  collectBodies(entity, "", bodies);
+  const header = (name: string) => entity.headers.get(name);
+  return {
+    messageId: messageIds(header("message-id"))[0],
+    inReplyTo: messageIds(header("in-reply-to"))[0],
+    references: messageIds(header("references")),
+    subject: decodeWords(decodeBytes(header("subject") ?? "")).trim(),
+    from: parseAddressList(decodeBytes(header("from") ?? ""))[0],
+    replyTo: parseAddressList(decodeBytes(header("reply-to") ?? ""))[0],
+    headers: entity.headers,
+    text: (bodies.plain ?? (bodies.html ? htmlToText(bodies.html) : "")).replace(/\r\n/g, "\n").trim(),
+    attachments: bodies.attachments
+  };
+}
+
+/** A header value, as RFC 2047 encoded words when it is not plain ASCII. */
+export function encodeHeader(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+  const words: string[] = [];
+  let chunk = "";
+  for (const char of value) {
+    if (Buffer.byteLength(chunk + char) > 45) {
+      words.push(chunk);
+      chunk = "";
+    }
+    chunk += char;
+  }
+  words.push(chunk);
+  return words.map((word) => `=?UTF-8?B?${Buffer.from(word).toString("base64")}?=`).join(" ");
+}
+
+function encodeQuotedPrintable(text: string): string {
+  return text
+    .replace(/\r?\n/g, "\n")
+    .split("\n")
+    .map((line) => {
+      let encoded = "";
+      for (const byte of Buffer.from(line)) {
+        const char = String.fromCharCode(byte);
+        encoded +=
+          (byte >= 33 && byte <= 126 && char !== "=") || char === " " || char === "\t"
+            ? char
+            : `=${byte.toString(16).toUpperCase().padStart(2, "0")}`;
+      }
+      // Trailing whitespace would be stripped in transit.
+      encoded = encoded.replace(
+        /[ \t]$/,
+        (char) => `=${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, "0")}`
+      );
+      const wrapped: string[] = [];
+      while (encoded.length > 76) {
+        let cut = 75;
+        // Never split an `=XX` escape.
+        const escape = encoded.lastIndexOf("=", cut);
+        if (escape > cut - 3) cut = escape;
+        wrapped.push(`${encoded.slice(0, cut)}=`);
+        encoded = encoded.slice(cut);
+      }
+      wrapped.push(encoded);
+      return wrapped.join("\r\n");
+    })
+    .join("\r\n");
+}
+
+function formatAddress(address: MailAddress): string {
+  if (!address.name) return address.address;
+  const name = /^[\x20-\x7e]*$/.test(address.name)
+    ? `"${address.name.replace(/(["\\])/g, "\\$1")}"`
+    : encodeHeader(address.name);
+  return `${name} <${address.address}>`;
+}
+
+/** A plain-text UTF-8 message, ready for SMTP `DATA`. */
+export function buildMail(mail: {
+  from: MailAddress;
+  to: MailAddress;
+  subject: string;
+  text: string;
+  messageId: string;
+  inReplyTo?: string;
+  references?: string[];
+  date?: Date;
+}): string {
+  const headers = [
+    `From: ${formatAddress(mail.from)}`,
+    `To: ${formatAddress(mail.to)}`,
+    `Subject: ${encodeHeader(mail.subject)}`,
+    `Date: ${(mail.date ?? new Date()).toUTCString()}`,
+    `Message-ID: ${mail.messageId}`,
+    ...(mail.inReplyTo ? [`In-Reply-To: ${mail.inReplyTo}`] : []),
+    ...(mail.references && mail.references.length > 0 ? [`References: ${mail.references.join("\r\n ")}`] : []),
+    // RFC 3834: tells other responders not to answer, so two assistants cannot loop.
+    "Auto-Submitted: auto-replied",
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: quoted-printable"
+  ];
+  return `${headers.join("\r\n")}\r\n\r\n${encodeQuotedPrintable(mail.text)}\r\n`;
+}
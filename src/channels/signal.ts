@@ -0,0 +1,404 @@
+import { type ChildProcess, spawn } from "node:child_process";
+import { createConnection, type Socket } from "node:net";
+import type pino from "pino";
+import type { Store } from "../core/store.js";
+import type { InboundAttachment, InboundMessage } from "../types.js";
+
+interface SignalConfig {
+  /** The registered signal-cli account, e.g. `+15145550100`. */
+  account: string;
+  /** Where `signal-cli daemon --tcp` listens for JSON-RPC. */
+  host: string;
+  port: number;
+  /** Start the daemon when nothing listens on `host:port`. */
+  autoStart: boolean;
+  signalCliPath: string;
+  /** In groups, only answer messages that mention the account. */
+  requireMention: boolean;
+  /** Group ids to answer in; empty means every group. */
+  groups: string[];
+  readReceipts: boolean;
+  typingIndicators: boolean;
+}
+
+interface SignalAttachment {
+  id?: string;
+  contentType?: string;
+  filename?: string | null;
+}
+
+interface SignalDataMessage {
+  timestamp?: number;
+  message?: string | null;
+  groupInfo?: { groupId?: string };
+  mentions?: Array<{ number?: string | null; uuid?: string }>;
+  attachments?: SignalAttachment[];
+}
+
+interface SignalEnvelope {
+  source?: string;
+  sourceNumber?: string | null;
+  sourceUuid?: string;
+  timestamp?: number;
+  dataMessage?: SignalDataMessage;
+  receiptMessage?: { isDelivery?: boolean; isRead?: boolean; isViewed?: boolean; timestamps?: number[] };
+  typingMessage?: { action?: string; groupId?: string };
+}
+
+interface RpcResponse {
+  id?: number;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code?: number; message?: string };
+}
+
+type MessageHandler = (message: InboundMessage) => Promise<void>;
+
+/** The store call the channel needs: delivery and read receipts. */
+export type SignalStore = Pick<Store, "recordDelivery">;
+
+const REQUEST_TIMEOUT_MS = 30000;
+/** signal-cli replaces each mention in the text with this character. */
+const MENTION_PLACEHOLDER = /\uFFFC/g;
+
+/**
+ * Newline-delimited JSON-RPC 2.0 over TCP, as spoken by `signal-cli daemon --tcp`. Notifications
+ * (incoming messages) go to `onNotification`.
+ */
+export class SignalRpcClient {
+  private socket: Socket | null = null;
+  private buffer = "";
+  private nextId = 1;
+  private readonly pending = new Map<
+    number,
+    { resolve: (value: unknown) => void; reject: (error: Error) => void; timer: NodeJS.Timeout }
+  >();
+
+  constructor(
+    private readonly onNotification: (method: string, params: unknown) => void = () => {},
+    private readonly onClose: () => void = () => {}
+  ) {}
+
+  get connected(): boolean {
+    return this.socket !== null;
+  }
+
+  connect(host: string, port: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = createConnection({ host, port });
+      socket.setEncoding("utf-8");
+      socket.once("connect", () => {
+        this.socket = socket;
+        resolve();
+      });
+      socket.on("data", (chunk: string) => this.receive(chunk));
+      socket.on("error", (error) => {
+        if (this.socket !== socket) reject(error);
+      });
+      socket.on("close", () => {
+        if (this.socket !== socket) return;
+        this.socket = null;
+        this.buffer = "";
+        for (const [id, entry] of this.pending) {
+          clearTimeout(entry.timer);
+          entry.reject(new Error("signal-cli connection closed"));
+          this.pending.delete(id);
+        }
+        this.onClose();
+      });
+    });
+  }
+
+  close(): void {
+    this.socket?.end();
+  }
+
+  request(method: string, params: Record<string, unknown> = {}): Promise<unknown> {
+    const socket = this.socket;
+    if (!socket) {
+      return Promise.reject(new Error("signal-cli daemon is not connected"));
+    }
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`signal-cli request "${method}" timed out`));
+      }, REQUEST_TIMEOUT_MS);
+      this.pending.set(id, { resolve, reject, timer });
+      socket.write(`${JSON.stringify({ jsonrpc: "2.0", id, method, params })}\n`);
+    });
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    let newline = this.buffer.indexOf("\n");
+    while (newline >= 0) {
+      const line = this.buffer.slice(0, newline).trim();
+      this.buffer = this.buffer.slice(newline + 1);
+      newline = this.buffer.indexOf("\n");
+      if (!line) continue;
+      let message: RpcResponse;
+      try {
+        message = JSON.parse(line) as RpcResponse;
+      } catch {
+        continue;
+      }
+      if (message.method) {
+        this.onNotification(message.method, message.params);
+        continue;
+      }
+      const entry = message.id === undefined ? undefined : this.pending.get(message.id);
+      if (!entry || message.id === undefined) continue;
+      this.pending.delete(message.id);
+      clearTimeout(entry.timer);
+      if (message.error) {
+        entry.reject(new Error(`signal-cli error: ${message.error.message ?? `code ${message.error.code ?? "?"}`}`));
+      } else {
+        entry.resolve(message.result);
+      }
+    }
+  }
+}
+
+/** One request over a fresh connection; rejects with the socket error when no daemon listens. */
+export async function signalRpcRequest(
+  address: { host: string; port: number },
+  method: string,
+  params: Record<string, unknown>
+): Promise<unknown> {
+  const client = new SignalRpcClient();
+  await client.connect(address.host, address.port);
+  try {
+    return await client.request(method, params);
+  } finally {
+    client.close();
+  }
+}
+
+/** `group:<groupId>:<user>` in a group, the user's number (or uuid) in a direct chat. */
+export function signalSenderId(user: string, groupId?: string): string {
+  return groupId ? `group:${groupId}:${user}` : user;
+}
+
+/** Where to send for a sender id, a `group:<groupId>` or a bare number (cron jobs, `/api/send`). */
+export function signalTarget(to: string): { recipient: string[] } | { groupId: string } {
+  if (to.startsWith("group:")) {
+    return { groupId: to.split(":")[1] };
+  }
+  return { recipient: [to] };
+}
+
+function attachmentKind(contentType: string | undefined): InboundAttachment["kind"] {
+  const type = contentType?.split("/")[0];
+  return type === "image" || type === "audio" || type === "video" ? type : "document";
+}
+
+/**
+ * Signal channel over a signal-cli JSON-RPC daemon: receives direct and group messages, answers
+ * over the same connection, sends read receipts and typing indicators, and records the delivery
+ * and read receipts of its own messages.
+ */
+export class SignalChannel {
+  private readonly rpc: SignalRpcClient;
+  private daemon: ChildProcess | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private attempts = 0;
+  private stopped = true;
+  private accountUuid: Promise<string | null> | null = null;
+
+  constructor(
+    private readonly config: SignalConfig,
+    private readonly onMessage: MessageHandler,
+    private readonly store: SignalStore,
+    private readonly logger?: pino.Logger
+  ) {
+    this.rpc = new SignalRpcClient(
+      (method, params) => this.handleNotification(method, params),
+      () => {
+        if (!this.stopped) this.scheduleReconnect();
+      }
+    );
+  }
+
+  get connected(): boolean {
+    return this.rpc.connected;
+  }
+
+  start(): void {
+    this.stopped = false;
+    this.connect();
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.rpc.close();
+    this.daemon?.kill();
+    this.daemon = null;
+  }
+
+  async send(to: string, text: string): Promise<void> {
+    const result = (await this.rpc.request("send", { ...signalTarget(to), message: text })) as {
+      timestamp?: number;
+    } | null;
+    // A sent message is identified by its timestamp; receipts refer back to it.
+    if (result?.timestamp) {
+      this.store.recordDelivery("signal", String(result.timestamp), to, "sent");
+    }
+  }
+
+  private connect(): void {
+    this.rpc
+      .connect(this.config.host, this.config.port)
+      .then(() => {
+        this.attempts = 0;
+        this.logger?.info({ host: this.config.host, port: this.config.port }, "Connected to signal-cli daemon");
+      })
+      .catch((error: NodeJS.ErrnoException) => {
+        if (error.code === "ECONNREFUSED" && this.config.autoStart && !this.daemon) {
+          this.spawnDaemon();
+        } else {
+          this.logger?.warn({ err: error }, "signal-cli daemon connection failed");
+        }
+        this.scheduleReconnect();
+      });
+  }
+
+  private spawnDaemon(): void {
+    const { signalCliPath, account, host, port } = this.config;
+    this.logger?.info({ account }, "Starting signal-cli daemon");
+    const daemon = spawn(signalCliPath, ["-a", account, "daemon", "--tcp", `${host}:${port}`], {
+      stdio: ["ignore", "ignore", "pipe"]
+    });
+    this.daemon = daemon;
+    daemon.stderr?.on("data", (chunk: Buffer) => {
+      this.logger?.debug({ output: chunk.toString("utf-8").trim() }, "signal-cli");
+    });
+    daemon.on("error", (error) => {
+      this.logger?.error({ err: error }, "Cannot start signal-cli; check channels.signal.signalCliPath");
+    });
+    daemon.on("exit", (code) => {
+      if (this.daemon !== daemon) return;
+      this.daemon = null;
+      if (!this.stopped) this.logger?.warn({ code }, "signal-cli daemon exited");
+    });
+  }
+
+  private scheduleReconnect(): void {
+    if (this.stopped || this.reconnectTimer) return;
+    // The JVM takes a few seconds to come up, so the first retries stay short.
+    const delay = Math.min(1000 * 2 ** this.attempts, 30000);
+    this.attempts += 1;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.stopped) this.connect();
+    }, delay);
+  }
+
+  private handleNotification(method: string, params: unknown): void {
+    if (method !== "receive") return;
+    const envelope = (params as { envelope?: SignalEnvelope } | undefined)?.envelope;
+    const source = envelope?.sourceNumber ?? envelope?.sourceUuid ?? envelope?.source;
+    if (!envelope || !source || source === this.config.account) return;
+    if (envelope.receiptMessage) {
+      this.recordReceipt(source, envelope.receiptMessage);
+    } else if (envelope.typingMessage) {
+      this.logger?.debug({ source, action: envelope.typingMessage.action }, "Signal typing indicator");
+    } else if (envelope.dataMessage) {
+      this.handleMessage(source, envelope).catch((error) => {
+        this.logger?.error({ err: error }, "Signal message handling failed");
+      });
+    }
+  }
+
+  private recordReceipt(source: string, receipt: NonNullable<SignalEnvelope["receiptMessage"]>): void {
+    const status = receipt.isRead || receipt.isViewed ? "read" : receipt.isDelivery ? "delivered" : null;
+    if (!status) return;
+    for (const timestamp of receipt.timestamps ?? []) {
+      try {
+        this.store.recordDelivery("signal", String(timestamp), source, status);
+      } catch (error) {
+        this.logger?.warn({ err: error }, "Failed to record Signal receipt");
+      }
+    }
+  }
+
+  private async handleMessage(source: string, envelope: SignalEnvelope): Promise<void> {
+    const data = envelope.dataMessage!;
+    const groupId = data.groupInfo?.groupId;
+    if (groupId) {
+      if (this.config.groups.length > 0 && !this.config.groups.includes(groupId)) return;
+      if (this.config.requireMention && !(await this.mentionsAccount(data.mentions ?? []))) return;
+    }
+    const attachments: InboundAttachment[] = (data.attachments ?? [])
+      .filter((attachment) => attachment.id)
+      .map((attachment) => ({
+        kind: attachmentKind(attachment.contentType),
+        id: attachment.id!,
+        ...(attachment.contentType ? { mimeType: attachment.contentType } : {}),
+        ...(attachment.filename ? { filename: attachment.filename } : {})
+      }));
+    const text = (data.message ?? "").replace(MENTION_PLACEHOLDER, "").trim();
+    const labels = attachments.map((a) => (a.filename ? `[${a.kind}: ${a.filename}]` : `[${a.kind}]`));
+    const content = [...labels, text].filter(Boolean).join(" ");
+    if (!content) return;
+
+    const senderId = signalSenderId(source, groupId);
+    const target = signalTarget(senderId);
+    const timestamp = data.timestamp ?? envelope.timestamp;
+    if (this.config.readReceipts && timestamp) {
+      this.notify("sendReceipt", { recipient: source, targetTimestamp: [timestamp], type: "read" });
+    }
+    if (this.config.typingIndicators) {
+      this.notify("sendTyping", target);
+    }
+    try {
+      await this.onMessage({
+        channel: "signal",
+        senderId,
+        ...(groupId ? { pairingId: source } : {}),
+        content,
+        ...(attachments.length > 0 ? { attachments } : {}),
+        reply: async (reply: string) => {
+          await this.send(senderId, reply);
+        }
+      });
+    } finally {
+      if (this.config.typingIndicators) {
+        this.notify("sendTyping", { ...target, stop: true });
+      }
+    }
+  }
+
+  private async mentionsAccount(mentions: NonNullable<SignalDataMessage["mentions"]>): Promise<boolean> {
+    if (mentions.some((mention) => mention.number === this.config.account)) return true;
+    // A mention carries no number when the account's number is hidden from the sender.
+    if (!mentions.some((mention) => mention.uuid)) return false;
+    const uuid = await this.resolveAccountUuid();
+    return uuid !== null && mentions.some((mention) => mention.uuid === uuid);
+  }
+
+  /** The account's uuid, asked of the daemon once; a failed lookup is retried on the next mention. */
+  private resolveAccountUuid(): Promise<string | null> {
+    this.accountUuid ??= this.rpc
+      .request("getUserStatus", { recipient: [this.config.account] })
+      .then((result) => (result as Array<{ uuid?: string }> | null)?.find((entry) => entry.uuid)?.uuid ?? null)
+      .catch((error) => {
+        this.logger?.warn({ err: error }, "Cannot resolve the Signal account uuid");
+        this.accountUuid = null;
+        return null;
+      });
+    return this.accountUuid;
+  }
+
+  /** Best-effort requests (receipts, typing) that must not hold up the reply. */
+  private notify(method: string, params: Record<string, unknown>): void {
+    this.rpc.request(method, params).catch((error) => {
+      this.logger?.debug({ err: error, method }, "signal-cli request failed");
+    });
+  }
+}
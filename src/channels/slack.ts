@@ -0,0 +1,326 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type pino from "pino";
+import WebSocket from "ws";
+import type { InboundMessage, WebhookResponse } from "../types.js";
+
+interface SlackConfig {
+  botToken: string;
+  /** App-level token (`xapp-…`) for Socket Mode. */
+  appToken?: string;
+  /** Verifies Events API requests posted to `/slack/events`. */
+  signingSecret?: string;
+  mode: "socket" | "events";
+  apiBaseUrl: string;
+}
+
+interface SlackEvent {
+  type: string;
+  subtype?: string;
+  channel?: string;
+  channel_type?: string;
+  user?: string;
+  bot_id?: string;
+  text?: string;
+  ts?: string;
+  thread_ts?: string;
+}
+
+interface SlashCommand {
+  command: string;
+  text?: string;
+  user_id: string;
+  channel_id: string;
+  response_url?: string;
+}
+
+interface SocketEnvelope {
+  type: string;
+  envelope_id?: string;
+  payload?: Record<string, unknown>;
+}
+
+type MessageHandler = (message: InboundMessage) => Promise<void>;
+
+/** Requests older than this are rejected as possible replays. */
+const MAX_REQUEST_AGE_SECONDS = 5 * 60;
+
+/**
+ * `<channelId>:<threadTs>:<userId>` for a thread, `<channelId>:<userId>` otherwise; a Slack thread
+ * is its own session.
+ */
+export function slackSenderId(channelId: string, userId: string, threadTs?: string): string {
+  return threadTs ? `${channelId}:${threadTs}:${userId}` : `${channelId}:${userId}`;
+}
+
+/** Where to post for a sender id or a bare channel id (cron jobs, `/api/send`). */
+export function slackTarget(to: string): { channel: string; threadTs?: string } {
+  const parts = to.split(":");
+  return parts.length === 3 ? { channel: parts[0], threadTs: parts[1] } : { channel: parts[0] };
+}
+
+/** Checks Slack's `v0` request signature: HMAC-SHA256 of `v0:<timestamp>:<body>` with the signing secret. */
+export function verifySlackSignature(
+  secret: string,
+  timestamp: string | undefined,
+  body: string,
+  signature: string | undefined,
+  now = Date.now()
+): boolean {
+  if (!timestamp || !signature || !/^\d+$/.test(timestamp)) return false;
+  if (Math.abs(now / 1000 - Number(timestamp)) > MAX_REQUEST_AGE_SECONDS) return false;
+  const expected = `v0=${createHmac("sha256", secret).update(`v0:${timestamp}:${body}`).digest("hex")}`;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(signature);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function header(headers: Record<string, string | string[] | undefined>, name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Receives DMs, app mentions and slash commands, either over Socket Mode or as signed Events API
+ * requests the gateway forwards to `handleRequest`. Slash commands become the matching chat
+ * command, e.g. `/skill install …`.
+ */
+export class SlackChannel {
+  private socket: WebSocket | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private attempts = 0;
+  private stopped = true;
+  /** Slack redelivers events it thinks were missed; these were already handled. */
+  private readonly seenEvents: string[] = [];
+  /** Set from `auth.test`; needed to strip the bot mention. */
+  botUserId: string | null = null;
+
+  constructor(
+    private readonly config: SlackConfig,
+    private readonly onMessage: MessageHandler,
+    private readonly logger?: pino.Logger
+  ) {}
+
+  start(): void {
+    this.stopped = false;
+    this.callSlack("auth.test", {})
+      .then((result) => {
+        this.botUserId = typeof result.user_id === "string" ? result.user_id : null;
+      })
+      .catch((error) => {
+        this.logger?.error({ err: error }, "Slack auth.test failed; check the bot token");
+      });
+    if (this.config.mode === "socket") {
+      this.connect().catch(() => this.scheduleReconnect());
+    }
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.socket?.close(1000);
+    this.socket = null;
+  }
+
+  async send(to: string, text: string): Promise<void> {
+    const target = slackTarget(to);
+    await this.callSlack("chat.postMessage", {
+      channel: target.channel,
+      text,
+      ...(target.threadTs ? { thread_ts: target.threadTs } : {})
+    });
+  }
+
+  /** Handles one Events API request (JSON events or form-encoded slash commands). */
+  handleRequest(
+    headers: Record<string, string | string[] | undefined>,
+    rawBody: string,
+    now = Date.now()
+  ): WebhookResponse {
+    const secret = this.config.signingSecret;
+    if (
+      !secret ||
+      !verifySlackSignature(
+        secret,
+        header(headers, "x-slack-request-timestamp"),
+        rawBody,
+        header(headers, "x-slack-signature"),
+        now
+      )
+    ) {
+      return { status: 401, body: { error: "Invalid Slack signature" } };
+    }
+    if (header(headers, "content-type")?.startsWith("application/x-www-form-urlencoded")) {
+      const command = Object.fromEntries(new URLSearchParams(rawBody)) as unknown as SlashCommand;
+      this.process("slash_commands", command);
+      return { status: 200 };
+    }
+    let body: Record<string, unknown>;
+    try {
+      body = JSON.parse(rawBody) as Record<string, unknown>;
+    } catch {
+      return { status: 400, body: { error: "Invalid JSON" } };
+    }
+    if (body.type === "url_verification") {
+      return { status: 200, body: { challenge: body.challenge } };
+    }
+    if (body.type === "event_callback") {
+      this.process("events_api", body);
+    }
+    return { status: 200 };
+  }
+
+  private async connect(): Promise<void> {
+    if (!this.config.appToken) {
+      throw new Error("Slack Socket Mode needs an appToken.");
+    }
+    const opened = await this.callSlack("apps.connections.open", {}, this.config.appToken);
+    if (this.stopped) return;
+    const socket = new WebSocket(String(opened.url));
+    this.socket = socket;
+    socket.on("message", (data) => {
+      let envelope: SocketEnvelope;
+      try {
+        envelope = JSON.parse(data.toString()) as SocketEnvelope;
+      } catch {
+        return;
+      }
+      if (envelope.type === "hello") {
+        this.attempts = 0;
+        return;
+      }
+      if (envelope.type === "disconnect") {
+        socket.close(1000);
+        return;
+      }
+      // Acknowledge first: Slack retries anything not acknowledged within three seconds.
+      if (envelope.envelope_id) {
+        socket.send(JSON.stringify({ envelope_id: envelope.envelope_id }));
+      }
+      if (envelope.payload && (envelope.type === "events_api" || envelope.type === "slash_commands")) {
+        this.process(envelope.type, envelope.payload);
+      }
+    });
+    socket.on("close", () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      if (!this.stopped) this.scheduleReconnect();
+    });
+    socket.on("error", (error) => {
+      this.logger?.warn({ err: error }, "Slack Socket Mode connection error");
+    });
+  }
+
+  private scheduleReconnect(): void {
+    if (this.stopped) return;
+    const delay = Math.min(1000 * 2 ** this.attempts, 60000);
+    this.attempts += 1;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect().catch((error) => {
+        this.logger?.warn({ err: error }, "Slack Socket Mode reconnect failed");
+        this.scheduleReconnect();
+      });
+    }, delay);
+  }
+
+  private process(type: "events_api" | "slash_commands", payload: unknown): void {
+    const handled =
+      type === "slash_commands"
+        ? this.handleCommand(payload as SlashCommand)
+        : this.handleEvent(payload as { event_id?: string; event?: SlackEvent });
+    handled.catch((error) => {
+      this.logger?.error({ err: error }, "Slack event handling failed");
+    });
+  }
+
+  private async handleEvent(envelope: { event_id?: string; event?: SlackEvent }): Promise<void> {
+    if (envelope.event_id) {
+      if (this.seenEvents.includes(envelope.event_id)) return;
+      this.seenEvents.push(envelope.event_id);
+      if (this.seenEvents.length > 500) this.seenEvents.shift();
+    }
+    const event = envelope.event;
+    if (!event?.channel || !event.user || event.bot_id || event.subtype || event.user === this.botUserId) {
+      return;
+    }
+    // Channel messages only arrive as app mentions; plain `message` events are DMs.
+    const isMention = event.type === "app_mention";
+    if (!isMention && !(event.type === "message" && event.channel_type === "im")) {
+      return;
+    }
+    const mention = this.botUserId ? new RegExp(`<@${this.botUserId}>`, "g") : /^\s*<@[A-Z0-9]+>/;
+    const content = (event.text ?? "").replace(mention, "").trim();
+    if (!content) {
+      return;
+    }
+    // A mention in a channel starts a thread under it; DMs stay flat unless the user threads them.
+    const threadTs = event.thread_ts ?? (isMention ? event.ts : undefined);
+    const senderId = slackSenderId(event.channel, event.user, threadTs);
+    await this.onMessage({
+      channel: "slack",
+      senderId,
+      pairingId: event.user,
+      content,
+      reply: async (text: string) => {
+        await this.send(senderId, text);
+      }
+    });
+  }
+
+  private async handleCommand(command: SlashCommand): Promise<void> {
+    const content = `${command.command} ${command.text ?? ""}`.trim();
+    const senderId = slackSenderId(command.channel_id, command.user_id);
+    await this.onMessage({
+      channel: "slack",
+      senderId,
+      pairingId: command.user_id,
+      content,
+      reply: async (text: string) => {
+        if (command.response_url) {
+          await this.respond(command.response_url, text);
+        } else {
+          await this.send(senderId, text);
+        }
+      }
+    });
+  }
+
+  /** Answers a slash command through its `response_url`, visible only to the user who ran it. */
+  private async respond(url: string, text: string): Promise<void> {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ response_type: "ephemeral", text })
+    });
+    if (!response.ok) {
+      throw new Error(`Slack response_url error (${response.status}): ${await response.text()}`);
+    }
+  }
+
+  private async callSlack(
+    method: string,
+    payload: Record<string, unknown>,
+    token = this.config.botToken
+  ): Promise<Record<string, unknown>> {
+    const response = await fetch(`${this.config.apiBaseUrl}/${method}`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json; charset=utf-8"
+      },
+      body: JSON.stringify(payload)
+    });
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(`Slack API error (${response.status}): ${body}`);
+    }
+    const json = (await response.json()) as Record<string, unknown>;
+    if (json.ok !== true) {
+      throw new Error(`Slack API method "${method}" failed: ${String(json.error ?? "unknown error")}`);
+    }
+    return json;
+  }
+}
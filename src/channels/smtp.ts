@@ -0,0 +1,162 @@
+import { connect as connectTcp, type Socket } from "node:net";
+import { connect as connectTls } from "node:tls";
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /** Implicit TLS (port 465); otherwise STARTTLS is used when the server offers it. */
+  secure: boolean;
+  user?: string;
+  password?: string;
+  /** Sends AUTH over a connection without TLS when the server offers no STARTTLS. */
+  allowInsecureAuth?: boolean;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+const REPLY_TIMEOUT_MS = 60000;
+
+/** Reads SMTP replies (`250-…` continuation lines up to the final `250 …`) from one socket. */
+class SmtpConnection {
+  private buffer = "";
+  private lines: string[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private replies: SmtpReply[] = [];
+  private error: Error | null = null;
+
+  constructor(readonly socket: Socket) {
+    socket.setTimeout(REPLY_TIMEOUT_MS);
+    socket.on("data", (chunk: Buffer) => this.receive(chunk.toString("utf-8")));
+    socket.on("timeout", () => socket.destroy(new Error("SMTP server timed out")));
+    socket.on("error", (error) => this.fail(error));
+    socket.on("close", () => this.fail(new Error("SMTP connection closed")));
+  }
+
+  /** Stops reading, so the socket can be handed to TLS. */
+  detach(): void {
+    this.socket.removeAllListeners("data");
+    this.socket.removeAllListeners("timeout");
+    this.socket.removeAllListeners("error");
+    this.socket.removeAllListeners("close");
+  }
+
+  read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.error) return Promise.reject(this.error);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  /** Sends a command and checks the reply code's first digit (2 = done, 3 = go on). */
+  async command(line: string, expect: 2 | 3 = 2): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expect, line.split(" ")[0]);
+  }
+
+  async expect(expect: 2 | 3, label: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (Math.floor(reply.code / 100) !== expect) {
+      throw new Error(`SMTP ${label} failed: ${reply.code} ${reply.lines.join(" ")}`);
+    }
+    return reply;
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    let end = this.buffer.indexOf("\r\n");
+    while (end >= 0) {
+      const line = this.buffer.slice(0, end);
+      this.buffer = this.buffer.slice(end + 2);
+      end = this.buffer.indexOf("\r\n");
+      const match = /^(\d{3})([ -]?)(.*)$/.exec(line);
+      if (!match) continue;
+      this.lines.push(match[3]);
+      if (match[2] === "-") continue;
+      const reply = { code: Number(match[1]), lines: this.lines };
+      this.lines = [];
+      if (this.waiting) {
+        this.waiting.resolve(reply);
+        this.waiting = null;
+      } else {
+        this.replies.push(reply);
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    this.error ??= error;
+    this.waiting?.reject(error);
+    this.waiting = null;
+  }
+}
+
+function open(config: SmtpConfig): Promise<Socket> {
+  return new Promise((resolve, reject) => {
+    const { host, port } = config;
+    const socket = config.secure
+      ? connectTls({ host, port, servername: host }, () => resolve(socket))
+      : connectTcp({ host, port }, () => resolve(socket));
+    socket.once("error", reject);
+  });
+}
+
+function upgrade(socket: Socket, host: string): Promise<Socket> {
+  return new Promise((resolve, reject) => {
+    const secure = connectTls({ socket, servername: host }, () => resolve(secure));
+    secure.once("error", reject);
+  });
+}
+
+function extensions(reply: SmtpReply): Set<string> {
+  return new Set(reply.lines.slice(1).map((line) => line.toUpperCase()));
+}
+
+/**
+ * Sends one message: EHLO, STARTTLS when offered, AUTH PLAIN when credentials are set (only over TLS
+ * unless `allowInsecureAuth`), then MAIL/RCPT/DATA. `data` is the full RFC 5322 message with CRLF line endings.
+ */
+export async function sendMail(
+  config: SmtpConfig,
+  envelope: { from: string; to: string[] },
+  data: string,
+  clientName = "localhost"
+): Promise<void> {
+  let connection = new SmtpConnection(await open(config));
+  try {
+    await connection.expect(2, "greeting");
+    let ehlo = await connection.command(`EHLO ${clientName}`);
+    let encrypted = config.secure;
+    if (!encrypted && extensions(ehlo).has("STARTTLS")) {
+      await connection.command("STARTTLS");
+      connection.detach();
+      connection = new SmtpConnection(await upgrade(connection.socket, config.host));
+      encrypted = true;
+      ehlo = await connection.command(`EHLO ${clientName}`);
+    }
+    const auth = [...extensions(ehlo)].find((line) => line.startsWith("AUTH"));
+    if (config.user && config.password && auth) {
+      if (!encrypted && !config.allowInsecureAuth) {
+        throw new Error("SMTP server offers no STARTTLS; refusing to send credentials in cleartext");
+      }
+      const token = Buffer.from(`\0${config.user}\0${config.password}`).toString("base64");
+      await connection.command(`AUTH PLAIN ${token}`);
+    }
+    await connection.command(`MAIL FROM:<${envelope.from}>`);
+    for (const recipient of envelope.to) {
+      await connection.command(`RCPT TO:<${recipient}>`);
+    }
+    await connection.command("DATA", 3);
+    // Dot-stuffing: a line starting with "." gets another one so it cannot end the message.
+    const body = data.replace(/\r?\n/g, "\r\n").replace(/^\./gm, "..");
+    connection.socket.write(`${body}${body.endsWith("\r\n") ? "" : "\r\n"}.\r\n`);
+    await connection.expect(2, "DATA");
+    await connection.command("QUIT").catch(() => undefined);
+  } finally {
+    connection.socket.destroy();
+  }
+}
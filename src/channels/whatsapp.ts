@@ -0,0 +1,255 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type pino from "pino";
+import type { Store } from "../core/store.js";
+import type { DeliveryStatus, InboundAttachment, InboundMessage, WebhookResponse } from "../types.js";
+import { splitMessage } from "./text.js";
+
+interface WhatsAppConfig {
+  accessToken: string;
+  phoneNumberId: string;
+  /** Meta app secret; signs every webhook POST (`X-Hub-Signature-256`). */
+  appSecret: string;
+  /** Chosen by you and entered in the Meta dashboard; answers the subscription handshake. */
+  verifyToken: string;
+  apiBaseUrl: string;
+  /** Approved template sent instead of text outside the 24-hour customer service window. */
+  template?: { name: string; language: string; textParameter: boolean };
+}
+
+interface WhatsAppMedia {
+  id: string;
+  mime_type?: string;
+  caption?: string;
+  filename?: string;
+}
+
+interface WhatsAppMessage {
+  from: string;
+  id: string;
+  type: string;
+  text?: { body?: string };
+  image?: WhatsAppMedia;
+  audio?: WhatsAppMedia;
+  video?: WhatsAppMedia;
+  document?: WhatsAppMedia;
+  sticker?: WhatsAppMedia;
+  location?: { latitude: number; longitude: number; name?: string; address?: string };
+  button?: { text?: string };
+  interactive?: { button_reply?: { title?: string }; list_reply?: { title?: string } };
+}
+
+interface WhatsAppStatus {
+  id: string;
+  status: string;
+  recipient_id: string;
+  errors?: Array<{ code?: number; title?: string; message?: string }>;
+}
+
+interface WebhookBody {
+  object?: string;
+  entry?: Array<{ changes?: Array<{ value?: { messages?: WhatsAppMessage[]; statuses?: WhatsAppStatus[] } }> }>;
+}
+
+type MessageHandler = (message: InboundMessage) => Promise<void>;
+
+/** The store calls the channel needs: the customer service window and delivery receipts. */
+export type WhatsAppStore = Pick<Store, "lastInboundAt" | "recordDelivery">;
+
+/** Free-form messages are only allowed this long after the customer last wrote. */
+export const SESSION_WINDOW_MS = 24 * 60 * 60 * 1000;
+const MAX_TEXT_LENGTH = 4096;
+const MAX_TEMPLATE_PARAMETER_LENGTH = 1024;
+const DELIVERY_STATUSES = new Set<DeliveryStatus>(["sent", "delivered", "read", "failed"]);
+const MEDIA_KINDS = ["image", "audio", "video", "document", "sticker"] as const;
+
+/** Checks `X-Hub-Signature-256`: `sha256=` + HMAC-SHA256 of the raw body with the app secret. */
+export function verifyWhatsAppSignature(appSecret: string, body: string, signature: string | undefined): boolean {
+  if (!signature?.startsWith("sha256=")) return false;
+  const expected = Buffer.from(`sha256=${createHmac("sha256", appSecret).update(body).digest("hex")}`);
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/** Text and attachments of an inbound message; null for kinds the assistant cannot use (reactions). */
+export function parseWhatsAppMessage(
+  message: WhatsAppMessage
+): { content: string; attachments: InboundAttachment[] } | null {
+  const kind = MEDIA_KINDS.find((candidate) => candidate === message.type);
+  const media = kind ? message[kind] : undefined;
+  if (kind && media?.id) {
+    const attachment: InboundAttachment = {
+      kind,
+      id: media.id,
+      ...(media.mime_type ? { mimeType: media.mime_type } : {}),
+      ...(media.filename ? { filename: media.filename } : {}),
+      ...(media.caption ? { caption: media.caption } : {})
+    };
+    const label = media.filename ? `[${kind}: ${media.filename}]` : `[${kind}]`;
+    return { content: [label, media.caption].filter(Boolean).join(" "), attachments: [attachment] };
+  }
+  let content: string | undefined;
+  if (message.type === "text") {
+    content = message.text?.body;
+  } else if (message.type === "location" && message.location) {
+    const { latitude, longitude, name, address } = message.location;
+    content = ["[location]", name, address, `(${latitude}, ${longitude})`].filter(Boolean).join(" ");
+  } else if (message.type === "button") {
+    content = message.button?.text;
+  } else if (message.type === "interactive") {
+    content = message.interactive?.button_reply?.title ?? message.interactive?.list_reply?.title;
+  }
+  content = content?.trim();
+  return content ? { content, attachments: [] } : null;
+}
+
+/**
+ * WhatsApp Cloud API channel. Meta posts messages and delivery receipts to the gateway's
+ * `/webhooks/whatsapp` route; replies go out through the Graph API.
+ */
+export class WhatsAppChannel {
+  /** Meta redelivers webhooks it considers unanswered; these were already handled. */
+  private readonly seenMessages: string[] = [];
+
+  constructor(
+    private readonly config: WhatsAppConfig,
+    private readonly onMessage: MessageHandler,
+    private readonly store: WhatsAppStore,
+    private readonly logger?: pino.Logger
+  ) {}
+
+  /** The `GET` subscription handshake: echo `hub.challenge` when the verify token matches. */
+  handleVerification(query: Record<string, unknown>): WebhookResponse {
+    if (query["hub.mode"] === "subscribe" && query["hub.verify_token"] === this.config.verifyToken) {
+      return { status: 200, body: String(query["hub.challenge"] ?? "") };
+    }
+    return { status: 403, body: { error: "Verification token mismatch" } };
+  }
+
+  handleWebhook(headers: Record<string, string | string[] | undefined>, rawBody: string): WebhookResponse {
+    const signature = headers["x-hub-signature-256"];
+    if (!verifyWhatsAppSignature(this.config.appSecret, rawBody, Array.isArray(signature) ? signature[0] : signature)) {
+      return { status: 401, body: { error: "Invalid signature" } };
+    }
+    let body: WebhookBody;
+    try {
+      body = JSON.parse(rawBody) as WebhookBody;
+    } catch {
+      return { status: 400, body: { error: "Invalid JSON" } };
+    }
+    for (const change of (body.entry ?? []).flatMap((entry) => entry.changes ?? [])) {
+      for (const status of change.value?.statuses ?? []) {
+        this.recordStatus(status);
+      }
+      for (const message of change.value?.messages ?? []) {
+        // Answered after the 200: Meta retries webhooks that take too long.
+        this.handleMessage(message).catch((error) => {
+          this.logger?.error({ err: error }, "WhatsApp message handling failed");
+        });
+      }
+    }
+    return { status: 200 };
+  }
+
+  /**
+   * Sends to a WhatsApp number. Outside the 24-hour window since the customer's last message,
+   * only the configured template may be sent.
+   */
+  async send(to: string, text: string): Promise<void> {
+    const lastInbound = this.store.lastInboundAt("whatsapp", to);
+    if (lastInbound && Date.now() - Date.parse(lastInbound) < SESSION_WINDOW_MS) {
+      await this.sendText(to, text);
+      return;
+    }
+    if (!this.config.template) {
+      throw new Error(
+        `${to} has not written in the last 24 hours, so WhatsApp only allows a template message; ` +
+          "set channels.whatsapp.template."
+      );
+    }
+    await this.sendTemplate(to, text, this.config.template);
+  }
+
+  private recordStatus(status: WhatsAppStatus): void {
+    if (!DELIVERY_STATUSES.has(status.status as DeliveryStatus)) return;
+    const error = status.errors?.[0];
+    try {
+      this.store.recordDelivery(
+        "whatsapp",
+        status.id,
+        status.recipient_id,
+        status.status as DeliveryStatus,
+        error ? (error.message ?? error.title ?? `error ${error.code ?? "?"}`) : null
+      );
+    } catch (err) {
+      this.logger?.warn({ err }, "Failed to record WhatsApp delivery status");
+    }
+  }
+
+  private async handleMessage(message: WhatsAppMessage): Promise<void> {
+    if (this.seenMessages.includes(message.id)) return;
+    this.seenMessages.push(message.id);
+    if (this.seenMessages.length > 500) this.seenMessages.shift();
+    const parsed = parseWhatsAppMessage(message);
+    if (!parsed) return;
+    await this.onMessage({
+      channel: "whatsapp",
+      senderId: message.from,
+      content: parsed.content,
+      ...(parsed.attachments.length > 0 ? { attachments: parsed.attachments } : {}),
+      // A reply answers a message that just arrived, so the window is open.
+      reply: async (text: string) => {
+        await this.sendText(message.from, text);
+      }
+    });
+  }
+
+  private async sendText(to: string, text: string): Promise<void> {
+    for (const body of splitMessage(text, MAX_TEXT_LENGTH)) {
+      await this.post(to, { type: "text", text: { body } });
+    }
+  }
+
+  private async sendTemplate(
+    to: string,
+    text: string,
+    template: NonNullable<WhatsAppConfig["template"]>
+  ): Promise<void> {
+    await this.post(to, {
+      type: "template",
+      template: {
+        name: template.name,
+        language: { code: template.language },
+        ...(template.textParameter
+          ? {
+              components: [
+                {
+                  type: "body",
+                  parameters: [{ type: "text", text: text.slice(0, MAX_TEMPLATE_PARAMETER_LENGTH) }]
+                }
+              ]
+            }
+          : {})
+      }
+    });
+  }
+
+  private async post(to: string, message: Record<string, unknown>): Promise<void> {
+    const response = await fetch(`${this.config.apiBaseUrl}/${this.config.phoneNumberId}/messages`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.config.accessToken}`,
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({ messaging_product: "whatsapp", recipient_type: "individual", to, ...message })
+    });
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(`WhatsApp API error (${response.status}): ${body}`);
+    }
+    const json = (await response.json()) as { messages?: Array<{ id?: string }> };
+    const id = json.messages?.[0]?.id;
+    if (id) {
+      this.store.recordDelivery("whatsapp", id, to, "sent");
+    }
+  }
+}
@@ -1,14 +1,20 @@
 import { ensureConfig } from "../core/config.js";
+import { Store } from "../core/store.js";
 import { AgentRuntime } from "../providers/agent.js";
 
 export async function runAgent(message: string, thinking: "low" | "medium" | "high") {
   const config = await ensureConfig();
   const agent = new AgentRuntime(config);
-  const reply = await agent.respond({
-    input: message,
-    history: [],
-    thinking
-  });
-  process.stdout.write(`${reply}\n`);
+  const store = await Store.open();
+  try {
+    const reply = await agent.respond({
+      input: message,
+      history: [],
+      thinking,
+      onUsage: (usage) => store.addModelUsage(usage, { channel: "cli" })
+    });
+    process.stdout.write(`${reply}\n`);
+  } finally {
+    store.close();
+  }
 }
-
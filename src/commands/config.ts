@@ -0,0 +1,101 @@
+import { existsSync } from "node:fs";
+import { writeFile } from "node:fs/promises";
+import { z } from "zod";
+import {
+  configJsonSchema,
+  configSecretRefs,
+  formatConfigError,
+  loadConfig,
+  parseConfigPath,
+  readConfigValue,
+  saveConfig,
+  setConfigValue,
+  unsetConfigValue
+} from "../core/config.js";
+import { CONFIG_PATH } from "../utils/paths.js";
+
+function printValue(value: unknown, json?: boolean): void {
+  const text = typeof value === "string" && !json ? value : JSON.stringify(value, null, 2);
+  process.stdout.write(`${text}\n`);
+}
+
+export async function runConfigGet(path: string | undefined, options: { json?: boolean }): Promise<void> {
+  const config = await loadConfig();
+  const value = readConfigValue(config, path ? parseConfigPath(path) : []);
+  if (value === undefined) {
+    throw new Error(`"${path}" is not set.`);
+  }
+  printValue(value, options.json);
+}
+
+/** `value` is parsed as JSON when it is valid JSON the schema accepts, otherwise kept as a string. */
+export async function runConfigSet(path: string, value: string): Promise<void> {
+  const config = await loadConfig();
+  const parts = parseConfigPath(path);
+  let parsed: unknown = value;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    // Plain text such as a model name or an `env:NAME` reference.
+  }
+  try {
+    setConfigValue(config, parts, parsed);
+  } catch (error) {
+    // `config set agent.assistantName 42` means the string "42".
+    if (!(error instanceof z.ZodError) || typeof parsed === "string") {
+      throw new Error(formatConfigError(error));
+    }
+    try {
+      setConfigValue(config, parts, value);
+    } catch {
+      throw new Error(formatConfigError(error));
+    }
+  }
+  await saveConfig(config);
+  process.stdout.write(`Set ${path}. A running gateway picks the change up automatically.\n`);
+}
+
+export async function runConfigUnset(path: string): Promise<void> {
+  const config = await loadConfig();
+  let removed: boolean;
+  try {
+    removed = unsetConfigValue(config, parseConfigPath(path));
+  } catch (error) {
+    throw new Error(formatConfigError(error));
+  }
+  if (!removed) {
+    process.stdout.write(`${path} is not set.\n`);
+    return;
+  }
+  await saveConfig(config);
+  process.stdout.write(`Unset ${path}; its default applies, if it has one.\n`);
+}
+
+export async function runConfigValidate(): Promise<void> {
+  if (!existsSync(CONFIG_PATH)) {
+    process.stdout.write(`No config at ${CONFIG_PATH}; the defaults apply.\n`);
+    return;
+  }
+  let config;
+  try {
+    config = await loadConfig();
+  } catch (error) {
+    process.stdout.write(`${CONFIG_PATH} is invalid:\n${formatConfigError(error)}\n`);
+    process.exitCode = 1;
+    return;
+  }
+  for (const ref of configSecretRefs(config).filter((entry) => !entry.resolved)) {
+    process.stdout.write(`warning: ${ref.path}: ${ref.ref} does not resolve; the field is left unset\n`);
+  }
+  process.stdout.write(`${CONFIG_PATH} is valid.\n`);
+}
+
+export async function runConfigSchema(options: { out?: string }): Promise<void> {
+  const schema = `${JSON.stringify(configJsonSchema(), null, 2)}\n`;
+  if (!options.out) {
+    process.stdout.write(schema);
+    return;
+  }
+  await writeFile(options.out, schema, "utf-8");
+  process.stdout.write(`JSON Schema written to ${options.out}\n`);
+}
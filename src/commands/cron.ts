@@ -0,0 +1,123 @@
+import { ensureConfig } from "../core/config.js";
+import { Store } from "../core/store.js";
+import { normalizeCronJob } from "../core/scheduler.js";
+import type { ChannelName, CronJobRecord, CronJobTarget } from "../types.js";
+import type { AgentAction } from "../core/actions.js";
+import type { IntegrationName } from "../integrations/types.js";
+
+export interface CronAddOptions {
+  name: string;
+  cron?: string;
+  at?: string;
+  tz?: string;
+  prompt?: string;
+  action?: string;
+  app?: IntegrationName;
+  integrationAction?: string;
+  params?: string;
+  channel?: ChannelName;
+  to?: string;
+}
+
+function describeTarget(target: CronJobTarget): string {
+  if (target.type === "agent") return `agent: ${target.prompt.slice(0, 40)}`;
+  if (target.type === "action") return `action: ${target.action.type}`;
+  return `integration: ${target.app}.${target.action}`;
+}
+
+function formatJob(job: CronJobRecord): string {
+  return [
+    `#${job.id} ${job.name}`,
+    `${job.kind}="${job.expression}" tz=${job.timezone}`,
+    `enabled=${job.enabled ? "yes" : "no"}`,
+    `next=${job.nextRunAt ?? "-"}`,
+    `last=${job.lastStatus ?? "never"}`,
+    `(${describeTarget(job.target)})`
+  ].join(" ");
+}
+
+function buildTarget(options: CronAddOptions): CronJobTarget {
+  const delivery = options.channel && options.to ? { channel: options.channel, to: options.to } : {};
+  if (options.prompt) {
+    return { type: "agent", prompt: options.prompt, ...delivery };
+  }
+  if (options.action) {
+    return { type: "action", action: JSON.parse(options.action) as AgentAction, ...delivery };
+  }
+  if (options.app && options.integrationAction) {
+    return {
+      type: "integration",
+      app: options.app,
+      action: options.integrationAction,
+      params: options.params ? (JSON.parse(options.params) as Record<string, unknown>) : undefined
+    };
+  }
+  throw new Error("Provide --prompt, --action, or --app with --integration-action.");
+}
+
+export async function runCronList(): Promise<void> {
+  const store = await Store.open();
+  try {
+    const jobs = store.listCronJobs();
+    if (jobs.length === 0) {
+      process.stdout.write("No cron jobs configured.\n");
+      return;
+    }
+    for (const job of jobs) {
+      process.stdout.write(`${formatJob(job)}\n`);
+      if (job.lastResult) {
+        process.stdout.write(`    last result: ${job.lastResult.slice(0, 200)}\n`);
+      }
+    }
+  } finally {
+    store.close();
+  }
+}
+
+export async function runCronAdd(options: CronAddOptions): Promise<void> {
+  if (Boolean(options.cron) === Boolean(options.at)) {
+    throw new Error("Provide exactly one of --cron or --at.");
+  }
+  const input = normalizeCronJob({
+    name: options.name,
+    kind: options.cron ? "cron" : "at",
+    expression: options.cron ?? options.at,
+    timezone: options.tz,
+    target: buildTarget(options)
+  });
+  const store = await Store.open();
+  try {
+    const job = store.addCronJob(input);
+    process.stdout.write(`Cron job added: ${formatJob(job)}\n`);
+  } finally {
+    store.close();
+  }
+}
+
+export async function runCronRemove(id: number): Promise<void> {
+  const store = await Store.open();
+  try {
+    if (!store.removeCronJob(id)) {
+      throw new Error(`Cron job ${id} not found.`);
+    }
+    process.stdout.write(`Cron job ${id} removed.\n`);
+  } finally {
+    store.close();
+  }
+}
+
+export async function runCronRun(id: number): Promise<void> {
+  const config = await ensureConfig();
+  const port = config.gateway.port ?? 18789;
+  const response = await fetch(`http://127.0.0.1:${port}/api/cron/${id}/run`, {
+    method: "POST",
+    headers: config.gateway.authToken ? { "x-gnamiai-token": config.gateway.authToken } : {}
+  });
+  if (!response.ok) {
+    const body = await response.text();
+    throw new Error(`Gateway cron run failed (${response.status}): ${body}`);
+  }
+  const { job } = (await response.json()) as { job: CronJobRecord };
+  process.stdout.write(`${formatJob(job)}\n`);
+  process.stdout.write(`Result: ${job.lastResult ?? "(none)"}\n`);
+}
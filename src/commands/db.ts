@@ -0,0 +1,120 @@
+import { existsSync } from "node:fs";
+import { copyFile, mkdir, rm } from "node:fs/promises";
+import Database from "better-sqlite3";
+import {
+  LATEST_SCHEMA_VERSION,
+  backupDatabase,
+  migrateDatabase,
+  schemaStatus,
+  type MigrationResult
+} from "../core/migrations.js";
+import { DATA_DIR, DB_PATH } from "../utils/paths.js";
+
+function printMigrationResult(result: MigrationResult): void {
+  if (result.backupPath) {
+    process.stdout.write(`Backup written to ${result.backupPath}\n`);
+  }
+  if (result.applied.length === 0) {
+    process.stdout.write(`Schema is up to date (version ${LATEST_SCHEMA_VERSION}).\n`);
+    return;
+  }
+  for (const migration of result.applied) {
+    process.stdout.write(`Applied ${migration.version}: ${migration.name}\n`);
+  }
+}
+
+export async function runDbStatus(options: { json?: boolean }): Promise<void> {
+  if (!existsSync(DB_PATH)) {
+    process.stdout.write(`No database at ${DB_PATH} yet; it is created on first use.\n`);
+    return;
+  }
+  const db = new Database(DB_PATH, { readonly: true, fileMustExist: true });
+  try {
+    const status = schemaStatus(db);
+    if (options.json) {
+      process.stdout.write(`${JSON.stringify({ path: DB_PATH, ...status }, null, 2)}\n`);
+      return;
+    }
+    process.stdout.write(`Database: ${DB_PATH}\n`);
+    process.stdout.write(`Schema version: ${status.current} (latest ${status.latest})\n`);
+    for (const migration of status.applied) {
+      process.stdout.write(`  applied ${migration.version}: ${migration.name} at ${migration.appliedAt}\n`);
+    }
+    for (const migration of status.pending) {
+      process.stdout.write(`  pending ${migration.version}: ${migration.name}\n`);
+    }
+  } finally {
+    db.close();
+  }
+}
+
+export async function runDbMigrate(): Promise<void> {
+  await mkdir(DATA_DIR, { recursive: true });
+  const db = new Database(DB_PATH);
+  try {
+    printMigrationResult(await migrateDatabase(db));
+  } finally {
+    db.close();
+  }
+}
+
+export async function runDbBackup(options: { out?: string }): Promise<void> {
+  if (!existsSync(DB_PATH)) {
+    throw new Error(`No database at ${DB_PATH} to back up.`);
+  }
+  const db = new Database(DB_PATH, { readonly: true, fileMustExist: true });
+  try {
+    process.stdout.write(`Backup written to ${await backupDatabase(db, options.out)}\n`);
+  } finally {
+    db.close();
+  }
+}
+
+/** Replaces the database with a backup; the current file is backed up first so this can be undone. */
+export async function runDbRestore(file: string): Promise<void> {
+  if (!existsSync(file)) {
+    throw new Error(`Backup file not found: ${file}`);
+  }
+  const source = new Database(file, { readonly: true, fileMustExist: true });
+  try {
+    let integrity: unknown;
+    try {
+      integrity = source.pragma("integrity_check", { simple: true });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`${file} is not a readable SQLite database: ${reason}`);
+    }
+    if (integrity !== "ok") {
+      throw new Error(`${file} failed the SQLite integrity check: ${String(integrity)}`);
+    }
+    const { current } = schemaStatus(source);
+    if (current > LATEST_SCHEMA_VERSION) {
+      throw new Error(
+        `${file} has schema version ${current}, newer than this build supports (${LATEST_SCHEMA_VERSION}).`
+      );
+    }
+  } finally {
+    source.close();
+  }
+
+  if (existsSync(DB_PATH)) {
+    const existing = new Database(DB_PATH, { readonly: true, fileMustExist: true });
+    try {
+      process.stdout.write(`Current database saved to ${await backupDatabase(existing)}\n`);
+    } finally {
+      existing.close();
+    }
+  }
+  await mkdir(DATA_DIR, { recursive: true });
+  await copyFile(file, DB_PATH);
+  await rm(`${DB_PATH}-wal`, { force: true });
+  await rm(`${DB_PATH}-shm`, { force: true });
+  process.stdout.write(`Restored ${file} to ${DB_PATH}\n`);
+
+  const db = new Database(DB_PATH);
+  try {
+    printMigrationResult(await migrateDatabase(db, { backup: false }));
+  } finally {
+    db.close();
+  }
+}
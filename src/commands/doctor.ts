@@ -1,12 +1,13 @@
-import { access } from "node:fs/promises";
+import { access, readFile } from "node:fs/promises";
 import { constants } from "node:fs";
 import process from "node:process";
 import { homedir } from "node:os";
 import { join } from "node:path";
-import { ensureConfig } from "../core/config.js";
+import { configSecretRefs, ensureConfig, findPlaintextSecrets } from "../core/config.js";
 import { CONFIG_PATH } from "../utils/paths.js";
 import { resolveRuntimeEnvVar } from "../core/env.js";
 import { createIntegrationRuntime } from "../integrations/runtime.js";
+import { parseModelRef, providerConfigIssues } from "../providers/registry.js";
 
 export async function runDoctor(): Promise<void> {
   const issues: string[] = [];
@@ -16,8 +17,17 @@ export async function runDoctor(): Promise<void> {
   }
 
   const config = await ensureConfig();
-  if (!config.agent.model.includes("/")) {
-    issues.push("agent.model must be in provider/model format.");
+  const routes = [
+    { key: "agent.model", ref: config.agent.model },
+    ...config.agent.fallbackModels.map((ref, index) => ({ key: `agent.fallbackModels[${index}]`, ref }))
+  ];
+  for (const { key, ref } of routes) {
+    try {
+      const { provider } = parseModelRef(ref);
+      issues.push(...providerConfigIssues(config, provider).map((issue) => `${ref}: ${issue}`));
+    } catch (error) {
+      issues.push(`${key}: ${error instanceof Error ? error.message : String(error)}`);
+    }
   }
 
   if (config.agent.model.startsWith("openai/")) {
@@ -57,6 +67,22 @@ export async function runDoctor(): Promise<void> {
     issues.push(`Config is not readable/writable: ${CONFIG_PATH}`);
   }
 
+  for (const entry of configSecretRefs(config)) {
+    if (!entry.resolved) {
+      issues.push(`${entry.path}: reference ${entry.ref} did not resolve (variable unset or file unreadable).`);
+    }
+  }
+  try {
+    for (const path of findPlaintextSecrets(JSON.parse(await readFile(CONFIG_PATH, "utf-8")))) {
+      issues.push(
+        `${path} is a plaintext secret in ${CONFIG_PATH}. Move it to .env and reference it as env:NAME ` +
+          "(gnamiai integration configure does this), or use file:/path."
+      );
+    }
+  } catch {
+    // unreadable config is reported above
+  }
+
   const integrations = createIntegrationRuntime(config).list();
   for (const item of integrations) {
     if (item.enabled && !item.configured) {
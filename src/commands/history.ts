@@ -0,0 +1,37 @@
+import { Store } from "../core/store.js";
+import { formatSearchHits, parseDirection, toFtsQuery } from "../core/search.js";
+import { parseSince, parseUntil } from "../core/usage.js";
+import type { ChannelName } from "../types.js";
+
+export async function runHistorySearch(
+  query: string,
+  options: {
+    channel?: ChannelName;
+    sender?: string;
+    direction?: string;
+    since?: string;
+    until?: string;
+    limit: string;
+    json?: boolean;
+  }
+): Promise<void> {
+  const store = await Store.open();
+  try {
+    const hits = store.searchMessages({
+      match: toFtsQuery(query),
+      channel: options.channel,
+      senderId: options.sender,
+      direction: options.direction ? parseDirection(options.direction) : undefined,
+      since: options.since ? parseSince(options.since) : undefined,
+      until: options.until ? parseUntil(options.until) : undefined,
+      limit: Number(options.limit) || 20
+    });
+    if (options.json) {
+      process.stdout.write(`${JSON.stringify(hits, null, 2)}\n`);
+      return;
+    }
+    process.stdout.write(`${formatSearchHits(hits)}\n`);
+  } finally {
+    store.close();
+  }
+}
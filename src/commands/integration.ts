@@ -1,5 +1,6 @@
 import { confirm, input, password, select } from "@inquirer/prompts";
 import { ensureConfig, saveConfig } from "../core/config.js";
+import { envVarName, upsertEnvVar } from "../core/env.js";
 import { createIntegrationRuntime } from "../integrations/runtime.js";
 import type { IntegrationName } from "../integrations/types.js";
 
@@ -76,6 +77,26 @@ export async function runIntegrationList(): Promise<void> {
   }
 }
 
+export async function runIntegrationActions(app?: IntegrationName): Promise<void> {
+  const config = await ensureConfig();
+  const runtime = createIntegrationRuntime(config);
+  for (const entry of runtime.describe(app)) {
+    const status = entry.enabled && entry.configured ? "ready" : "not configured";
+    process.stdout.write(`${entry.app} (${status})\n`);
+    for (const action of entry.actions) {
+      const schema = action.params as { properties?: Record<string, unknown>; required?: string[] };
+      const params = Object.keys(schema.properties ?? {})
+        .map((key) => (schema.required?.includes(key) ? key : `${key}?`))
+        .join(", ");
+      process.stdout.write(
+        `  ${action.name}(${params})${action.sideEffect ? " [side effect]" : ""}\n` +
+          `    ${action.description}\n` +
+          `    example: gnamiai integration exec --app ${entry.app} --action ${action.name} --params '${JSON.stringify(action.example)}'\n`
+      );
+    }
+  }
+}
+
 export async function runIntegrationHealth(app?: IntegrationName): Promise<void> {
   const config = await ensureConfig();
   const runtime = createIntegrationRuntime(config);
@@ -134,6 +155,18 @@ export async function runIntegrationConfigure(app?: IntegrationName): Promise<vo
       delete appConfig[field.key];
       continue;
     }
+    if (field.secret) {
+      const envName = envVarName(selectedApp, field.key);
+      const useEnv = await confirm({
+        message: `Store it in .env as ${envName} and keep only env:${envName} in gnamiai.json?`,
+        default: true
+      });
+      if (useEnv) {
+        await upsertEnvVar(envName, normalized);
+        appConfig[field.key] = `env:${envName}`;
+        continue;
+      }
+    }
     appConfig[field.key] = normalized;
   }
 
@@ -169,6 +169,120 @@ export async function runOnboard(installDaemon: boolean): Promise<void> {
     };
   }
 
+  if (
+    await confirm({
+      message: "Enable Discord channel?",
+      default: Boolean(config.channels.discord)
+    })
+  ) {
+    config.channels.discord = {
+      botToken: await password({ message: "Discord bot token", mask: "*" }),
+      requireMention: true,
+      guilds: [],
+      gatewayUrl: "wss://gateway.discord.gg/?v=10&encoding=json",
+      apiBaseUrl: "https://discord.com/api/v10"
+    };
+  }
+
+  if (
+    await confirm({
+      message: "Enable Slack channel?",
+      default: Boolean(config.channels.slack)
+    })
+  ) {
+    const botToken = await password({ message: "Slack bot token (xoxb-...)", mask: "*" });
+    const mode = await select({
+      message: "How should Slack reach the gateway?",
+      choices: [
+        { name: "Socket Mode (no public URL needed)", value: "socket" as const },
+        { name: "Events API (public URL forwarding to /slack/events)", value: "events" as const }
+      ]
+    });
+    config.channels.slack =
+      mode === "socket"
+        ? {
+            botToken,
+            mode,
+            appToken: await password({ message: "Slack app-level token (xapp-...)", mask: "*" }),
+            apiBaseUrl: "https://slack.com/api"
+          }
+        : {
+            botToken,
+            mode,
+            signingSecret: await password({ message: "Slack signing secret", mask: "*" }),
+            apiBaseUrl: "https://slack.com/api"
+          };
+  }
+
+  if (
+    await confirm({
+      message: "Enable WhatsApp channel (Cloud API webhook on /webhooks/whatsapp)?",
+      default: Boolean(config.channels.whatsapp)
+    })
+  ) {
+    config.channels.whatsapp = {
+      accessToken: await password({ message: "WhatsApp access token", mask: "*" }),
+      phoneNumberId: await input({ message: "WhatsApp phone number ID" }),
+      appSecret: await password({ message: "Meta app secret", mask: "*" }),
+      verifyToken: await password({ message: "Webhook verify token (any string you choose)", mask: "*" }),
+      apiBaseUrl: "https://graph.facebook.com/v22.0"
+    };
+  }
+
+  if (
+    await confirm({
+      message: "Enable Signal channel (needs a registered signal-cli account)?",
+      default: Boolean(config.channels.signal)
+    })
+  ) {
+    config.channels.signal = {
+      account: await input({ message: "Signal account number (e.g. +15145550100)" }),
+      host: "127.0.0.1",
+      port: 7583,
+      autoStart: true,
+      signalCliPath: await input({ message: "signal-cli path", default: "signal-cli" }),
+      requireMention: true,
+      groups: [],
+      readReceipts: true,
+      typingIndicators: true
+    };
+  }
+
+  if (
+    await confirm({
+      message: "Enable email channel (IMAP/SMTP)?",
+      default: Boolean(config.channels.email)
+    })
+  ) {
+    const address = await input({ message: "Email address the assistant answers as" });
+    const user = await input({ message: "IMAP user", default: address });
+    const imapPassword = await password({ message: "IMAP password (also used for SMTP)", mask: "*" });
+    config.channels.email = {
+      address,
+      imap: {
+        host: await input({ message: "IMAP host (TLS, port 993)" }),
+        port: 993,
+        secure: true,
+        user,
+        password: imapPassword,
+        mailbox: "INBOX"
+      },
+      smtp: {
+        host: await input({ message: "SMTP host (STARTTLS, port 587)" }),
+        port: 587,
+        secure: false,
+        allowInsecureAuth: false
+      },
+      allowFrom: [],
+      requireAuthentication: await confirm({
+        message: "Only answer mail that passes DMARC/DKIM (the server must add Authentication-Results)?",
+        default: true
+      }),
+      subject: "Message from GnamiAI",
+      pollIntervalMs: 60000
+    };
+  }
+
   if (
     await confirm({
       message: "Enable external memory (Mem0)?",
@@ -0,0 +1,42 @@
+import { ensureConfig } from "../core/config.js";
+import { MemoryService } from "../core/memory.js";
+import { forgetSender, formatForgetReport, formatPurgeReport, runPurge } from "../core/privacy.js";
+import { Store } from "../core/store.js";
+import type { ChannelName } from "../types.js";
+
+export async function runPrivacyPurge(options: { dryRun?: boolean; json?: boolean }): Promise<void> {
+  const config = await ensureConfig();
+  const store = await Store.open();
+  try {
+    const report = await runPurge(store, new MemoryService(config), config, { dryRun: options.dryRun });
+    if (options.json) {
+      process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+      return;
+    }
+    process.stdout.write(`${formatPurgeReport(report)}\n`);
+  } finally {
+    store.close();
+  }
+}
+
+export async function runPrivacyForget(
+  channel: ChannelName,
+  senderId: string,
+  options: { dryRun?: boolean; includeSharedMemory?: boolean; json?: boolean }
+): Promise<void> {
+  const config = await ensureConfig();
+  const store = await Store.open();
+  try {
+    const report = await forgetSender(store, new MemoryService(config), channel, senderId, options);
+    if (options.json) {
+      process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+    } else {
+      process.stdout.write(`${formatForgetReport(report)}\n`);
+    }
+    if (report.memory.mem0 === "failed") {
+      process.exitCode = 1;
+    }
+  } finally {
+    store.close();
+  }
+}
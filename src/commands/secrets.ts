@@ -0,0 +1,92 @@
+import { existsSync } from "node:fs";
+import { readFile, writeFile } from "node:fs/promises";
+import { loadConfig, saveConfig } from "../core/config.js";
+import {
+  Keyring,
+  generateMasterKey,
+  keySource,
+  loadKeyring,
+  openValue,
+  parseMasterKey,
+  removeKeyFile,
+  writeKeyFile
+} from "../core/encryption.js";
+import { Store } from "../core/store.js";
+import { BASIC_MEMORY_PATH, CONFIG_PATH, MASTER_KEY_PATH } from "../utils/paths.js";
+
+/** Rewrites the database content, local memory and config secrets: read with `reader`, write with `target`. */
+async function rewriteAll(reader: Keyring, target: Keyring | null): Promise<void> {
+  const store = await Store.open({ keyring: reader });
+  try {
+    const result = store.reencrypt(target);
+    process.stdout.write(
+      `Database: ${result.messages} messages, ${result.summaries} summaries, ${result.approvals} approvals, ` +
+        `${result.cronJobs} cron jobs\n`
+    );
+  } finally {
+    store.close();
+  }
+  if (existsSync(BASIC_MEMORY_PATH)) {
+    const plain = openValue((await readFile(BASIC_MEMORY_PATH, "utf-8")).trim(), reader, "Local memory");
+    await writeFile(BASIC_MEMORY_PATH, target ? target.encrypt(plain) : plain, "utf-8");
+    process.stdout.write(`Local memory: ${BASIC_MEMORY_PATH}\n`);
+  }
+  if (existsSync(CONFIG_PATH)) {
+    await saveConfig(await loadConfig(), target);
+    process.stdout.write(`Config secrets: ${CONFIG_PATH}\n`);
+  }
+}
+
+/**
+ * Switches to a new master key and re-encrypts everything with it. Without a key yet, this turns
+ * encryption on. The old keys stay in the key file until the rewrite finishes, so an interrupted
+ * rotation can simply be run again.
+ */
+export async function runSecretsRotate(): Promise<void> {
+  const source = keySource();
+  const previous = loadKeyring();
+  let next: string;
+  if (source === "env") {
+    const provided = process.env.GNAMI_NEW_MASTER_KEY?.trim();
+    if (!provided) {
+      throw new Error(
+        "The master key comes from GNAMI_MASTER_KEY, so the new one cannot be stored for you. " +
+          "Set GNAMI_NEW_MASTER_KEY to the new key and run again."
+      );
+    }
+    next = provided;
+  } else {
+    next = generateMasterKey();
+  }
+  const nextKey = parseMasterKey(next);
+  const oldKeys = (previous?.keys ?? []).filter((entry) => entry.id !== nextKey.id);
+  const keyring = new Keyring([nextKey, ...oldKeys]);
+  if (source !== "env") {
+    await writeKeyFile([next, ...oldKeys.map((entry) => entry.key.toString("base64"))]);
+  }
+  await rewriteAll(keyring, keyring);
+  if (source === "env") {
+    process.stdout.write(`Re-encrypted with key ${nextKey.id}. Now set GNAMI_MASTER_KEY to the new key.\n`);
+    return;
+  }
+  await writeKeyFile([next]);
+  process.stdout.write(
+    `${previous ? "Re-encrypted" : "Encryption enabled"} with key ${nextKey.id}, stored in ${MASTER_KEY_PATH}. ` +
+      "Back this file up: without it the data cannot be read.\n"
+  );
+}
+
+/** Decrypts everything back to plain files and removes the key file. */
+export async function runSecretsDisable(): Promise<void> {
+  const keyring = loadKeyring();
+  if (!keyring) {
+    throw new Error("Encryption is not enabled: no GNAMI_MASTER_KEY and no key file.");
+  }
+  await rewriteAll(keyring, null);
+  if (keySource() === "env") {
+    process.stdout.write("Decrypted. Unset GNAMI_MASTER_KEY, or new data is encrypted again.\n");
+    return;
+  }
+  await removeKeyFile();
+  process.stdout.write(`Decrypted and removed ${MASTER_KEY_PATH}.\n`);
+}
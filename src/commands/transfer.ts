@@ -0,0 +1,52 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { Store } from "../core/store.js";
+import {
+  formatImportSummary,
+  parseExportFormat,
+  parseExportJsonl,
+  renderExport
+} from "../core/transfer.js";
+import { parseSince, parseUntil } from "../core/usage.js";
+import type { ChannelName } from "../types.js";
+
+export async function runExport(options: {
+  format: string;
+  out?: string;
+  channel?: ChannelName;
+  sender?: string;
+  since?: string;
+  until?: string;
+}): Promise<void> {
+  const format = parseExportFormat(options.format);
+  const filters = {
+    channel: options.channel,
+    senderId: options.sender,
+    since: options.since ? parseSince(options.since) : undefined,
+    until: options.until ? parseUntil(options.until) : undefined
+  };
+  const store = await Store.open();
+  try {
+    const data = store.exportData(filters);
+    const output = renderExport(data, format);
+    if (!options.out) {
+      process.stdout.write(output);
+      return;
+    }
+    await writeFile(options.out, output, "utf-8");
+    process.stdout.write(
+      `Exported ${data.sessions.length} threads and ${data.messages.length} messages to ${options.out}\n`
+    );
+  } finally {
+    store.close();
+  }
+}
+
+export async function runImport(file: string): Promise<void> {
+  const records = parseExportJsonl(await readFile(file, "utf-8"));
+  const store = await Store.open();
+  try {
+    process.stdout.write(`${formatImportSummary(store.importData(records))}\n`);
+  } finally {
+    store.close();
+  }
+}
@@ -0,0 +1,41 @@
+import { ensureConfig } from "../core/config.js";
+import { Store } from "../core/store.js";
+import { parseSince, parseUsageGroup, summarizeUsage, type UsageSummaryRow } from "../core/usage.js";
+
+function formatRow(row: UsageSummaryRow): string {
+  return [
+    row.key,
+    `calls=${row.calls}`,
+    `prompt=${row.promptTokens}`,
+    `completion=${row.completionTokens}`,
+    `avg=${row.avgLatencyMs}ms`,
+    `cost=$${row.costUsd.toFixed(4)}`,
+    ...(row.unpricedCalls > 0 ? [`unpriced=${row.unpricedCalls}`] : []),
+    ...(row.estimatedCalls > 0 ? [`estimated=${row.estimatedCalls}`] : [])
+  ].join(" ");
+}
+
+export async function runUsage(options: { since: string; by: string; json?: boolean }): Promise<void> {
+  const since = parseSince(options.since);
+  const groupBy = parseUsageGroup(options.by);
+  const config = await ensureConfig();
+  const store = await Store.open();
+  try {
+    const summary = summarizeUsage(store.getUsageGroups(since, groupBy), config.usage.prices, groupBy, since);
+    if (options.json) {
+      process.stdout.write(`${JSON.stringify(summary, null, 2)}\n`);
+      return;
+    }
+    if (summary.rows.length === 0) {
+      process.stdout.write(`No model usage recorded since ${summary.since}.\n`);
+      return;
+    }
+    process.stdout.write(`Model usage since ${summary.since} by ${groupBy}:\n`);
+    for (const row of summary.rows) {
+      process.stdout.write(`${formatRow(row)}\n`);
+    }
+    process.stdout.write(`${formatRow(summary.total)}\n`);
+  } finally {
+    store.close();
+  }
+}
@@ -2,16 +2,62 @@ import { spawn } from "node:child_process";
 import { installSkill } from "./skills.js";
 import type { IntegrationName } from "../integrations/types.js";
 import type { IntegrationRuntime } from "../integrations/runtime.js";
+import type pino from "pino";
+import {
+  evaluateActionPolicy,
+  refusalOutput,
+  type ActionPolicy,
+  type PolicyContext,
+  type PolicyDecision
+} from "./policy.js";
+import { prepareSandboxedCommand, redactSecrets, type SandboxOptions } from "./sandbox.js";
+import { formatSearchHits, toFtsQuery } from "./search.js";
+import type { Store } from "./store.js";
+import type { ChannelName } from "../types.js";
 
 export type AgentAction =
-  | { type: "shell"; command: string; timeoutMs?: number }
+  | { type: "shell"; command: string; timeoutMs?: number; cwd?: string }
   | { type: "install_skill"; name: string; content: string }
-  | { type: "integration"; app: IntegrationName; action: string; params?: Record<string, unknown> };
+  | { type: "integration"; app: IntegrationName; action: string; params?: Record<string, unknown> }
+  | { type: "search_history"; query: string; limit?: number };
 
 export interface ActionResult {
   action: AgentAction;
   ok: boolean;
   output: string;
+  refused?: boolean;
+  /** Set when the action was parked for user approval instead of running. */
+  approvalId?: number;
+}
+
+export interface ExecuteActionOptions {
+  integrations?: IntegrationRuntime;
+  /** Message store for `search_history`. */
+  store?: Store;
+  policy?: ActionPolicy;
+  context?: PolicyContext;
+  sandbox?: SandboxOptions;
+  logger?: pino.Logger;
+  onActionStarted?: (action: AgentAction, index: number) => void;
+  onActionResult?: (result: ActionResult, index: number) => void;
+}
+
+/**
+ * Shell commands and skill installs always need approval; integration actions only when the
+ * adapter catalog marks them as side-effecting (unknown actions are treated as side-effecting).
+ */
+export function requiresApproval(action: AgentAction, integrations?: IntegrationRuntime): boolean {
+  if (action.type === "integration") {
+    return integrations?.actionSpec(action.app, action.action)?.sideEffect ?? true;
+  }
+  return action.type !== "search_history";
+}
+
+export function describeAction(action: AgentAction): string {
+  if (action.type === "shell") return `shell: ${action.command}`;
+  if (action.type === "install_skill") return `install_skill: ${action.name}`;
+  if (action.type === "search_history") return `search_history: ${action.query}`;
+  return `integration: ${action.app}.${action.action} ${JSON.stringify(action.params ?? {})}`;
 }
 
 function safeJsonParse(value: string): unknown | null {
@@ -34,7 +80,8 @@ export function parseAgentActions(text: string): AgentAction[] {
       actions.push({
         type: "shell",
         command: record.command,
-        timeoutMs: typeof record.timeoutMs === "number" ? record.timeoutMs : undefined
+        timeoutMs: typeof record.timeoutMs === "number" ? record.timeoutMs : undefined,
+        cwd: typeof record.cwd === "string" ? record.cwd : undefined
       });
     }
     if (
@@ -63,6 +110,13 @@ export function parseAgentActions(text: string): AgentAction[] {
             : undefined
       });
     }
+    if (record.type === "search_history" && typeof record.query === "string") {
+      actions.push({
+        type: "search_history",
+        query: record.query,
+        limit: typeof record.limit === "number" ? record.limit : undefined
+      });
+    }
   }
   return actions;
 }
@@ -71,25 +125,137 @@ export function stripAgentActions(text: string): string {
   return text.replace(/```gnami-action[\s\S]*?```/g, "").trim();
 }
 
-async function execShell(command: string, timeoutMs: number): Promise<string> {
+export function formatActionResults(results: ActionResult[]): string {
+  return results
+    .map((result, index) => {
+      return [
+        `Action ${index + 1}: ${result.action.type}`,
+        `Success: ${result.ok ? "yes" : "no"}`,
+        ...(result.refused ? ["Refused by policy: yes (do not retry this action)"] : []),
+        ...(result.approvalId !== undefined
+          ? [`Waiting for user approval: #${result.approvalId} (not run yet)`]
+          : []),
+        `Output: ${result.output}`
+      ].join("\n");
+    })
+    .join("\n\n");
+}
+
+/** Text handed back to the model as the result of a native tool call. */
+export function toolCallOutput(result: ActionResult): string {
+  if (result.ok || result.refused || result.approvalId !== undefined) return result.output;
+  return `Error: ${result.output}`;
+}
+
+const ACTION_FENCE_OPEN = "```gnami-action";
+const ACTION_FENCE_CLOSE = "```";
+
+function heldPrefixLength(text: string): number {
+  for (let size = Math.min(text.length, ACTION_FENCE_OPEN.length - 1); size > 0; size -= 1) {
+    if (ACTION_FENCE_OPEN.startsWith(text.slice(-size))) return size;
+  }
+  return 0;
+}
+
+/**
+ * Incremental counterpart of stripAgentActions for streamed text: forwards everything
+ * outside gnami-action fences and holds back just enough to recognise a split marker.
+ */
+export function createActionStreamFilter(onText: (text: string) => void): {
+  push: (delta: string) => void;
+  flush: () => void;
+} {
+  let buffer = "";
+  let inFence = false;
+  const emit = (text: string) => {
+    if (text) onText(text);
+  };
+  const drain = () => {
+    for (;;) {
+      if (!inFence) {
+        const start = buffer.indexOf(ACTION_FENCE_OPEN);
+        if (start >= 0) {
+          emit(buffer.slice(0, start));
+          buffer = buffer.slice(start + ACTION_FENCE_OPEN.length);
+          inFence = true;
+          continue;
+        }
+        const keep = buffer.length - heldPrefixLength(buffer);
+        emit(buffer.slice(0, keep));
+        buffer = buffer.slice(keep);
+        return;
+      }
+      const end = buffer.indexOf(ACTION_FENCE_CLOSE);
+      if (end < 0) {
+        buffer = buffer.slice(-(ACTION_FENCE_CLOSE.length - 1));
+        return;
+      }
+      buffer = buffer.slice(end + ACTION_FENCE_CLOSE.length);
+      inFence = false;
+    }
+  };
+  return {
+    push: (delta) => {
+      buffer += delta;
+      drain();
+    },
+    flush: () => {
+      if (!inFence) emit(buffer);
+      buffer = "";
+      inFence = false;
+    }
+  };
+}
+
+interface ShellSpawn {
+  file: string;
+  args: string[];
+  shell: boolean;
+  cwd: string;
+  env: NodeJS.ProcessEnv;
+}
+
+async function execShell(
+  spec: ShellSpawn,
+  timeoutMs: number,
+  maxOutputBytes = Number.POSITIVE_INFINITY
+): Promise<string> {
   return await new Promise<string>((resolve, reject) => {
-    const child = spawn(command, {
-      cwd: process.cwd(),
-      shell: true,
-      env: process.env
+    const child = spawn(spec.file, spec.args, {
+      cwd: spec.cwd,
+      shell: spec.shell,
+      env: spec.env
     });
     let stdout = "";
     let stderr = "";
+    let outputBytes = 0;
+    let truncated = false;
     const timer = setTimeout(() => {
       child.kill("SIGKILL");
       reject(new Error(`Shell command timed out after ${timeoutMs}ms`));
     }, timeoutMs);
 
+    const collect = (chunk: Buffer, append: (text: string) => void) => {
+      if (truncated) return;
+      const room = maxOutputBytes - outputBytes;
+      if (chunk.length > room) {
+        append(chunk.subarray(0, Math.max(room, 0)).toString("utf-8"));
+        truncated = true;
+        child.kill("SIGKILL");
+        return;
+      }
+      outputBytes += chunk.length;
+      append(chunk.toString("utf-8"));
+    };
     child.stdout.on("data", (chunk: Buffer) => {
-      stdout += chunk.toString("utf-8");
+      collect(chunk, (text) => {
+        stdout += text;
+      });
     });
     child.stderr.on("data", (chunk: Buffer) => {
-      stderr += chunk.toString("utf-8");
+      collect(chunk, (text) => {
+        stderr += text;
+      });
     });
     child.on("error", (error) => {
       clearTimeout(timer);
@@ -98,7 +264,9 @@ async function execShell(command: string, timeoutMs: number): Promise<string> {
     child.on("exit", (code) => {
       clearTimeout(timer);
       const output = [stdout.trim(), stderr.trim()].filter(Boolean).join("\n");
-      if (code === 0) {
+      if (truncated) {
+        resolve(`${output}\n[output truncated at ${maxOutputBytes} bytes; command stopped]`);
+      } else if (code === 0) {
         resolve(output || "(no output)");
       } else {
         reject(new Error(output || `Command failed with exit code ${code ?? "unknown"}`));
@@ -107,43 +275,115 @@ async function execShell(command: string, timeoutMs: number): Promise<string> {
   });
 }
 
-export async function executeAgentActions(
-  actions: AgentAction[],
-  options?: { integrations?: IntegrationRuntime }
-): Promise<ActionResult[]> {
-  const results: ActionResult[] = [];
-  for (const action of actions) {
-    try {
-      if (action.type === "shell") {
-        const output = await execShell(action.command, action.timeoutMs ?? 60000);
-        results.push({ action, ok: true, output });
-        continue;
+async function runShellAction(
+  action: Extract<AgentAction, { type: "shell" }>,
+  decision: Extract<PolicyDecision, { allowed: true }>,
+  options?: ExecuteActionOptions
+): Promise<string> {
+  const timeoutMs = action.timeoutMs ?? 60000;
+  const env = decision.env ?? process.env;
+  const sandbox = options?.sandbox;
+  if (!sandbox?.config.enabled) {
+    return await execShell(
+      { file: action.command, args: [], shell: true, cwd: decision.cwd ?? action.cwd ?? process.cwd(), env },
+      timeoutMs
+    );
+  }
+  const context = options?.context;
+  const session = { channel: context?.channel ?? "", senderId: context?.senderId ?? "" };
+  const prepared = await prepareSandboxedCommand(action.command, session, {
+    ...sandbox,
+    cwd: action.cwd,
+    env
+  });
+  if (sandbox.config.denyNetwork && !prepared.networkIsolated) {
+    options?.logger?.warn(
+      { action: describeAction(action) },
+      "Network isolation unavailable; sandboxed command runs with network access"
+    );
+  }
+  try {
+    return redactSecrets(await execShell(prepared, timeoutMs, sandbox.config.maxOutputBytes), sandbox.secretValues);
+  } catch (error) {
+    throw new Error(redactSecrets(error instanceof Error ? error.message : String(error), sandbox.secretValues));
+  }
+}
+
+async function executeAgentAction(
+  action: AgentAction,
+  options?: ExecuteActionOptions
+): Promise<ActionResult> {
+  const decision: PolicyDecision = options?.policy
+    ? evaluateActionPolicy(options.policy, action, {
+        ...options.context,
+        sandboxed: options.sandbox?.config.enabled ?? false
+      })
+    : { allowed: true };
+  if (!decision.allowed) {
+    options?.logger?.warn(
+      { action: describeAction(action), reason: decision.reason, ...options.context },
+      "Agent action refused by policy"
+    );
+    return { action, ok: false, refused: true, output: refusalOutput(decision.reason) };
+  }
+  try {
+    if (action.type === "shell") {
+      const output = await runShellAction(action, decision, options);
+      return { action, ok: true, output };
+    }
+    if (action.type === "install_skill") {
+      const skillId = await installSkill(action.name, action.content);
+      return { action, ok: true, output: `Installed skill: ${skillId}` };
+    }
+    if (action.type === "integration") {
+      if (!options?.integrations) {
+        throw new Error("Integration runtime is not available.");
       }
-      if (action.type === "install_skill") {
-        const skillId = await installSkill(action.name, action.content);
-        results.push({ action, ok: true, output: `Installed skill: ${skillId}` });
-        continue;
+      const result = await options.integrations.exec({
+        app: action.app,
+        action: action.action,
+        params: action.params
+      });
+      return { action, ok: true, output: JSON.stringify(result) };
+    }
+    if (action.type === "search_history") {
+      if (!options?.store) {
+        throw new Error("Message history is not available.");
       }
-      if (action.type === "integration") {
-        if (!options?.integrations) {
-          throw new Error("Integration runtime is not available.");
-        }
-        const result = await options.integrations.exec({
-          app: action.app,
-          action: action.action,
-          params: action.params
-        });
-        results.push({ action, ok: true, output: JSON.stringify(result) });
-        continue;
+      // Conversations are private to their sender, so a turn only searches its own sender's threads;
+      // without a sender (cron jobs, anonymous turns) there is no history it may see.
+      const context = options.context;
+      if (!context?.channel || !context.senderId) {
+        throw new Error("Message history can only be searched from a conversation with a known sender.");
       }
-      results.push({ action, ok: false, output: "Unsupported action type." });
-    } catch (error) {
-      results.push({
-        action,
-        ok: false,
-        output: error instanceof Error ? error.message : String(error)
+      const hits = options.store.searchMessages({
+        match: toFtsQuery(action.query),
+        channel: context.channel as ChannelName,
+        senderId: context.senderId,
+        limit: Math.min(Math.max(action.limit ?? 10, 1), 50)
       });
+      return { action, ok: true, output: formatSearchHits(hits) };
     }
+    return { action, ok: false, output: "Unsupported action type." };
+  } catch (error) {
+    return {
+      action,
+      ok: false,
+      output: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+export async function executeAgentActions(
+  actions: AgentAction[],
+  options?: ExecuteActionOptions
+): Promise<ActionResult[]> {
+  const results: ActionResult[] = [];
+  for (const [index, action] of actions.entries()) {
+    options?.onActionStarted?.(action, index);
+    const result = await executeAgentAction(action, options);
+    options?.onActionResult?.(result, index);
+    results.push(result);
   }
   return results;
 }
@@ -1,6 +1,10 @@
 import { mkdir, readFile, writeFile } from "node:fs/promises";
 import { z } from "zod";
 import { CONFIG_PATH, GNAMI_HOME } from "../utils/paths.js";
+import { CHANNEL_NAMES } from "../types.js";
+import { validateCronExpression } from "./cron.js";
+import { type Keyring, isEncrypted, loadKeyring, openValue } from "./encryption.js";
+import { parseSecretRef, resolveSecretRef } from "./env.js";
 
 const integrationsSchema = z
   .object({
@@ -36,7 +40,9 @@ const integrationsSchema = z
       .object({
         enabled: z.boolean().default(false),
         signalCliPath: z.string().min(1).optional(),
-        accountNumber: z.string().min(1).optional()
+        accountNumber: z.string().min(1).optional(),
+        rpcHost: z.string().min(1).optional(),
+        rpcPort: z.number().int().min(1).max(65535).optional()
       })
       .default({ enabled: false }),
     imessage: z
@@ -106,6 +112,95 @@ const integrationsSchema = z
     github: { enabled: false }
   });
 
+// Command patterns are prefixes, or regular expressions written as /pattern/flags.
+const commandPatternSchema = z
+  .string()
+  .min(1)
+  .refine(
+    (value) => {
+      const match = value.match(/^\/(.+)\/([a-z]*)$/);
+      if (!match) return true;
+      try {
+        new RegExp(match[1], match[2]);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    { message: "Invalid regular expression pattern" }
+  );
+
+const shellPolicySchema = z.object({
+  enabled: z.boolean().default(true),
+  allow: z.array(commandPatternSchema).default([]),
+  deny: z.array(commandPatternSchema).default([]),
+  allowedCwds: z.array(z.string().min(1)).default([]),
+  envAllowlist: z.array(z.string().min(1)).optional()
+});
+
+// No defaults here: an override field left unset must keep the global value, not reset it.
+const shellPolicyOverrideSchema = z.object({
+  enabled: z.boolean().optional(),
+  allow: z.array(commandPatternSchema).optional(),
+  deny: z.array(commandPatternSchema).optional(),
+  allowedCwds: z.array(z.string().min(1)).optional(),
+  envAllowlist: z.array(z.string().min(1)).optional()
+});
+
+const integrationPolicySchema = z.record(z.string(), z.array(z.string().min(1)));
+
+const policySchema = z
+  .object({
+    shell: shellPolicySchema.default({ enabled: true, allow: [], deny: [], allowedCwds: [] }),
+    integrations: integrationPolicySchema.default({}),
+    overrides: z
+      .array(
+        z.object({
+          channel: z.string().min(1).optional(),
+          senderId: z.string().min(1).optional(),
+          shell: shellPolicyOverrideSchema.optional(),
+          integrations: integrationPolicySchema.optional()
+        })
+      )
+      .default([])
+  })
+  .default({
+    shell: { enabled: true, allow: [], deny: [], allowedCwds: [] },
+    integrations: {},
+    overrides: []
+  });
+
+const retentionRuleSchema = z.object({
+  /** Messages and memory events older than this are deleted. */
+  maxAgeDays: z.number().int().min(1).optional(),
+  /** Only the newest messages of each thread are kept. */
+  maxMessages: z.number().int().min(1).optional()
+});
+
+const retentionSchema = retentionRuleSchema
+  .extend({
+    /** Per-channel rules; unset fields fall back to the top-level ones. */
+    channels: z.partialRecord(z.enum(CHANNEL_NAMES), retentionRuleSchema).default({}),
+    /** Newest local memory notes kept per memory user. */
+    maxMemoryNotes: z.number().int().min(1).optional(),
+    schedule: z
+      .string()
+      .min(1)
+      .refine(
+        (value) => {
+          try {
+            validateCronExpression(value);
+            return true;
+          } catch {
+            return false;
+          }
+        },
+        { message: "Invalid cron expression" }
+      )
+      .default("30 3 * * *")
+  })
+  .default({ channels: {}, schedule: "30 3 * * *" });
+
 const configSchema = z.object({
   gateway: z
     .object({
@@ -121,14 +216,87 @@ const configSchema = z.object({
       openaiAuthMode: z.enum(["api_key", "codex_oauth"]).default("codex_oauth"),
       openaiApiKey: z.string().min(1).optional(),
       localBaseUrl: z.string().url().optional(),
-      localApiKey: z.string().min(1).optional()
+      localApiKey: z.string().min(1).optional(),
+      maxToolSteps: z.number().int().min(1).max(20).default(6),
+      fallbackModels: z.array(z.string().min(1)).default([]),
+      routing: z
+        .object({
+          maxRetries: z.number().int().min(0).max(5).default(2),
+          retryBaseMs: z.number().int().min(0).default(500),
+          timeoutMs: z.number().int().min(1000).default(120000),
+          failureThreshold: z.number().int().min(1).default(3),
+          cooldownMs: z.number().int().min(0).default(60000)
+        })
+        .default({
+          maxRetries: 2,
+          retryBaseMs: 500,
+          timeoutMs: 120000,
+          failureThreshold: 3,
+          cooldownMs: 60000
+        }),
+      summary: z
+        .object({
+          enabled: z.boolean().default(true),
+          tokenBudget: z.number().int().min(500).default(6000),
+          keepRecent: z.number().int().min(2).max(100).default(10)
+        })
+        .default({ enabled: true, tokenBudget: 6000, keepRecent: 10 })
     })
     .default({
       assistantName: "GnamiBot",
       model: "openai/gpt-5.3-codex",
       openaiFallbackModel: "gpt-5.2-codex",
-      openaiAuthMode: "codex_oauth"
+      openaiAuthMode: "codex_oauth",
+      maxToolSteps: 6,
+      fallbackModels: [],
+      routing: {
+        maxRetries: 2,
+        retryBaseMs: 500,
+        timeoutMs: 120000,
+        failureThreshold: 3,
+        cooldownMs: 60000
+      },
+      summary: { enabled: true, tokenBudget: 6000, keepRecent: 10 }
     }),
+  providers: z
+    .object({
+      anthropic: z
+        .object({
+          apiKey: z.string().min(1).optional(),
+          baseUrl: z.string().url().optional(),
+          maxTokens: z.number().int().min(1).optional()
+        })
+        .optional(),
+      gemini: z
+        .object({
+          apiKey: z.string().min(1).optional(),
+          baseUrl: z.string().url().optional()
+        })
+        .optional(),
+      azure: z
+        .object({
+          endpoint: z.string().url().optional(),
+          apiKey: z.string().min(1).optional(),
+          apiVersion: z.string().min(1).optional()
+        })
+        .optional(),
+      openrouter: z
+        .object({
+          apiKey: z.string().min(1).optional(),
+          baseUrl: z.string().url().optional(),
+          siteUrl: z.string().url().optional(),
+          appName: z.string().min(1).optional()
+        })
+        .optional(),
+      compatible: z
+        .object({
+          baseUrl: z.string().url(),
+          apiKey: z.string().min(1).optional(),
+          headers: z.record(z.string(), z.string()).optional()
+        })
+        .optional()
+    })
+    .default({}),
   channels: z
     .object({
       telegram: z
@@ -137,6 +305,97 @@ const configSchema = z.object({
           pollingIntervalMs: z.number().int().min(1000).default(2500)
         })
         .optional(),
+      discord: z
+        .object({
+          botToken: z.string().min(1),
+          requireMention: z.boolean().default(true),
+          guilds: z.array(z.string().min(1)).default([]),
+          gatewayUrl: z.string().url().default("wss://gateway.discord.gg/?v=10&encoding=json"),
+          apiBaseUrl: z.string().url().default("https://discord.com/api/v10")
+        })
+        .optional(),
+      slack: z
+        .object({
+          botToken: z.string().min(1),
+          appToken: z.string().min(1).optional(),
+          signingSecret: z.string().min(1).optional(),
+          mode: z.enum(["socket", "events"]).default("socket"),
+          apiBaseUrl: z.string().url().default("https://slack.com/api")
+        })
+        .superRefine((value, ctx) => {
+          if (value.mode === "socket" && !value.appToken) {
+            ctx.addIssue({ code: "custom", path: ["appToken"], message: "Socket Mode needs an app-level token" });
+          }
+          if (value.mode === "events" && !value.signingSecret) {
+            ctx.addIssue({
+              code: "custom",
+              path: ["signingSecret"],
+              message: "The Events API needs the signing secret"
+            });
+          }
+        })
+        .optional(),
+      whatsapp: z
+        .object({
+          accessToken: z.string().min(1),
+          phoneNumberId: z.string().min(1),
+          appSecret: z.string().min(1),
+          verifyToken: z.string().min(1),
+          apiBaseUrl: z.string().url().default("https://graph.facebook.com/v22.0"),
+          template: z
+            .object({
+              name: z.string().min(1),
+              language: z.string().min(1).default("en_US"),
+              textParameter: z.boolean().default(true)
+            })
+            .optional()
+        })
+        .optional(),
+      signal: z
+        .object({
+          account: z.string().min(1),
+          host: z.string().min(1).default("127.0.0.1"),
+          port: z.number().int().min(1).max(65535).default(7583),
+          autoStart: z.boolean().default(true),
+          signalCliPath: z.string().min(1).default("signal-cli"),
+          requireMention: z.boolean().default(true),
+          groups: z.array(z.string().min(1)).default([]),
+          readReceipts: z.boolean().default(true),
+          typingIndicators: z.boolean().default(true)
+        })
+        .optional(),
+      email: z
+        .object({
+          /** The address the assistant reads and answers as. */
+          address: z.string().email(),
+          name: z.string().min(1).optional(),
+          imap: z.object({
+            host: z.string().min(1),
+            port: z.number().int().min(1).max(65535).default(993),
+            secure: z.boolean().default(true),
+            user: z.string().min(1),
+            password: z.string().min(1),
+            mailbox: z.string().min(1).default("INBOX")
+          }),
+          smtp: z.object({
+            host: z.string().min(1),
+            port: z.number().int().min(1).max(65535).default(587),
+            secure: z.boolean().default(false),
+            user: z.string().min(1).optional(),
+            password: z.string().min(1).optional(),
+            /** Allows AUTH without TLS, for local relays that offer no STARTTLS. */
+            allowInsecureAuth: z.boolean().default(false)
+          }),
+          /** Senders or domains (`@example.com`) allowed to write; empty lets anyone request pairing. */
+          allowFrom: z.array(z.string().min(1)).default([]),
+          /** Ignores mail without a passing DMARC or DKIM result in the server's `Authentication-Results`. */
+          requireAuthentication: z.boolean().default(false),
+          /** Subject of messages that do not answer an email (cron jobs, `/api/send`). */
+          subject: z.string().min(1).default("Message from GnamiAI"),
+          /** Used when the server has no IDLE. */
+          pollIntervalMs: z.number().int().min(5000).default(60000)
+        })
+        .optional(),
       webchat: z
         .object({
           enabled: z.boolean().default(true)
@@ -154,6 +413,42 @@ const configSchema = z.object({
       entityName: z.string().min(1).optional()
     })
     .default({ enabled: false, provider: "none", userIdPrefix: "gnamiai" }),
+  approvals: z
+    .object({
+      enabled: z.boolean().default(true)
+    })
+    .default({ enabled: true }),
+  policy: policySchema,
+  sandbox: z
+    .object({
+      enabled: z.boolean().default(false),
+      maxOutputBytes: z.number().int().min(1024).default(65536),
+      cpuSeconds: z.number().int().min(1).default(30),
+      memoryMb: z.number().int().min(64).default(1024),
+      denyNetwork: z.boolean().default(false)
+    })
+    .default({
+      enabled: false,
+      maxOutputBytes: 65536,
+      cpuSeconds: 30,
+      memoryMb: 1024,
+      denyNetwork: false
+    }),
+  usage: z
+    .object({
+      /** USD per million tokens, keyed by `provider/model` or `provider/*`. */
+      prices: z
+        .record(
+          z.string(),
+          z.object({
+            inputPerMillion: z.number().min(0),
+            outputPerMillion: z.number().min(0)
+          })
+        )
+        .default({})
+    })
+    .default({ prices: {} }),
+  retention: retentionSchema,
   integrations: integrationsSchema
 });
 
@@ -166,10 +461,36 @@ const defaultConfig: GnamiConfig = {
     model: "openai/gpt-5.3-codex",
     openaiFallbackModel: "gpt-5.2-codex",
     openaiAuthMode: "codex_oauth",
-    localBaseUrl: "http://127.0.0.1:11434/v1"
+    localBaseUrl: "http://127.0.0.1:11434/v1",
+    maxToolSteps: 6,
+    fallbackModels: [],
+    routing: {
+      maxRetries: 2,
+      retryBaseMs: 500,
+      timeoutMs: 120000,
+      failureThreshold: 3,
+      cooldownMs: 60000
+    },
+    summary: { enabled: true, tokenBudget: 6000, keepRecent: 10 }
   },
+  providers: {},
   channels: { webchat: { enabled: true } },
   memory: { enabled: false, provider: "none", userIdPrefix: "gnamiai" },
+  approvals: { enabled: true },
+  policy: {
+    shell: { enabled: true, allow: [], deny: [], allowedCwds: [] },
+    integrations: {},
+    overrides: []
+  },
+  sandbox: {
+    enabled: false,
+    maxOutputBytes: 65536,
+    cpuSeconds: 30,
+    memoryMb: 1024,
+    denyNetwork: false
+  },
+  usage: { prices: {} },
+  retention: { channels: {}, schedule: "30 3 * * *" },
   integrations: {
     whatsapp: { enabled: false },
     telegram: { enabled: false },
@@ -187,11 +508,251 @@ const defaultConfig: GnamiConfig = {
   }
 };
 
+/** Config keys that hold credentials; with a master key they are saved encrypted. */
+const SECRET_KEYS = new Set([
+  "authToken",
+  "apiKey",
+  "openaiApiKey",
+  "localApiKey",
+  "mem0ApiKey",
+  "botToken",
+  "accessToken",
+  "appKey",
+  "appToken",
+  "appSecret",
+  "signingSecret",
+  "verifyToken",
+  "bearerToken",
+  "token",
+  "password"
+]);
+
+export function isSecretKey(key: string): boolean {
+  return SECRET_KEYS.has(key);
+}
+
+export type JsonPath = Array<string | number>;
+
+/** Applies `fn` to every string in a JSON value; returning undefined drops the entry. */
+function mapStrings(
+  value: unknown,
+  fn: (value: string, path: JsonPath) => string | undefined,
+  path: JsonPath = []
+): unknown {
+  if (typeof value === "string") return fn(value, path);
+  if (Array.isArray(value)) return value.map((entry, index) => mapStrings(entry, fn, [...path, index]));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, mapStrings(entry, fn, [...path, key])])
+    );
+  }
+  return value;
+}
+
+function formatPath(path: JsonPath): string {
+  return path.map((part, index) => (typeof part === "number" ? `[${part}]` : index > 0 ? `.${part}` : part)).join("");
+}
+
+function lastKey(path: JsonPath): string {
+  return String(path[path.length - 1] ?? "");
+}
+
+function getPath(value: unknown, path: JsonPath): unknown {
+  let current = value;
+  for (const part of path) {
+    if (!current || typeof current !== "object") return undefined;
+    current = (current as Record<string | number, unknown>)[part];
+  }
+  return current;
+}
+
+function setPath(value: Record<string, unknown>, path: JsonPath, next: unknown): void {
+  let current: Record<string | number, unknown> = value;
+  for (const part of path.slice(0, -1)) {
+    if (!current[part] || typeof current[part] !== "object") current[part] = {};
+    current = current[part] as Record<string | number, unknown>;
+  }
+  current[path[path.length - 1]] = next;
+}
+
+/** Splits `agent.fallbackModels[0]` or `agent.fallbackModels.0` into path parts. */
+export function parseConfigPath(input: string): JsonPath {
+  const parts = input
+    .trim()
+    .replace(/\[(\d+)\]/g, ".$1")
+    .split(".")
+    .map((part) => (/^\d+$/.test(part) ? Number(part) : part));
+  if (parts.length === 0 || parts.some((part) => part === "")) {
+    throw new Error(`Invalid config path "${input}".`);
+  }
+  return parts;
+}
+
+/** The JSON Schema of `gnamiai.json`, for editor completion; fields with defaults are optional. */
+export function configJsonSchema(): Record<string, unknown> {
+  return z.toJSONSchema(configSchema, { io: "input" });
+}
+
+const MASKED_SECRET = "********";
+
+/**
+ * A config value safe to print: credentials are masked, and fields loaded from a reference
+ * show the `env:`/`file:` reference instead.
+ */
+export function readConfigValue(config: GnamiConfig, path: JsonPath = []): unknown {
+  const refs = loadedRefs.get(config) ?? [];
+  const copy: Record<string, unknown> = { value: structuredClone(getPath(config, path)) };
+  for (const entry of refs) {
+    if (entry.value === null && (samePath(entry.path, path) || isUnder(entry.path, path))) {
+      // Unresolved references are absent from the loaded config; show where they point.
+      setPath(copy, ["value", ...entry.path.slice(path.length)], entry.ref);
+    }
+  }
+  return mapStrings(copy.value, (entry, relative) => {
+    const full = [...path, ...relative];
+    const ref = refs.find((candidate) => samePath(candidate.path, full));
+    if (ref) return ref.ref;
+    return isSecretKey(lastKey(full)) ? MASKED_SECRET : entry;
+  });
+}
+
+function samePath(a: JsonPath, b: JsonPath): boolean {
+  return a.length === b.length && a.every((part, index) => String(part) === String(b[index]));
+}
+
+function isUnder(path: JsonPath, prefix: JsonPath): boolean {
+  return path.length > prefix.length && samePath(path.slice(0, prefix.length), prefix);
+}
+
+/**
+ * Sets one value in place and validates the result. Throws a ZodError for an invalid value and
+ * an Error for a key the schema does not know, leaving `config` unchanged either way.
+ */
+export function setConfigValue(config: GnamiConfig, path: JsonPath, value: unknown): void {
+  const draft = structuredClone(config) as Record<string, unknown>;
+  setPath(draft, path, value);
+  const parsed = configSchema.parse(draft);
+  if (getPath(parsed, path) === undefined) {
+    throw new Error(`Unknown config key "${formatPath(path)}".`);
+  }
+  replaceConfig(config, parsed, path);
+}
+
+/** Removes one value in place; fields with a default fall back to it. Returns false when it was not set. */
+export function unsetConfigValue(config: GnamiConfig, path: JsonPath): boolean {
+  const draft = structuredClone(config) as Record<string, unknown>;
+  const parent = getPath(draft, path.slice(0, -1));
+  const key = path[path.length - 1];
+  const tracked = (loadedRefs.get(config) ?? []).some(
+    (entry) => samePath(entry.path, path) || isUnder(entry.path, path)
+  );
+  if (!parent || typeof parent !== "object" || !(key in parent)) {
+    if (!tracked) return false;
+  } else if (Array.isArray(parent) && typeof key === "number") {
+    parent.splice(key, 1);
+  } else {
+    delete (parent as Record<string | number, unknown>)[key];
+  }
+  replaceConfig(config, configSchema.parse(draft), path);
+  return true;
+}
+
+/** Swaps in the new values without replacing the object, so its tracked references stay attached. */
+function replaceConfig(config: GnamiConfig, next: GnamiConfig, changed: JsonPath): void {
+  const refs = loadedRefs.get(config);
+  if (refs) {
+    // An edited field no longer comes from its reference.
+    loadedRefs.set(
+      config,
+      refs.filter((entry) => !samePath(entry.path, changed) && !isUnder(entry.path, changed))
+    );
+  }
+  Object.assign(config, next);
+}
+
+export interface SecretRefStatus {
+  /** Dotted location in `gnamiai.json`, e.g. `integrations.slack.botToken`. */
+  path: string;
+  ref: string;
+  resolved: boolean;
+}
+
+interface TrackedRef {
+  path: JsonPath;
+  ref: string;
+  value: string | null;
+}
+
+/** `env:`/`file:` references of each loaded config, so saving writes the reference back. */
+const loadedRefs = new WeakMap<GnamiConfig, TrackedRef[]>();
+
+export function configSecretRefs(config: GnamiConfig): SecretRefStatus[] {
+  return (loadedRefs.get(config) ?? []).map((entry) => ({
+    path: formatPath(entry.path),
+    ref: entry.ref,
+    resolved: entry.value !== null
+  }));
+}
+
+/** Locations in a raw `gnamiai.json` that hold a credential as a literal, unencrypted value. */
+export function findPlaintextSecrets(raw: unknown): string[] {
+  const found: string[] = [];
+  mapStrings(raw, (value, path) => {
+    if (isSecretKey(lastKey(path)) && !parseSecretRef(value) && !isEncrypted(value)) {
+      found.push(formatPath(path));
+    }
+    return value;
+  });
+  return found;
+}
+
+/** One readable message for a config that fails to load: zod issues with their paths, or the JSON error. */
+export function formatConfigError(error: unknown): string {
+  if (error instanceof z.ZodError) return z.prettifyError(error);
+  if (error instanceof SyntaxError) return `${CONFIG_PATH} is not valid JSON: ${error.message}`;
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Reads `gnamiai.json`, decrypting `enc:v1:` values and resolving `env:NAME` / `file:/path`
+ * references. An unresolvable reference leaves an optional field unset (`doctor` reports it);
+ * on a required field the load fails with an error naming the field and its reference.
+ */
 export async function loadConfig(): Promise<GnamiConfig> {
   try {
     const raw = await readFile(CONFIG_PATH, "utf-8");
-    const parsed = JSON.parse(raw) as unknown;
-    return configSchema.parse(parsed);
+    let keyring: Keyring | null | undefined;
+    const refs: TrackedRef[] = [];
+    const parsed = mapStrings(JSON.parse(raw) as unknown, (value, path) => {
+      if (isEncrypted(value)) {
+        keyring ??= loadKeyring();
+        return openValue(value, keyring, `Config secret "${formatPath(path)}"`);
+      }
+      const ref = parseSecretRef(value);
+      if (!ref) return value;
+      const resolved = resolveSecretRef(ref);
+      refs.push({ path, ref: value, value: resolved });
+      return resolved ?? undefined;
+    });
+    const result = configSchema.safeParse(parsed);
+    if (!result.success) {
+      const missing = refs.filter(
+        (entry) =>
+          entry.value === null &&
+          result.error.issues.some((issue) => formatPath(issue.path as JsonPath) === formatPath(entry.path))
+      );
+      if (missing.length > 0) {
+        throw new Error(
+          `Unresolved secret reference${missing.length > 1 ? "s" : ""} in ${CONFIG_PATH}: ${missing
+            .map((entry) => `${formatPath(entry.path)} (${entry.ref})`)
+            .join(", ")}`
+        );
+      }
+      throw result.error;
+    }
+    const config = result.data;
+    loadedRefs.set(config, refs);
+    return config;
   } catch (error) {
     if ((error as NodeJS.ErrnoException).code === "ENOENT") {
       return defaultConfig;
@@ -200,10 +761,25 @@ export async function loadConfig(): Promise<GnamiConfig> {
   }
 }
 
-export async function saveConfig(config: GnamiConfig): Promise<void> {
+/**
+ * Writes the config. Fields loaded from a reference keep the reference unless their value was
+ * changed; with a master key, literal credentials are encrypted.
+ */
+export async function saveConfig(config: GnamiConfig, keyring: Keyring | null = loadKeyring()): Promise<void> {
   await mkdir(GNAMI_HOME, { recursive: true });
-  const validated = configSchema.parse(config);
-  await writeFile(CONFIG_PATH, JSON.stringify(validated, null, 2), "utf-8");
+  const validated = configSchema.parse(config) as Record<string, unknown>;
+  for (const entry of loadedRefs.get(config) ?? []) {
+    const current = getPath(validated, entry.path);
+    if (current === undefined || current === entry.value) {
+      setPath(validated, entry.path, entry.ref);
+    }
+  }
+  const output = keyring
+    ? mapStrings(validated, (value, path) =>
+        isSecretKey(lastKey(path)) && !parseSecretRef(value) ? keyring.encrypt(value) : value
+      )
+    : validated;
+  await writeFile(CONFIG_PATH, JSON.stringify(output, null, 2), "utf-8");
 }
 
 export async function ensureConfig(): Promise<GnamiConfig> {
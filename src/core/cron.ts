@@ -0,0 +1,232 @@
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number;
+}
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *"
+};
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const WEEKDAY_INDEX: Record<string, number> = {
+  Sun: 0,
+  Mon: 1,
+  Tue: 2,
+  Wed: 3,
+  Thu: 4,
+  Fri: 5,
+  Sat: 6
+};
+
+const MINUTE_MS = 60_000;
+// Upper bound on scan steps; enough to find any schedule within several years.
+const MAX_SCAN_STEPS = 200_000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      weekday: "short"
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function zonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, string> = {};
+  for (const part of formatterFor(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAY_INDEX[parts.weekday] ?? 0
+  };
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function defaultTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+function resolveName(value: string, names: string[] | null, offset: number): number {
+  const lowered = value.toLowerCase();
+  if (names) {
+    const index = names.indexOf(lowered);
+    if (index >= 0) return index + offset;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid cron value "${value}".`);
+  }
+  return Number(value);
+}
+
+function parseField(
+  field: string,
+  min: number,
+  max: number,
+  names: string[] | null = null,
+  nameOffset = 0
+): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [range, stepRaw] = part.split("/");
+    const step = stepRaw === undefined ? 1 : Number(stepRaw);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step in "${part}".`);
+    }
+    let start = min;
+    let end = max;
+    if (range !== "*") {
+      const [from, to] = range.split("-");
+      start = resolveName(from, names, nameOffset);
+      end = to === undefined ? (stepRaw === undefined ? start : max) : resolveName(to, names, nameOffset);
+    }
+    if (start < min || end > max || start > end) {
+      throw new Error(`Cron field "${part}" is out of range ${min}-${max}.`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+function parseFields(expression: string): CronFields {
+  const normalized = MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(
+      `Invalid cron expression "${expression}". Expected 5 fields: minute hour day-of-month month day-of-week.`
+    );
+  }
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  const daysOfWeek = parseField(dayOfWeek, 0, 7, DAY_NAMES, 0);
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+  return {
+    minutes: parseField(minute, 0, 59),
+    hours: parseField(hour, 0, 23),
+    daysOfMonth: parseField(dayOfMonth, 1, 31),
+    months: parseField(month, 1, 12, MONTH_NAMES, 1),
+    daysOfWeek,
+    domRestricted: dayOfMonth !== "*",
+    dowRestricted: dayOfWeek !== "*"
+  };
+}
+
+function dayMatches(fields: CronFields, parts: ZonedParts): boolean {
+  const domMatch = fields.daysOfMonth.has(parts.day);
+  const dowMatch = fields.daysOfWeek.has(parts.weekday);
+  // Classic cron semantics: when both day fields are restricted, either may match.
+  if (fields.domRestricted && fields.dowRestricted) return domMatch || dowMatch;
+  if (fields.domRestricted) return domMatch;
+  if (fields.dowRestricted) return dowMatch;
+  return true;
+}
+
+export function validateCronExpression(expression: string): void {
+  parseFields(expression);
+}
+
+export function nextCronRun(expression: string, from: Date, timeZone = "UTC"): Date {
+  const fields = parseFields(expression);
+  let cursor = Math.floor(from.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+  for (let step = 0; step < MAX_SCAN_STEPS; step++) {
+    const parts = zonedParts(new Date(cursor), timeZone);
+    if (!fields.months.has(parts.month) || !dayMatches(fields, parts)) {
+      cursor += ((23 - parts.hour) * 60 + (60 - parts.minute)) * MINUTE_MS;
+      continue;
+    }
+    if (!fields.hours.has(parts.hour)) {
+      cursor += (60 - parts.minute) * MINUTE_MS;
+      continue;
+    }
+    if (!fields.minutes.has(parts.minute)) {
+      cursor += MINUTE_MS;
+      continue;
+    }
+    return new Date(cursor);
+  }
+  throw new Error(`Cron expression "${expression}" never matches.`);
+}
+
+/**
+ * Parses a one-shot run time. Timestamps without an explicit offset are
+ * interpreted as wall-clock time in the given time zone.
+ */
+export function parseRunAt(value: string, timeZone = "UTC"): Date {
+  const trimmed = value.trim();
+  if (/(?:z|[+-]\d{2}:?\d{2})$/i.test(trimmed)) {
+    const date = new Date(trimmed);
+    if (Number.isNaN(date.getTime())) {
+      throw new Error(`Invalid run time "${value}".`);
+    }
+    return date;
+  }
+  const match = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (!match) {
+    throw new Error(`Invalid run time "${value}". Use ISO format, e.g. 2026-01-31T09:00.`);
+  }
+  const [, year, month, day, hour = "0", minute = "0", second = "0"] = match;
+  const wallClock = Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour),
+    Number(minute),
+    Number(second)
+  );
+  let guess = wallClock;
+  // Two passes settle the zone offset, including across DST transitions.
+  for (let i = 0; i < 2; i++) {
+    const parts = zonedParts(new Date(guess), timeZone);
+    const observed = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+    guess += wallClock - Number(second) * 1000 - observed;
+  }
+  return new Date(guess);
+}
@@ -0,0 +1,135 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scryptSync } from "node:crypto";
+import { existsSync, readFileSync } from "node:fs";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { GNAMI_HOME, MASTER_KEY_PATH } from "../utils/paths.js";
+
+/** Encrypted values are `enc:v1:<keyId>:<iv>:<tag>:<ciphertext>`, base64 parts, AES-256-GCM. */
+export const ENCRYPTED_PREFIX = "enc:v1:";
+
+export interface MasterKey {
+  /** First 8 hex characters of the key's SHA-256; tells which key sealed a value. */
+  id: string;
+  key: Buffer;
+}
+
+export type KeySource = "env" | "file";
+
+export function isEncrypted(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith(ENCRYPTED_PREFIX);
+}
+
+/** 32 random bytes, base64. */
+export function generateMasterKey(): string {
+  return randomBytes(32).toString("base64");
+}
+
+/**
+ * A 32-byte key as base64 or hex is used as is; anything else is treated as a passphrase and
+ * stretched with scrypt, so `GNAMI_MASTER_KEY` can also hold a memorable secret.
+ */
+export function parseMasterKey(value: string): MasterKey {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    throw new Error("Master key is empty.");
+  }
+  let key: Buffer;
+  if (/^[0-9a-f]{64}$/i.test(trimmed)) {
+    key = Buffer.from(trimmed, "hex");
+  } else if (/^[A-Za-z0-9+/]{43}=$/.test(trimmed)) {
+    key = Buffer.from(trimmed, "base64");
+  } else {
+    key = scryptSync(trimmed, "gnamiai-master-key", 32);
+  }
+  return { id: createHash("sha256").update(key).digest("hex").slice(0, 8), key };
+}
+
+/** The first key seals new values; the others only open values sealed before a rotation. */
+export class Keyring {
+  readonly keys: MasterKey[];
+
+  constructor(keys: MasterKey[]) {
+    if (keys.length === 0) {
+      throw new Error("Keyring needs at least one key.");
+    }
+    this.keys = keys;
+  }
+
+  get current(): MasterKey {
+    return this.keys[0];
+  }
+
+  encrypt(plaintext: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", this.current.key, iv);
+    const data = Buffer.concat([cipher.update(plaintext, "utf-8"), cipher.final()]);
+    return `${ENCRYPTED_PREFIX}${this.current.id}:${iv.toString("base64")}:${cipher
+      .getAuthTag()
+      .toString("base64")}:${data.toString("base64")}`;
+  }
+
+  /** Plain values pass through unchanged, so data written before encryption stays readable. */
+  decrypt(value: string): string {
+    if (!isEncrypted(value)) {
+      return value;
+    }
+    const [id, iv, tag, data] = value.slice(ENCRYPTED_PREFIX.length).split(":");
+    const entry = this.keys.find((candidate) => candidate.id === id);
+    if (!entry || iv === undefined || tag === undefined || data === undefined) {
+      throw new Error(`Value was encrypted with master key ${id ?? "?"}, which is not available.`);
+    }
+    try {
+      const decipher = createDecipheriv("aes-256-gcm", entry.key, Buffer.from(iv, "base64"));
+      decipher.setAuthTag(Buffer.from(tag, "base64"));
+      return Buffer.concat([decipher.update(Buffer.from(data, "base64")), decipher.final()]).toString("utf-8");
+    } catch {
+      throw new Error(`Encrypted value failed authentication with master key ${id}.`);
+    }
+  }
+}
+
+export function keySource(): KeySource | null {
+  if (process.env.GNAMI_MASTER_KEY?.trim()) return "env";
+  return existsSync(MASTER_KEY_PATH) ? "file" : null;
+}
+
+/**
+ * `GNAMI_MASTER_KEY` wins over the key file (`GNAMI_HOME/master.key`, one key per line, current
+ * first). No key means encryption is off.
+ */
+export function loadKeyring(): Keyring | null {
+  const source = keySource();
+  if (source === "env") {
+    return new Keyring([parseMasterKey(process.env.GNAMI_MASTER_KEY as string)]);
+  }
+  if (source === "file") {
+    const lines = readFileSync(MASTER_KEY_PATH, "utf-8")
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter(Boolean);
+    if (lines.length === 0) {
+      throw new Error(`${MASTER_KEY_PATH} holds no key.`);
+    }
+    return new Keyring(lines.map(parseMasterKey));
+  }
+  return null;
+}
+
+export async function writeKeyFile(keys: string[]): Promise<void> {
+  await mkdir(GNAMI_HOME, { recursive: true });
+  await writeFile(MASTER_KEY_PATH, `${keys.join("\n")}\n`, { encoding: "utf-8", mode: 0o600 });
+}
+
+export async function removeKeyFile(): Promise<void> {
+  await rm(MASTER_KEY_PATH, { force: true });
+}
+
+/** Opens a possibly encrypted value; fails clearly when it is sealed and no key is configured. */
+export function openValue(value: string, keyring: Keyring | null, label = "Value"): string {
+  if (!isEncrypted(value)) {
+    return value;
+  }
+  if (!keyring) {
+    throw new Error(`${label} is encrypted but no master key is set (GNAMI_MASTER_KEY or ${MASTER_KEY_PATH}).`);
+  }
+  return keyring.decrypt(value);
+}
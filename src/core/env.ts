@@ -1,17 +1,51 @@
 import { existsSync } from "node:fs";
 import { readFile, writeFile } from "node:fs/promises";
 import { readFileSync } from "node:fs";
+import { homedir } from "node:os";
 import { join } from "node:path";
 import dotenv from "dotenv";
 
 export const ENV_PATH = join(process.cwd(), ".env");
 export const ENV_EXAMPLE_PATH = join(process.cwd(), ".env.example");
 
+// Variables set by the real environment; env files never override these, even on reload.
+let inheritedEnv: Set<string> | null = null;
+const fileEnvKeys = new Set<string>();
+
 export function loadEnvFiles(): void {
+  inheritedEnv ??= new Set(Object.keys(process.env));
   // Primary runtime env file.
   dotenv.config({ path: ENV_PATH, override: false, quiet: true });
   // Fallback for users who only populated .env.example.
   dotenv.config({ path: ENV_EXAMPLE_PATH, override: false, quiet: true });
+  for (const key of Object.keys(process.env)) {
+    if (!inheritedEnv.has(key)) fileEnvKeys.add(key);
+  }
+}
+
+function parseEnvFile(filePath: string): Record<string, string> {
+  try {
+    return dotenv.parse(readFileSync(filePath, "utf-8"));
+  } catch {
+    return {};
+  }
+}
+
+/** Re-reads `.env` and `.env.example` into `process.env`: changed values apply and removed ones are unset. */
+export function reloadEnvFiles(): void {
+  inheritedEnv ??= new Set(Object.keys(process.env));
+  const next = { ...parseEnvFile(ENV_EXAMPLE_PATH), ...parseEnvFile(ENV_PATH) };
+  for (const key of fileEnvKeys) {
+    if (!(key in next)) {
+      delete process.env[key];
+      fileEnvKeys.delete(key);
+    }
+  }
+  for (const [key, value] of Object.entries(next)) {
+    if (inheritedEnv.has(key)) continue;
+    process.env[key] = value;
+    fileEnvKeys.add(key);
+  }
 }
 
 function readEnvFileValue(filePath: string, key: string): string | null {
@@ -35,6 +69,43 @@ export function resolveRuntimeEnvVar(key: string): string | null {
   return readEnvFileValue(ENV_PATH, key) ?? readEnvFileValue(ENV_EXAMPLE_PATH, key);
 }
 
+export interface SecretRef {
+  kind: "env" | "file";
+  target: string;
+}
+
+/** `env:NAME` or `file:/path` (`~/` allowed); null for a literal value. */
+export function parseSecretRef(value: string): SecretRef | null {
+  const env = value.match(/^env:([A-Za-z_][A-Za-z0-9_]*)$/);
+  if (env) {
+    return { kind: "env", target: env[1] };
+  }
+  const file = value.match(/^file:(.+)$/);
+  if (file) {
+    const path = file[1].trim();
+    return { kind: "file", target: path.startsWith("~/") ? join(homedir(), path.slice(2)) : path };
+  }
+  return null;
+}
+
+/** Environment (including `.env`) or file contents, trimmed; null when unset or unreadable. */
+export function resolveSecretRef(ref: SecretRef): string | null {
+  if (ref.kind === "env") {
+    return resolveRuntimeEnvVar(ref.target);
+  }
+  try {
+    const value = readFileSync(ref.target, "utf-8").trim();
+    return value.length > 0 ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+/** `SLACK_BOT_TOKEN` for the `botToken` field of `slack`. */
+export function envVarName(scope: string, field: string): string {
+  return `${scope}_${field.replace(/([a-z0-9])([A-Z])/g, "$1_$2")}`.toUpperCase();
+}
+
 export async function upsertEnvVar(key: string, value: string): Promise<void> {
   const normalized = value.replace(/\r?\n/g, "").trim();
   if (!normalized) {
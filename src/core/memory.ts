@@ -2,6 +2,7 @@ import { mkdir, readFile, writeFile } from "node:fs/promises";
 import type { GnamiConfig } from "./config.js";
 import { BASIC_MEMORY_PATH, DATA_DIR, MEMORY_ENTITY_LOCK_PATH } from "../utils/paths.js";
 import { resolveRuntimeEnvVar } from "./env.js";
+import { type Keyring, loadKeyring, openValue } from "./encryption.js";
 
 interface Mem0Record {
   memory?: string;
@@ -25,8 +26,24 @@ export interface MemoryWriteResult {
   backend: "mem0" | "basic";
 }
 
+export interface MemoryForgetResult {
+  /** Memory user ids whose notes, skills and Mem0 memories were (or would be) deleted. */
+  userIds: string[];
+  notes: number;
+  skills: number;
+  mem0: "deleted" | "dry-run" | "disabled" | "failed";
+  mem0Error?: string;
+  /** The locked memory entity when it belongs to someone else and was therefore kept. */
+  sharedEntity: string | null;
+}
+
 export class MemoryService {
-  constructor(private readonly config: GnamiConfig) {}
+  /** With a master key, `basic-memory.json` is written as one encrypted value. */
+  private readonly keyring: Keyring | null;
+
+  constructor(private readonly config: GnamiConfig) {
+    this.keyring = loadKeyring();
+  }
 
   private get mem0Key(): string | null {
     return resolveRuntimeEnvVar("MEM0_API_KEY") ?? this.config.memory.mem0ApiKey ?? null;
@@ -96,23 +113,33 @@ export class MemoryService {
     return null;
   }
 
-  private async userId(sessionUserId: string): Promise<string> {
-    await mkdir(DATA_DIR, { recursive: true });
-    const configured = this.configuredEntity();
+  private async lockedEntity(): Promise<string | null> {
     try {
       const locked = (await readFile(MEMORY_ENTITY_LOCK_PATH, "utf-8")).trim();
-      if (locked.length > 0) {
-        return locked;
-      }
+      return locked.length > 0 ? locked : null;
     } catch {
       // no lock yet
+      return null;
+    }
+  }
+
+  private fallbackUserId(sessionUserId: string): string {
+    const prefix = this.config.memory.userIdPrefix ?? "gnamiai";
+    return `${prefix}:${sessionUserId}`;
+  }
+
+  private async userId(sessionUserId: string): Promise<string> {
+    await mkdir(DATA_DIR, { recursive: true });
+    const configured = this.configuredEntity();
+    const locked = await this.lockedEntity();
+    if (locked) {
+      return locked;
     }
     if (configured) {
       await writeFile(MEMORY_ENTITY_LOCK_PATH, configured, "utf-8");
       return configured;
     }
-    const prefix = this.config.memory.userIdPrefix ?? "gnamiai";
-    const fallback = `${prefix}:${sessionUserId}`;
+    const fallback = this.fallbackUserId(sessionUserId);
     // Lock fallback too, to avoid creating multiple entities over time.
     await writeFile(MEMORY_ENTITY_LOCK_PATH, fallback, "utf-8");
     return fallback;
@@ -120,9 +147,16 @@ export class MemoryService {
 
   private async loadBasicStore(): Promise<BasicMemoryStore> {
     await mkdir(DATA_DIR, { recursive: true });
+    let raw: string;
+    try {
+      raw = await readFile(BASIC_MEMORY_PATH, "utf-8");
+    } catch {
+      return EMPTY_STORE;
+    }
+    // Outside the catch: a file that cannot be decrypted must not be treated as empty and overwritten.
+    const text = openValue(raw.trim(), this.keyring, "Local memory");
     try {
-      const raw = await readFile(BASIC_MEMORY_PATH, "utf-8");
-      const parsed = JSON.parse(raw) as BasicMemoryStore;
+      const parsed = JSON.parse(text) as BasicMemoryStore;
       return parsed?.users ? parsed : EMPTY_STORE;
     } catch {
       return EMPTY_STORE;
@@ -131,7 +165,8 @@ export class MemoryService {
 
   private async saveBasicStore(store: BasicMemoryStore): Promise<void> {
     await mkdir(DATA_DIR, { recursive: true });
-    await writeFile(BASIC_MEMORY_PATH, JSON.stringify(store, null, 2), "utf-8");
+    const json = JSON.stringify(store, null, 2);
+    await writeFile(BASIC_MEMORY_PATH, this.keyring ? this.keyring.encrypt(json) : json, "utf-8");
   }
 
   private async withBasicUser(sessionUserId: string): Promise<[BasicMemoryStore, BasicMemoryUser, string]> {
@@ -269,6 +304,84 @@ export class MemoryService {
     return user.skills[skillName] ?? null;
   }
 
+  private async mem0DeleteAll(userId: string): Promise<void> {
+    const url = new URL(this.mem0Url("/v1/memories/"));
+    url.searchParams.set("user_id", userId);
+    const response = await fetch(url, { method: "DELETE", headers: this.authHeaders() });
+    // 404: nothing was ever stored for this user.
+    if (!response.ok && response.status !== 404) {
+      const body = (await response.text()).slice(0, 800);
+      throw new Error(`Mem0 delete for ${userId} failed (${response.status}): ${body}`);
+    }
+  }
+
+  /**
+   * Deletes the memory kept for one sender (all their session user ids). All senders share the
+   * locked memory entity, so when it belongs to someone else (or is configured) it is only deleted
+   * with `includeShared`.
+   */
+  async forgetUser(
+    sessionUserIds: string[],
+    options: { dryRun?: boolean; includeShared?: boolean } = {}
+  ): Promise<MemoryForgetResult> {
+    const own = sessionUserIds.map((id) => this.fallbackUserId(id));
+    const entity = (await this.lockedEntity()) ?? this.configuredEntity();
+    const userIds = [...own];
+    let sharedEntity: string | null = null;
+    if (entity && !own.includes(entity)) {
+      if (options.includeShared) {
+        userIds.push(entity);
+      } else {
+        sharedEntity = entity;
+      }
+    }
+
+    const store = await this.loadBasicStore();
+    let notes = 0;
+    let skills = 0;
+    for (const userId of userIds) {
+      const user = store.users[userId];
+      if (!user) continue;
+      notes += user.notes.length;
+      skills += Object.keys(user.skills).length;
+      delete store.users[userId];
+    }
+    if (!options.dryRun && (notes > 0 || skills > 0)) {
+      await this.saveBasicStore(store);
+    }
+
+    const result: MemoryForgetResult = { userIds, notes, skills, mem0: "disabled", sharedEntity };
+    if (!this.mem0Enabled) {
+      return result;
+    }
+    if (options.dryRun) {
+      return { ...result, mem0: "dry-run" };
+    }
+    try {
+      for (const userId of userIds) {
+        await this.mem0DeleteAll(userId);
+      }
+      return { ...result, mem0: "deleted" };
+    } catch (error) {
+      return { ...result, mem0: "failed", mem0Error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /** Keeps the newest `max` local notes per memory user; returns how many were (or would be) removed. */
+  async trimBasicNotes(max: number, dryRun = false): Promise<number> {
+    const store = await this.loadBasicStore();
+    let removed = 0;
+    for (const user of Object.values(store.users)) {
+      if (user.notes.length <= max) continue;
+      removed += user.notes.length - max;
+      user.notes = user.notes.slice(-max);
+    }
+    if (!dryRun && removed > 0) {
+      await this.saveBasicStore(store);
+    }
+    return removed;
+  }
+
   async getContext(
     sessionUserId: string,
     latestUserInput: string,
@@ -0,0 +1,390 @@
+import { mkdir } from "node:fs/promises";
+import { join } from "node:path";
+import type Database from "better-sqlite3";
+import { BACKUP_DIR } from "../utils/paths.js";
+
+export interface Migration {
+  version: number;
+  name: string;
+  /** Table rebuilds that drop a referenced table run with foreign key enforcement off. */
+  foreignKeysOff?: boolean;
+  up: (db: Database.Database) => void;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  appliedAt: string;
+}
+
+export interface SchemaStatus {
+  current: number;
+  latest: number;
+  applied: AppliedMigration[];
+  pending: Array<Pick<Migration, "version" | "name">>;
+}
+
+export interface MigrationResult {
+  applied: AppliedMigration[];
+  /** Copy of the database taken before the first pending migration, if any ran. */
+  backupPath: string | null;
+}
+
+function sessionsTableSql(name: string): string {
+  return `CREATE TABLE IF NOT EXISTS ${name} (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        channel TEXT NOT NULL,
+        sender_id TEXT NOT NULL,
+        title TEXT NOT NULL DEFAULT 'default',
+        active INTEGER NOT NULL DEFAULT 0,
+        parent_session_id INTEGER,
+        forked_from_message_id INTEGER,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );`;
+}
+
+function hasTable(db: Database.Database, name: string): boolean {
+  return Boolean(db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(name));
+}
+
+function addColumnIfMissing(db: Database.Database, table: string, column: string, type: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (!columns.some((entry) => entry.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+  }
+}
+
+/**
+ * Ordered up-migrations. Versions 1-6 cover the schema that `Store` used to create on every start
+ * before versioning existed, so each of them tolerates a database where it was already applied.
+ * Later migrations can rely on everything before them.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "core tables",
+    up: (db) =>
+      db.exec(`
+        ${sessionsTableSql("sessions")}
+
+        CREATE TABLE IF NOT EXISTS messages (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          session_id INTEGER NOT NULL,
+          direction TEXT NOT NULL,
+          content TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (session_id) REFERENCES sessions(id)
+        );
+
+        CREATE TABLE IF NOT EXISTS pairings (
+          channel TEXT NOT NULL,
+          sender_id TEXT NOT NULL,
+          approved INTEGER NOT NULL DEFAULT 0,
+          code TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          PRIMARY KEY(channel, sender_id)
+        );
+
+        CREATE TABLE IF NOT EXISTS memory_events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          session_key TEXT NOT NULL,
+          status TEXT NOT NULL,
+          detail TEXT,
+          created_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS cron_jobs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          kind TEXT NOT NULL,
+          expression TEXT NOT NULL,
+          timezone TEXT NOT NULL,
+          target TEXT NOT NULL,
+          enabled INTEGER NOT NULL DEFAULT 1,
+          next_run_at TEXT,
+          last_run_at TEXT,
+          last_status TEXT,
+          last_result TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS approvals (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          session_id INTEGER NOT NULL,
+          channel TEXT NOT NULL,
+          sender_id TEXT NOT NULL,
+          action TEXT NOT NULL,
+          request TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          result TEXT,
+          created_at TEXT NOT NULL,
+          resolved_at TEXT,
+          FOREIGN KEY (session_id) REFERENCES sessions(id)
+        );
+      `)
+  },
+  {
+    version: 2,
+    name: "answering model on messages",
+    up: (db) => addColumnIfMissing(db, "messages", "model", "TEXT")
+  },
+  {
+    version: 3,
+    name: "model usage",
+    up: (db) =>
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS model_usage (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          session_id INTEGER,
+          channel TEXT,
+          provider TEXT NOT NULL,
+          model TEXT NOT NULL,
+          prompt_tokens INTEGER NOT NULL,
+          completion_tokens INTEGER NOT NULL,
+          estimated INTEGER NOT NULL DEFAULT 0,
+          latency_ms INTEGER NOT NULL,
+          created_at TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_model_usage_created ON model_usage(created_at);
+      `)
+  },
+  {
+    // Sessions used to be UNIQUE(channel, sender_id). SQLite cannot drop a constraint, so the
+    // table is rebuilt; every existing session becomes its sender's active "default" thread.
+    version: 4,
+    name: "conversation threads",
+    foreignKeysOff: true,
+    up: (db) => {
+      const row = db
+        .prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'sessions'")
+        .get() as { sql: string };
+      if (/UNIQUE\s*\(\s*channel\s*,\s*sender_id\s*\)/i.test(row.sql)) {
+        db.exec(`
+          ${sessionsTableSql("sessions_threads")}
+          INSERT INTO sessions_threads(id, channel, sender_id, title, active, created_at, updated_at)
+            SELECT id, channel, sender_id, 'default', 1, created_at, updated_at FROM sessions;
+          DROP TABLE sessions;
+          ALTER TABLE sessions_threads RENAME TO sessions;
+        `);
+      }
+      db.exec("CREATE INDEX IF NOT EXISTS idx_sessions_sender ON sessions(channel, sender_id)");
+    }
+  },
+  {
+    // External-content FTS5 index over messages.content, kept in sync by triggers.
+    version: 5,
+    name: "message search index",
+    up: (db) => {
+      const exists = hasTable(db, "messages_fts");
+      db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+          content, content='messages', content_rowid='id', tokenize='unicode61 remove_diacritics 2'
+        );
+
+        CREATE TRIGGER IF NOT EXISTS messages_fts_insert AFTER INSERT ON messages BEGIN
+          INSERT INTO messages_fts(rowid, content) VALUES (new.id, new.content);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS messages_fts_delete AFTER DELETE ON messages BEGIN
+          INSERT INTO messages_fts(messages_fts, rowid, content) VALUES ('delete', old.id, old.content);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS messages_fts_update AFTER UPDATE OF content ON messages BEGIN
+          INSERT INTO messages_fts(messages_fts, rowid, content) VALUES ('delete', old.id, old.content);
+          INSERT INTO messages_fts(rowid, content) VALUES (new.id, new.content);
+        END;
+      `);
+      if (!exists) {
+        db.exec("INSERT INTO messages_fts(messages_fts) VALUES ('rebuild')");
+      }
+    }
+  },
+  {
+    version: 6,
+    name: "session summaries",
+    up: (db) =>
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS session_summaries (
+          session_id INTEGER PRIMARY KEY,
+          content TEXT NOT NULL,
+          through_message_id INTEGER NOT NULL,
+          edited INTEGER NOT NULL DEFAULT 0,
+          updated_at TEXT NOT NULL,
+          FOREIGN KEY (session_id) REFERENCES sessions(id)
+        );
+      `)
+  },
+  {
+    // Encrypted content would only fill the index with ciphertext tokens, so it is left out;
+    // search falls back to scanning decrypted messages when a master key is set.
+    version: 7,
+    name: "skip encrypted messages in search index",
+    up: (db) =>
+      db.exec(`
+        DROP TRIGGER IF EXISTS messages_fts_insert;
+        DROP TRIGGER IF EXISTS messages_fts_delete;
+        DROP TRIGGER IF EXISTS messages_fts_update;
+
+        CREATE TRIGGER messages_fts_insert AFTER INSERT ON messages
+        WHEN new.content NOT LIKE 'enc:v1:%' BEGIN
+          INSERT INTO messages_fts(rowid, content) VALUES (new.id, new.content);
+        END;
+
+        CREATE TRIGGER messages_fts_delete AFTER DELETE ON messages
+        WHEN old.content NOT LIKE 'enc:v1:%' BEGIN
+          INSERT INTO messages_fts(messages_fts, rowid, content) VALUES ('delete', old.id, old.content);
+        END;
+
+        CREATE TRIGGER messages_fts_update AFTER UPDATE OF content ON messages BEGIN
+          INSERT INTO messages_fts(messages_fts, rowid, content)
+            SELECT 'delete', old.id, old.content WHERE old.content NOT LIKE 'enc:v1:%';
+          INSERT INTO messages_fts(rowid, content)
+            SELECT new.id, new.content WHERE new.content NOT LIKE 'enc:v1:%';
+        END;
+      `)
+  },
+  {
+    version: 8,
+    name: "message delivery status",
+    up: (db) =>
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS message_deliveries (
+          channel TEXT NOT NULL,
+          external_id TEXT NOT NULL,
+          recipient TEXT NOT NULL,
+          status TEXT NOT NULL,
+          error TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          PRIMARY KEY (channel, external_id)
+        );
+        CREATE INDEX IF NOT EXISTS idx_message_deliveries_recipient ON message_deliveries(channel, recipient);
+      `)
+  },
+  {
+    version: 9,
+    name: "session pairing identity",
+    up: (db) =>
+      db.exec(`
+        ALTER TABLE sessions ADD COLUMN pairing_id TEXT;
+        CREATE INDEX IF NOT EXISTS idx_sessions_pairing ON sessions(channel, pairing_id);
+      `)
+  }
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+function ensureVersionTable(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    );
+  `);
+}
+
+/** Read-only: works on a database opened with `readonly: true`. */
+export function schemaStatus(db: Database.Database, migrations = MIGRATIONS): SchemaStatus {
+  const applied = hasTable(db, "schema_version")
+    ? (db
+        .prepare("SELECT version, name, applied_at as appliedAt FROM schema_version ORDER BY version")
+        .all() as AppliedMigration[])
+    : [];
+  const done = new Set(applied.map((entry) => entry.version));
+  return {
+    current: applied.reduce((max, entry) => Math.max(max, entry.version), 0),
+    latest: migrations[migrations.length - 1]?.version ?? 0,
+    applied,
+    pending: migrations
+      .filter((migration) => !done.has(migration.version))
+      .map(({ version, name }) => ({ version, name }))
+  };
+}
+
+function timestamp(): string {
+  return new Date().toISOString().replace(/[:.]/g, "-");
+}
+
+/** Online copy through SQLite's backup API, safe while other connections are open. */
+export async function backupDatabase(db: Database.Database, target?: string): Promise<string> {
+  await mkdir(BACKUP_DIR, { recursive: true });
+  const path = target ?? join(BACKUP_DIR, `gateway-${timestamp()}.sqlite`);
+  await db.backup(path);
+  return path;
+}
+
+function applyMigration(db: Database.Database, migration: Migration): AppliedMigration | null {
+  // foreign_keys cannot change inside a transaction, so it is switched around it.
+  if (migration.foreignKeysOff) db.pragma("foreign_keys = OFF");
+  try {
+    return db
+      .transaction((): AppliedMigration | null => {
+        // Another process may have applied it between the status read and this write lock.
+        if (db.prepare("SELECT 1 FROM schema_version WHERE version = ?").get(migration.version)) {
+          return null;
+        }
+        migration.up(db);
+        if (migration.foreignKeysOff) {
+          const violations = db.pragma("foreign_key_check") as unknown[];
+          if (violations.length > 0) {
+            throw new Error(`Migration ${migration.version} left ${violations.length} foreign key violations.`);
+          }
+        }
+        const appliedAt = new Date().toISOString();
+        db.prepare("INSERT INTO schema_version(version, name, applied_at) VALUES (?, ?, ?)").run(
+          migration.version,
+          migration.name,
+          appliedAt
+        );
+        return { version: migration.version, name: migration.name, appliedAt };
+      })
+      .immediate();
+  } catch (error) {
+    throw new Error(
+      `Migration ${migration.version} (${migration.name}) failed and was rolled back: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  } finally {
+    if (migration.foreignKeysOff) db.pragma("foreign_keys = ON");
+  }
+}
+
+/**
+ * Applies pending migrations in order, each in its own transaction. A database that already holds
+ * tables is copied to `BACKUP_DIR` first; a brand-new one is not.
+ */
+export async function migrateDatabase(
+  db: Database.Database,
+  options: { backup?: boolean; migrations?: Migration[] } = {}
+): Promise<MigrationResult> {
+  const migrations = options.migrations ?? MIGRATIONS;
+  const status = schemaStatus(db, migrations);
+  if (status.current > status.latest) {
+    throw new Error(
+      `Database schema version ${status.current} is newer than this build supports (${status.latest}). Upgrade GnamiAI.`
+    );
+  }
+  if (status.pending.length === 0) {
+    return { applied: [], backupPath: null };
+  }
+  const hasData = Boolean(
+    db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%'").get()
+  );
+  const backupPath =
+    options.backup !== false && hasData
+      ? await backupDatabase(db, join(BACKUP_DIR, `gateway-${timestamp()}-v${status.current}.sqlite`))
+      : null;
+  ensureVersionTable(db);
+  const applied: AppliedMigration[] = [];
+  for (const pending of status.pending) {
+    const migration = migrations.find((entry) => entry.version === pending.version) as Migration;
+    const result = applyMigration(db, migration);
+    if (result) applied.push(result);
+  }
+  return { applied, backupPath };
+}
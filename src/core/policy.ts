@@ -0,0 +1,143 @@
+import { isAbsolute, relative, resolve } from "node:path";
+import type { GnamiConfig } from "./config.js";
+import type { AgentAction } from "./actions.js";
+
+export type ActionPolicy = GnamiConfig["policy"];
+type ShellPolicy = ActionPolicy["shell"];
+
+export interface PolicyContext {
+  channel?: string;
+  senderId?: string;
+  /**
+   * Shell commands run in the sandbox, whose root already confines the working directory; `allowedCwds`
+   * names host paths, so it is not checked against a sandbox-relative `cwd`.
+   */
+  sandboxed?: boolean;
+}
+
+export type PolicyDecision =
+  | { allowed: true; cwd?: string; env?: NodeJS.ProcessEnv }
+  | { allowed: false; reason: string };
+
+interface EffectivePolicy {
+  shell: ShellPolicy;
+  integrations: Record<string, string[]>;
+}
+
+function compilePattern(pattern: string): (command: string) => boolean {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) {
+    const compiled = new RegExp(regex[1], regex[2]);
+    return (command) => compiled.test(command);
+  }
+  const prefix = pattern.trim();
+  return (command) => command === prefix || command.startsWith(`${prefix} `);
+}
+
+function matchesAny(patterns: string[], command: string): string | null {
+  return patterns.find((pattern) => compilePattern(pattern)(command)) ?? null;
+}
+
+// Chained commands are checked segment by segment so an allowed prefix cannot smuggle in another command.
+// A lone `&` (background) also starts a new command; `2>&1` and `&>` are redirections, not separators.
+function commandSegments(command: string): string[] {
+  return command
+    .split(/&&|\|\||(?<![<>])&(?!>)|[;|\n]/)
+    .map((segment) => segment.trim())
+    .filter(Boolean);
+}
+
+function isWithin(parent: string, child: string): boolean {
+  const rel = relative(resolve(parent), resolve(child));
+  return rel === "" || (!rel.startsWith("..") && !isAbsolute(rel));
+}
+
+export function resolvePolicy(policy: ActionPolicy, context: PolicyContext = {}): EffectivePolicy {
+  let shell: ShellPolicy = { ...policy.shell };
+  let integrations: Record<string, string[]> = { ...policy.integrations };
+  for (const override of policy.overrides) {
+    if (override.channel && override.channel !== context.channel) continue;
+    if (override.senderId && override.senderId !== context.senderId) continue;
+    shell = { ...shell, ...override.shell };
+    integrations = { ...integrations, ...override.integrations };
+  }
+  return { shell, integrations };
+}
+
+function evaluateShell(
+  shell: ShellPolicy,
+  command: string,
+  cwd: string | undefined,
+  sandboxed: boolean
+): PolicyDecision {
+  if (!shell.enabled) {
+    return { allowed: false, reason: "Shell actions are disabled by policy." };
+  }
+  const full = command.trim();
+  const fullDeny = matchesAny(shell.deny, full);
+  if (fullDeny) {
+    return { allowed: false, reason: `Command matches denied pattern "${fullDeny}".` };
+  }
+  for (const segment of commandSegments(full)) {
+    const denied = matchesAny(shell.deny, segment);
+    if (denied) {
+      return { allowed: false, reason: `Command matches denied pattern "${denied}".` };
+    }
+  }
+  if (shell.allow.length > 0) {
+    if (/`|\$\(/.test(full)) {
+      return { allowed: false, reason: "Command substitution is not allowed with a shell allowlist." };
+    }
+    // Covers `>`, `>>`, `<` and process substitution (`<(`, `>(`): an allowed command could write any file.
+    if (/[<>]/.test(full)) {
+      return { allowed: false, reason: "Redirection is not allowed with a shell allowlist." };
+    }
+    const blocked = commandSegments(full).find((segment) => !matchesAny(shell.allow, segment));
+    if (blocked !== undefined) {
+      return { allowed: false, reason: `Command "${blocked}" is not in the shell allowlist.` };
+    }
+  }
+
+  const workingDir = sandboxed ? undefined : resolve(cwd ?? process.cwd());
+  if (
+    workingDir &&
+    shell.allowedCwds.length > 0 &&
+    !shell.allowedCwds.some((dir) => isWithin(dir, workingDir))
+  ) {
+    return { allowed: false, reason: `Working directory "${workingDir}" is not allowed by policy.` };
+  }
+
+  if (!shell.envAllowlist) {
+    return { allowed: true, cwd: workingDir };
+  }
+  const env: NodeJS.ProcessEnv = {};
+  for (const key of shell.envAllowlist) {
+    if (process.env[key] !== undefined) env[key] = process.env[key];
+  }
+  return { allowed: true, cwd: workingDir, env };
+}
+
+export function evaluateActionPolicy(
+  policy: ActionPolicy,
+  action: AgentAction,
+  context: PolicyContext = {}
+): PolicyDecision {
+  const effective = resolvePolicy(policy, context);
+  if (action.type === "shell") {
+    return evaluateShell(effective.shell, action.command, action.cwd, context.sandboxed ?? false);
+  }
+  if (action.type === "integration") {
+    const allowed = effective.integrations[action.app];
+    if (allowed && !allowed.includes(action.action)) {
+      return {
+        allowed: false,
+        reason: `Integration action "${action.app}.${action.action}" is not allowed by policy.`
+      };
+    }
+  }
+  return { allowed: true };
+}
+
+export function refusalOutput(reason: string): string {
+  return JSON.stringify({ refused: true, reason });
+}
@@ -0,0 +1,200 @@
+import type pino from "pino";
+import type { GnamiConfig } from "./config.js";
+import type { MemoryForgetResult, MemoryService } from "./memory.js";
+import type { Store } from "./store.js";
+import { CHANNEL_NAMES, type ChannelName } from "../types.js";
+import { defaultTimeZone, nextCronRun } from "./cron.js";
+
+export interface RetentionRule {
+  maxAgeDays?: number;
+  maxMessages?: number;
+}
+
+export type RetentionRules = Partial<Record<ChannelName, RetentionRule>>;
+
+export interface ChannelPurgeCounts {
+  channel: ChannelName;
+  messages: number;
+  memoryEvents: number;
+}
+
+export interface StorePurgeResult {
+  channels: ChannelPurgeCounts[];
+  /** Thread summaries that covered deleted messages; they are rebuilt from what is left. */
+  summaries: number;
+}
+
+export interface PurgeReport extends StorePurgeResult {
+  dryRun: boolean;
+  /** Local memory notes trimmed, or null when `maxMemoryNotes` is not set. */
+  memoryNotes: number | null;
+}
+
+export interface SenderDataCounts {
+  sessions: number;
+  messages: number;
+  summaries: number;
+  approvals: number;
+  pairings: number;
+  memoryEvents: number;
+  deliveries: number;
+}
+
+export interface ForgetReport {
+  channel: ChannelName;
+  senderId: string;
+  dryRun: boolean;
+  data: SenderDataCounts;
+  memory: MemoryForgetResult;
+}
+
+/** Effective rule per channel; channels without any limit are left out. */
+export function retentionRules(config: GnamiConfig): RetentionRules {
+  const { maxAgeDays, maxMessages, channels } = config.retention;
+  const rules: RetentionRules = {};
+  for (const channel of CHANNEL_NAMES) {
+    const rule = { maxAgeDays, maxMessages, ...stripUndefined(channels[channel] ?? {}) };
+    if (rule.maxAgeDays || rule.maxMessages) {
+      rules[channel] = rule;
+    }
+  }
+  return rules;
+}
+
+function stripUndefined(rule: RetentionRule): RetentionRule {
+  return Object.fromEntries(Object.entries(rule).filter(([, value]) => value !== undefined));
+}
+
+export function hasRetention(config: GnamiConfig): boolean {
+  return Object.keys(retentionRules(config)).length > 0 || config.retention.maxMemoryNotes !== undefined;
+}
+
+export async function runPurge(
+  store: Store,
+  memory: MemoryService,
+  config: GnamiConfig,
+  options: { dryRun?: boolean; now?: Date } = {}
+): Promise<PurgeReport> {
+  const dryRun = options.dryRun ?? false;
+  const result = store.purgeExpired(retentionRules(config), { now: options.now, dryRun });
+  const maxNotes = config.retention.maxMemoryNotes;
+  const memoryNotes = maxNotes === undefined ? null : await memory.trimBasicNotes(maxNotes, dryRun);
+  return { ...result, dryRun, memoryNotes };
+}
+
+/**
+ * Deletes what the gateway stored about `channel:senderId`, across every thread paired with the
+ * same person (`Store.pairedSenderIds`). Database rows go first, in one
+ * transaction; memory deletion failures are reported rather than thrown so a rerun can retry them.
+ */
+export async function forgetSender(
+  store: Store,
+  memory: MemoryService,
+  channel: ChannelName,
+  senderId: string,
+  options: { dryRun?: boolean; includeSharedMemory?: boolean } = {}
+): Promise<ForgetReport> {
+  const dryRun = options.dryRun ?? false;
+  // Collected before the rows that link them are deleted.
+  const senderIds = store.pairedSenderIds(channel, senderId);
+  const data = store.forgetSender(channel, senderId, { dryRun });
+  const result = await memory.forgetUser(
+    senderIds.map((id) => `${channel}:${id}`),
+    { dryRun, includeShared: options.includeSharedMemory }
+  );
+  return { channel, senderId, dryRun, data, memory: result };
+}
+
+export function formatPurgeReport(report: PurgeReport): string {
+  if (report.channels.length === 0 && report.memoryNotes === null) {
+    return "No retention rules configured; nothing to purge.";
+  }
+  const verb = report.dryRun ? "would delete" : "deleted";
+  const lines = report.dryRun ? ["Dry run: nothing was deleted."] : [];
+  for (const entry of report.channels) {
+    lines.push(`${entry.channel}: ${verb} ${entry.messages} messages, ${entry.memoryEvents} memory events`);
+  }
+  if (report.summaries > 0) {
+    lines.push(`thread summaries reset: ${report.summaries}`);
+  }
+  if (report.memoryNotes !== null) {
+    lines.push(`local memory notes: ${verb} ${report.memoryNotes}`);
+  }
+  return lines.join("\n");
+}
+
+export function formatForgetReport(report: ForgetReport): string {
+  const verb = report.dryRun ? "would delete" : "deleted";
+  const { data, memory } = report;
+  const lines = report.dryRun ? ["Dry run: nothing was deleted."] : [];
+  lines.push(
+    `${report.channel}:${report.senderId}: ${verb} ${data.sessions} threads, ${data.messages} messages, ` +
+      `${data.summaries} summaries, ${data.approvals} approvals, ${data.pairings} pairings, ` +
+      `${data.memoryEvents} memory events, ${data.deliveries} delivery receipts`,
+    `local memory (${memory.userIds.join(", ")}): ${verb} ${memory.notes} notes, ${memory.skills} skills`
+  );
+  if (memory.mem0 === "failed") {
+    lines.push(`Mem0: delete failed: ${memory.mem0Error ?? "unknown error"}`);
+  } else if (memory.mem0 === "disabled") {
+    lines.push("Mem0: not configured");
+  } else {
+    lines.push(`Mem0: ${report.dryRun ? "would delete" : "deleted"} memories for ${memory.userIds.join(", ")}`);
+  }
+  if (memory.sharedEntity) {
+    lines.push(
+      `Memory entity "${memory.sharedEntity}" is shared with other senders and was kept; ` +
+        "pass --include-shared-memory to delete it too."
+    );
+  }
+  return lines.join("\n");
+}
+
+/** Runs the purge on `retention.schedule` inside the gateway. */
+export class RetentionScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private nextRunAt: Date;
+  private running = false;
+
+  constructor(
+    private readonly purge: () => Promise<PurgeReport>,
+    private readonly schedule: string,
+    private readonly logger: pino.Logger,
+    readonly tickMs = 60000,
+    private readonly timeZone = defaultTimeZone()
+  ) {
+    this.nextRunAt = nextCronRun(schedule, new Date(), timeZone);
+  }
+
+  get next(): string {
+    return this.nextRunAt.toISOString();
+  }
+
+  start(): void {
+    this.timer = setInterval(() => {
+      this.tick().catch(() => undefined);
+    }, this.tickMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async tick(now = new Date()): Promise<void> {
+    if (this.running || now.getTime() < this.nextRunAt.getTime()) {
+      return;
+    }
+    this.running = true;
+    try {
+      const report = await this.purge();
+      this.logger.info({ report }, "Retention purge completed");
+    } catch (error) {
+      this.logger.error({ err: error }, "Retention purge failed");
+    } finally {
+      this.running = false;
+      this.nextRunAt = nextCronRun(this.schedule, now, this.timeZone);
+    }
+  }
+}
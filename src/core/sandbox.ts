@@ -0,0 +1,138 @@
+import { spawnSync } from "node:child_process";
+import { createHash } from "node:crypto";
+import { mkdir } from "node:fs/promises";
+import { isAbsolute, join, relative, resolve } from "node:path";
+import type { GnamiConfig } from "./config.js";
+import { SANDBOX_DIR } from "../utils/paths.js";
+
+export type SandboxConfig = GnamiConfig["sandbox"];
+
+export interface SandboxOptions {
+  config: SandboxConfig;
+  /** Configured credential values that must never reach a sandboxed command. */
+  secretValues: string[];
+}
+
+export interface SandboxedCommand {
+  file: string;
+  args: string[];
+  shell: boolean;
+  cwd: string;
+  env: NodeJS.ProcessEnv;
+  networkIsolated: boolean;
+}
+
+const SECRET_ENV_KEYS = new Set(["OPENAI_API_KEY", "MEM0_API_KEY", "LOCAL_MODEL_API_KEY"]);
+const SECRET_ENV_PATTERN = /(API_KEY|TOKEN|SECRET|PASSWORD|PASSWD|CREDENTIAL|PRIVATE_KEY)|^MEM0_/i;
+
+let unshareSupport: boolean | null = null;
+
+/**
+ * A readable prefix to find a sender's directory by, and a hash of the exact `(channel, senderId)`
+ * pair so that senders the prefix cannot tell apart never share one.
+ */
+export function sandboxDirName(channel: string, senderId: string): string {
+  const slug =
+    `${channel}-${senderId}`
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/(^-|-$)/g, "")
+      .slice(0, 48) || "default";
+  const hash = createHash("sha256").update(JSON.stringify([channel, senderId])).digest("hex").slice(0, 16);
+  return `${slug}-${hash}`;
+}
+
+export function canIsolateNetwork(): boolean {
+  if (unshareSupport === null) {
+    if (process.platform !== "linux") {
+      unshareSupport = false;
+    } else {
+      const probe = spawnSync("unshare", ["-rn", "true"], { stdio: "ignore", timeout: 5000 });
+      unshareSupport = probe.status === 0;
+    }
+  }
+  return unshareSupport;
+}
+
+export function collectConfigSecrets(config: GnamiConfig): string[] {
+  const values: string[] = [];
+  const visit = (node: unknown, key = "") => {
+    if (typeof node === "string") {
+      if (/token|key|secret|password/i.test(key) && node.length >= 8) values.push(node);
+      return;
+    }
+    if (node && typeof node === "object") {
+      for (const [childKey, child] of Object.entries(node)) visit(child, childKey);
+    }
+  };
+  // The whole config: provider API keys and the gateway auth token are as sensitive as channel tokens.
+  visit(config);
+  return values;
+}
+
+/** Replaces configured credential values in command output, e.g. when a command reads a config file. */
+export function redactSecrets(output: string, secretValues: string[]): string {
+  return secretValues.reduce((text, secret) => text.split(secret).join("[redacted]"), output);
+}
+
+export function scrubEnv(env: NodeJS.ProcessEnv, secretValues: string[]): NodeJS.ProcessEnv {
+  const secrets = new Set(secretValues);
+  const scrubbed: NodeJS.ProcessEnv = {};
+  for (const [key, value] of Object.entries(env)) {
+    if (value === undefined) continue;
+    if (SECRET_ENV_KEYS.has(key) || SECRET_ENV_PATTERN.test(key) || secrets.has(value)) continue;
+    scrubbed[key] = value;
+  }
+  return scrubbed;
+}
+
+export async function prepareSandboxedCommand(
+  command: string,
+  session: { channel: string; senderId: string },
+  options: SandboxOptions & { cwd?: string; env: NodeJS.ProcessEnv }
+): Promise<SandboxedCommand> {
+  const root = join(SANDBOX_DIR, sandboxDirName(session.channel, session.senderId));
+  await mkdir(root, { recursive: true });
+  const cwd = resolve(root, options.cwd ?? ".");
+  const rel = relative(root, cwd);
+  if (rel.startsWith("..") || isAbsolute(rel)) {
+    throw new Error(`Working directory "${options.cwd}" is outside the sandbox.`);
+  }
+  await mkdir(cwd, { recursive: true });
+
+  const env = {
+    ...scrubEnv(options.env, options.secretValues),
+    HOME: root,
+    TMPDIR: root
+  };
+
+  if (process.platform === "win32") {
+    // No ulimit or namespaces on Windows: scratch dir, scrubbed env and output caps still apply.
+    return { file: command, args: [], shell: true, cwd, env, networkIsolated: false };
+  }
+
+  const { cpuSeconds, memoryMb, denyNetwork } = options.config;
+  const script = [
+    `ulimit -t ${cpuSeconds} 2>/dev/null`,
+    `ulimit -v ${memoryMb * 1024} 2>/dev/null`,
+    command
+  ].join("; ");
+  if (denyNetwork && canIsolateNetwork()) {
+    return {
+      file: "unshare",
+      args: ["-rn", "/bin/sh", "-c", script],
+      shell: false,
+      cwd,
+      env,
+      networkIsolated: true
+    };
+  }
+  return {
+    file: "/bin/sh",
+    args: ["-c", script],
+    shell: false,
+    cwd,
+    env,
+    networkIsolated: false
+  };
+}
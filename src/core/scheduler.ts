@@ -0,0 +1,191 @@
+import { z } from "zod";
+import type pino from "pino";
+import type { CronJobInput, Store } from "./store.js";
+import { CHANNEL_NAMES, type CronJobRecord } from "../types.js";
+import type { IntegrationName } from "../integrations/types.js";
+import { defaultTimeZone, isValidTimeZone, nextCronRun, parseRunAt, validateCronExpression } from "./cron.js";
+
+const channelSchema = z.enum(CHANNEL_NAMES);
+
+const agentActionSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("shell"),
+    command: z.string().min(1),
+    timeoutMs: z.number().int().positive().optional()
+  }),
+  z.object({
+    type: z.literal("install_skill"),
+    name: z.string().min(1),
+    content: z.string().min(1)
+  }),
+  z.object({
+    type: z.literal("integration"),
+    app: z.string().min(1).transform((value) => value as IntegrationName),
+    action: z.string().min(1),
+    params: z.record(z.string(), z.unknown()).optional()
+  })
+]);
+
+const cronTargetSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("agent"),
+    prompt: z.string().min(1),
+    channel: channelSchema.optional(),
+    to: z.string().min(1).optional()
+  }),
+  z.object({
+    type: z.literal("action"),
+    action: agentActionSchema,
+    channel: channelSchema.optional(),
+    to: z.string().min(1).optional()
+  }),
+  z.object({
+    type: z.literal("integration"),
+    app: z.string().min(1).transform((value) => value as IntegrationName),
+    action: z.string().min(1),
+    params: z.record(z.string(), z.unknown()).optional()
+  })
+]);
+
+export const cronJobInputSchema = z.object({
+  name: z.string().min(1),
+  kind: z.enum(["cron", "at"]).default("cron"),
+  expression: z.string().min(1),
+  timezone: z.string().min(1).optional(),
+  target: cronTargetSchema,
+  enabled: z.boolean().default(true)
+});
+
+export type CronJobRequest = z.input<typeof cronJobInputSchema>;
+
+export type CronJobRunner = (job: CronJobRecord) => Promise<string>;
+
+export function computeNextRun(
+  job: Pick<CronJobInput, "kind" | "expression" | "timezone">,
+  from = new Date()
+): string | null {
+  if (job.kind === "at") {
+    const runAt = parseRunAt(job.expression, job.timezone);
+    return runAt.getTime() > from.getTime() ? runAt.toISOString() : null;
+  }
+  return nextCronRun(job.expression, from, job.timezone).toISOString();
+}
+
+export function normalizeCronJob(raw: unknown, now = new Date()): CronJobInput {
+  const parsed = cronJobInputSchema.parse(raw);
+  const timezone = parsed.timezone ?? defaultTimeZone();
+  if (!isValidTimeZone(timezone)) {
+    throw new Error(`Unknown time zone "${timezone}".`);
+  }
+  if (parsed.kind === "cron") {
+    validateCronExpression(parsed.expression);
+  }
+  const target = parsed.target;
+  if (target.type !== "integration" && Boolean(target.channel) !== Boolean(target.to)) {
+    throw new Error("Cron delivery needs both channel and to.");
+  }
+  const nextRunAt = computeNextRun({ kind: parsed.kind, expression: parsed.expression, timezone }, now);
+  if (parsed.kind === "at" && !nextRunAt) {
+    throw new Error(`Run time "${parsed.expression}" is in the past.`);
+  }
+  return {
+    name: parsed.name,
+    kind: parsed.kind,
+    expression: parsed.expression,
+    timezone,
+    target,
+    enabled: parsed.enabled,
+    nextRunAt: parsed.enabled ? nextRunAt : null
+  };
+}
+
+/** Whether the user-editable fields still match, i.e. nobody changed the job since it was read. */
+function sameDefinition(a: CronJobRecord, b: CronJobRecord): boolean {
+  const fields = (job: CronJobRecord) =>
+    JSON.stringify([job.name, job.kind, job.expression, job.timezone, job.target, job.enabled, job.nextRunAt]);
+  return fields(a) === fields(b);
+}
+
+function truncate(value: string, max = 2000): string {
+  return value.length > max ? `${value.slice(0, max)}...` : value;
+}
+
+export class Scheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private readonly running = new Set<number>();
+
+  constructor(
+    private readonly store: Store,
+    private readonly runner: CronJobRunner,
+    private readonly logger: pino.Logger,
+    readonly tickMs = 15000
+  ) {}
+
+  get started(): boolean {
+    return this.timer !== null;
+  }
+
+  start(): void {
+    this.tick().catch(() => undefined);
+    this.timer = setInterval(() => {
+      this.tick().catch(() => undefined);
+    }, this.tickMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async tick(now = new Date()): Promise<void> {
+    for (const job of this.store.listDueCronJobs(now.toISOString())) {
+      await this.execute(job, true);
+    }
+  }
+
+  async runNow(id: number): Promise<CronJobRecord> {
+    const job = this.store.getCronJob(id);
+    if (!job) {
+      throw new Error(`Cron job ${id} not found.`);
+    }
+    await this.execute(job, false);
+    return this.store.getCronJob(id) ?? job;
+  }
+
+  private async execute(job: CronJobRecord, scheduled: boolean): Promise<void> {
+    if (this.running.has(job.id)) {
+      return;
+    }
+    this.running.add(job.id);
+    let status: "ok" | "failed" = "ok";
+    let result: string;
+    try {
+      result = await this.runner(job);
+      this.logger.info({ jobId: job.id, name: job.name }, "Cron job completed");
+    } catch (error) {
+      status = "failed";
+      result = error instanceof Error ? error.message : String(error);
+      this.logger.error({ err: error, jobId: job.id, name: job.name }, "Cron job failed");
+    } finally {
+      this.running.delete(job.id);
+    }
+
+    const run = { status, result: truncate(result) };
+    // An edit, disable or removal made while the job ran wins over the schedule computed from the
+    // snapshot, so only the run itself is recorded then.
+    const current = this.store.getCronJob(job.id);
+    if (!current) {
+      return;
+    }
+    // Manual runs leave the schedule alone; scheduled runs advance it, and one-shot jobs retire.
+    if (!scheduled || !sameDefinition(current, job)) {
+      this.store.recordCronRun(job.id, run);
+    } else if (job.kind === "at") {
+      this.store.recordCronRun(job.id, run, { nextRunAt: null, enabled: false });
+    } else {
+      this.store.recordCronRun(job.id, run, { nextRunAt: computeNextRun(job), enabled: job.enabled });
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import type { MessageRecord, MessageSearchHit } from "../types.js";
+
+/**
+ * Turns free text into a safe FTS5 expression: every word must match, `"quoted phrases"` stay
+ * together and a trailing `*` keeps prefix search. FTS5 operators in user input are not honoured.
+ */
+export function toFtsQuery(input: string): string {
+  const terms: string[] = [];
+  const pattern = /"([^"]*)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(input)) !== null) {
+    if (match[1] !== undefined) {
+      const phrase = match[1].trim();
+      if (phrase) terms.push(`"${phrase}"`);
+      continue;
+    }
+    const word = match[2];
+    const prefix = word.endsWith("*");
+    const bare = word.replace(/["*]/g, "");
+    if (bare) terms.push(`"${bare}"${prefix ? "*" : ""}`);
+  }
+  if (terms.length === 0) {
+    throw new Error("Search query is empty.");
+  }
+  return terms.join(" ");
+}
+
+interface Token {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/** Roughly the `unicode61 remove_diacritics` tokenizer: letters and digits, case and accents folded. */
+function tokenize(text: string): Token[] {
+  return Array.from(text.matchAll(/[\p{L}\p{N}]+/gu), (match) => ({
+    text: match[0].normalize("NFD").replace(/\p{M}/gu, "").toLowerCase(),
+    start: match.index,
+    end: match.index + match[0].length
+  }));
+}
+
+/**
+ * Matches text against a `toFtsQuery` expression without the FTS index, for messages stored
+ * encrypted. Returns an FTS-style snippet with `**` around the matched terms, or null.
+ */
+export function scanMatch(match: string, text: string, contextTokens = 16): string | null {
+  const tokens = tokenize(text);
+  const hits: Array<[number, number]> = [];
+  for (const term of match.matchAll(/"([^"]*)"(\*?)/g)) {
+    const wanted = tokenize(term[1]).map((token) => token.text);
+    if (wanted.length === 0) continue;
+    const prefix = term[2] === "*";
+    const at = tokens.findIndex((_, index) =>
+      wanted.every((word, offset) => {
+        const token = tokens[index + offset]?.text;
+        if (token === undefined) return false;
+        return prefix && offset === wanted.length - 1 ? token.startsWith(word) : token === word;
+      })
+    );
+    if (at === -1) return null;
+    hits.push([at, at + wanted.length - 1]);
+  }
+  if (hits.length === 0) return null;
+
+  const first = Math.min(...hits.map(([start]) => start));
+  const from = Math.max(0, Math.min(first - 2, tokens.length - contextTokens));
+  const to = Math.min(tokens.length, from + contextTokens) - 1;
+  const marked = new Set(hits.flatMap(([start, end]) => Array.from({ length: end - start + 1 }, (_, i) => start + i)));
+  let snippet = "";
+  let cursor = from > 0 ? tokens[from].start : 0;
+  for (let index = from; index <= to; index += 1) {
+    const token = tokens[index];
+    snippet += text.slice(cursor, token.start);
+    const word = text.slice(token.start, token.end);
+    snippet += marked.has(index) ? `**${word}**` : word;
+    cursor = token.end;
+  }
+  const tail = to < tokens.length - 1 ? "…" : text.slice(cursor);
+  return `${from > 0 ? "…" : ""}${snippet}${tail}`;
+}
+
+export function parseDirection(value: string): MessageRecord["direction"] {
+  if (value === "inbound" || value === "outbound") {
+    return value;
+  }
+  throw new Error(`Unsupported direction "${value}". Use inbound|outbound.`);
+}
+
+export function formatSearchHits(hits: MessageSearchHit[]): string {
+  if (hits.length === 0) {
+    return "No matching messages.";
+  }
+  return hits
+    .map(
+      (hit) =>
+        `[${hit.createdAt}] ${hit.channel}:${hit.senderId} #${hit.sessionId} ${hit.threadTitle} ` +
+        `${hit.direction === "inbound" ? "user" : "assistant"}: ${hit.snippet.replace(/\s+/g, " ")}`
+    )
+    .join("\n");
+}
@@ -2,67 +2,146 @@ import { mkdir } from "node:fs/promises";
 import Database from "better-sqlite3";
 import { randomInt } from "node:crypto";
 import { DATA_DIR, DB_PATH } from "../utils/paths.js";
-import type { ChannelName, MessageRecord, SessionRecord } from "../types.js";
+import { migrateDatabase } from "./migrations.js";
+import { Keyring, loadKeyring, openValue } from "./encryption.js";
+import { scanMatch } from "./search.js";
+import type { AgentAction } from "./actions.js";
+import type { ModelCallUsage, UsageGroupBy, UsageGroupRow } from "./usage.js";
+import type { ExportData, ExportFilters, ExportRecord, ImportSummary } from "./transfer.js";
+import type {
+  ChannelPurgeCounts,
+  RetentionRule,
+  RetentionRules,
+  SenderDataCounts,
+  StorePurgeResult
+} from "./privacy.js";
+import type {
+  ApprovalRecord,
+  ApprovalStatus,
+  ChannelName,
+  CronJobKind,
+  CronJobRecord,
+  CronJobTarget,
+  DeliveryRecord,
+  DeliveryStatus,
+  MemoryEventRecord,
+  MessageRecord,
+  MessageSearchHit,
+  PairingRecord,
+  SessionRecord,
+  SessionSummaryRecord,
+  ThreadRecord
+} from "../types.js";
+
+type SessionRow = Omit<SessionRecord, "active"> & { active: number };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SESSION_COLUMNS = `id, channel, sender_id as senderId, title, active,
+  parent_session_id as parentSessionId, forked_from_message_id as forkedFromMessageId,
+  pairing_id as pairingId, created_at as createdAt, updated_at as updatedAt`;
+
+interface CronJobRow {
+  id: number;
+  name: string;
+  kind: CronJobKind;
+  expression: string;
+  timezone: string;
+  target: string;
+  enabled: number;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  last_status: "ok" | "failed" | null;
+  last_result: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface ApprovalRow {
+  id: number;
+  session_id: number;
+  channel: ChannelName;
+  sender_id: string;
+  action: string;
+  request: string;
+  status: ApprovalStatus;
+  result: string | null;
+  created_at: string;
+  resolved_at: string | null;
+}
+
+export interface MessageSearchFilters {
+  /** FTS5 MATCH expression; build it with `toFtsQuery`. */
+  match: string;
+  channel?: ChannelName;
+  senderId?: string;
+  direction?: MessageRecord["direction"];
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+export interface CronJobInput {
+  name: string;
+  kind: CronJobKind;
+  expression: string;
+  timezone: string;
+  target: CronJobTarget;
+  enabled: boolean;
+  nextRunAt: string | null;
+}
+
+export interface ReencryptResult {
+  messages: number;
+  summaries: number;
+  approvals: number;
+  cronJobs: number;
+}
 
 export class Store {
   private readonly db: Database.Database;
+  private readonly keyring: Keyring | null;
 
-  private constructor(db: Database.Database) {
+  private constructor(db: Database.Database, keyring: Keyring | null) {
     this.db = db;
-    this.migrate();
+    this.keyring = keyring;
   }
 
-  static async open(): Promise<Store> {
+  /**
+   * Opens the gateway database and applies pending schema migrations. With a master key, message
+   * and summary content, approval requests and results, and cron run results are stored encrypted.
+   */
+  static async open(options: { keyring?: Keyring | null } = {}): Promise<Store> {
+    const keyring = options.keyring === undefined ? loadKeyring() : options.keyring;
     await mkdir(DATA_DIR, { recursive: true });
     const db = new Database(DB_PATH);
-    return new Store(db);
+    try {
+      await migrateDatabase(db);
+    } catch (error) {
+      db.close();
+      throw error;
+    }
+    return new Store(db, keyring);
   }
 
   close(): void {
     this.db.close();
   }
 
-  private migrate(): void {
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS sessions (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        channel TEXT NOT NULL,
-        sender_id TEXT NOT NULL,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL,
-        UNIQUE(channel, sender_id)
-      );
-
-      CREATE TABLE IF NOT EXISTS messages (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        session_id INTEGER NOT NULL,
-        direction TEXT NOT NULL,
-        content TEXT NOT NULL,
-        created_at TEXT NOT NULL,
-        FOREIGN KEY (session_id) REFERENCES sessions(id)
-      );
+  private now(): string {
+    return new Date().toISOString();
+  }
 
-      CREATE TABLE IF NOT EXISTS pairings (
-        channel TEXT NOT NULL,
-        sender_id TEXT NOT NULL,
-        approved INTEGER NOT NULL DEFAULT 0,
-        code TEXT NOT NULL,
-        created_at TEXT NOT NULL,
-        PRIMARY KEY(channel, sender_id)
-      );
+  private seal(content: string): string {
+    return this.keyring ? this.keyring.encrypt(content) : content;
+  }
 
-      CREATE TABLE IF NOT EXISTS memory_events (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        session_key TEXT NOT NULL,
-        status TEXT NOT NULL,
-        detail TEXT,
-        created_at TEXT NOT NULL
-      );
-    `);
+  private openText(value: string): string {
+    return openValue(value, this.keyring, "Stored content");
   }
 
-  private now(): string {
-    return new Date().toISOString();
+  private unseal<T extends { content: string }>(row: T): T {
+    return { ...row, content: this.openText(row.content) };
   }
 
   private generatePairingCode(): string {
@@ -114,65 +193,279 @@ export class Store {
     return result.changes > 0;
   }
 
-  getOrCreateSession(channel: ChannelName, senderId: string): number {
+  /**
+   * The active thread of a sender, created on first use. `pairingId` records the person behind a
+   * per-thread sender id (see `InboundMessage.pairingId`) so forgetting them finds every thread.
+   */
+  getOrCreateSession(channel: ChannelName, senderId: string, pairingId?: string): number {
     const now = this.now();
+    const pairing = pairingId && pairingId !== senderId ? pairingId : null;
+    const existing = this.db
+      .prepare(
+        "SELECT id, active, pairing_id FROM sessions WHERE channel = ? AND sender_id = ? ORDER BY active DESC, updated_at DESC LIMIT 1"
+      )
+      .get(channel, senderId) as { id: number; active: number; pairing_id: string | null } | undefined;
+    if (existing) {
+      this.db.prepare("UPDATE sessions SET updated_at = ?, active = 1 WHERE id = ?").run(now, existing.id);
+      if (pairing && existing.pairing_id !== pairing) {
+        this.db
+          .prepare("UPDATE sessions SET pairing_id = ? WHERE channel = ? AND sender_id = ?")
+          .run(pairing, channel, senderId);
+      }
+      return existing.id;
+    }
     const insert = this.db
       .prepare(
-        "INSERT OR IGNORE INTO sessions(channel, sender_id, created_at, updated_at) VALUES (?, ?, ?, ?)"
+        "INSERT INTO sessions(channel, sender_id, pairing_id, title, active, created_at, updated_at) VALUES (?, ?, ?, 'default', 1, ?, ?)"
+      )
+      .run(channel, senderId, pairing, now, now);
+    return Number(insert.lastInsertRowid);
+  }
+
+  getSession(sessionId: number): SessionRecord | undefined {
+    const row = this.db.prepare(`SELECT ${SESSION_COLUMNS} FROM sessions WHERE id = ?`).get(sessionId) as
+      | SessionRow
+      | undefined;
+    return row ? this.toSession(row) : undefined;
+  }
+
+  /** Starts a new thread for the sender and makes it the active one. */
+  createThread(channel: ChannelName, senderId: string, title?: string): SessionRecord {
+    return this.db.transaction(() => {
+      const sessionId = this.insertThread(channel, senderId, title);
+      return this.getSession(sessionId) as SessionRecord;
+    })();
+  }
+
+  listThreads(channel: ChannelName, senderId: string): ThreadRecord[] {
+    const rows = this.db
+      .prepare(
+        `SELECT ${SESSION_COLUMNS},
+           (SELECT COUNT(*) FROM messages m WHERE m.session_id = sessions.id) as messageCount
+         FROM sessions WHERE channel = ? AND sender_id = ? ORDER BY updated_at DESC`
       )
-      .run(channel, senderId, now, now);
+      .all(channel, senderId) as Array<SessionRow & { messageCount: number }>;
+    return rows.map((row) => ({ ...this.toSession(row), messageCount: row.messageCount }));
+  }
+
+  /** Makes `sessionId` the sender's active thread; returns null when it belongs to someone else. */
+  switchThread(channel: ChannelName, senderId: string, sessionId: number): SessionRecord | null {
+    const session = this.getSession(sessionId);
+    if (!session || session.channel !== channel || session.senderId !== senderId) {
+      return null;
+    }
+    this.db.transaction(() => {
+      this.db
+        .prepare("UPDATE sessions SET active = 0 WHERE channel = ? AND sender_id = ?")
+        .run(channel, senderId);
+      this.db.prepare("UPDATE sessions SET active = 1, updated_at = ? WHERE id = ?").run(this.now(), sessionId);
+    })();
+    return this.getSession(sessionId) ?? null;
+  }
 
-    if (insert.changes > 0) {
-      return Number(insert.lastInsertRowid);
+  /**
+   * Copies a thread's history up to and including `messageId` into a new active thread for the
+   * same sender. Returns null when the message is not part of `sessionId`.
+   */
+  forkThread(sessionId: number, messageId: number, title?: string): SessionRecord | null {
+    const message = this.db
+      .prepare("SELECT id FROM messages WHERE id = ? AND session_id = ?")
+      .get(messageId, sessionId);
+    const source = message ? this.getSession(sessionId) : undefined;
+    if (!source) {
+      return null;
     }
+    return this.db.transaction(() => {
+      const forkId = this.insertThread(
+        source.channel,
+        source.senderId,
+        title ?? `${source.title} (fork)`,
+        { parentSessionId: source.id, messageId }
+      );
+      this.db
+        .prepare(
+          `INSERT INTO messages(session_id, direction, content, model, created_at)
+           SELECT ?, direction, content, model, created_at FROM messages
+           WHERE session_id = ? AND id <= ? ORDER BY id`
+        )
+        .run(forkId, source.id, messageId);
+      return this.getSession(forkId) as SessionRecord;
+    })();
+  }
 
-    this.db
-      .prepare("UPDATE sessions SET updated_at = ? WHERE channel = ? AND sender_id = ?")
-      .run(now, channel, senderId);
+  /** Id of the Nth (1-based) message of a thread, for chat commands that count messages. */
+  getThreadMessageId(sessionId: number, position: number): number | null {
     const row = this.db
-      .prepare("SELECT id FROM sessions WHERE channel = ? AND sender_id = ?")
-      .get(channel, senderId) as { id: number } | undefined;
-    if (!row) {
-      throw new Error("Failed to resolve session");
-    }
-    return row.id;
+      .prepare("SELECT id FROM messages WHERE session_id = ? ORDER BY id LIMIT 1 OFFSET ?")
+      .get(sessionId, position - 1) as { id: number } | undefined;
+    return row?.id ?? null;
+  }
+
+  private insertThread(
+    channel: ChannelName,
+    senderId: string,
+    title: string | undefined,
+    fork?: { parentSessionId: number; messageId: number }
+  ): number {
+    const now = this.now();
+    const count = this.db
+      .prepare("SELECT COUNT(*) as count FROM sessions WHERE channel = ? AND sender_id = ?")
+      .get(channel, senderId) as { count: number };
+    const pairing = this.db
+      .prepare("SELECT pairing_id FROM sessions WHERE channel = ? AND sender_id = ? AND pairing_id IS NOT NULL LIMIT 1")
+      .get(channel, senderId) as { pairing_id: string } | undefined;
+    this.db.prepare("UPDATE sessions SET active = 0 WHERE channel = ? AND sender_id = ?").run(channel, senderId);
+    const insert = this.db
+      .prepare(
+        `INSERT INTO sessions(channel, sender_id, pairing_id, title, active, parent_session_id, forked_from_message_id, created_at, updated_at)
+         VALUES (?, ?, ?, ?, 1, ?, ?, ?, ?)`
+      )
+      .run(
+        channel,
+        senderId,
+        pairing?.pairing_id ?? null,
+        title?.trim() || `thread ${count.count + 1}`,
+        fork?.parentSessionId ?? null,
+        fork?.messageId ?? null,
+        now,
+        now
+      );
+    return Number(insert.lastInsertRowid);
   }
 
-  addMessage(sessionId: number, direction: "inbound" | "outbound", content: string): number {
+  private toSession(row: SessionRow): SessionRecord {
+    return { ...row, active: row.active === 1 };
+  }
+
+  /** `model` is the `provider/model` route that produced an outbound reply, when one did. */
+  addMessage(
+    sessionId: number,
+    direction: "inbound" | "outbound",
+    content: string,
+    model?: string | null
+  ): number {
     const result = this.db
-      .prepare("INSERT INTO messages(session_id, direction, content, created_at) VALUES (?, ?, ?, ?)")
-      .run(sessionId, direction, content, this.now());
+      .prepare("INSERT INTO messages(session_id, direction, content, model, created_at) VALUES (?, ?, ?, ?, ?)")
+      .run(sessionId, direction, this.seal(content), model ?? null, this.now());
     return Number(result.lastInsertRowid);
   }
 
   getRecentMessages(sessionId: number, limit = 20): MessageRecord[] {
     return this.db
       .prepare(
-        "SELECT id, session_id as sessionId, direction, content, created_at as createdAt FROM messages WHERE session_id = ? ORDER BY id DESC LIMIT ?"
+        "SELECT id, session_id as sessionId, direction, content, model, created_at as createdAt FROM messages WHERE session_id = ? ORDER BY id DESC LIMIT ?"
       )
       .all(sessionId, limit)
-      .reverse() as unknown as MessageRecord[];
+      .reverse()
+      .map((row) => this.unseal(row as MessageRecord));
   }
 
-  listSessions(limit = 100): SessionRecord[] {
+  /** Messages after `afterId` in order, capped to the newest `limit`. */
+  getMessagesAfter(sessionId: number, afterId: number, limit = 1000): MessageRecord[] {
     return this.db
       .prepare(
-        "SELECT id, channel, sender_id as senderId, created_at as createdAt, updated_at as updatedAt FROM sessions ORDER BY updated_at DESC LIMIT ?"
+        "SELECT id, session_id as sessionId, direction, content, model, created_at as createdAt FROM messages WHERE session_id = ? AND id > ? ORDER BY id DESC LIMIT ?"
       )
-      .all(limit) as unknown as SessionRecord[];
+      .all(sessionId, afterId, limit)
+      .reverse()
+      .map((row) => this.unseal(row as MessageRecord));
   }
 
-  getOverviewStats() {
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS memory_events (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        session_key TEXT NOT NULL,
-        status TEXT NOT NULL,
-        detail TEXT,
-        created_at TEXT NOT NULL
-      );
-    `);
+  /**
+   * Best matches first (bm25). With a master key the index holds no encrypted content, so
+   * messages are decrypted and scanned instead, newest first.
+   */
+  searchMessages(filters: MessageSearchFilters): MessageSearchHit[] {
+    const where: string[] = [];
+    const params: Array<string | number> = [];
+    if (filters.channel) {
+      where.push("s.channel = ?");
+      params.push(filters.channel);
+    }
+    if (filters.senderId) {
+      where.push("s.sender_id = ?");
+      params.push(filters.senderId);
+    }
+    if (filters.direction) {
+      where.push("m.direction = ?");
+      params.push(filters.direction);
+    }
+    if (filters.since) {
+      where.push("m.created_at >= ?");
+      params.push(filters.since.toISOString());
+    }
+    if (filters.until) {
+      where.push("m.created_at < ?");
+      params.push(filters.until.toISOString());
+    }
+    const limit = filters.limit ?? 20;
+    const columns = `m.id, m.session_id as sessionId, s.channel, s.sender_id as senderId, s.title as threadTitle,
+      m.direction, m.created_at as createdAt`;
+    if (this.keyring) {
+      const rows = this.db
+        .prepare(
+          `SELECT ${columns}, m.content FROM messages m JOIN sessions s ON s.id = m.session_id
+           ${where.length > 0 ? `WHERE ${where.join(" AND ")}` : ""} ORDER BY m.id DESC`
+        )
+        .iterate(...params) as IterableIterator<Omit<MessageSearchHit, "snippet"> & { content: string }>;
+      const hits: MessageSearchHit[] = [];
+      for (const row of rows) {
+        const { content, ...hit } = this.unseal(row);
+        const snippet = scanMatch(filters.match, content);
+        if (snippet === null) continue;
+        hits.push({ ...hit, snippet });
+        if (hits.length >= limit) break;
+      }
+      return hits;
+    }
+    return this.db
+      .prepare(
+        `SELECT ${columns}, snippet(messages_fts, 0, '**', '**', '…', 16) as snippet
+         FROM messages_fts
+         JOIN messages m ON m.id = messages_fts.rowid
+         JOIN sessions s ON s.id = m.session_id
+         WHERE ${["messages_fts MATCH ?", ...where].join(" AND ")}
+         ORDER BY bm25(messages_fts), m.id DESC
+         LIMIT ?`
+      )
+      .all(filters.match, ...params, limit) as MessageSearchHit[];
+  }
 
+  getSessionSummary(sessionId: number): SessionSummaryRecord | null {
+    const row = this.db
+      .prepare(
+        "SELECT session_id as sessionId, content, through_message_id as throughMessageId, edited, updated_at as updatedAt FROM session_summaries WHERE session_id = ?"
+      )
+      .get(sessionId) as (Omit<SessionSummaryRecord, "edited"> & { edited: number }) | undefined;
+    return row ? this.unseal({ ...row, edited: row.edited === 1 }) : null;
+  }
+
+  saveSessionSummary(
+    sessionId: number,
+    content: string,
+    throughMessageId: number,
+    edited = false
+  ): SessionSummaryRecord {
+    this.db
+      .prepare(
+        `INSERT INTO session_summaries(session_id, content, through_message_id, edited, updated_at)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(session_id) DO UPDATE SET content = excluded.content,
+           through_message_id = excluded.through_message_id, edited = excluded.edited,
+           updated_at = excluded.updated_at`
+      )
+      .run(sessionId, this.seal(content), throughMessageId, edited ? 1 : 0, this.now());
+    return this.getSessionSummary(sessionId) as SessionSummaryRecord;
+  }
+
+  listSessions(limit = 100): SessionRecord[] {
+    const rows = this.db
+      .prepare(`SELECT ${SESSION_COLUMNS} FROM sessions ORDER BY updated_at DESC LIMIT ?`)
+      .all(limit) as SessionRow[];
+    return rows.map((row) => this.toSession(row));
+  }
+
+  getOverviewStats() {
     const sessions = this.safeCount("SELECT COUNT(*) as count FROM sessions");
     const messages = this.safeCount("SELECT COUNT(*) as count FROM messages");
     const pairingsApproved = this.safeCount(
@@ -189,6 +482,25 @@ export class Store {
       []
     );
 
+    const answeredBy = this.safeOne(
+      () =>
+        this.db
+          .prepare(
+            "SELECT model, COUNT(*) as count FROM messages WHERE model IS NOT NULL GROUP BY model ORDER BY count DESC"
+          )
+          .all() as Array<{ model: string; count: number }>,
+      []
+    );
+    const lastAnswered = this.safeOne(
+      () =>
+        this.db
+          .prepare(
+            "SELECT model, created_at as createdAt FROM messages WHERE model IS NOT NULL ORDER BY id DESC LIMIT 1"
+          )
+          .get() as { model: string; createdAt: string } | undefined,
+      undefined
+    );
+
     const memorySaved = this.safeCount(
       "SELECT COUNT(*) as count FROM memory_events WHERE status = 'saved'"
     );
@@ -223,10 +535,54 @@ export class Store {
       memoryFailed,
       lastMemorySavedAt: lastMemorySaved?.createdAt ?? null,
       lastMemoryEvent: lastMemoryEvent ?? null,
-      byChannel
+      byChannel,
+      answeredBy,
+      lastAnswered: lastAnswered ?? null
     };
   }
 
+  addModelUsage(
+    usage: ModelCallUsage,
+    context: { sessionId?: number | null; channel?: string | null } = {}
+  ): void {
+    this.db
+      .prepare(
+        `INSERT INTO model_usage(session_id, channel, provider, model, prompt_tokens, completion_tokens, estimated, latency_ms, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        context.sessionId ?? null,
+        context.channel ?? null,
+        usage.route.split("/")[0],
+        usage.route,
+        usage.promptTokens,
+        usage.completionTokens,
+        usage.estimated ? 1 : 0,
+        usage.latencyMs,
+        this.now()
+      );
+  }
+
+  /** Usage since `since`, one row per (group key, model) so callers can price each model. */
+  getUsageGroups(since: Date, groupBy: UsageGroupBy): UsageGroupRow[] {
+    const keys: Record<UsageGroupBy, string> = {
+      day: "substr(u.created_at, 1, 10)",
+      session: "COALESCE('#' || u.session_id || ' ' || s.channel || ':' || s.sender_id, '(no session)')",
+      channel: "COALESCE(u.channel, '(none)')",
+      provider: "u.provider"
+    };
+    return this.db
+      .prepare(
+        `SELECT ${keys[groupBy]} as key, u.model as model, COUNT(*) as calls,
+           SUM(u.prompt_tokens) as promptTokens, SUM(u.completion_tokens) as completionTokens,
+           SUM(u.latency_ms) as latencyMs, SUM(u.estimated) as estimatedCalls
+         FROM model_usage u LEFT JOIN sessions s ON s.id = u.session_id
+         WHERE u.created_at >= ?
+         GROUP BY key, u.model`
+      )
+      .all(since.toISOString()) as UsageGroupRow[];
+  }
+
   addMemoryEvent(sessionKey: string, status: "saved" | "failed", detail?: string): void {
     this.db
       .prepare(
@@ -234,4 +590,577 @@ export class Store {
       )
       .run(sessionKey, status, detail ?? null, this.now());
   }
+
+  /** Time of the sender's latest stored inbound message on a channel, across all threads. */
+  lastInboundAt(channel: ChannelName, senderId: string): string | null {
+    const row = this.db
+      .prepare(
+        `SELECT MAX(m.created_at) as at FROM messages m JOIN sessions s ON s.id = m.session_id
+         WHERE s.channel = ? AND s.sender_id = ? AND m.direction = 'inbound'`
+      )
+      .get(channel, senderId) as { at: string | null };
+    return row.at;
+  }
+
+  /**
+   * Records a delivery status report. Providers may report out of order, so a status never moves
+   * back (a late "delivered" does not undo "read"); "failed" always applies.
+   */
+  recordDelivery(
+    channel: ChannelName,
+    externalId: string,
+    recipient: string,
+    status: DeliveryStatus,
+    error?: string | null
+  ): void {
+    const now = this.now();
+    this.db
+      .prepare(
+        `INSERT INTO message_deliveries(channel, external_id, recipient, status, error, created_at, updated_at)
+         VALUES (@channel, @externalId, @recipient, @status, @error, @now, @now)
+         ON CONFLICT(channel, external_id) DO UPDATE SET
+           status = CASE
+             WHEN excluded.status = 'failed' THEN 'failed'
+             WHEN message_deliveries.status = 'failed' THEN 'failed'
+             WHEN (CASE excluded.status WHEN 'sent' THEN 1 WHEN 'delivered' THEN 2 ELSE 3 END) >
+                  (CASE message_deliveries.status WHEN 'sent' THEN 1 WHEN 'delivered' THEN 2 ELSE 3 END)
+               THEN excluded.status
+             ELSE message_deliveries.status
+           END,
+           error = COALESCE(excluded.error, message_deliveries.error),
+           updated_at = excluded.updated_at`
+      )
+      .run({ channel, externalId, recipient, status, error: error ?? null, now });
+  }
+
+  listDeliveries(filters: { channel?: ChannelName; recipient?: string; limit?: number } = {}): DeliveryRecord[] {
+    const where: string[] = [];
+    const params: string[] = [];
+    if (filters.channel) {
+      where.push("channel = ?");
+      params.push(filters.channel);
+    }
+    if (filters.recipient) {
+      where.push("recipient = ?");
+      params.push(filters.recipient);
+    }
+    return this.db
+      .prepare(
+        `SELECT channel, external_id as externalId, recipient, status, error,
+           created_at as createdAt, updated_at as updatedAt
+         FROM message_deliveries ${where.length > 0 ? `WHERE ${where.join(" AND ")}` : ""}
+         ORDER BY created_at DESC, rowid DESC LIMIT ?`
+      )
+      .all(...params, filters.limit ?? 100) as DeliveryRecord[];
+  }
+
+  /**
+   * Deletes messages outside each channel's rule and that channel's memory events past its age
+   * limit. Summaries that covered a deleted message are dropped so they get rebuilt from what is
+   * left. With `dryRun` the same counts are returned and nothing is deleted.
+   */
+  purgeExpired(rules: RetentionRules, options: { now?: Date; dryRun?: boolean } = {}): StorePurgeResult {
+    const now = options.now ?? new Date();
+    const channels: ChannelPurgeCounts[] = [];
+    // Oldest deleted message per thread, to find the summaries that included it.
+    const oldestDeleted = new Map<number, number>();
+    let summaries = 0;
+    const deleteMessage = this.db.prepare("DELETE FROM messages WHERE id = ?");
+    this.db.transaction(() => {
+      for (const [channel, rule] of Object.entries(rules) as Array<[ChannelName, RetentionRule]>) {
+        const cutoff = rule.maxAgeDays ? new Date(now.getTime() - rule.maxAgeDays * DAY_MS).toISOString() : null;
+        const conditions: string[] = [];
+        const params: Array<string | number> = [channel];
+        if (cutoff) {
+          conditions.push("created_at < ?");
+          params.push(cutoff);
+        }
+        if (rule.maxMessages) {
+          conditions.push("position > ?");
+          params.push(rule.maxMessages);
+        }
+        if (conditions.length === 0) continue;
+        const doomed = this.db
+          .prepare(
+            `SELECT id, session_id as sessionId FROM (
+               SELECT m.id, m.session_id, m.created_at,
+                 ROW_NUMBER() OVER (PARTITION BY m.session_id ORDER BY m.id DESC) AS position
+               FROM messages m JOIN sessions s ON s.id = m.session_id WHERE s.channel = ?
+             ) WHERE ${conditions.join(" OR ")}`
+          )
+          .all(...params) as Array<{ id: number; sessionId: number }>;
+        for (const message of doomed) {
+          const oldest = oldestDeleted.get(message.sessionId);
+          if (oldest === undefined || message.id < oldest) oldestDeleted.set(message.sessionId, message.id);
+          if (!options.dryRun) deleteMessage.run(message.id);
+        }
+
+        let memoryEvents = 0;
+        if (cutoff) {
+          const where = "FROM memory_events WHERE session_key LIKE ? AND created_at < ?";
+          memoryEvents = options.dryRun
+            ? (this.db.prepare(`SELECT COUNT(*) as count ${where}`).get(`${channel}:%`, cutoff) as { count: number })
+                .count
+            : this.db.prepare(`DELETE ${where}`).run(`${channel}:%`, cutoff).changes;
+        }
+        channels.push({ channel, messages: doomed.length, memoryEvents });
+      }
+
+      const covering = this.db.prepare(
+        "SELECT 1 FROM session_summaries WHERE session_id = ? AND through_message_id >= ?"
+      );
+      const deleteSummary = this.db.prepare("DELETE FROM session_summaries WHERE session_id = ?");
+      for (const [sessionId, messageId] of oldestDeleted) {
+        if (!covering.get(sessionId, messageId)) continue;
+        summaries += 1;
+        if (!options.dryRun) deleteSummary.run(sessionId);
+      }
+    })();
+    return { channels, summaries };
+  }
+
+  /**
+   * Every sender id of the person behind `senderId`: their pairing id and the per-thread sender ids
+   * paired under it (a Discord user in several channels, every email thread of one address).
+   */
+  pairedSenderIds(channel: ChannelName, senderId: string): string[] {
+    const own = this.db
+      .prepare("SELECT pairing_id FROM sessions WHERE channel = ? AND sender_id = ? AND pairing_id IS NOT NULL LIMIT 1")
+      .get(channel, senderId) as { pairing_id: string } | undefined;
+    const pairingId = own?.pairing_id ?? senderId;
+    const rows = this.db
+      .prepare("SELECT DISTINCT sender_id FROM sessions WHERE channel = ? AND (sender_id = ? OR pairing_id = ?)")
+      .all(channel, pairingId, pairingId) as Array<{ sender_id: string }>;
+    return [...new Set([pairingId, senderId, ...rows.map((row) => row.sender_id)])];
+  }
+
+  /**
+   * Deletes every thread, message, summary, approval, pairing and memory event of one sender, and
+   * of every sender id paired with them (`pairedSenderIds`), in a single transaction. Usage rows
+   * are kept for cost totals but lose their thread link.
+   */
+  forgetSender(channel: ChannelName, senderId: string, options: { dryRun?: boolean } = {}): SenderDataCounts {
+    const senderIds = this.pairedSenderIds(channel, senderId);
+    const list = senderIds.map(() => "?").join(", ");
+    const inSessions = `session_id IN (SELECT id FROM sessions WHERE channel = ? AND sender_id IN (${list}))`;
+    const bySender = `channel = ? AND sender_id IN (${list})`;
+    const scoped = [channel, ...senderIds];
+    const tables: Array<[keyof SenderDataCounts, string, string[]]> = [
+      ["messages", `messages WHERE ${inSessions}`, scoped],
+      ["summaries", `session_summaries WHERE ${inSessions}`, scoped],
+      ["approvals", `approvals WHERE ${bySender} OR ${inSessions}`, [...scoped, ...scoped]],
+      ["sessions", `sessions WHERE ${bySender}`, scoped],
+      ["pairings", `pairings WHERE ${bySender}`, scoped],
+      ["memoryEvents", `memory_events WHERE session_key IN (${list})`, senderIds.map((id) => `${channel}:${id}`)],
+      ["deliveries", `message_deliveries WHERE channel = ? AND recipient IN (${list})`, scoped]
+    ];
+    return this.db.transaction(() => {
+      const counts = {} as SenderDataCounts;
+      for (const [key, from, params] of tables) {
+        counts[key] = (this.db.prepare(`SELECT COUNT(*) as count FROM ${from}`).get(...params) as { count: number })
+          .count;
+      }
+      if (!options.dryRun) {
+        this.db.prepare(`UPDATE model_usage SET session_id = NULL WHERE ${inSessions}`).run(...scoped);
+        // Ordered so no row is deleted while another still references it.
+        for (const [, from, params] of tables) {
+          this.db.prepare(`DELETE FROM ${from}`).run(...params);
+        }
+      }
+      return counts;
+    })();
+  }
+
+  /**
+   * Threads with their messages, pairings and memory events matching the filters. With a date
+   * range, only threads that have messages inside it are included.
+   */
+  exportData(filters: ExportFilters = {}): ExportData {
+    const sessionWhere: string[] = [];
+    const sessionParams: string[] = [];
+    if (filters.channel) {
+      sessionWhere.push("channel = ?");
+      sessionParams.push(filters.channel);
+    }
+    if (filters.senderId) {
+      sessionWhere.push("sender_id = ?");
+      sessionParams.push(filters.senderId);
+    }
+    const range: string[] = [];
+    const rangeParams: string[] = [];
+    if (filters.since) {
+      range.push("created_at >= ?");
+      rangeParams.push(filters.since.toISOString());
+    }
+    if (filters.until) {
+      range.push("created_at < ?");
+      rangeParams.push(filters.until.toISOString());
+    }
+    const messageWhere = ["session_id = ?", ...range].join(" AND ");
+    const messageSql = `SELECT id, session_id as sessionId, direction, content, model, created_at as createdAt
+      FROM messages WHERE ${messageWhere} ORDER BY id`;
+    const sessions: SessionRecord[] = [];
+    const messages: MessageRecord[] = [];
+    const rows = this.db
+      .prepare(
+        `SELECT ${SESSION_COLUMNS} FROM sessions
+         ${sessionWhere.length > 0 ? `WHERE ${sessionWhere.join(" AND ")}` : ""} ORDER BY id`
+      )
+      .all(...sessionParams) as SessionRow[];
+    for (const row of rows) {
+      const sessionMessages = (this.db.prepare(messageSql).all(row.id, ...rangeParams) as MessageRecord[]).map(
+        (message) => this.unseal(message)
+      );
+      if (range.length > 0 && sessionMessages.length === 0) continue;
+      sessions.push(this.toSession(row));
+      messages.push(...sessionMessages);
+    }
+
+    const pairingWhere = [...sessionWhere, ...range];
+    const pairings = (
+      this.db
+        .prepare(
+          `SELECT channel, sender_id as senderId, approved, code, created_at as createdAt FROM pairings
+           ${pairingWhere.length > 0 ? `WHERE ${pairingWhere.join(" AND ")}` : ""} ORDER BY created_at`
+        )
+        .all(...sessionParams, ...rangeParams) as Array<Omit<PairingRecord, "approved"> & { approved: number }>
+    ).map((row) => ({ ...row, approved: row.approved === 1 }));
+
+    const eventWhere = [...range];
+    const eventParams = [...rangeParams];
+    if (filters.channel && filters.senderId) {
+      eventWhere.unshift("session_key = ?");
+      eventParams.unshift(`${filters.channel}:${filters.senderId}`);
+    } else if (filters.channel) {
+      eventWhere.unshift("session_key LIKE ?");
+      eventParams.unshift(`${filters.channel}:%`);
+    } else if (filters.senderId) {
+      eventWhere.unshift("substr(session_key, instr(session_key, ':') + 1) = ?");
+      eventParams.unshift(filters.senderId);
+    }
+    const memoryEvents = this.db
+      .prepare(
+        `SELECT session_key as sessionKey, status, detail, created_at as createdAt FROM memory_events
+         ${eventWhere.length > 0 ? `WHERE ${eventWhere.join(" AND ")}` : ""} ORDER BY id`
+      )
+      .all(...eventParams) as MemoryEventRecord[];
+    return { sessions, messages, pairings, memoryEvents };
+  }
+
+  /**
+   * Imports `jsonl` export records in one transaction. Threads are matched by their key and
+   * messages by (thread, direction, time, content), so importing the same file twice is a no-op.
+   */
+  importData(records: ExportRecord[]): ImportSummary {
+    const summary: ImportSummary = {
+      sessionsCreated: 0,
+      messagesImported: 0,
+      messagesSkipped: 0,
+      pairingsImported: 0,
+      memoryEventsImported: 0,
+      memoryEventsSkipped: 0
+    };
+    const sessionIds = new Map<string, number>();
+    const findSession = this.db.prepare(
+      "SELECT id, pairing_id FROM sessions WHERE channel = ? AND sender_id = ? AND created_at = ?"
+    );
+    const hasActive = this.db.prepare(
+      "SELECT 1 FROM sessions WHERE channel = ? AND sender_id = ? AND active = 1"
+    );
+    // Content is compared after decryption: the same text encrypts differently every time.
+    const findMessages = this.db.prepare(
+      "SELECT content FROM messages WHERE session_id = ? AND direction = ? AND created_at = ?"
+    );
+    const findEvent = this.db.prepare(
+      "SELECT 1 FROM memory_events WHERE session_key = ? AND status = ? AND detail IS ? AND created_at = ?"
+    );
+    this.db.transaction(() => {
+      for (const record of records) {
+        if (record.type === "session") {
+          const existing = findSession.get(record.channel, record.senderId, record.createdAt) as
+            | { id: number; pairing_id: string | null }
+            | undefined;
+          if (existing) {
+            sessionIds.set(record.key, existing.id);
+            if (record.pairingId && !existing.pairing_id) {
+              this.db.prepare("UPDATE sessions SET pairing_id = ? WHERE id = ?").run(record.pairingId, existing.id);
+            }
+            continue;
+          }
+          // An imported thread only becomes active when the sender has no active thread here.
+          const active = record.active && !hasActive.get(record.channel, record.senderId);
+          const result = this.db
+            .prepare(
+              "INSERT INTO sessions(channel, sender_id, pairing_id, title, active, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)"
+            )
+            .run(
+              record.channel,
+              record.senderId,
+              record.pairingId ?? null,
+              record.title,
+              active ? 1 : 0,
+              record.createdAt,
+              record.updatedAt
+            );
+          sessionIds.set(record.key, Number(result.lastInsertRowid));
+          summary.sessionsCreated += 1;
+        } else if (record.type === "message") {
+          const sessionId = sessionIds.get(record.session);
+          if (sessionId === undefined) {
+            throw new Error(`Message at ${record.createdAt} references unknown session "${record.session}".`);
+          }
+          const existing = findMessages.all(sessionId, record.direction, record.createdAt) as Array<{
+            content: string;
+          }>;
+          if (existing.some((row) => this.unseal(row).content === record.content)) {
+            summary.messagesSkipped += 1;
+            continue;
+          }
+          this.db
+            .prepare(
+              "INSERT INTO messages(session_id, direction, content, model, created_at) VALUES (?, ?, ?, ?, ?)"
+            )
+            .run(sessionId, record.direction, this.seal(record.content), record.model ?? null, record.createdAt);
+          this.db
+            .prepare("UPDATE sessions SET updated_at = MAX(updated_at, ?) WHERE id = ?")
+            .run(record.createdAt, sessionId);
+          summary.messagesImported += 1;
+        } else if (record.type === "pairing") {
+          // Never downgrades: an approved sender stays approved.
+          const result = this.db
+            .prepare(
+              `INSERT INTO pairings(channel, sender_id, approved, code, created_at) VALUES (?, ?, ?, ?, ?)
+               ON CONFLICT(channel, sender_id) DO UPDATE SET approved = 1
+               WHERE excluded.approved = 1 AND pairings.approved = 0`
+            )
+            .run(record.channel, record.senderId, record.approved ? 1 : 0, record.code, record.createdAt);
+          summary.pairingsImported += result.changes;
+        } else if (record.type === "memory_event") {
+          if (findEvent.get(record.sessionKey, record.status, record.detail, record.createdAt)) {
+            summary.memoryEventsSkipped += 1;
+            continue;
+          }
+          this.db
+            .prepare("INSERT INTO memory_events(session_key, status, detail, created_at) VALUES (?, ?, ?, ?)")
+            .run(record.sessionKey, record.status, record.detail, record.createdAt);
+          summary.memoryEventsImported += 1;
+        }
+      }
+    })();
+    return summary;
+  }
+
+  /**
+   * Rewrites message and summary content, approvals and cron results under `target` (null writes
+   * plaintext), in one transaction. Values this store's keyring cannot open make the whole rewrite fail.
+   */
+  reencrypt(target: Keyring | null): ReencryptResult {
+    const result: ReencryptResult = { messages: 0, summaries: 0, approvals: 0, cronJobs: 0 };
+    const tables: Array<[keyof ReencryptResult, string, string, string[]]> = [
+      ["messages", "messages", "id", ["content"]],
+      ["summaries", "session_summaries", "session_id", ["content"]],
+      ["approvals", "approvals", "id", ["action", "request", "result"]],
+      ["cronJobs", "cron_jobs", "id", ["last_result"]]
+    ];
+    this.db.transaction(() => {
+      for (const [key, table, idColumn, columns] of tables) {
+        const update = this.db.prepare(
+          `UPDATE ${table} SET ${columns.map((column) => `${column} = ?`).join(", ")} WHERE ${idColumn} = ?`
+        );
+        const rows = this.db.prepare(`SELECT ${idColumn} as id, ${columns.join(", ")} FROM ${table}`).all() as Array<
+          Record<string, string | null> & { id: number }
+        >;
+        for (const row of rows) {
+          const values = columns.map((column) => {
+            const value = row[column];
+            if (value === null) return null;
+            const plain = this.openText(value);
+            return target ? target.encrypt(plain) : plain;
+          });
+          update.run(...values, row.id);
+          result[key] += 1;
+        }
+      }
+    })();
+    return result;
+  }
+
+  private toCronJob(row: CronJobRow): CronJobRecord {
+    return {
+      id: row.id,
+      name: row.name,
+      kind: row.kind,
+      expression: row.expression,
+      timezone: row.timezone,
+      target: JSON.parse(row.target) as CronJobTarget,
+      enabled: row.enabled === 1,
+      nextRunAt: row.next_run_at,
+      lastRunAt: row.last_run_at,
+      lastStatus: row.last_status,
+      lastResult: row.last_result === null ? null : this.openText(row.last_result),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  addCronJob(input: CronJobInput): CronJobRecord {
+    const now = this.now();
+    const result = this.db
+      .prepare(
+        "INSERT INTO cron_jobs(name, kind, expression, timezone, target, enabled, next_run_at, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)"
+      )
+      .run(
+        input.name,
+        input.kind,
+        input.expression,
+        input.timezone,
+        JSON.stringify(input.target),
+        input.enabled ? 1 : 0,
+        input.nextRunAt,
+        now,
+        now
+      );
+    const job = this.getCronJob(Number(result.lastInsertRowid));
+    if (!job) {
+      throw new Error("Failed to create cron job");
+    }
+    return job;
+  }
+
+  updateCronJob(id: number, input: CronJobInput): CronJobRecord | null {
+    const result = this.db
+      .prepare(
+        "UPDATE cron_jobs SET name = ?, kind = ?, expression = ?, timezone = ?, target = ?, enabled = ?, next_run_at = ?, updated_at = ? WHERE id = ?"
+      )
+      .run(
+        input.name,
+        input.kind,
+        input.expression,
+        input.timezone,
+        JSON.stringify(input.target),
+        input.enabled ? 1 : 0,
+        input.nextRunAt,
+        this.now(),
+        id
+      );
+    return result.changes > 0 ? this.getCronJob(id) : null;
+  }
+
+  getCronJob(id: number): CronJobRecord | null {
+    const row = this.db.prepare("SELECT * FROM cron_jobs WHERE id = ?").get(id) as
+      | CronJobRow
+      | undefined;
+    return row ? this.toCronJob(row) : null;
+  }
+
+  listCronJobs(): CronJobRecord[] {
+    const rows = this.db.prepare("SELECT * FROM cron_jobs ORDER BY id ASC").all() as CronJobRow[];
+    return rows.map((row) => this.toCronJob(row));
+  }
+
+  listDueCronJobs(nowIso: string): CronJobRecord[] {
+    const rows = this.db
+      .prepare(
+        "SELECT * FROM cron_jobs WHERE enabled = 1 AND next_run_at IS NOT NULL AND next_run_at <= ? ORDER BY next_run_at ASC"
+      )
+      .all(nowIso) as CronJobRow[];
+    return rows.map((row) => this.toCronJob(row));
+  }
+
+  removeCronJob(id: number): boolean {
+    const result = this.db.prepare("DELETE FROM cron_jobs WHERE id = ?").run(id);
+    return result.changes > 0;
+  }
+
+  /** Records a run; `schedule`, when given, also moves the job's next run or retires it. */
+  recordCronRun(
+    id: number,
+    run: { status: "ok" | "failed"; result: string },
+    schedule?: { nextRunAt: string | null; enabled: boolean }
+  ): void {
+    const now = this.now();
+    if (!schedule) {
+      this.db
+        .prepare("UPDATE cron_jobs SET last_run_at = ?, last_status = ?, last_result = ?, updated_at = ? WHERE id = ?")
+        .run(now, run.status, this.seal(run.result), now, id);
+      return;
+    }
+    this.db
+      .prepare(
+        "UPDATE cron_jobs SET last_run_at = ?, last_status = ?, last_result = ?, next_run_at = ?, enabled = ?, updated_at = ? WHERE id = ?"
+      )
+      .run(now, run.status, this.seal(run.result), schedule.nextRunAt, schedule.enabled ? 1 : 0, now, id);
+  }
+
+  private toApproval(row: ApprovalRow): ApprovalRecord {
+    return {
+      id: row.id,
+      sessionId: row.session_id,
+      channel: row.channel,
+      senderId: row.sender_id,
+      action: JSON.parse(this.openText(row.action)) as AgentAction,
+      request: this.openText(row.request),
+      status: row.status,
+      result: row.result === null ? null : this.openText(row.result),
+      createdAt: row.created_at,
+      resolvedAt: row.resolved_at
+    };
+  }
+
+  addApproval(
+    sessionId: number,
+    channel: ChannelName,
+    senderId: string,
+    action: AgentAction,
+    request: string
+  ): ApprovalRecord {
+    const result = this.db
+      .prepare(
+        "INSERT INTO approvals(session_id, channel, sender_id, action, request, status, created_at) VALUES (?, ?, ?, ?, ?, 'pending', ?)"
+      )
+      .run(sessionId, channel, senderId, this.seal(JSON.stringify(action)), this.seal(request), this.now());
+    const approval = this.getApproval(Number(result.lastInsertRowid));
+    if (!approval) {
+      throw new Error("Failed to create approval");
+    }
+    return approval;
+  }
+
+  getApproval(id: number): ApprovalRecord | null {
+    const row = this.db.prepare("SELECT * FROM approvals WHERE id = ?").get(id) as
+      | ApprovalRow
+      | undefined;
+    return row ? this.toApproval(row) : null;
+  }
+
+  /** The approval only if it was requested by this sender on this channel, for `/approve` and `/deny`. */
+  getApprovalFor(id: number, channel: ChannelName, senderId: string): ApprovalRecord | null {
+    const row = this.db
+      .prepare("SELECT * FROM approvals WHERE id = ? AND channel = ? AND sender_id = ?")
+      .get(id, channel, senderId) as ApprovalRow | undefined;
+    return row ? this.toApproval(row) : null;
+  }
+
+  listApprovals(status?: ApprovalStatus, limit = 100): ApprovalRecord[] {
+    const rows = (
+      status
+        ? this.db
+            .prepare("SELECT * FROM approvals WHERE status = ? ORDER BY id DESC LIMIT ?")
+            .all(status, limit)
+        : this.db.prepare("SELECT * FROM approvals ORDER BY id DESC LIMIT ?").all(limit)
+    ) as ApprovalRow[];
+    return rows.map((row) => this.toApproval(row));
+  }
+
+  /** Moves a pending approval to its final state; returns false if it was already resolved. */
+  resolveApproval(id: number, status: Exclude<ApprovalStatus, "pending">): boolean {
+    const result = this.db
+      .prepare("UPDATE approvals SET status = ?, resolved_at = ? WHERE id = ? AND status = 'pending'")
+      .run(status, this.now(), id);
+    return result.changes > 0;
+  }
+
+  setApprovalResult(id: number, output: string): void {
+    this.db.prepare("UPDATE approvals SET result = ? WHERE id = ?").run(this.seal(output), id);
+  }
 }
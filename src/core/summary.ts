@@ -0,0 +1,111 @@
+import type { GnamiConfig } from "./config.js";
+import type { Store } from "./store.js";
+import { estimateTokens } from "./usage.js";
+import type { AgentRequest, AgentRuntime } from "../providers/agent.js";
+import type { MessageRecord } from "../types.js";
+
+type SummarySettings = GnamiConfig["agent"]["summary"];
+
+/** History window used when summaries are disabled or the summary call fails. */
+export const FALLBACK_HISTORY_LIMIT = 30;
+
+export interface ConversationContext {
+  summary: string | null;
+  history: MessageRecord[];
+  /** Set when the summary could not be updated; the history then falls back to the last messages. */
+  summaryError?: string;
+}
+
+export interface SummaryPlan {
+  /** Oldest pending messages, to be folded into the summary. */
+  fold: MessageRecord[];
+  /** Newest messages, kept verbatim. */
+  keep: MessageRecord[];
+}
+
+function messageLine(message: MessageRecord): string {
+  return `${message.direction === "inbound" ? "User" : "Assistant"}: ${message.content}`;
+}
+
+export function messageTokens(messages: MessageRecord[]): number {
+  return messages.reduce((sum, message) => sum + estimateTokens(messageLine(message)) + 1, 0);
+}
+
+/** Null while the unsummarized messages fit the budget. */
+export function planSummary(pending: MessageRecord[], settings: SummarySettings): SummaryPlan | null {
+  if (messageTokens(pending) <= settings.tokenBudget) {
+    return null;
+  }
+  const split = Math.max(0, pending.length - settings.keepRecent);
+  if (split === 0) {
+    return null;
+  }
+  // A first pass over a long legacy session only folds what fits a few budgets; older messages
+  // were already outside the model's window before summaries existed.
+  const fold = pending.slice(0, split);
+  let start = fold.length - 1;
+  let tokens = messageTokens([fold[start]]);
+  while (start > 0 && tokens + messageTokens([fold[start - 1]]) <= settings.tokenBudget * 4) {
+    start -= 1;
+    tokens += messageTokens([fold[start]]);
+  }
+  return { fold: fold.slice(start), keep: pending.slice(split) };
+}
+
+export function summaryPrompt(previous: string | null, messages: MessageRecord[]): string {
+  return [
+    "Update the running summary of this conversation so it can replace the messages below.",
+    "Keep facts, decisions, open tasks, names and preferences; drop small talk. Use short bullet points.",
+    "Reply with the updated summary only.",
+    "",
+    "Current summary:",
+    previous?.trim() || "(none)",
+    "",
+    "New messages:",
+    ...messages.map(messageLine)
+  ].join("\n");
+}
+
+/**
+ * Loads the summary and verbatim history for a session. When the messages after the summary pass
+ * `agent.summary.tokenBudget`, the older ones are folded into the stored summary first, so each
+ * call only summarizes what is new.
+ */
+export async function loadConversation(
+  store: Store,
+  agent: AgentRuntime,
+  settings: SummarySettings,
+  sessionId: number,
+  hooks: Pick<AgentRequest, "onUsage"> = {}
+): Promise<ConversationContext> {
+  if (!settings.enabled) {
+    return { summary: null, history: store.getRecentMessages(sessionId, FALLBACK_HISTORY_LIMIT) };
+  }
+  const current = store.getSessionSummary(sessionId);
+  const pending = store.getMessagesAfter(sessionId, current?.throughMessageId ?? 0);
+  const plan = planSummary(pending, settings);
+  if (!plan) {
+    return { summary: current?.content ?? null, history: pending };
+  }
+  try {
+    const updated = (
+      await agent.respond({
+        input: summaryPrompt(current?.content ?? null, plan.fold),
+        history: [],
+        thinking: "low",
+        ...hooks
+      })
+    ).trim();
+    if (!updated) {
+      throw new Error("Summary response was empty.");
+    }
+    const saved = store.saveSessionSummary(sessionId, updated, plan.fold[plan.fold.length - 1].id);
+    return { summary: saved.content, history: plan.keep };
+  } catch (error) {
+    return {
+      summary: current?.content ?? null,
+      history: pending.slice(-FALLBACK_HISTORY_LIMIT),
+      summaryError: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
@@ -0,0 +1,160 @@
+import { z } from "zod";
+import type { AgentAction } from "./actions.js";
+import { paramsJsonSchema } from "../integrations/helpers.js";
+import type { IntegrationCatalogEntry, IntegrationName } from "../integrations/types.js";
+
+export interface AgentToolDefinition {
+  name: string;
+  description: string;
+  /** JSON Schema for the tool arguments. */
+  parameters: Record<string, unknown>;
+}
+
+export interface AgentToolCall {
+  id: string;
+  name: string;
+  /** Raw JSON arguments as produced by the model. */
+  arguments: string;
+}
+
+interface ToolEntry {
+  definition: AgentToolDefinition;
+  schema: z.ZodObject;
+  toAction: (args: Record<string, unknown>) => AgentAction;
+}
+
+const shellParams = z.object({
+  command: z.string().min(1).describe("Command line to run."),
+  timeoutMs: z.number().int().min(1000).max(600000).optional(),
+  cwd: z.string().optional().describe("Working directory.")
+});
+
+const installSkillParams = z.object({
+  name: z.string().min(1).describe("Skill name (kebab-case)."),
+  content: z.string().min(1).describe("Full SKILL.md content.")
+});
+
+const searchHistoryParams = z.object({
+  query: z.string().min(1).describe('Words to find; use "quotes" for a phrase and word* for a prefix.'),
+  limit: z.number().int().min(1).max(50).optional()
+});
+
+// Tool names must match ^[a-zA-Z0-9_-]{1,64}$ for the OpenAI APIs.
+export function integrationToolName(app: IntegrationName, action: string): string {
+  return `${app}__${action}`.replace(/[^a-zA-Z0-9_-]/g, "_").slice(0, 64);
+}
+
+/**
+ * Tool definitions for the AgentAction union plus every callable integration action,
+ * and the mapping from a model tool call back to an AgentAction.
+ */
+export class AgentToolset {
+  private readonly entries = new Map<string, ToolEntry>();
+
+  constructor(private readonly catalog: IntegrationCatalogEntry[] = []) {
+    this.add("shell", "Run a shell command on the host and return its output.", shellParams, (args) => ({
+      type: "shell",
+      ...(args as z.infer<typeof shellParams>)
+    }));
+    this.add(
+      "install_skill",
+      "Install or replace a Skills.md skill in the workspace.",
+      installSkillParams,
+      (args) => ({ type: "install_skill", ...(args as z.infer<typeof installSkillParams>) })
+    );
+    this.add(
+      "search_history",
+      "Full-text search of earlier messages with this user, across all of their threads.",
+      searchHistoryParams,
+      (args) => ({ type: "search_history", ...(args as z.infer<typeof searchHistoryParams>) })
+    );
+    for (const entry of catalog) {
+      for (const spec of entry.actions) {
+        this.add(
+          integrationToolName(entry.app, spec.name),
+          [
+            `[${entry.app}] ${spec.description}`,
+            spec.sideEffect ? "Has side effects; may wait for user approval." : "",
+            `Example: ${JSON.stringify(spec.example)}`
+          ]
+            .filter(Boolean)
+            .join(" "),
+          spec.params,
+          (params) => ({ type: "integration", app: entry.app, action: spec.name, params })
+        );
+      }
+    }
+  }
+
+  private add(
+    name: string,
+    description: string,
+    schema: z.ZodObject,
+    toAction: ToolEntry["toAction"]
+  ): void {
+    this.entries.set(name, {
+      definition: { name, description, parameters: paramsJsonSchema(schema) },
+      schema,
+      toAction
+    });
+  }
+
+  /** gnami-action instructions for providers without native tool calling (Codex CLI). */
+  promptInstructions(): string {
+    const lines = [
+      "If an action is required, emit action blocks only in this format:",
+      "```gnami-action",
+      '{"type":"shell","command":"<command>","timeoutMs":60000}',
+      "```",
+      "or",
+      "```gnami-action",
+      '{"type":"install_skill","name":"<skill-name>","content":"# SKILL.md..."}',
+      "```",
+      "or, to look up what was said in earlier conversations:",
+      "```gnami-action",
+      '{"type":"search_history","query":"<words>","limit":10}',
+      "```",
+      "or, for an integration action listed below:",
+      "```gnami-action",
+      '{"type":"integration","app":"<app>","action":"<action>","params":{...}}',
+      "```"
+    ];
+    const available = this.catalog.flatMap((entry) =>
+      entry.actions.map((spec) => {
+        const params = Object.entries(spec.params.shape)
+          .map(([key, field]) => (field.safeParse(undefined).success ? `${key}?` : key))
+          .join(", ");
+        return `- ${entry.app}.${spec.name}(${params}): ${spec.description} Example params: ${JSON.stringify(spec.example)}`;
+      })
+    );
+    lines.push(
+      ...(available.length > 0
+        ? ["Available integration actions:", ...available]
+        : ["No integrations are enabled and configured."])
+    );
+    lines.push("Then include brief plain-language intent.");
+    return lines.join("\n");
+  }
+
+  definitions(): AgentToolDefinition[] {
+    return [...this.entries.values()].map((entry) => entry.definition);
+  }
+
+  toAction(call: AgentToolCall): AgentAction {
+    const entry = this.entries.get(call.name);
+    if (!entry) {
+      throw new Error(`Unknown tool "${call.name}".`);
+    }
+    let args: unknown;
+    try {
+      args = call.arguments.trim() ? JSON.parse(call.arguments) : {};
+    } catch {
+      throw new Error(`Arguments for "${call.name}" are not valid JSON.`);
+    }
+    const parsed = entry.schema.safeParse(args);
+    if (!parsed.success) {
+      throw new Error(`Invalid arguments for "${call.name}": ${z.prettifyError(parsed.error)}`);
+    }
+    return entry.toAction(parsed.data as Record<string, unknown>);
+  }
+}
@@ -0,0 +1,232 @@
+import { z } from "zod";
+import type {
+  ChannelName,
+  MemoryEventRecord,
+  MessageRecord,
+  PairingRecord,
+  SessionRecord
+} from "../types.js";
+import { CHANNEL_NAMES } from "../types.js";
+
+export const EXPORT_FORMATS = ["jsonl", "markdown", "openai"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export interface ExportFilters {
+  channel?: ChannelName;
+  senderId?: string;
+  since?: Date;
+  until?: Date;
+}
+
+export interface ExportData {
+  sessions: SessionRecord[];
+  messages: MessageRecord[];
+  pairings: PairingRecord[];
+  memoryEvents: MemoryEventRecord[];
+}
+
+export interface ImportSummary {
+  sessionsCreated: number;
+  messagesImported: number;
+  messagesSkipped: number;
+  pairingsImported: number;
+  memoryEventsImported: number;
+  memoryEventsSkipped: number;
+}
+
+const channelSchema = z.enum(CHANNEL_NAMES);
+
+/**
+ * One JSONL line. Row ids are not portable, so sessions are identified by `key`
+ * (`channel:senderId:createdAt`) and messages point at their session's key.
+ */
+export const exportRecordSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("export"), version: z.literal(1), exportedAt: z.string() }),
+  z.object({
+    type: z.literal("session"),
+    key: z.string().min(1),
+    channel: channelSchema,
+    senderId: z.string().min(1),
+    /** Absent in exports from before pairing ids were recorded. */
+    pairingId: z.string().min(1).nullable().optional(),
+    title: z.string().min(1).default("default"),
+    active: z.boolean().default(false),
+    createdAt: z.string().min(1),
+    updatedAt: z.string().min(1)
+  }),
+  z.object({
+    type: z.literal("message"),
+    session: z.string().min(1),
+    direction: z.enum(["inbound", "outbound"]),
+    content: z.string(),
+    model: z.string().nullable().optional(),
+    createdAt: z.string().min(1)
+  }),
+  z.object({
+    type: z.literal("pairing"),
+    channel: channelSchema,
+    senderId: z.string().min(1),
+    approved: z.boolean(),
+    code: z.string().min(1),
+    createdAt: z.string().min(1)
+  }),
+  z.object({
+    type: z.literal("memory_event"),
+    sessionKey: z.string().min(1),
+    status: z.enum(["saved", "failed"]),
+    detail: z.string().nullable(),
+    createdAt: z.string().min(1)
+  })
+]);
+
+export type ExportRecord = z.infer<typeof exportRecordSchema>;
+
+export function parseExportFormat(value: string): ExportFormat {
+  if (!(EXPORT_FORMATS as readonly string[]).includes(value)) {
+    throw new Error(`Unsupported format "${value}". Use ${EXPORT_FORMATS.join("|")}.`);
+  }
+  return value as ExportFormat;
+}
+
+export function sessionKey(session: Pick<SessionRecord, "channel" | "senderId" | "createdAt">): string {
+  return `${session.channel}:${session.senderId}:${session.createdAt}`;
+}
+
+export function toExportRecords(data: ExportData, exportedAt = new Date()): ExportRecord[] {
+  const keys = new Map(data.sessions.map((session) => [session.id, sessionKey(session)]));
+  return [
+    { type: "export", version: 1, exportedAt: exportedAt.toISOString() },
+    ...data.sessions.map(
+      (session): ExportRecord => ({
+        type: "session",
+        key: keys.get(session.id) as string,
+        channel: session.channel,
+        senderId: session.senderId,
+        pairingId: session.pairingId,
+        title: session.title,
+        active: session.active,
+        createdAt: session.createdAt,
+        updatedAt: session.updatedAt
+      })
+    ),
+    ...data.messages.map(
+      (message): ExportRecord => ({
+        type: "message",
+        session: keys.get(message.sessionId) as string,
+        direction: message.direction,
+        content: message.content,
+        model: message.model ?? null,
+        createdAt: message.createdAt
+      })
+    ),
+    ...data.pairings.map((pairing): ExportRecord => ({ type: "pairing", ...pairing })),
+    ...data.memoryEvents.map((event): ExportRecord => ({ type: "memory_event", ...event }))
+  ];
+}
+
+function groupMessages(data: ExportData): Map<number, MessageRecord[]> {
+  const bySession = new Map<number, MessageRecord[]>();
+  for (const message of data.messages) {
+    const list = bySession.get(message.sessionId) ?? [];
+    list.push(message);
+    bySession.set(message.sessionId, list);
+  }
+  return bySession;
+}
+
+function toMarkdown(data: ExportData, exportedAt: Date): string {
+  const bySession = groupMessages(data);
+  const lines = ["# GnamiAI conversations", "", `Exported ${exportedAt.toISOString()}.`];
+  for (const session of data.sessions) {
+    const messages = bySession.get(session.id) ?? [];
+    lines.push(
+      "",
+      `## ${session.channel}:${session.senderId} — ${session.title}`,
+      "",
+      `Thread #${session.id}, started ${session.createdAt}, ${messages.length} messages.`
+    );
+    for (const message of messages) {
+      const speaker =
+        message.direction === "inbound" ? "User" : `Assistant${message.model ? ` (${message.model})` : ""}`;
+      lines.push("", `**${speaker}** · ${message.createdAt}`, "", message.content);
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+/** OpenAI chat fine-tuning lines; threads without both a user and an assistant turn are skipped. */
+function toFineTuneLines(data: ExportData): string[] {
+  const bySession = groupMessages(data);
+  const lines: string[] = [];
+  for (const session of data.sessions) {
+    const messages = (bySession.get(session.id) ?? []).map((message) => ({
+      role: message.direction === "inbound" ? "user" : "assistant",
+      content: message.content
+    }));
+    if (messages.some((entry) => entry.role === "user") && messages.some((entry) => entry.role === "assistant")) {
+      lines.push(JSON.stringify({ messages }));
+    }
+  }
+  return lines;
+}
+
+export function renderExport(data: ExportData, format: ExportFormat, exportedAt = new Date()): string {
+  if (format === "markdown") {
+    return toMarkdown(data, exportedAt);
+  }
+  const lines =
+    format === "openai"
+      ? toFineTuneLines(data)
+      : toExportRecords(data, exportedAt).map((record) => JSON.stringify(record));
+  return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+}
+
+export function exportContentType(format: ExportFormat): string {
+  return format === "markdown" ? "text/markdown; charset=utf-8" : "application/x-ndjson; charset=utf-8";
+}
+
+export function exportFileExtension(format: ExportFormat): string {
+  return format === "markdown" ? "md" : "jsonl";
+}
+
+/** Parses a `jsonl` export; the line number is reported for the first invalid record. */
+export function parseExportJsonl(text: string): ExportRecord[] {
+  const records: ExportRecord[] = [];
+  for (const [index, line] of text.split(/\r?\n/).entries()) {
+    if (!line.trim()) continue;
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${index + 1}: not valid JSON.`);
+    }
+    const parsed = exportRecordSchema.safeParse(value);
+    if (!parsed.success) {
+      throw new Error(`Line ${index + 1}: ${z.prettifyError(parsed.error)}`);
+    }
+    records.push(parsed.data);
+  }
+  return records;
+}
+
+/** `POST /api/import` body: JSONL text, or the same records as a JSON array. */
+export function parseImportBody(body: unknown): ExportRecord[] {
+  if (typeof body === "string") {
+    return parseExportJsonl(body);
+  }
+  const parsed = exportRecordSchema.array().safeParse(body);
+  if (!parsed.success) {
+    throw new Error(`Import body must be JSONL text or an array of export records: ${z.prettifyError(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+export function formatImportSummary(summary: ImportSummary): string {
+  return [
+    `sessions created: ${summary.sessionsCreated}`,
+    `messages imported: ${summary.messagesImported} (skipped ${summary.messagesSkipped} already present)`,
+    `pairings imported: ${summary.pairingsImported}`,
+    `memory events imported: ${summary.memoryEventsImported} (skipped ${summary.memoryEventsSkipped})`
+  ].join("\n");
+}
@@ -0,0 +1,146 @@
+import type { GnamiConfig } from "./config.js";
+
+export type UsageGroupBy = "day" | "session" | "channel" | "provider";
+
+export const USAGE_GROUPS: UsageGroupBy[] = ["day", "session", "channel", "provider"];
+
+/** One routed model call, as reported to `AgentRequest.onUsage`. */
+export interface ModelCallUsage {
+  /** `provider/model` that answered. */
+  route: string;
+  promptTokens: number;
+  completionTokens: number;
+  /** True when the backend reported no usage and the counts were estimated from text length. */
+  estimated: boolean;
+  latencyMs: number;
+}
+
+export interface UsageGroupRow {
+  key: string;
+  model: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  estimatedCalls: number;
+}
+
+export interface UsageSummaryRow {
+  key: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  avgLatencyMs: number;
+  estimatedCalls: number;
+  /** Cost of the priced calls only; see `unpricedCalls`. */
+  costUsd: number;
+  unpricedCalls: number;
+}
+
+export interface UsageSummary {
+  since: string;
+  groupBy: UsageGroupBy;
+  rows: UsageSummaryRow[];
+  total: UsageSummaryRow;
+}
+
+type PriceTable = GnamiConfig["usage"]["prices"];
+
+/** Rough count for backends without usage fields (Codex CLI): about four characters per token. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/** Accepts `30m`, `24h`, `7d`, `4w` or an ISO date. */
+export function parseSince(value: string, now = new Date()): Date {
+  const match = /^(\d+)\s*([mhdw])$/i.exec(value.trim());
+  if (match) {
+    const unitMs = { m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 }[
+      match[2].toLowerCase() as "m" | "h" | "d" | "w"
+    ];
+    return new Date(now.getTime() - Number(match[1]) * unitMs);
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid --since "${value}". Use e.g. 24h, 7d, 4w or an ISO date.`);
+  }
+  return date;
+}
+
+/** Upper bound of a date range: an ISO date. */
+export function parseUntil(value: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid --until "${value}". Use an ISO date.`);
+  }
+  return date;
+}
+
+export function parseUsageGroup(value: string): UsageGroupBy {
+  if (!(USAGE_GROUPS as string[]).includes(value)) {
+    throw new Error(`Unsupported grouping "${value}". Use ${USAGE_GROUPS.join("|")}.`);
+  }
+  return value as UsageGroupBy;
+}
+
+/** Exact `provider/model` entry first, then the `provider/*` wildcard. */
+export function priceFor(prices: PriceTable, route: string): PriceTable[string] | null {
+  const provider = route.split("/")[0];
+  return prices[route] ?? prices[`${provider}/*`] ?? null;
+}
+
+function emptyRow(key: string): UsageSummaryRow {
+  return {
+    key,
+    calls: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    avgLatencyMs: 0,
+    estimatedCalls: 0,
+    costUsd: 0,
+    unpricedCalls: 0
+  };
+}
+
+/** Folds per-(key, model) rows into one row per key, pricing each model separately. */
+export function summarizeUsage(
+  groups: UsageGroupRow[],
+  prices: PriceTable,
+  groupBy: UsageGroupBy,
+  since: Date
+): UsageSummary {
+  const byKey = new Map<string, UsageSummaryRow>();
+  const latency = new Map<string, number>();
+  const total = emptyRow("total");
+  let totalLatency = 0;
+  for (const group of groups) {
+    const row = byKey.get(group.key) ?? emptyRow(group.key);
+    byKey.set(group.key, row);
+    const price = priceFor(prices, group.model);
+    const cost = price
+      ? (group.promptTokens * price.inputPerMillion + group.completionTokens * price.outputPerMillion) / 1_000_000
+      : 0;
+    for (const target of [row, total]) {
+      target.calls += group.calls;
+      target.promptTokens += group.promptTokens;
+      target.completionTokens += group.completionTokens;
+      target.estimatedCalls += group.estimatedCalls;
+      target.costUsd += cost;
+      if (!price) target.unpricedCalls += group.calls;
+    }
+    latency.set(group.key, (latency.get(group.key) ?? 0) + group.latencyMs);
+    totalLatency += group.latencyMs;
+  }
+  const rows = [...byKey.values()];
+  for (const row of [...rows, total]) {
+    const sum = row === total ? totalLatency : (latency.get(row.key) ?? 0);
+    row.avgLatencyMs = row.calls > 0 ? Math.round(sum / row.calls) : 0;
+    row.costUsd = Math.round(row.costUsd * 1_000_000) / 1_000_000;
+  }
+  if (groupBy === "day") {
+    rows.sort((a, b) => a.key.localeCompare(b.key));
+  } else {
+    rows.sort((a, b) => b.promptTokens + b.completionTokens - (a.promptTokens + a.completionTokens));
+  }
+  return { since: since.toISOString(), groupBy, rows, total };
+}
@@ -0,0 +1,200 @@
+import { type FSWatcher, watch } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { basename, dirname } from "node:path";
+import type pino from "pino";
+import { DiscordChannel } from "../channels/discord.js";
+import { EmailChannel } from "../channels/email.js";
+import { SignalChannel, type SignalStore } from "../channels/signal.js";
+import { SlackChannel } from "../channels/slack.js";
+import { WhatsAppChannel, type WhatsAppStore } from "../channels/whatsapp.js";
+import { TelegramChannel } from "../channels/telegram.js";
+import { formatConfigError, loadConfig, type GnamiConfig } from "../core/config.js";
+import { ENV_EXAMPLE_PATH, ENV_PATH, reloadEnvFiles } from "../core/env.js";
+import { MemoryService } from "../core/memory.js";
+import { collectConfigSecrets } from "../core/sandbox.js";
+import { createIntegrationRuntime, type IntegrationRuntime } from "../integrations/runtime.js";
+import { AgentRuntime } from "../providers/agent.js";
+import type { InboundMessage } from "../types.js";
+import { CONFIG_PATH } from "../utils/paths.js";
+
+/** Everything the gateway builds from the config; a reload replaces it as a whole. */
+export interface GatewayServices {
+  config: GnamiConfig;
+  agent: AgentRuntime;
+  memory: MemoryService;
+  integrations: IntegrationRuntime;
+  telegram: TelegramChannel | null;
+  discord: DiscordChannel | null;
+  slack: SlackChannel | null;
+  whatsapp: WhatsAppChannel | null;
+  signal: SignalChannel | null;
+  email: EmailChannel | null;
+  /** Config secret values redacted from sandboxed command output. */
+  sandboxSecrets: string[];
+}
+
+/** What channels are built with; it stays the same across reloads. */
+export interface ChannelContext {
+  onMessage: (message: InboundMessage) => Promise<void>;
+  store: WhatsAppStore & SignalStore;
+  logger: pino.Logger;
+}
+
+export function createGatewayServices(
+  config: GnamiConfig,
+  context: ChannelContext,
+  previous?: GatewayServices
+): GatewayServices {
+  const { onMessage, logger } = context;
+  // An unchanged channel config keeps its connection, so no update is fetched twice.
+  const unchanged = (channel: "telegram" | "discord" | "slack" | "whatsapp" | "signal" | "email"): boolean =>
+    JSON.stringify(previous?.config.channels[channel]) === JSON.stringify(config.channels[channel]);
+  return {
+    config,
+    agent: new AgentRuntime(config),
+    memory: new MemoryService(config),
+    integrations: createIntegrationRuntime(config),
+    telegram: previous && unchanged("telegram")
+      ? previous.telegram
+      : config.channels.telegram
+        ? new TelegramChannel(config.channels.telegram, onMessage)
+        : null,
+    discord: previous && unchanged("discord")
+      ? previous.discord
+      : config.channels.discord
+        ? new DiscordChannel(config.channels.discord, onMessage, logger)
+        : null,
+    slack: previous && unchanged("slack")
+      ? previous.slack
+      : config.channels.slack
+        ? new SlackChannel(config.channels.slack, onMessage, logger)
+        : null,
+    whatsapp: previous && unchanged("whatsapp")
+      ? previous.whatsapp
+      : config.channels.whatsapp
+        ? new WhatsAppChannel(config.channels.whatsapp, onMessage, context.store, logger)
+        : null,
+    signal: previous && unchanged("signal")
+      ? previous.signal
+      : config.channels.signal
+        ? new SignalChannel(config.channels.signal, onMessage, context.store, logger)
+        : null,
+    email: previous && unchanged("email")
+      ? previous.email
+      : config.channels.email
+        ? new EmailChannel(config.channels.email, onMessage, logger)
+        : null,
+    sandboxSecrets: collectConfigSecrets(config)
+  };
+}
+
+/** Top-level config sections whose value differs. */
+export function changedSections(previous: GnamiConfig, next: GnamiConfig): string[] {
+  return Object.keys(next).filter(
+    (key) =>
+      JSON.stringify(previous[key as keyof GnamiConfig]) !== JSON.stringify(next[key as keyof GnamiConfig])
+  );
+}
+
+export type ReloadTrigger = "watch" | "api" | "persona";
+
+export interface ReloadStatus {
+  ok: boolean;
+  trigger: ReloadTrigger;
+  at: string;
+  changed: string[];
+  error?: string;
+}
+
+/**
+ * Watches `gnamiai.json`, `.env` and `.env.example` and reloads when their content changes.
+ * `apply` swaps the services in and returns the changed sections; if loading, validation or
+ * `apply` throws, the running services are left untouched.
+ */
+export class ConfigReloader {
+  private readonly watchers: FSWatcher[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private snapshot = "";
+  private queue: Promise<unknown> = Promise.resolve();
+  last: ReloadStatus | null = null;
+
+  constructor(
+    private readonly apply: (config: GnamiConfig) => string[],
+    private readonly logger: pino.Logger,
+    readonly debounceMs = 300
+  ) {}
+
+  async start(): Promise<void> {
+    this.snapshot = await this.readSources();
+    const files = [CONFIG_PATH, ENV_PATH, ENV_EXAMPLE_PATH];
+    // Directories, not files: editors often save by renaming a new file over the old one.
+    for (const dir of new Set(files.map((file) => dirname(file)))) {
+      const names = new Set(files.filter((file) => dirname(file) === dir).map((file) => basename(file)));
+      try {
+        this.watchers.push(
+          watch(dir, (_event, name) => {
+            if (name && names.has(name.toString())) this.schedule();
+          })
+        );
+      } catch (error) {
+        this.logger.warn({ err: error, dir }, "Cannot watch config directory; use /api/config/reload");
+      }
+    }
+  }
+
+  stop(): void {
+    for (const watcher of this.watchers.splice(0)) {
+      watcher.close();
+    }
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Reloads now, after any reload already running. */
+  reload(trigger: ReloadTrigger): Promise<ReloadStatus> {
+    const run = this.queue.then(() => this.run(trigger));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private schedule(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.reloadIfChanged().catch(() => undefined);
+    }, this.debounceMs);
+  }
+
+  private async reloadIfChanged(): Promise<void> {
+    if ((await this.readSources()) !== this.snapshot) {
+      await this.reload("watch");
+    }
+  }
+
+  private async readSources(): Promise<string> {
+    const contents = await Promise.all(
+      [CONFIG_PATH, ENV_PATH, ENV_EXAMPLE_PATH].map((file) => readFile(file, "utf-8").catch(() => ""))
+    );
+    return contents.join("\0");
+  }
+
+  private async run(trigger: ReloadTrigger): Promise<ReloadStatus> {
+    // A broken file is reported once, not again on every unrelated event.
+    this.snapshot = await this.readSources();
+    const at = new Date().toISOString();
+    let status: ReloadStatus;
+    try {
+      reloadEnvFiles();
+      const changed = this.apply(await loadConfig());
+      status = { ok: true, trigger, at, changed };
+      this.logger.info({ trigger, changed }, "Config reloaded");
+    } catch (error) {
+      status = { ok: false, trigger, at, changed: [], error: formatConfigError(error) };
+      this.logger.error({ err: error, trigger }, "Config reload failed; keeping the running config");
+    }
+    this.last = status;
+    return status;
+  }
+}
@@ -6,15 +6,54 @@ import type { FastifyRequest } from "fastify";
 import type pino from "pino";
 import { hostname, platform, release } from "node:os";
 import { Store } from "../core/store.js";
-import { saveConfig, type GnamiConfig } from "../core/config.js";
-import { AgentRuntime } from "../providers/agent.js";
-import { TelegramChannel } from "../channels/telegram.js";
-import type { ChannelName, InboundMessage } from "../types.js";
+import { loadConfig, saveConfig, type GnamiConfig } from "../core/config.js";
+import type { AgentRequest } from "../providers/agent.js";
+import type {
+  ApprovalRecord,
+  ApprovalStatus,
+  ChannelName,
+  CronJobRecord,
+  InboundMessage,
+  MessageRecord,
+  ThreadRecord
+} from "../types.js";
+import { CHANNEL_NAMES } from "../types.js";
 import type { RawData, WebSocket } from "ws";
-import { MemoryService } from "../core/memory.js";
+import { loadConversation, messageTokens, type ConversationContext } from "../core/summary.js";
+import { parseDirection, toFtsQuery } from "../core/search.js";
+import {
+  exportContentType,
+  exportFileExtension,
+  parseExportFormat,
+  parseImportBody,
+  renderExport
+} from "../core/transfer.js";
 import { hasSkill, installSkill, listSkills } from "../core/skills.js";
-import { executeAgentActions, parseAgentActions, stripAgentActions } from "../core/actions.js";
-import { createIntegrationRuntime } from "../integrations/runtime.js";
+import {
+  createActionStreamFilter,
+  describeAction,
+  executeAgentActions,
+  type ExecuteActionOptions,
+  formatActionResults,
+  requiresApproval,
+  stripAgentActions,
+  type ActionResult,
+  type AgentAction
+} from "../core/actions.js";
+import { AgentToolset } from "../core/tools.js";
+import type { IntegrationName } from "../integrations/types.js";
+import { Scheduler, normalizeCronJob } from "../core/scheduler.js";
+import { RetentionScheduler, hasRetention, runPurge } from "../core/privacy.js";
+import { ConfigReloader, changedSections, createGatewayServices } from "./runtime.js";
+import { evaluateActionPolicy, type PolicyContext } from "../core/policy.js";
+import {
+  parseSince,
+  parseUntil,
+  parseUsageGroup,
+  summarizeUsage,
+  type ModelCallUsage,
+  type UsageGroupBy
+} from "../core/usage.js";
 import {
   buildWorkspaceContext,
   ensureWorkspaceDocs,
@@ -44,6 +83,32 @@ function senderKey(channel: ChannelName, senderId: string): string {
   return `${channel}:${senderId}`;
 }
 
+function isChannelName(value: string): value is ChannelName {
+  return (CHANNEL_NAMES as readonly string[]).includes(value);
+}
+
+function formatThreads(threads: ThreadRecord[]): string {
+  if (threads.length === 0) {
+    return "No threads yet. Send a message or use /new [title].";
+  }
+  return [
+    "Threads:",
+    ...threads.map(
+      (thread) =>
+        `${thread.active ? "*" : " "} #${thread.id} ${thread.title} (${thread.messageCount} messages, updated ${thread.updatedAt})`
+    ),
+    "Use /switch <id>, /new [title] or /fork <n> to branch from message n of this thread."
+  ].join("\n");
+}
+
+function approvalNotice(approvals: ApprovalRecord[]): string {
+  return [
+    "Approval required before I run:",
+    ...approvals.map((approval) => `#${approval.id} ${describeAction(approval.action)}`),
+    "Reply /approve <id> to run it or /deny <id> to cancel."
+  ].join("\n");
+}
+
 function isIdentityQuestion(text: string): boolean {
   return /\b(who are you|what are you|your name|who am i talking to)\b/i.test(text);
 }
@@ -177,7 +242,8 @@ function upsertLine(doc: string, key: string, value: string): string {
 
 async function applyPersonaSetup(
   config: GnamiConfig,
-  updates: PersonaFields
+  updates: PersonaFields,
+  reload: () => Promise<unknown>
 ): Promise<Required<PersonaFields>> {
   let memoryDoc = await readWorkspaceDoc("MEMORY.md");
   let soulDoc = await readWorkspaceDoc("SOUL.md");
@@ -196,8 +262,11 @@ async function applyPersonaSetup(
   await writeWorkspaceDoc("MEMORY.md", memoryDoc);
   await writeWorkspaceDoc("SOUL.md", soulDoc);
   if (config.agent.assistantName !== next.assistantName) {
-    config.agent.assistantName = next.assistantName;
-    await saveConfig(config);
+    // The running config is never edited in place: change the file and reload it like any other edit.
+    const saved = await loadConfig();
+    saved.agent.assistantName = next.assistantName;
+    await saveConfig(saved);
+    await reload();
   }
   return next;
 }
@@ -215,18 +284,66 @@ function personaPrompt(persona: Required<PersonaFields>): string {
 
 export async function startGateway(options: GatewayOptions): Promise<void> {
   const store = await Store.open();
-  const agent = new AgentRuntime(options.config);
-  const memory = new MemoryService(options.config);
-  const integrations = createIntegrationRuntime(options.config);
+  // Reassigned as a whole on config reload; read it at use, never cache its members.
+  const channelContext = { onMessage: handleInbound, store, logger: options.logger };
+  let runtime = createGatewayServices(options.config, channelContext);
   const startedAt = new Date().toISOString();
   await ensureWorkspaceDocs();
   const app = Fastify({ loggerInstance: options.logger });
   const webRoot = join(process.cwd(), "webchat");
-  const telegram = options.config.channels.telegram
-    ? new TelegramChannel(options.config.channels.telegram, handleInbound)
-    : null;
+  const scheduler = new Scheduler(store, runCronJob, options.logger);
+  let retention = createRetention(runtime.config);
+  const reloader = new ConfigReloader(applyConfig, options.logger);
+
+  function createRetention(config: GnamiConfig): RetentionScheduler | null {
+    return hasRetention(config)
+      ? new RetentionScheduler(
+          () => runPurge(store, runtime.memory, runtime.config),
+          config.retention.schedule,
+          options.logger
+        )
+      : null;
+  }
+
+  /** Swaps in services built from a freshly loaded config; throws (keeping the old ones) if building fails. */
+  function applyConfig(config: GnamiConfig): string[] {
+    const previous = runtime;
+    const next = createGatewayServices(config, channelContext, previous);
+    if (next.telegram !== previous.telegram) {
+      previous.telegram?.stop();
+      next.telegram?.start();
+    }
+    if (next.discord !== previous.discord) {
+      previous.discord?.stop();
+      next.discord?.start();
+    }
+    if (next.slack !== previous.slack) {
+      previous.slack?.stop();
+      next.slack?.start();
+    }
+    if (next.signal !== previous.signal) {
+      previous.signal?.stop();
+      next.signal?.start();
+    }
+    if (next.email !== previous.email) {
+      previous.email?.stop();
+      next.email?.start();
+    }
+    runtime = next;
+    retention?.stop();
+    retention = createRetention(config);
+    retention?.start();
+    if (config.gateway.port !== previous.config.gateway.port && options.port === undefined) {
+      options.logger.warn("gateway.port changed; restart the gateway to listen on the new port");
+    }
+    return changedSections(previous.config, config);
+  }
 
   await app.register(fastifyWebsocket);
+  // `POST /api/import` takes the raw JSONL export.
+  app.addContentTypeParser("application/x-ndjson", { parseAs: "string" }, (_req, body, done) => {
+    done(null, body);
+  });
   await app.register(fastifyStatic, {
     root: webRoot,
     prefix: "/"
@@ -242,7 +359,7 @@ export async function startGateway(options: GatewayOptions): Promise<void> {
     if (local) {
       return true;
     }
-    const configured = options.config.gateway.authToken;
+    const configured = runtime.config.gateway.authToken;
     if (!configured) return true;
     const incoming = request.headers["x-gnamiai-token"];
     const queryToken =
@@ -252,9 +369,237 @@ export async function startGateway(options: GatewayOptions): Promise<void> {
     return incoming === configured || queryToken === configured;
   }
 
+  function actionOptions(context: PolicyContext): ExecuteActionOptions {
+    return {
+      integrations: runtime.integrations,
+      store,
+      policy: runtime.config.policy,
+      context,
+      sandbox: { config: runtime.config.sandbox, secretValues: runtime.sandboxSecrets },
+      logger: options.logger
+    };
+  }
+
+  async function deliver(channel: ChannelName, to: string, content: string): Promise<void> {
+    if (channel === "telegram") {
+      if (!runtime.telegram) {
+        throw new Error("Telegram channel not configured");
+      }
+      await runtime.telegram.send(to, content);
+      return;
+    }
+    if (channel === "discord") {
+      if (!runtime.discord) {
+        throw new Error("Discord channel not configured");
+      }
+      await runtime.discord.send(to, content);
+      return;
+    }
+    if (channel === "slack") {
+      if (!runtime.slack) {
+        throw new Error("Slack channel not configured");
+      }
+      await runtime.slack.send(to, content);
+      return;
+    }
+    if (channel === "whatsapp") {
+      if (!runtime.whatsapp) {
+        throw new Error("WhatsApp channel not configured");
+      }
+      await runtime.whatsapp.send(to, content);
+      return;
+    }
+    if (channel === "signal") {
+      if (!runtime.signal) {
+        throw new Error("Signal channel not configured");
+      }
+      await runtime.signal.send(to, content);
+      return;
+    }
+    if (channel === "email") {
+      if (!runtime.email) {
+        throw new Error("Email channel not configured");
+      }
+      await runtime.email.send(to, content);
+      return;
+    }
+    const client = webchatClients.get(senderKey("webchat", to));
+    if (!client) {
+      throw new Error("WebChat client not connected");
+    }
+    client.send(JSON.stringify({ type: "assistant", content }));
+  }
+
+  async function runCronJob(job: CronJobRecord): Promise<string> {
+    const target = job.target;
+    const runAction = async (action: AgentAction, context: PolicyContext): Promise<string> => {
+      const [result] = await executeAgentActions([action], actionOptions(context));
+      if (!result?.ok) {
+        throw new Error(result?.output ?? "Action failed.");
+      }
+      return result.output;
+    };
+    if (target.type === "integration") {
+      // Through the action executor rather than the runtime directly, so `policy.integrations` applies.
+      return await runAction(
+        { type: "integration", app: target.app, action: target.action, params: target.params },
+        {}
+      );
+    }
+
+    let output: string;
+    if (target.type === "action") {
+      output = await runAction(target.action, { channel: target.channel, senderId: target.to });
+    } else {
+      const workspaceContext = await buildWorkspaceContext();
+      const response = await runtime.agent.respond({
+        input: [
+          `Scheduled job "${job.name}" fired. Carry out the following instruction.`,
+          "Do not emit gnami-action blocks; scheduled prompts cannot run actions.",
+          "",
+          target.prompt,
+          "",
+          `Workspace context:\n${workspaceContext}`
+        ].join("\n"),
+        history: [],
+        thinking: "medium",
+        onUsage: recordUsage({ channel: target.channel ?? "cron" })
+      });
+      output = stripAgentActions(response) || "(empty response)";
+    }
+    if (target.channel && target.to) {
+      await deliver(target.channel, target.to, output);
+    }
+    return output;
+  }
+
+  function recordUsage(context: { sessionId?: number; channel?: string }) {
+    return (usage: ModelCallUsage) => {
+      try {
+        store.addModelUsage(usage, context);
+      } catch (error) {
+        options.logger.warn({ err: error }, "Failed to record model usage");
+      }
+    };
+  }
+
+  async function loadSessionContext(sessionId: number, channel: ChannelName): Promise<ConversationContext> {
+    const context = await loadConversation(store, runtime.agent, runtime.config.agent.summary, sessionId, {
+      onUsage: recordUsage({ sessionId, channel })
+    });
+    if (context.summaryError) {
+      options.logger.warn({ sessionId, err: context.summaryError }, "Session summary update failed");
+    }
+    return context;
+  }
+
+  async function summarizeActionResults(
+    request: string,
+    results: ActionResult[],
+    history: MessageRecord[],
+    context: string,
+    hooks: Pick<AgentRequest, "summary" | "onRoute" | "onUsage"> = {}
+  ): Promise<string> {
+    const secondPass = await runtime.agent.respond({
+      input: [
+        `Original user request: ${request}`,
+        "Actions were executed. Summarize outcome clearly and keep concise.",
+        "Do not emit new gnami-action blocks in this answer.",
+        "",
+        formatActionResults(results)
+      ].join("\n"),
+      history,
+      thinking: "medium",
+      memoryContext: context,
+      ...hooks
+    });
+    return stripAgentActions(secondPass);
+  }
+
+  async function decideApproval(
+    approval: ApprovalRecord,
+    decision: "approved" | "denied"
+  ): Promise<string> {
+    if (!store.resolveApproval(approval.id, decision)) {
+      const current = store.getApproval(approval.id);
+      return `Approval #${approval.id} is already ${current?.status ?? "resolved"}.`;
+    }
+    if (decision === "denied") {
+      const text = `Denied action #${approval.id} (${describeAction(approval.action)}).`;
+      store.setApprovalResult(approval.id, "Denied by user.");
+      store.addMessage(approval.sessionId, "outbound", text);
+      return text;
+    }
+
+    // Resume the second pass of the original request with the real action result.
+    const [result] = await executeAgentActions(
+      [approval.action],
+      actionOptions({ channel: approval.channel, senderId: approval.senderId })
+    );
+    store.setApprovalResult(approval.id, result.output);
+    const { summary, history } = await loadSessionContext(approval.sessionId, approval.channel);
+    const workspaceContext = await buildWorkspaceContext();
+    const fallback = `Approved action #${approval.id} ${result.ok ? "completed" : "failed"}: ${result.output}`;
+    let assistant: string;
+    let route: string | null = null;
+    try {
+      assistant =
+        (await summarizeActionResults(approval.request, [result], history, workspaceContext, {
+          summary,
+          onRoute: (value) => {
+            route = value;
+          },
+          onUsage: recordUsage({ sessionId: approval.sessionId, channel: approval.channel })
+        })) || fallback;
+    } catch (error) {
+      options.logger.warn({ err: error, approvalId: approval.id }, "Approval summary failed");
+      assistant = fallback;
+    }
+    store.addMessage(approval.sessionId, "outbound", assistant, route);
+    return assistant;
+  }
+
+  /** `/new`, `/threads`, `/switch` and `/fork`; returns false for anything else. */
+  async function handleThreadCommand(message: InboundMessage): Promise<boolean> {
+    const match = message.content.trim().match(/^\/(new|threads|switch|fork)(?:\s+([\s\S]*))?$/i);
+    if (!match) {
+      return false;
+    }
+    const command = match[1].toLowerCase();
+    const arg = match[2]?.trim() ?? "";
+    if (command === "new") {
+      const thread = store.createThread(message.channel, message.senderId, arg || undefined);
+      await message.reply(`Started thread #${thread.id} "${thread.title}". Earlier threads: /threads`);
+      return true;
+    }
+    if (command === "threads") {
+      await message.reply(formatThreads(store.listThreads(message.channel, message.senderId)));
+      return true;
+    }
+    if (command === "switch") {
+      const id = Number(arg.replace(/^#/, ""));
+      const thread = Number.isInteger(id) ? store.switchThread(message.channel, message.senderId, id) : null;
+      await message.reply(
+        thread ? `Switched to thread #${thread.id} "${thread.title}".` : "Usage: /switch <id> (see /threads)"
+      );
+      return true;
+    }
+    const [positionText, ...titleParts] = arg.split(/\s+/);
+    const position = Number(positionText);
+    const current = store.getOrCreateSession(message.channel, message.senderId);
+    const messageId = Number.isInteger(position) && position > 0 ? store.getThreadMessageId(current, position) : null;
+    const thread = messageId ? store.forkThread(current, messageId, titleParts.join(" ") || undefined) : null;
+    await message.reply(
+      thread
+        ? `Forked messages 1-${position} into thread #${thread.id} "${thread.title}" and switched to it.`
+        : "Usage: /fork <n> [title], where n is a message number in this thread."
+    );
+    return true;
+  }
+
   async function handleInbound(message: InboundMessage): Promise<void> {
     try {
-      const pairing = store.upsertPairing(message.channel, message.senderId);
+      const pairing = store.upsertPairing(message.channel, message.pairingId ?? message.senderId);
       if (!pairing.approved) {
         await message.reply(
           `Pairing required. Approve with: gnamiai pairing approve ${message.channel} ${pairing.code}`
@@ -262,6 +607,22 @@ export async function startGateway(options: GatewayOptions): Promise<void> {
         return;
       }
 
+      const approvalCommand = message.content.trim().match(/^\/(approve|deny)\s+#?(\d+)$/i);
+      if (approvalCommand) {
+        const approval = store.getApprovalFor(Number(approvalCommand[2]), message.channel, message.senderId);
+        if (!approval) {
+          await message.reply(`No approval #${approvalCommand[2]} found for you.`);
+          return;
+        }
+        const decision = approvalCommand[1].toLowerCase() === "approve" ? "approved" : "denied";
+        await message.reply(await decideApproval(approval, decision));
+        return;
+      }
+
+      if (await handleThreadCommand(message)) {
+        return;
+      }
+
       const userScopedId = `${message.channel}:${message.senderId}`;
       if (message.content.startsWith("/skill install ")) {
         const [firstLine, ...rest] = message.content.split("\n");
@@ -275,7 +636,7 @@ export async function startGateway(options: GatewayOptions): Promise<void> {
         }
         const skillId = await installSkill(skillName, skillContent);
         try {
-          const write = await memory.addSkillMemory(userScopedId, skillName, skillContent);
+          const write = await runtime.memory.addSkillMemory(userScopedId, skillName, skillContent);
           store.addMemoryEvent(userScopedId, "saved", `skill:${skillName} backend:${write.backend}`);
         } catch (error) {
           store.addMemoryEvent(
@@ -298,7 +659,7 @@ export async function startGateway(options: GatewayOptions): Promise<void> {
           await message.reply(`Skill already installed: ${skillName}`);
           return;
         }
-        const remembered = await memory.findSkill(userScopedId, skillName);
+        const remembered = await runtime.memory.findSkill(userScopedId, skillName);
         if (!remembered) {
           await message.reply(`No remembered skill found for "${skillName}".`);
           return;
@@ -308,15 +669,15 @@ export async function startGateway(options: GatewayOptions): Promise<void> {
         return;
       }
 
-      const sessionId = store.getOrCreateSession(message.channel, message.senderId);
+      const sessionId = store.getOrCreateSession(message.channel, message.senderId, message.pairingId);
       store.addMessage(sessionId, "inbound", message.content);
-      const history = store.getRecentMessages(sessionId, 30);
+      const { summary, history } = await loadSessionContext(sessionId, message.channel);
       const historyHint = history
         .slice(-8)
         .map((entry) => `${entry.direction === "inbound" ? "User" : "Assistant"}: ${entry.content}`)
         .join("\n");
-      const memoryContext = await memory.getContext(userScopedId, message.content, historyHint);
-      const persona = await readPersona(options.config.agent.assistantName ?? "GnamiBot");
+      const memoryContext = await runtime.memory.getContext(userScopedId, message.content, historyHint);
+      const persona = await readPersona(runtime.config.agent.assistantName ?? "GnamiBot");
       const parsedPersona = parsePersonaInput(message.content);
       if (!persona.userName || !persona.language) {
         if (!parsedPersona.assistantName && !parsedPersona.userName && !parsedPersona.language) {
@@ -325,7 +686,7 @@ export async function startGateway(options: GatewayOptions): Promise<void> {
           await message.reply(prompt);
           return;
         }
-        const updated = await applyPersonaSetup(options.config, parsedPersona);
+        const updated = await applyPersonaSetup(runtime.config, parsedPersona, () => reloader.reload("persona"));
         if (!updated.userName || !updated.language) {
           const prompt = personaPrompt(updated);
           store.addMessage(sessionId, "outbound", prompt);
@@ -339,11 +700,11 @@ export async function startGateway(options: GatewayOptions): Promise<void> {
       }
       if (isIdentityQuestion(message.content)) {
         const soulDoc = await readWorkspaceDoc("SOUL.md");
-        const assistantName = await resolveAssistantName(options.config.agent.assistantName);
+        const assistantName = await resolveAssistantName(runtime.config.agent.assistantName);
         const identityReply = soulToIdentityReply(soulDoc, assistantName);
         store.addMessage(sessionId, "outbound", identityReply);
         try {
-          const write = await memory.addConversationMemory(
+          const write = await runtime.memory.addConversationMemory(
             userScopedId,
             message.content,
             identityReply
@@ -360,45 +721,79 @@ export async function startGateway(options: GatewayOptions): Promise<void> {
         return;
       }
       const workspaceContext = await buildWorkspaceContext();
-      const firstPass = await agent.respond({
-        input: `${message.content}\n\nWorkspace context:\n${workspaceContext}`,
-        history,
-        thinking: "medium",
-        memoryContext
-      });
-      const actions = parseAgentActions(firstPass).slice(0, 3);
-      let assistant = stripAgentActions(firstPass);
-
-      if (actions.length > 0) {
-        const actionResults = await executeAgentActions(actions, { integrations });
-        const actionSummary = actionResults
-          .map((result, index) => {
-            return [
-              `Action ${index + 1}: ${result.action.type}`,
-              `Success: ${result.ok ? "yes" : "no"}`,
-              `Output: ${result.output}`
-            ].join("\n");
-          })
-          .join("\n\n");
-
-        const secondPass = await agent.respond({
-          input: [
-            `Original user request: ${message.content}`,
-            "Actions were executed. Summarize outcome clearly and keep concise.",
-            "Do not emit new gnami-action blocks in this answer.",
-            "",
-            actionSummary
-          ].join("\n"),
+      const policyContext = {
+        channel: message.channel,
+        senderId: message.senderId,
+        sandboxed: runtime.config.sandbox.enabled
+      };
+      const parked: ApprovalRecord[] = [];
+      // Actions the policy refuses are never parked; they run straight into a structured refusal.
+      const runActions = async (actions: AgentAction[]): Promise<ActionResult[]> => {
+        const gated = runtime.config.approvals.enabled
+          ? actions.filter(
+              (action) =>
+                requiresApproval(action, runtime.integrations) &&
+                evaluateActionPolicy(runtime.config.policy, action, policyContext).allowed
+            )
+          : [];
+        const results = new Map<AgentAction, ActionResult>();
+        for (const action of gated) {
+          const approval = store.addApproval(
+            sessionId,
+            message.channel,
+            message.senderId,
+            action,
+            message.content
+          );
+          parked.push(approval);
+          results.set(action, {
+            action,
+            ok: false,
+            approvalId: approval.id,
+            output: `Queued for user approval as #${approval.id}; it has not run yet.`
+          });
+        }
+        const immediate = actions.filter((action) => !gated.includes(action));
+        if (immediate.length > 0) {
+          const executed = await executeAgentActions(immediate, {
+            ...actionOptions(policyContext),
+            onActionStarted: message.stream?.actionStarted,
+            onActionResult: message.stream?.actionResult
+          });
+          for (const result of executed) results.set(result.action, result);
+        }
+        return actions.map((action) => results.get(action) as ActionResult);
+      };
+      const filter = message.stream ? createActionStreamFilter(message.stream.delta) : undefined;
+      let route: string | null = null;
+      let assistant = await runtime.agent.runTurn(
+        {
+          input: `${message.content}\n\nWorkspace context:\n${workspaceContext}`,
           history,
           thinking: "medium",
-          memoryContext: [memoryContext, workspaceContext].filter(Boolean).join("\n\n")
-        });
-        assistant = stripAgentActions(secondPass) || assistant || "Action completed.";
+          memoryContext,
+          summary,
+          onDelta: filter?.push,
+          onRoute: (value) => {
+            route = value;
+          },
+          onUsage: recordUsage({ sessionId, channel: message.channel })
+        },
+        {
+          tools: new AgentToolset(runtime.integrations.catalog()),
+          maxSteps: runtime.config.agent.maxToolSteps,
+          execute: runActions
+        }
+      );
+      filter?.flush();
+      if (parked.length > 0) {
+        assistant = [assistant, approvalNotice(parked)].filter(Boolean).join("\n\n");
       }
+      assistant ||= "Action completed.";
 
-      store.addMessage(sessionId, "outbound", assistant);
+      store.addMessage(sessionId, "outbound", assistant, route);
       try {
-        const write = await memory.addConversationMemory(userScopedId, message.content, assistant);
+        const write = await runtime.memory.addConversationMemory(userScopedId, message.content, assistant);
         store.addMemoryEvent(userScopedId, "saved", `backend:${write.backend}`);
       } catch (error) {
         store.addMemoryEvent(
@@ -420,6 +815,36 @@ export async function startGateway(options: GatewayOptions): Promise<void> {
     return reply.send({ ok: true });
   });
 
+  // Provider webhooks (Slack, WhatsApp). Signed by the provider instead of the gateway token, and
+  // the signature covers the raw body, so this scope keeps bodies as strings.
+  await app.register(async (scope) => {
+    scope.removeAllContentTypeParsers();
+    scope.addContentTypeParser("*", { parseAs: "string" }, (_req, body, done) => {
+      done(null, body);
+    });
+    scope.post("/slack/events", async (req, reply) => {
+      if (!runtime.slack) {
+        return reply.code(404).send({ error: "Slack channel not configured" });
+      }
+      const result = runtime.slack.handleRequest(req.headers, typeof req.body === "string" ? req.body : "");
+      return reply.code(result.status).send(result.body ?? "");
+    });
+    scope.get("/webhooks/whatsapp", async (req, reply) => {
+      if (!runtime.whatsapp) {
+        return reply.code(404).send({ error: "WhatsApp channel not configured" });
+      }
+      const result = runtime.whatsapp.handleVerification(req.query as Record<string, unknown>);
+      return reply.code(result.status).send(result.body ?? "");
+    });
+    scope.post("/webhooks/whatsapp", async (req, reply) => {
+      if (!runtime.whatsapp) {
+        return reply.code(404).send({ error: "WhatsApp channel not configured" });
+      }
+      const result = runtime.whatsapp.handleWebhook(req.headers, typeof req.body === "string" ? req.body : "");
+      return reply.code(result.status).send(result.body ?? "");
+    });
+  });
+
   app.get("/api/sessions", async (req, reply) => {
     if (!isAuthorized(req)) {
       return reply.code(401).send({ error: "Unauthorized" });
@@ -427,6 +852,105 @@ export async function startGateway(options: GatewayOptions): Promise<void> {
     return reply.send({ sessions: store.listSessions() });
   });
 
+  app.get("/api/threads", async (req, reply) => {
+    if (!isAuthorized(req)) {
+      return reply.code(401).send({ error: "Unauthorized" });
+    }
+    const { channel = "webchat", sender } = req.query as { channel?: string; sender?: string };
+    if (!isChannelName(channel) || !sender) {
+      return reply.code(400).send({ error: "Query must include a known channel and sender." });
+    }
+    return reply.send({ threads: store.listThreads(channel, sender) });
+  });
+
+  app.post("/api/threads", async (req, reply) => {
+    if (!isAuthorized(req)) {
+      return reply.code(401).send({ error: "Unauthorized" });
+    }
+    const body = (req.body ?? {}) as { channel?: string; senderId?: string; title?: string };
+    const channel = body.channel ?? "webchat";
+    if (!isChannelName(channel) || !body.senderId) {
+      return reply.code(400).send({ error: "Body must include a known channel and senderId." });
+    }
+    return reply.code(201).send({ thread: store.createThread(channel, body.senderId, body.title) });
+  });
+
+  app.get<{ Params: { id: string } }>("/api/threads/:id/messages", async (req, reply) => {
+    if (!isAuthorized(req)) {
+      return reply.code(401).send({ error: "Unauthorized" });
+    }
+    const session = store.getSession(Number(req.params.id));
+    if (!session) {
+      return reply.code(404).send({ error: "Thread not found." });
+    }
+    const { limit } = req.query as { limit?: string };
+    return reply.send({ thread: session, messages: store.getRecentMessages(session.id, Number(limit) || 200) });
+  });
+
+  app.post<{ Params: { id: string } }>("/api/threads/:id/activate", async (req, reply) => {
+    if (!isAuthorized(req)) {
+      return reply.code(401).send({ error: "Unauthorized" });
+    }
+    const session = store.getSession(Number(req.params.id));
+    const thread = session ? store.switchThread(session.channel, session.senderId, session.id) : null;
+    if (!thread) {
+      return reply.code(404).send({ error: "Thread not found." });
+    }
+    return reply.send({ thread });
+  });
+
+  app.post<{ Params: { id: string } }>("/api/threads/:id/fork", async (req, reply) => {
+    if (!isAuthorized(req)) {
+      return reply.code(401).send({ error: "Unauthorized" });
+    }
+    const body = (req.body ?? {}) as { messageId?: number; title?: string };
+    const sessionId = Number(req.params.id);
+    if (!store.getSession(sessionId)) {
+      return reply.code(404).send({ error: "Thread not found." });
+    }
+    const thread = store.forkThread(sessionId, Number(body.messageId), body.title);
+    if (!thread) {
+      return reply.code(400).send({ error: "messageId must be a message of this thread." });
+    }
+    return reply.code(201).send({ thread });
+  });
+
+  app.get<{ Params: { id: string } }>("/api/sessions/:id/summary", async (req, reply) => {
+    if (!isAuthorized(req)) {
+      return reply.code(401).send({ error: "Unauthorized" });
+    }
+    const sessionId = Number(req.params.id);
+    if (!store.getSession(sessionId)) {
+      return reply.code(404).send({ error: "Session not found." });
+    }
+    const summary = store.getSessionSummary(sessionId);
+    const pending = store.getMessagesAfter(sessionId, summary?.throughMessageId ?? 0);
+    return reply.send({
+      summary,
+      pendingMessages: pending.length,
+      pendingTokens: messageTokens(pending),
+      tokenBudget: runtime.config.agent.summary.tokenBudget
+    });
+  });
+
+  app.put<{ Params: { id: string } }>("/api/sessions/:id/summary", async (req, reply) => {
+    if (!isAuthorized(req)) {
+      return reply.code(401).send({ error: "Unauthorized" });
+    }
+    const sessionId = Number(req.params.id);
+    if (!store.getSession(sessionId)) {
+      return reply.code(404).send({ error: "Session not found." });
+    }
+    const content = ((req.body ?? {}) as { content?: unknown }).content;
+    if (typeof content !== "string" || !content.trim()) {
+      return reply.code(400).send({ error: "Body must include a non-empty content string." });
+    }
+    // Edits keep the fold point, so the next automatic update builds on the edited text.
+    const current = store.getSessionSummary(sessionId);
+    const summary = store.saveSessionSummary(sessionId, content.trim(), current?.throughMessageId ?? 0, true);
+    return reply.send({ summary });
+  });
+
   app.get("/api/overview", async (req, reply) => {
     if (!isAuthorized(req)) {
       return reply.code(401).send({ error: "Unauthorized" });
@@ -436,19 +960,29 @@ export async function startGateway(options: GatewayOptions): Promise<void> {
     const memoryEntity =
       resolveRuntimeEnvVar("MEM0_ENTITY") ??
       resolveRuntimeEnvVar("MEM0_ENTITY_NAME") ??
-      options.config.memory.entityName ??
+      runtime.config.memory.entityName ??
       null;
     return reply.send({
       health: "ok",
-      model: options.config.agent.model,
-      authMode: options.config.agent.openaiAuthMode,
-      gatewayPort: options.config.gateway.port,
+      model: runtime.config.agent.model,
+      authMode: runtime.config.agent.openaiAuthMode,
+      routing: {
+        chain: [runtime.config.agent.model, ...runtime.config.agent.fallbackModels],
+        lastAnsweredBy: stats.lastAnswered?.model ?? null,
+        providers: runtime.agent.routeHealth()
+      },
+      gatewayPort: runtime.config.gateway.port,
       channelsConfigured: {
-        webchat: options.config.channels.webchat?.enabled ?? false,
-        telegram: Boolean(options.config.channels.telegram?.botToken)
+        webchat: runtime.config.channels.webchat?.enabled ?? false,
+        telegram: Boolean(runtime.config.channels.telegram?.botToken),
+        discord: Boolean(runtime.config.channels.discord?.botToken),
+        slack: Boolean(runtime.config.channels.slack?.botToken),
+        whatsapp: Boolean(runtime.config.channels.whatsapp?.accessToken),
+        signal: Boolean(runtime.config.channels.signal?.account),
+        email: Boolean(runtime.config.channels.email?.address)
       },
       memory: {
-        enabled: options.config.memory.enabled,
+        enabled: runtime.config.memory.enabled,
         provider: mem0KeyLoaded ? "mem0" : "basic",
         envKeyLoaded: mem0KeyLoaded,
         entity: memoryEntity,
@@ -460,10 +994,19 @@ export async function startGateway(options: GatewayOptions): Promise<void> {
         pid: process.pid,
         startedAt
       },
+      configReload: reloader.last,
       stats
     });
   });
 
+  app.post("/api/config/reload", async (req, reply) => {
+    if (!isAuthorized(req)) {
+      return reply.code(401).send({ error: "Unauthorized" });
+    }
+    const status = await reloader.reload("api");
+    return status.ok ? reply.send(status) : reply.code(400).send(status);
+  });
+
   app.get("/api/instances", async (req, reply) => {
     if (!isAuthorized(req)) {
       return reply.code(401).send({ error: "Unauthorized" });
@@ -483,6 +1026,36 @@ export async function startGateway(options: GatewayOptions): Promise<void> {
     });
   });
 
+  app.get("/api/integrations/catalog", async (req, reply) => {
+    if (!isAuthorized(req)) {
+      return reply.code(401).send({ error: "Unauthorized" });
+    }
+    const { app: appName } = req.query as { app?: string };
+    const catalog = runtime.integrations.describe(appName as IntegrationName | undefined);
+    if (appName && catalog.length === 0) {
+      return reply.code(404).send({ error: `Unknown integration "${appName}".` });
+    }
+    return reply.send({ integrations: catalog });
+  });
+
+  app.get("/api/usage", async (req, reply) => {
+    if (!isAuthorized(req)) {
+      return reply.code(401).send({ error: "Unauthorized" });
+    }
+    const query = req.query as { since?: string; groupBy?: string };
+    let since: Date;
+    let groupBy: UsageGroupBy;
+    try {
+      since = parseSince(query.since ?? "7d");
+      groupBy = parseUsageGroup(query.groupBy ?? "day");
+    } catch (error) {
+      return reply.code(400).send({ error: error instanceof Error ? error.message : String(error) });
+    }
+    return reply.send(
+      summarizeUsage(store.getUsageGroups(since, groupBy), runtime.config.usage.prices, groupBy, since)
+    );
+  });
+
   app.get("/api/skills", async (req, reply) => {
     if (!isAuthorized(req)) {
       return reply.code(401).send({ error: "Unauthorized" });
@@ -525,6 +1098,83 @@ export async function startGateway(options: GatewayOptions): Promise<void> {
     return reply.send({ messages: store.getRecentMessages(sessionId, 200) });
   });
 
+  app.get("/api/search", async (req, reply) => {
+    if (!isAuthorized(req)) {
+      return reply.code(401).send({ error: "Unauthorized" });
+    }
+    const query = req.query as Record<string, string | undefined>;
+    try {
+      if (query.channel && !isChannelName(query.channel)) {
+        throw new Error(`Unsupported channel "${query.channel}".`);
+      }
+      const hits = store.searchMessages({
+        match: toFtsQuery(query.q ?? ""),
+        channel: query.channel as ChannelName | undefined,
+        senderId: query.sender || undefined,
+        direction: query.direction ? parseDirection(query.direction) : undefined,
+        since: query.since ? parseSince(query.since) : undefined,
+        until: query.until ? parseUntil(query.until) : undefined,
+        limit: Math.min(Number(query.limit) || 50, 200)
+      });
+      return reply.send({ hits });
+    } catch (error) {
+      return reply.code(400).send({ error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  app.get("/api/deliveries", async (req, reply) => {
+    if (!isAuthorized(req)) {
+      return reply.code(401).send({ error: "Unauthorized" });
+    }
+    const query = req.query as Record<string, string | undefined>;
+    if (query.channel && !isChannelName(query.channel)) {
+      return reply.code(400).send({ error: `Unsupported channel "${query.channel}".` });
+    }
+    return reply.send({
+      deliveries: store.listDeliveries({
+        channel: query.channel as ChannelName | undefined,
+        recipient: query.to || undefined,
+        limit: Math.min(Number(query.limit) || 100, 500)
+      })
+    });
+  });
+
+  app.get("/api/export", async (req, reply) => {
+    if (!isAuthorized(req)) {
+      return reply.code(401).send({ error: "Unauthorized" });
+    }
+    const query = req.query as Record<string, string | undefined>;
+    try {
+      if (query.channel && !isChannelName(query.channel)) {
+        throw new Error(`Unsupported channel "${query.channel}".`);
+      }
+      const format = parseExportFormat(query.format ?? "jsonl");
+      const data = store.exportData({
+        channel: query.channel as ChannelName | undefined,
+        senderId: query.sender || undefined,
+        since: query.since ? parseSince(query.since) : undefined,
+        until: query.until ? parseUntil(query.until) : undefined
+      });
+      return reply
+        .type(exportContentType(format))
+        .header("Content-Disposition", `attachment; filename="gnamiai-export.${exportFileExtension(format)}"`)
+        .send(renderExport(data, format));
+    } catch (error) {
+      return reply.code(400).send({ error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  app.post("/api/import", { bodyLimit: 100 * 1024 * 1024 }, async (req, reply) => {
+    if (!isAuthorized(req)) {
+      return reply.code(401).send({ error: "Unauthorized" });
+    }
+    try {
+      return reply.send({ summary: store.importData(parseImportBody(req.body)) });
+    } catch (error) {
+      return reply.code(400).send({ error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
   app.post<{ Body: { channel?: ChannelName; to: string; message: string } }>(
     "/api/send",
     async (req, reply) => {
@@ -537,22 +1187,145 @@ export async function startGateway(options: GatewayOptions): Promise<void> {
       if (!to || !content) {
         return reply.code(400).send({ error: "Both 'to' and 'message' are required" });
       }
-      if (channel === "telegram") {
-        if (!telegram) {
-          return reply.code(400).send({ error: "Telegram channel not configured" });
-        }
-        await telegram.send(to, content);
-      } else {
-        const client = webchatClients.get(senderKey("webchat", to));
-        if (!client) {
-          return reply.code(404).send({ error: "WebChat client not connected" });
-        }
-        client.send(JSON.stringify({ type: "assistant", content }));
+      if (channel === "telegram" && !runtime.telegram) {
+        return reply.code(400).send({ error: "Telegram channel not configured" });
+      }
+      if (channel === "discord" && !runtime.discord) {
+        return reply.code(400).send({ error: "Discord channel not configured" });
+      }
+      if (channel === "slack" && !runtime.slack) {
+        return reply.code(400).send({ error: "Slack channel not configured" });
+      }
+      if (channel === "whatsapp" && !runtime.whatsapp) {
+        return reply.code(400).send({ error: "WhatsApp channel not configured" });
       }
+      if (channel === "signal" && !runtime.signal) {
+        return reply.code(400).send({ error: "Signal channel not configured" });
+      }
+      if (channel === "email" && !runtime.email) {
+        return reply.code(400).send({ error: "Email channel not configured" });
+      }
+      if (channel === "webchat" && !webchatClients.has(senderKey("webchat", to))) {
+        return reply.code(404).send({ error: "WebChat client not connected" });
+      }
+      await deliver(channel, to, content);
       return reply.send({ ok: true });
     }
   );
 
+  app.get("/api/cron", async (req, reply) => {
+    if (!isAuthorized(req)) {
+      return reply.code(401).send({ error: "Unauthorized" });
+    }
+    return reply.send({
+      jobs: store.listCronJobs(),
+      scheduler: { running: scheduler.started, tickMs: scheduler.tickMs }
+    });
+  });
+
+  app.post<{ Body: unknown }>("/api/cron", async (req, reply) => {
+    if (!isAuthorized(req)) {
+      return reply.code(401).send({ error: "Unauthorized" });
+    }
+    let input;
+    try {
+      input = normalizeCronJob(req.body);
+    } catch (error) {
+      return reply.code(400).send({ error: error instanceof Error ? error.message : String(error) });
+    }
+    return reply.send({ job: store.addCronJob(input) });
+  });
+
+  app.put<{ Params: { id: string }; Body: Record<string, unknown> }>(
+    "/api/cron/:id",
+    async (req, reply) => {
+      if (!isAuthorized(req)) {
+        return reply.code(401).send({ error: "Unauthorized" });
+      }
+      const existing = store.getCronJob(Number(req.params.id));
+      if (!existing) {
+        return reply.code(404).send({ error: "Cron job not found" });
+      }
+      let input;
+      try {
+        input = normalizeCronJob({
+          name: existing.name,
+          kind: existing.kind,
+          expression: existing.expression,
+          timezone: existing.timezone,
+          target: existing.target,
+          enabled: existing.enabled,
+          ...(req.body ?? {})
+        });
+      } catch (error) {
+        return reply.code(400).send({ error: error instanceof Error ? error.message : String(error) });
+      }
+      return reply.send({ job: store.updateCronJob(existing.id, input) });
+    }
+  );
+
+  app.delete<{ Params: { id: string } }>("/api/cron/:id", async (req, reply) => {
+    if (!isAuthorized(req)) {
+      return reply.code(401).send({ error: "Unauthorized" });
+    }
+    if (!store.removeCronJob(Number(req.params.id))) {
+      return reply.code(404).send({ error: "Cron job not found" });
+    }
+    return reply.send({ ok: true });
+  });
+
+  app.post<{ Params: { id: string } }>("/api/cron/:id/run", async (req, reply) => {
+    if (!isAuthorized(req)) {
+      return reply.code(401).send({ error: "Unauthorized" });
+    }
+    if (!store.getCronJob(Number(req.params.id))) {
+      return reply.code(404).send({ error: "Cron job not found" });
+    }
+    return reply.send({ job: await scheduler.runNow(Number(req.params.id)) });
+  });
+
+  app.get<{ Querystring: { status?: string } }>("/api/approvals", async (req, reply) => {
+    if (!isAuthorized(req)) {
+      return reply.code(401).send({ error: "Unauthorized" });
+    }
+    const status = req.query.status;
+    if (status && status !== "pending" && status !== "approved" && status !== "denied") {
+      return reply.code(400).send({ error: "Invalid status" });
+    }
+    return reply.send({ approvals: store.listApprovals(status as ApprovalStatus | undefined) });
+  });
+
+  app.post<{ Params: { id: string; decision: string } }>(
+    "/api/approvals/:id/:decision",
+    async (req, reply) => {
+      if (!isAuthorized(req)) {
+        return reply.code(401).send({ error: "Unauthorized" });
+      }
+      const decision =
+        req.params.decision === "approve"
+          ? "approved"
+          : req.params.decision === "deny"
+            ? "denied"
+            : null;
+      if (!decision) {
+        return reply.code(404).send({ error: "Unknown decision" });
+      }
+      const approval = store.getApproval(Number(req.params.id));
+      if (!approval) {
+        return reply.code(404).send({ error: "Approval not found" });
+      }
+      if (approval.status !== "pending") {
+        return reply.code(409).send({ error: `Approval already ${approval.status}` });
+      }
+      const text = await decideApproval(approval, decision);
+      // Tell the originating channel; a disconnected webchat client just misses the live update.
+      await deliver(approval.channel, approval.senderId, text).catch((error) => {
+        options.logger.warn({ err: error, approvalId: approval.id }, "Approval reply not delivered");
+      });
+      return reply.send({ approval: store.getApproval(approval.id), reply: text });
+    }
+  );
+
   app.get("/ws", { websocket: true }, (socket, req) => {
     if (!isAuthorized(req)) {
       socket.close(4001, "Unauthorized");
@@ -564,6 +1337,11 @@ export async function startGateway(options: GatewayOptions): Promise<void> {
       return;
     }
     webchatClients.set(senderKey("webchat", senderId), socket);
+    const send = (frame: Record<string, unknown>) => {
+      if (socket.readyState === socket.OPEN) {
+        socket.send(JSON.stringify(frame));
+      }
+    };
     socket.on("message", async (raw: RawData) => {
       try {
         const payload = JSON.parse(raw.toString()) as ClientMessage;
@@ -575,7 +1353,21 @@ export async function startGateway(options: GatewayOptions): Promise<void> {
           senderId,
           content: payload.content.trim(),
           reply: async (content: string) => {
-            socket.send(JSON.stringify({ type: "assistant", content }));
+            send({ type: "assistant_done", content });
+          },
+          stream: {
+            delta: (content) => send({ type: "assistant_delta", content }),
+            actionStarted: (action, index) =>
+              send({ type: "action_started", index, action: describeAction(action) }),
+            actionResult: (result, index) =>
+              send({
+                type: "action_result",
+                index,
+                action: describeAction(result.action),
+                ok: result.ok,
+                refused: result.refused ?? false,
+                output: result.output.slice(0, 2000)
+              })
           }
         });
       } catch (error) {
@@ -588,11 +1380,25 @@ export async function startGateway(options: GatewayOptions): Promise<void> {
   });
 
   app.addHook("onClose", async () => {
-    telegram?.stop();
+    scheduler.stop();
+    retention?.stop();
+    reloader.stop();
+    runtime.telegram?.stop();
+    runtime.discord?.stop();
+    runtime.slack?.stop();
+    runtime.signal?.stop();
+    runtime.email?.stop();
     store.close();
   });
 
-  telegram?.start();
+  runtime.telegram?.start();
+  runtime.discord?.start();
+  runtime.slack?.start();
+  runtime.signal?.start();
+  runtime.email?.start();
+  scheduler.start();
+  retention?.start();
+  await reloader.start();
   const port = options.port ?? options.config.gateway.port;
   await app.listen({ port, host: "127.0.0.1" });
 }
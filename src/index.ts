@@ -8,9 +8,24 @@ import { runDoctor } from "./commands/doctor.js";
 import { runPairingApprove } from "./commands/pairing.js";
 import { runUpdate } from "./commands/update.js";
 import { runOauthCodex } from "./commands/oauth.js";
-import type { ChannelName } from "./types.js";
+import { runCronAdd, runCronList, runCronRemove, runCronRun } from "./commands/cron.js";
+import { runUsage } from "./commands/usage.js";
+import { runHistorySearch } from "./commands/history.js";
+import { runExport, runImport } from "./commands/transfer.js";
+import { runDbBackup, runDbMigrate, runDbRestore, runDbStatus } from "./commands/db.js";
+import { runPrivacyForget, runPrivacyPurge } from "./commands/privacy.js";
+import { runSecretsDisable, runSecretsRotate } from "./commands/secrets.js";
+import {
+  runConfigGet,
+  runConfigSchema,
+  runConfigSet,
+  runConfigUnset,
+  runConfigValidate
+} from "./commands/config.js";
+import { CHANNEL_NAMES, type ChannelName } from "./types.js";
 import { loadEnvFiles } from "./core/env.js";
 import {
+  runIntegrationActions,
   runIntegrationConfigure,
   runIntegrationExec,
   runIntegrationHealth,
@@ -20,7 +35,7 @@ import type { IntegrationName } from "./integrations/types.js";
 
 loadEnvFiles();
 
-const validChannels = new Set<ChannelName>(["webchat", "telegram"]);
+const validChannels = new Set<ChannelName>(CHANNEL_NAMES);
 const validIntegrations = new Set<IntegrationName>([
   "whatsapp",
   "telegram",
@@ -39,7 +54,7 @@ const validIntegrations = new Set<IntegrationName>([
 
 function parseChannel(value: string): ChannelName {
   if (!validChannels.has(value as ChannelName)) {
-    throw new Error(`Unsupported channel "${value}". Use webchat or telegram.`);
+    throw new Error(`Unsupported channel "${value}". Use ${CHANNEL_NAMES.join("|")}.`);
   }
   return value as ChannelName;
 }
@@ -51,6 +66,14 @@ function parseThinking(value: string): "low" | "medium" | "high" {
   throw new Error(`Unsupported thinking "${value}". Use low|medium|high.`);
 }
 
+function parseJobId(value: string): number {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id < 1) {
+    throw new Error(`Invalid job id "${value}".`);
+  }
+  return id;
+}
+
 function parseIntegration(value: string): IntegrationName {
   if (!validIntegrations.has(value as IntegrationName)) {
     throw new Error(`Unsupported integration "${value}".`);
@@ -132,6 +155,13 @@ integration
   .action(async (options: { app?: string }) => {
     await runIntegrationConfigure(options.app ? parseIntegration(options.app) : undefined);
   });
+integration
+  .command("actions")
+  .description("List integration actions with parameters and examples")
+  .option("--app <app>", "Integration app")
+  .action(async (options: { app?: string }) => {
+    await runIntegrationActions(options.app ? parseIntegration(options.app) : undefined);
+  });
 integration
   .command("health")
   .description("Check integration health")
@@ -149,6 +179,202 @@ integration
     await runIntegrationExec(parseIntegration(options.app), options.action, options.params);
   });
 
+const cron = program.command("cron").description("Scheduled jobs");
+cron.command("list").description("List cron jobs").action(runCronList);
+cron
+  .command("add")
+  .description("Add a scheduled job")
+  .requiredOption("--name <name>", "Job name")
+  .option("--cron <expression>", "Cron expression (minute hour day month weekday)")
+  .option("--at <time>", "One-shot run time (ISO, e.g. 2026-01-31T09:00)")
+  .option("--tz <timezone>", "IANA time zone (default: system)")
+  .option("--prompt <prompt>", "Agent prompt to run")
+  .option("--action <json>", "gnami-action JSON to run")
+  .option("--app <app>", "Integration app to execute")
+  .option("--integration-action <action>", "Integration action name")
+  .option("--params <json>", "Integration JSON payload")
+  .option("--channel <channel>", "Deliver result to channel: webchat|telegram")
+  .option("--to <target>", "Delivery receiver id / chat id")
+  .action(
+    async (options: {
+      name: string;
+      cron?: string;
+      at?: string;
+      tz?: string;
+      prompt?: string;
+      action?: string;
+      app?: string;
+      integrationAction?: string;
+      params?: string;
+      channel?: string;
+      to?: string;
+    }) => {
+      await runCronAdd({
+        ...options,
+        app: options.app ? parseIntegration(options.app) : undefined,
+        channel: options.channel ? parseChannel(options.channel) : undefined
+      });
+    }
+  );
+cron
+  .command("remove <id>")
+  .description("Remove a cron job")
+  .action(async (id: string) => {
+    await runCronRemove(parseJobId(id));
+  });
+cron
+  .command("run <id>")
+  .description("Run a cron job now through the running gateway")
+  .action(async (id: string) => {
+    await runCronRun(parseJobId(id));
+  });
+
+program
+  .command("usage")
+  .description("Show model token usage and cost")
+  .option("--since <window>", "Time window (30m, 24h, 7d, 4w) or ISO date", "7d")
+  .option("--by <group>", "Group by day|session|channel|provider", "day")
+  .option("--json", "Print JSON")
+  .action(async (options: { since: string; by: string; json?: boolean }) => {
+    await runUsage(options);
+  });
+
+const history = program.command("history").description("Conversation history");
+history
+  .command("search <query>")
+  .description("Full-text search across stored messages")
+  .option("--channel <channel>", `Only this channel: ${CHANNEL_NAMES.join("|")}`)
+  .option("--sender <id>", "Only this sender id")
+  .option("--direction <direction>", "inbound|outbound")
+  .option("--since <window>", "Time window (30m, 24h, 7d, 4w) or ISO date")
+  .option("--until <date>", "ISO date upper bound")
+  .option("--limit <n>", "Maximum hits", "20")
+  .option("--json", "Print JSON")
+  .action(
+    async (
+      query: string,
+      options: {
+        channel?: string;
+        sender?: string;
+        direction?: string;
+        since?: string;
+        until?: string;
+        limit: string;
+        json?: boolean;
+      }
+    ) => {
+      await runHistorySearch(query, {
+        ...options,
+        channel: options.channel ? parseChannel(options.channel) : undefined
+      });
+    }
+  );
+
+program
+  .command("export")
+  .description("Export threads, messages, pairings and memory events")
+  .option("--format <format>", "jsonl|markdown|openai", "jsonl")
+  .option("--out <file>", "Write to a file instead of stdout")
+  .option("--channel <channel>", `Only this channel: ${CHANNEL_NAMES.join("|")}`)
+  .option("--sender <id>", "Only this sender id")
+  .option("--since <window>", "Time window (30m, 24h, 7d, 4w) or ISO date")
+  .option("--until <date>", "ISO date upper bound")
+  .action(
+    async (options: {
+      format: string;
+      out?: string;
+      channel?: string;
+      sender?: string;
+      since?: string;
+      until?: string;
+    }) => {
+      await runExport({ ...options, channel: options.channel ? parseChannel(options.channel) : undefined });
+    }
+  );
+
+program
+  .command("import <file>")
+  .description("Import a jsonl export; messages already present are skipped")
+  .action(async (file: string) => {
+    await runImport(file);
+  });
+
+const db = program.command("db").description("Gateway database maintenance");
+db
+  .command("status")
+  .description("Show the schema version and pending migrations")
+  .option("--json", "Print JSON")
+  .action(runDbStatus);
+db.command("migrate").description("Back up the database and apply pending migrations").action(runDbMigrate);
+db
+  .command("backup")
+  .description("Copy the database to the backups folder")
+  .option("--out <file>", "Backup file path")
+  .action(runDbBackup);
+db
+  .command("restore <file>")
+  .description("Replace the database with a backup (stop the gateway first)")
+  .action(async (file: string) => {
+    await runDbRestore(file);
+  });
+
+const privacy = program.command("privacy").description("Retention and per-sender data deletion");
+privacy
+  .command("purge")
+  .description("Delete messages, memory events and memory notes past the retention rules")
+  .option("--dry-run", "Report what would be deleted without deleting it")
+  .option("--json", "Print JSON")
+  .action(runPrivacyPurge);
+privacy
+  .command("forget <channel> <senderId>")
+  .description("Delete everything stored about one sender, including their memory")
+  .option("--dry-run", "Report what would be deleted without deleting it")
+  .option("--include-shared-memory", "Also delete the shared memory entity when it is not this sender's own")
+  .option("--json", "Print JSON")
+  .action(
+    async (
+      channel: string,
+      senderId: string,
+      options: { dryRun?: boolean; includeSharedMemory?: boolean; json?: boolean }
+    ) => {
+      await runPrivacyForget(parseChannel(channel), senderId, options);
+    }
+  );
+
+const secrets = program.command("secrets").description("At-rest encryption (stop the gateway first)");
+secrets
+  .command("rotate")
+  .description("Re-encrypt everything under a new master key; enables encryption when there is none")
+  .action(runSecretsRotate);
+secrets.command("disable").description("Decrypt everything and remove the key file").action(runSecretsDisable);
+
+const config = program.command("config").description("Read and edit gnamiai.json");
+config
+  .command("get [path]")
+  .description("Print a value, e.g. agent.model (credentials are masked)")
+  .option("--json", "Print JSON")
+  .action(async (path: string | undefined, options: { json?: boolean }) => {
+    await runConfigGet(path, options);
+  });
+config
+  .command("set <path> <value>")
+  .description("Set a value; JSON values such as 8080, true or [] are parsed, anything else is a string")
+  .action(async (path: string, value: string) => {
+    await runConfigSet(path, value);
+  });
+config
+  .command("unset <path>")
+  .description("Remove a value so its default applies")
+  .action(async (path: string) => {
+    await runConfigUnset(path);
+  });
+config.command("validate").description("Check gnamiai.json against the schema").action(runConfigValidate);
+config
+  .command("schema")
+  .description("Print the JSON Schema of gnamiai.json for editor completion")
+  .option("--out <file>", "Write to a file instead")
+  .action(runConfigSchema);
+
 program.parseAsync(process.argv).catch((error) => {
   process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
   process.exit(1);
@@ -1,6 +1,15 @@
 import WebSocket from "ws";
+import { z } from "zod";
 import { BaseAdapter } from "../base.js";
-import { asObject, asOptionalString, asString, httpJson } from "../helpers.js";
+import { asOptionalString, httpJson, requiredString } from "../helpers.js";
+import type { IntegrationActionSpec } from "../types.js";
+
+const fetchHtmlParams = z.object({ url: requiredString() });
+const extractTextParams = fetchHtmlParams.extend({ maxChars: z.number().int().min(1).default(4000) });
+const fillFormParams = fetchHtmlParams.extend({
+  fields: z.record(z.string(), z.string()).describe("Map of field name, id or CSS selector to value."),
+  submitSelector: requiredString().default("button[type=submit],input[type=submit]")
+});
 
 interface CdpTargetInfo {
   id: string;
@@ -79,6 +88,31 @@ function stripHtml(html: string): string {
 
 export class BrowserAdapter extends BaseAdapter {
   readonly name = "browser" as const;
+
+  readonly actions: IntegrationActionSpec[] = [
+    {
+      name: "fetch_html",
+      description: "Fetch the raw HTML of a page.",
+      params: fetchHtmlParams,
+      sideEffect: false,
+      example: { url: "https://example.com" }
+    },
+    {
+      name: "extract_text",
+      description: "Fetch a page and return its readable text.",
+      params: extractTextParams,
+      sideEffect: false,
+      example: { url: "https://example.com", maxChars: 2000 }
+    },
+    {
+      name: "fill_form",
+      description: "Open a page in the browser, fill form fields and submit.",
+      params: fillFormParams,
+      sideEffect: true,
+      example: { url: "https://example.com/contact", fields: { email: "me@example.com" } }
+    }
+  ];
+
   private get debuggerUrl(): string {
     return asOptionalString(this.config?.debuggerUrl) ?? "http://127.0.0.1:9222";
   }
@@ -117,23 +151,19 @@ export class BrowserAdapter extends BaseAdapter {
 
   async execute(action: string, params: Record<string, unknown>) {
     if (action === "fetch_html") {
-      const url = asString(params.url, "url");
+      const { url } = params as z.infer<typeof fetchHtmlParams>;
       const response = await fetch(url);
       const html = await response.text();
       return { status: response.status, html };
     }
     if (action === "extract_text") {
-      const url = asString(params.url, "url");
+      const { url, maxChars } = params as z.infer<typeof extractTextParams>;
       const response = await fetch(url);
       const html = await response.text();
-      const maxChars = Number(params.maxChars ?? 4000);
-      return { text: stripHtml(html).slice(0, Number.isFinite(maxChars) ? maxChars : 4000) };
+      return { text: stripHtml(html).slice(0, maxChars) };
     }
     if (action === "fill_form") {
-      const url = asString(params.url, "url");
-      const fields = asObject(params.fields, "fields");
-      const submitSelector =
-        asOptionalString(params.submitSelector) ?? "button[type=submit],input[type=submit]";
+      const { url, fields, submitSelector } = params as z.infer<typeof fillFormParams>;
       const target = await this.newTarget(url);
       const session = new CdpSession(target.webSocketDebuggerUrl);
       try {
@@ -1,10 +1,42 @@
 import { platform } from "node:os";
+import { z } from "zod";
+import { signalRpcRequest } from "../../channels/signal.js";
 import { BaseAdapter } from "../base.js";
-import { asOptionalString, asString, execShell, httpJson } from "../helpers.js";
+import { asOptionalString, asString, execShell, httpJson, requiredString } from "../helpers.js";
+import type { IntegrationActionSpec } from "../types.js";
+
+const whatsAppSendParams = z.object({
+  to: requiredString().describe("Recipient phone number in international format."),
+  text: requiredString()
+});
+const telegramSendParams = z.object({ chat_id: requiredString().describe("Target chat id."), text: requiredString() });
+const discordSendParams = z.object({
+  channelId: requiredString().optional().describe("Defaults to the configured channel."),
+  text: requiredString()
+});
+const slackSendParams = z.object({
+  channel: requiredString().optional().describe("Channel id or name; defaults to the configured channel."),
+  text: requiredString()
+});
+const signalSendParams = z.object({ to: requiredString().describe("Recipient phone number."), text: requiredString() });
+const iMessageSendParams = z.object({
+  to: requiredString().describe("Phone number or Apple ID."),
+  text: requiredString()
+});
 
 export class WhatsAppAdapter extends BaseAdapter {
   readonly name = "whatsapp" as const;
 
+  readonly actions: IntegrationActionSpec[] = [
+    {
+      name: "send_message",
+      description: "Send a WhatsApp text message.",
+      params: whatsAppSendParams,
+      sideEffect: true,
+      example: { to: "+15145550123", text: "On my way" }
+    }
+  ];
+
   private get accessToken(): string | undefined {
     return asOptionalString(this.config?.accessToken);
   }
@@ -37,8 +69,7 @@ export class WhatsAppAdapter extends BaseAdapter {
     if (!this.isConfigured()) {
       throw new Error("WhatsApp is not configured.");
     }
-    const to = asString(params.to, "to");
-    const text = asString(params.text, "text");
+    const { to, text } = params as z.infer<typeof whatsAppSendParams>;
     const url = `${this.baseUrl}/${this.phoneNumberId}/messages`;
     return await httpJson(url, {
       method: "POST",
@@ -59,6 +90,17 @@ export class WhatsAppAdapter extends BaseAdapter {
 
 export class TelegramAdapter extends BaseAdapter {
   readonly name = "telegram" as const;
+
+  readonly actions: IntegrationActionSpec[] = [
+    {
+      name: "send_message",
+      description: "Send a Telegram message from the bot.",
+      params: telegramSendParams,
+      sideEffect: true,
+      example: { chat_id: "123456789", text: "Build finished" }
+    }
+  ];
+
   private get botToken(): string | undefined {
     return asOptionalString(this.config?.botToken);
   }
@@ -81,18 +123,28 @@ export class TelegramAdapter extends BaseAdapter {
     if (action !== "send_message") {
       throw new Error(`Unsupported telegram action "${action}". Use send_message.`);
     }
-    const chatId = asString(params.chat_id ?? params.to, "chat_id");
-    const text = asString(params.text, "text");
+    const { chat_id, text } = params as z.infer<typeof telegramSendParams>;
     return await httpJson(`${this.baseUrl}/sendMessage`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ chat_id: chatId, text })
+      body: JSON.stringify({ chat_id, text })
     });
   }
 }
 
 export class DiscordAdapter extends BaseAdapter {
   readonly name = "discord" as const;
+
+  readonly actions: IntegrationActionSpec[] = [
+    {
+      name: "send_message",
+      description: "Post a message to a Discord channel.",
+      params: discordSendParams,
+      sideEffect: true,
+      example: { channelId: "112233445566778899", text: "Deploy done" }
+    }
+  ];
+
   private get botToken(): string | undefined {
     return asOptionalString(this.config?.botToken);
   }
@@ -116,9 +168,9 @@ export class DiscordAdapter extends BaseAdapter {
     if (action !== "send_message") {
       throw new Error(`Unsupported discord action "${action}". Use send_message.`);
     }
-    const channelId = asString(params.channelId ?? params.to ?? this.defaultChannelId, "channelId");
-    const content = asString(params.text ?? params.content, "text");
-    return await httpJson(`https://discord.com/api/v10/channels/${channelId}/messages`, {
+    const { channelId, text: content } = params as z.infer<typeof discordSendParams>;
+    const channel = asString(channelId ?? this.defaultChannelId, "channelId");
+    return await httpJson(`https://discord.com/api/v10/channels/${channel}/messages`, {
       method: "POST",
       headers: {
         Authorization: `Bot ${this.botToken ?? ""}`,
@@ -131,6 +183,17 @@ export class DiscordAdapter extends BaseAdapter {
 
 export class SlackAdapter extends BaseAdapter {
   readonly name = "slack" as const;
+
+  readonly actions: IntegrationActionSpec[] = [
+    {
+      name: "send_message",
+      description: "Post a message to a Slack channel.",
+      params: slackSendParams,
+      sideEffect: true,
+      example: { channel: "#general", text: "Standup in 5" }
+    }
+  ];
+
   private get botToken(): string | undefined {
     return asOptionalString(this.config?.botToken);
   }
@@ -162,8 +225,8 @@ export class SlackAdapter extends BaseAdapter {
     if (action !== "send_message") {
       throw new Error(`Unsupported slack action "${action}". Use send_message.`);
     }
-    const channel = asString(params.channel ?? params.to ?? this.defaultChannel, "channel");
-    const text = asString(params.text, "text");
+    const { channel: channelParam, text } = params as z.infer<typeof slackSendParams>;
+    const channel = asString(channelParam ?? this.defaultChannel, "channel");
     const response = await httpJson<{ ok: boolean; error?: string }>(
       "https://slack.com/api/chat.postMessage",
       {
@@ -184,12 +247,29 @@ export class SlackAdapter extends BaseAdapter {
 
 export class SignalAdapter extends BaseAdapter {
   readonly name = "signal" as const;
+
+  readonly actions: IntegrationActionSpec[] = [
+    {
+      name: "send_message",
+      description: "Send a Signal message through signal-cli.",
+      params: signalSendParams,
+      sideEffect: true,
+      example: { to: "+15145550123", text: "Running late" }
+    }
+  ];
+
   private get signalCliPath(): string {
     return asOptionalString(this.config?.signalCliPath) ?? "signal-cli";
   }
   private get accountNumber(): string | undefined {
     return asOptionalString(this.config?.accountNumber);
   }
+  /** A signal-cli JSON-RPC daemon to send through instead of starting signal-cli per message. */
+  private get rpcAddress(): { host: string; port: number } | undefined {
+    const port = this.config?.rpcPort;
+    if (typeof port !== "number") return undefined;
+    return { host: asOptionalString(this.config?.rpcHost) ?? "127.0.0.1", port };
+  }
 
   isConfigured(): boolean {
     return Boolean(this.accountNumber);
@@ -206,8 +286,17 @@ export class SignalAdapter extends BaseAdapter {
       throw new Error(`Unsupported signal action "${action}". Use send_message.`);
     }
     const account = asString(this.accountNumber, "accountNumber");
-    const target = asString(params.to, "to");
-    const text = asString(params.text, "text");
+    const { to: target, text } = params as z.infer<typeof signalSendParams>;
+    const address = this.rpcAddress;
+    if (address) {
+      try {
+        const result = await signalRpcRequest(address, "send", { recipient: [target], message: text });
+        return { ok: true, result };
+      } catch (error) {
+        // Only a daemon that is not running falls back to a one-shot signal-cli.
+        if ((error as NodeJS.ErrnoException).code !== "ECONNREFUSED") throw error;
+      }
+    }
     const output = await execShell(
       this.signalCliPath,
       ["-a", account, "send", "-m", text, target],
@@ -219,6 +308,17 @@ export class SignalAdapter extends BaseAdapter {
 
 export class IMessageAdapter extends BaseAdapter {
   readonly name = "imessage" as const;
+
+  readonly actions: IntegrationActionSpec[] = [
+    {
+      name: "send_message",
+      description: "Send an iMessage (macOS only).",
+      params: iMessageSendParams,
+      sideEffect: true,
+      example: { to: "+15145550123", text: "See you soon" }
+    }
+  ];
+
   private get senderAccount(): string | undefined {
     return asOptionalString(this.config?.senderAccount);
   }
@@ -242,8 +342,8 @@ export class IMessageAdapter extends BaseAdapter {
     if (action !== "send_message") {
       throw new Error(`Unsupported imessage action "${action}". Use send_message.`);
     }
-    const recipient = asString(params.to, "to");
-    const text = asString(params.text, "text").replace(/"/g, '\\"');
+    const { to: recipient, text: body } = params as z.infer<typeof iMessageSendParams>;
+    const text = body.replace(/"/g, '\\"');
     const account = this.senderAccount;
     const serviceSelector = account
       ? `first service whose service type = iMessage and account id = "${account}"`
@@ -1,11 +1,54 @@
 import { existsSync } from "node:fs";
 import { mkdir, readFile, writeFile } from "node:fs/promises";
 import { resolve } from "node:path";
+import { z } from "zod";
 import { BaseAdapter } from "../base.js";
-import { asObject, asOptionalString, asString, httpJson } from "../helpers.js";
+import { asOptionalString, asString, httpJson, requiredString } from "../helpers.js";
+import type { IntegrationActionSpec } from "../types.js";
+
+const searchTracksParams = z.object({ q: requiredString(), limit: z.number().int().min(1).max(50).default(10) });
+const playUriParams = z.object({ uri: requiredString().describe("Spotify URI, e.g. spotify:track:<id>.") });
+const lightStateParams = z.object({ lightId: requiredString(), state: z.record(z.string(), z.unknown()) });
+const readNoteParams = z.object({ notePath: requiredString().describe("Path relative to the vault.") });
+const writeNoteParams = readNoteParams.extend({ content: requiredString() });
+const postTweetParams = z.object({ text: requiredString() });
+const searchRecentParams = z.object({
+  query: requiredString(),
+  maxResults: z.number().int().min(10).max(100).default(10)
+});
+const sendEmailParams = z.object({ to: requiredString(), subject: requiredString(), text: requiredString() });
+const listMessagesParams = z.object({ q: z.string().trim().default("") });
+const repoParams = z.object({ owner: requiredString(), repo: requiredString() });
+const createIssueParams = repoParams.extend({ title: requiredString(), body: z.string().trim().default("") });
+const createCommentParams = repoParams.extend({ issueNumber: z.number().int().min(1), body: requiredString() });
 
 export class SpotifyAdapter extends BaseAdapter {
   readonly name = "spotify" as const;
+
+  readonly actions: IntegrationActionSpec[] = [
+    {
+      name: "search_tracks",
+      description: "Search Spotify tracks.",
+      params: searchTracksParams,
+      sideEffect: false,
+      example: { q: "daft punk", limit: 5 }
+    },
+    {
+      name: "play_uri",
+      description: "Start playback of a Spotify URI on the active device.",
+      params: playUriParams,
+      sideEffect: true,
+      example: { uri: "spotify:track:0DiWol3AO6WpXZgp0goxAV" }
+    },
+    {
+      name: "current_playback",
+      description: "Get the current playback state.",
+      params: z.object({}),
+      sideEffect: false,
+      example: {}
+    }
+  ];
+
   private get accessToken(): string | undefined {
     return asOptionalString(this.config?.accessToken);
   }
@@ -28,15 +71,14 @@ export class SpotifyAdapter extends BaseAdapter {
       "Content-Type": "application/json"
     };
     if (action === "search_tracks") {
-      const q = encodeURIComponent(asString(params.q, "q"));
-      const limit = Number(params.limit ?? 10);
+      const { q, limit } = params as z.infer<typeof searchTracksParams>;
       return await httpJson(
-        `https://api.spotify.com/v1/search?type=track&q=${q}&limit=${Number.isFinite(limit) ? limit : 10}`,
+        `https://api.spotify.com/v1/search?type=track&q=${encodeURIComponent(q)}&limit=${limit}`,
         { headers }
       );
     }
     if (action === "play_uri") {
-      const uri = asString(params.uri, "uri");
+      const { uri } = params as z.infer<typeof playUriParams>;
       await httpJson(
         "https://api.spotify.com/v1/me/player/play",
         { method: "PUT", headers, body: JSON.stringify({ uris: [uri] }) },
@@ -53,6 +95,24 @@ export class SpotifyAdapter extends BaseAdapter {
 
 export class HueAdapter extends BaseAdapter {
   readonly name = "hue" as const;
+
+  readonly actions: IntegrationActionSpec[] = [
+    {
+      name: "list_lights",
+      description: "List Hue lights.",
+      params: z.object({}),
+      sideEffect: false,
+      example: {}
+    },
+    {
+      name: "set_light_state",
+      description: "Update a Hue light (CLIP v2 body, e.g. {\"on\":{\"on\":true}}).",
+      params: lightStateParams,
+      sideEffect: true,
+      example: { lightId: "<light-id>", state: { on: { on: true } } }
+    }
+  ];
+
   private get bridgeIp(): string | undefined {
     return asOptionalString(this.config?.bridgeIp);
   }
@@ -82,12 +142,11 @@ export class HueAdapter extends BaseAdapter {
       return await httpJson(`${base}/clip/v2/resource/light`, { headers });
     }
     if (action === "set_light_state") {
-      const lightId = asString(params.lightId, "lightId");
-      const body = asObject(params.state, "state");
+      const { lightId, state } = params as z.infer<typeof lightStateParams>;
       return await httpJson(`${base}/clip/v2/resource/light/${lightId}`, {
         method: "PUT",
         headers,
-        body: JSON.stringify(body)
+        body: JSON.stringify(state)
       });
     }
     throw new Error(`Unsupported hue action "${action}".`);
@@ -96,6 +155,31 @@ export class HueAdapter extends BaseAdapter {
 
 export class ObsidianAdapter extends BaseAdapter {
   readonly name = "obsidian" as const;
+
+  readonly actions: IntegrationActionSpec[] = [
+    {
+      name: "append_note",
+      description: "Append text to a note in the vault.",
+      params: writeNoteParams,
+      sideEffect: true,
+      example: { notePath: "Daily/2026-01-01.md", content: "- called the bank" }
+    },
+    {
+      name: "read_note",
+      description: "Read a note from the vault.",
+      params: readNoteParams,
+      sideEffect: false,
+      example: { notePath: "Projects/GnamiAI.md" }
+    },
+    {
+      name: "overwrite_note",
+      description: "Replace the contents of a note in the vault.",
+      params: writeNoteParams,
+      sideEffect: true,
+      example: { notePath: "Inbox.md", content: "# Inbox" }
+    }
+  ];
+
   private get vaultPath(): string | undefined {
     return asOptionalString(this.config?.vaultPath);
   }
@@ -122,10 +206,10 @@ export class ObsidianAdapter extends BaseAdapter {
   }
 
   async execute(action: string, params: Record<string, unknown>) {
-    const notePath = asString(params.notePath, "notePath");
+    const { notePath } = params as z.infer<typeof readNoteParams>;
     const fullPath = this.resolveNotePath(notePath);
     if (action === "append_note") {
-      const content = asString(params.content, "content");
+      const { content } = params as z.infer<typeof writeNoteParams>;
       await mkdir(resolve(fullPath, ".."), { recursive: true });
       const existing = existsSync(fullPath) ? await readFile(fullPath, "utf-8") : "";
       const body = `${existing}${existing ? "\n" : ""}${content}\n`;
@@ -137,7 +221,7 @@ export class ObsidianAdapter extends BaseAdapter {
       return { path: fullPath, content };
     }
     if (action === "overwrite_note") {
-      const content = asString(params.content, "content");
+      const { content } = params as z.infer<typeof writeNoteParams>;
       await mkdir(resolve(fullPath, ".."), { recursive: true });
       await writeFile(fullPath, `${content}\n`, "utf-8");
       return { ok: true, path: fullPath };
@@ -156,6 +240,24 @@ function toBase64Url(value: string): string {
 
 export class TwitterAdapter extends BaseAdapter {
   readonly name = "twitter" as const;
+
+  readonly actions: IntegrationActionSpec[] = [
+    {
+      name: "post_tweet",
+      description: "Publish a post on Twitter/X.",
+      params: postTweetParams,
+      sideEffect: true,
+      example: { text: "Shipping today." }
+    },
+    {
+      name: "search_recent",
+      description: "Search posts from the last 7 days.",
+      params: searchRecentParams,
+      sideEffect: false,
+      example: { query: "gnamiai", maxResults: 10 }
+    }
+  ];
+
   private get bearerToken(): string | undefined {
     return asOptionalString(this.config?.bearerToken);
   }
@@ -178,7 +280,7 @@ export class TwitterAdapter extends BaseAdapter {
       "Content-Type": "application/json"
     };
     if (action === "post_tweet") {
-      const text = asString(params.text, "text");
+      const { text } = params as z.infer<typeof postTweetParams>;
       return await httpJson("https://api.twitter.com/2/tweets", {
         method: "POST",
         headers,
@@ -186,10 +288,9 @@ export class TwitterAdapter extends BaseAdapter {
       });
     }
     if (action === "search_recent") {
-      const query = encodeURIComponent(asString(params.query, "query"));
-      const maxResults = Number(params.maxResults ?? 10);
+      const { query, maxResults } = params as z.infer<typeof searchRecentParams>;
       return await httpJson(
-        `https://api.twitter.com/2/tweets/search/recent?query=${query}&max_results=${Number.isFinite(maxResults) ? maxResults : 10}`,
+        `https://api.twitter.com/2/tweets/search/recent?query=${encodeURIComponent(query)}&max_results=${maxResults}`,
         { headers }
       );
     }
@@ -199,6 +300,24 @@ export class TwitterAdapter extends BaseAdapter {
 
 export class GmailAdapter extends BaseAdapter {
   readonly name = "gmail" as const;
+
+  readonly actions: IntegrationActionSpec[] = [
+    {
+      name: "send_email",
+      description: "Send a plain-text email.",
+      params: sendEmailParams,
+      sideEffect: true,
+      example: { to: "alex@example.com", subject: "Invoice", text: "Attached below." }
+    },
+    {
+      name: "list_messages",
+      description: "List messages matching a Gmail search query.",
+      params: listMessagesParams,
+      sideEffect: false,
+      example: { q: "is:unread newer_than:1d" }
+    }
+  ];
+
   private get accessToken(): string | undefined {
     return asOptionalString(this.config?.accessToken);
   }
@@ -221,9 +340,7 @@ export class GmailAdapter extends BaseAdapter {
       "Content-Type": "application/json"
     };
     if (action === "send_email") {
-      const to = asString(params.to, "to");
-      const subject = asString(params.subject, "subject");
-      const text = asString(params.text, "text");
+      const { to, subject, text } = params as z.infer<typeof sendEmailParams>;
       const mime = [
         `To: ${to}`,
         "Content-Type: text/plain; charset=utf-8",
@@ -238,8 +355,8 @@ export class GmailAdapter extends BaseAdapter {
       });
     }
     if (action === "list_messages") {
-      const q = encodeURIComponent(asOptionalString(params.q) ?? "");
-      return await httpJson(`https://gmail.googleapis.com/gmail/v1/users/me/messages?q=${q}`, {
+      const { q } = params as z.infer<typeof listMessagesParams>;
+      return await httpJson(`https://gmail.googleapis.com/gmail/v1/users/me/messages?q=${encodeURIComponent(q)}`, {
         headers
       });
     }
@@ -249,6 +366,31 @@ export class GmailAdapter extends BaseAdapter {
 
 export class GitHubAdapter extends BaseAdapter {
   readonly name = "github" as const;
+
+  readonly actions: IntegrationActionSpec[] = [
+    {
+      name: "create_issue",
+      description: "Open an issue in a repository.",
+      params: createIssueParams,
+      sideEffect: true,
+      example: { owner: "octocat", repo: "hello-world", title: "Bug report", body: "Steps..." }
+    },
+    {
+      name: "list_issues",
+      description: "List open issues in a repository.",
+      params: repoParams,
+      sideEffect: false,
+      example: { owner: "octocat", repo: "hello-world" }
+    },
+    {
+      name: "create_comment",
+      description: "Comment on an issue or pull request.",
+      params: createCommentParams,
+      sideEffect: true,
+      example: { owner: "octocat", repo: "hello-world", issueNumber: 1, body: "Fixed in main." }
+    }
+  ];
+
   private get token(): string | undefined {
     return asOptionalString(this.config?.token);
   }
@@ -272,8 +414,7 @@ export class GitHubAdapter extends BaseAdapter {
   }
 
   async execute(action: string, params: Record<string, unknown>) {
-    const owner = asOptionalString(params.owner);
-    const repo = asOptionalString(params.repo);
+    const { owner, repo } = params as z.infer<typeof repoParams>;
     const headers = {
       Authorization: `Bearer ${this.token ?? ""}`,
       Accept: "application/vnd.github+json",
@@ -282,31 +423,20 @@ export class GitHubAdapter extends BaseAdapter {
       "Content-Type": "application/json"
     };
     if (action === "create_issue") {
-      const safeOwner = asString(owner, "owner");
-      const safeRepo = asString(repo, "repo");
-      const title = asString(params.title, "title");
-      const body = asOptionalString(params.body) ?? "";
-      return await httpJson(`${this.baseUrl}/repos/${safeOwner}/${safeRepo}/issues`, {
+      const { title, body } = params as z.infer<typeof createIssueParams>;
+      return await httpJson(`${this.baseUrl}/repos/${owner}/${repo}/issues`, {
         method: "POST",
         headers,
         body: JSON.stringify({ title, body })
       });
     }
     if (action === "list_issues") {
-      const safeOwner = asString(owner, "owner");
-      const safeRepo = asString(repo, "repo");
-      return await httpJson(`${this.baseUrl}/repos/${safeOwner}/${safeRepo}/issues`, { headers });
+      return await httpJson(`${this.baseUrl}/repos/${owner}/${repo}/issues`, { headers });
     }
     if (action === "create_comment") {
-      const safeOwner = asString(owner, "owner");
-      const safeRepo = asString(repo, "repo");
-      const issueNumber = Number(params.issueNumber);
-      if (!Number.isInteger(issueNumber) || issueNumber < 1) {
-        throw new Error("issueNumber must be a positive integer.");
-      }
-      const body = asString(params.body, "body");
+      const { issueNumber, body } = params as z.infer<typeof createCommentParams>;
       return await httpJson(
-        `${this.baseUrl}/repos/${safeOwner}/${safeRepo}/issues/${issueNumber}/comments`,
+        `${this.baseUrl}/repos/${owner}/${repo}/issues/${issueNumber}/comments`,
         {
           method: "POST",
           headers,
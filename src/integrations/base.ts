@@ -1,7 +1,8 @@
-import type { IntegrationAdapter, IntegrationName } from "./types.js";
+import type { IntegrationActionSpec, IntegrationAdapter, IntegrationName } from "./types.js";
 
 export abstract class BaseAdapter implements IntegrationAdapter {
   abstract readonly name: IntegrationName;
+  abstract readonly actions: IntegrationActionSpec[];
   constructor(protected readonly config: Record<string, unknown> | undefined) {}
 
   protected enabledFlag(): boolean {
@@ -1,4 +1,5 @@
 import { spawn } from "node:child_process";
+import { z } from "zod";
 
 export function asString(value: unknown, label: string): string {
   if (typeof value !== "string" || !value.trim()) {
@@ -11,11 +12,15 @@ export function asOptionalString(value: unknown): string | undefined {
   return typeof value === "string" && value.trim() ? value.trim() : undefined;
 }
 
-export function asObject(value: unknown, label: string): Record<string, unknown> {
-  if (!value || typeof value !== "object" || Array.isArray(value)) {
-    throw new Error(`Expected object for "${label}".`);
-  }
-  return value as Record<string, unknown>;
+/** A required param string: trimmed and non-empty. */
+export function requiredString(): z.ZodString {
+  return z.string().trim().min(1);
+}
+
+/** The params a caller may send, so fields with defaults stay optional. */
+export function paramsJsonSchema(schema: z.ZodObject): Record<string, unknown> {
+  const { $schema: _ignored, ...rest } = z.toJSONSchema(schema, { io: "input" }) as Record<string, unknown>;
+  return rest;
 }
 
 export async function httpJson<T = Record<string, unknown>>(
@@ -16,7 +16,17 @@ import {
   SpotifyAdapter,
   TwitterAdapter
 } from "./adapters/services.js";
-import type { IntegrationAdapter, IntegrationExecRequest, IntegrationHealth, IntegrationName } from "./types.js";
+import { z } from "zod";
+import { paramsJsonSchema } from "./helpers.js";
+import type {
+  IntegrationActionSpec,
+  IntegrationAdapter,
+  IntegrationCatalogEntry,
+  IntegrationCatalogInfo,
+  IntegrationExecRequest,
+  IntegrationHealth,
+  IntegrationName
+} from "./types.js";
 
 export class IntegrationRuntime {
   private readonly adapters = new Map<IntegrationName, IntegrationAdapter>();
@@ -35,6 +45,35 @@ export class IntegrationRuntime {
     }));
   }
 
+  /** Actions of adapters that are enabled and configured, i.e. the ones the agent may call. */
+  catalog(): IntegrationCatalogEntry[] {
+    return [...this.adapters.values()]
+      .filter((adapter) => adapter.isEnabled() && adapter.isConfigured())
+      .map((adapter) => ({ app: adapter.name, actions: adapter.actions }));
+  }
+
+  actionSpec(app: IntegrationName, action: string): IntegrationActionSpec | undefined {
+    return this.adapters.get(app)?.actions.find((spec) => spec.name === action);
+  }
+
+  /** Serializable catalog of every adapter (or one app), with params as JSON Schema. */
+  describe(app?: IntegrationName): IntegrationCatalogInfo[] {
+    return [...this.adapters.values()]
+      .filter((adapter) => !app || adapter.name === app)
+      .map((adapter) => ({
+        app: adapter.name,
+        enabled: adapter.isEnabled(),
+        configured: adapter.isConfigured(),
+        actions: adapter.actions.map((spec) => ({
+          name: spec.name,
+          description: spec.description,
+          sideEffect: spec.sideEffect,
+          example: spec.example,
+          params: paramsJsonSchema(spec.params)
+        }))
+      }));
+  }
+
   async health(app?: IntegrationName): Promise<Record<string, IntegrationHealth>> {
     const entries = [...this.adapters.values()].filter((adapter) => !app || adapter.name === app);
     const results: Record<string, IntegrationHealth> = {};
@@ -62,7 +101,19 @@ export class IntegrationRuntime {
     if (!adapter.isConfigured()) {
       throw new Error(`Integration "${request.app}" is not configured.`);
     }
-    return await adapter.execute(request.action, request.params ?? {});
+    const spec = adapter.actions.find((entry) => entry.name === request.action);
+    if (!spec) {
+      const available = adapter.actions.map((entry) => entry.name).join(", ");
+      throw new Error(`Unsupported ${request.app} action "${request.action}". Available: ${available}.`);
+    }
+    const params = request.params ?? {};
+    const parsed = spec.params.safeParse(params);
+    if (!parsed.success) {
+      throw new Error(
+        `Invalid params for ${request.app}.${request.action}: ${z.prettifyError(parsed.error)}`
+      );
+    }
+    return await adapter.execute(request.action, parsed.data);
   }
 }
 
@@ -73,7 +124,17 @@ export function createIntegrationRuntime(config: GnamiConfig): IntegrationRuntim
     new TelegramAdapter(integrations.telegram),
     new DiscordAdapter(integrations.discord),
     new SlackAdapter(integrations.slack),
-    new SignalAdapter(integrations.signal),
+    // Sends go through the Signal channel's daemon when it is configured.
+    new SignalAdapter({
+      ...(config.channels.signal
+        ? {
+            accountNumber: config.channels.signal.account,
+            rpcHost: config.channels.signal.host,
+            rpcPort: config.channels.signal.port
+          }
+        : {}),
+      ...integrations.signal
+    }),
     new IMessageAdapter(integrations.imessage),
     new SpotifyAdapter(integrations.spotify),
     new HueAdapter(integrations.hue),
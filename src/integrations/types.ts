@@ -1,3 +1,5 @@
+import type { z } from "zod";
+
 export type IntegrationName =
   | "whatsapp"
   | "telegram"
@@ -18,11 +20,22 @@ export interface IntegrationHealth {
   details: string;
 }
 
+export interface IntegrationActionSpec {
+  name: string;
+  description: string;
+  params: z.ZodObject;
+  /** True when the action changes something outside GnamiAI (sends, posts, writes). */
+  sideEffect: boolean;
+  example: Record<string, unknown>;
+}
+
 export interface IntegrationAdapter {
   readonly name: IntegrationName;
+  readonly actions: IntegrationActionSpec[];
   isEnabled(): boolean;
   isConfigured(): boolean;
   healthCheck(): Promise<IntegrationHealth>;
+  /** `params` has already been parsed by the action's `params` schema (defaults applied). */
   execute(action: string, params: Record<string, unknown>): Promise<unknown>;
 }
 
@@ -31,3 +44,24 @@ export interface IntegrationExecRequest {
   action: string;
   params?: Record<string, unknown>;
 }
+
+export interface IntegrationCatalogEntry {
+  app: IntegrationName;
+  actions: IntegrationActionSpec[];
+}
+
+export interface IntegrationActionInfo {
+  name: string;
+  description: string;
+  sideEffect: boolean;
+  example: Record<string, unknown>;
+  /** JSON Schema of the params object. */
+  params: Record<string, unknown>;
+}
+
+export interface IntegrationCatalogInfo {
+  app: IntegrationName;
+  enabled: boolean;
+  configured: boolean;
+  actions: IntegrationActionInfo[];
+}
@@ -0,0 +1,171 @@
+import type { AgentToolCall } from "../core/tools.js";
+import { postJson, readSse } from "./http.js";
+import type {
+  CompletionRequest,
+  CompletionResponse,
+  ConversationItem,
+  ModelProvider,
+  TokenUsage
+} from "./types.js";
+
+export interface AnthropicOptions {
+  apiKey: string;
+  baseUrl: string;
+  maxTokens: number;
+}
+
+type ContentBlock =
+  | { type: "text"; text: string }
+  | { type: "tool_use"; id: string; name: string; input: unknown }
+  | { type: "tool_result"; tool_use_id: string; content: string };
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: string | ContentBlock[];
+}
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+function parseArguments(raw: string): unknown {
+  try {
+    return raw.trim() ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+}
+
+function toAnthropicMessages(messages: ConversationItem[]): AnthropicMessage[] {
+  const result: AnthropicMessage[] = [];
+  for (const item of messages) {
+    if (item.role === "user") {
+      result.push({ role: "user", content: item.content });
+    } else if (item.role === "assistant") {
+      result.push({
+        role: "assistant",
+        content: [
+          ...(item.content ? [{ type: "text" as const, text: item.content }] : []),
+          ...item.toolCalls.map((call) => ({
+            type: "tool_use" as const,
+            id: call.id,
+            name: call.name,
+            input: parseArguments(call.arguments)
+          }))
+        ]
+      });
+    } else {
+      // Results for one assistant turn go back together in a single user message.
+      const block: ContentBlock = { type: "tool_result", tool_use_id: item.callId, content: item.content };
+      const last = result[result.length - 1];
+      if (last?.role === "user" && Array.isArray(last.content)) {
+        last.content.push(block);
+      } else {
+        result.push({ role: "user", content: [block] });
+      }
+    }
+  }
+  return result;
+}
+
+function fromContent(blocks: ContentBlock[], usage?: AnthropicUsage): CompletionResponse {
+  const toolCalls: AgentToolCall[] = [];
+  let text = "";
+  for (const block of blocks) {
+    if (block.type === "text") text += block.text;
+    if (block.type === "tool_use") {
+      toolCalls.push({ id: block.id, name: block.name, arguments: JSON.stringify(block.input ?? {}) });
+    }
+  }
+  const tokens: TokenUsage | undefined = usage
+    ? { promptTokens: usage.input_tokens ?? 0, completionTokens: usage.output_tokens ?? 0 }
+    : undefined;
+  return { text: text.trim(), toolCalls, usage: tokens };
+}
+
+/** Anthropic Messages API. */
+export class AnthropicProvider implements ModelProvider {
+  readonly name = "anthropic";
+  readonly supportsTools = true;
+
+  constructor(private readonly options: AnthropicOptions) {}
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const body = {
+      model: request.model,
+      max_tokens: this.options.maxTokens,
+      system: request.system,
+      temperature: request.temperature,
+      messages: toAnthropicMessages(request.messages),
+      ...(request.tools
+        ? {
+            tools: request.tools.map((tool) => ({
+              name: tool.name,
+              description: tool.description,
+              input_schema: tool.parameters
+            })),
+            tool_choice: { type: request.toolChoice ?? "auto" }
+          }
+        : {}),
+      ...(request.onDelta ? { stream: true } : {})
+    };
+    const response = await postJson(
+      "Anthropic",
+      `${this.options.baseUrl.replace(/\/+$/, "")}/v1/messages`,
+      { "x-api-key": this.options.apiKey, "anthropic-version": ANTHROPIC_VERSION },
+      body,
+      request.signal
+    );
+    if (!request.onDelta) {
+      const message = (await response.json()) as { content?: ContentBlock[]; usage?: AnthropicUsage };
+      return fromContent(message.content ?? [], message.usage);
+    }
+
+    const blocks: Array<ContentBlock & { partialJson?: string }> = [];
+    let usage: AnthropicUsage | undefined;
+    for await (const event of readSse(response)) {
+      const payload = JSON.parse(event.data) as {
+        type: string;
+        index?: number;
+        content_block?: ContentBlock;
+        message?: { usage?: AnthropicUsage };
+        usage?: AnthropicUsage;
+        delta?: { type: string; text?: string; partial_json?: string };
+        error?: { message?: string };
+      };
+      if (payload.type === "error") {
+        throw new Error(`Anthropic stream error: ${payload.error?.message ?? event.data}`);
+      }
+      // message_start carries input tokens; message_delta carries the running output count.
+      if (payload.type === "message_start" && payload.message?.usage) {
+        usage = { ...payload.message.usage };
+      } else if (payload.type === "message_delta" && payload.usage) {
+        usage = { ...usage, ...payload.usage };
+      }
+      if (payload.type === "content_block_start" && payload.content_block && payload.index !== undefined) {
+        blocks[payload.index] = { ...payload.content_block };
+      } else if (payload.type === "content_block_delta" && payload.index !== undefined) {
+        const block = blocks[payload.index];
+        if (block?.type === "text" && payload.delta?.type === "text_delta" && payload.delta.text) {
+          block.text += payload.delta.text;
+          request.onDelta(payload.delta.text);
+        } else if (block?.type === "tool_use" && payload.delta?.type === "input_json_delta") {
+          block.partialJson = (block.partialJson ?? "") + (payload.delta.partial_json ?? "");
+        }
+      }
+    }
+    return fromContent(
+      blocks
+        .filter(Boolean)
+        .map((block) =>
+          block.type === "tool_use" && block.partialJson !== undefined
+            ? { ...block, input: parseArguments(block.partialJson) }
+            : block
+        ),
+      usage
+    );
+  }
+}
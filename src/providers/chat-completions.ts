@@ -0,0 +1,106 @@
+import type OpenAI from "openai";
+import type { ChatCompletionMessageParam, ChatCompletionTool } from "openai/resources/chat/completions";
+import type { AgentToolCall } from "../core/tools.js";
+import type { CompletionUsage } from "openai/resources/completions";
+import type {
+  CompletionRequest,
+  CompletionResponse,
+  ConversationItem,
+  ModelProvider,
+  TokenUsage
+} from "./types.js";
+
+function toChatMessages(messages: ConversationItem[]): ChatCompletionMessageParam[] {
+  return messages.map((item): ChatCompletionMessageParam => {
+    if (item.role === "user") return { role: "user", content: item.content };
+    if (item.role === "tool") return { role: "tool", tool_call_id: item.callId, content: item.content };
+    return {
+      role: "assistant",
+      content: item.content || null,
+      ...(item.toolCalls.length > 0
+        ? {
+            tool_calls: item.toolCalls.map((call) => ({
+              id: call.id,
+              type: "function" as const,
+              function: { name: call.name, arguments: call.arguments }
+            }))
+          }
+        : {})
+    };
+  });
+}
+
+function toUsage(usage: CompletionUsage | null | undefined): TokenUsage | undefined {
+  return usage ? { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens } : undefined;
+}
+
+/**
+ * OpenAI-compatible chat completions. Backs `local/`, `azure/`, `openrouter/` and `compatible/`;
+ * only the client (base URL, auth, headers) differs between them.
+ */
+export class ChatCompletionsProvider implements ModelProvider {
+  readonly supportsTools = true;
+
+  constructor(
+    readonly name: string,
+    private readonly client: OpenAI
+  ) {}
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const tools: ChatCompletionTool[] | undefined = request.tools?.map((tool) => ({
+      type: "function",
+      function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+    }));
+    const params = {
+      model: request.model,
+      temperature: request.temperature,
+      messages: [
+        { role: "system" as const, content: request.system },
+        ...toChatMessages(request.messages)
+      ],
+      // Some local servers reject tool_choice "none", so the final step simply omits the tools.
+      ...(tools && request.toolChoice !== "none" ? { tools } : {})
+    };
+    if (!request.onDelta) {
+      const completion = await this.client.chat.completions.create(params, { signal: request.signal });
+      const message = completion.choices?.[0]?.message;
+      return {
+        text: message?.content?.trim() ?? "",
+        toolCalls: (message?.tool_calls ?? []).flatMap((call) =>
+          call.type === "function"
+            ? [{ id: call.id, name: call.function.name, arguments: call.function.arguments }]
+            : []
+        ),
+        usage: toUsage(completion.usage)
+      };
+    }
+    const stream = await this.client.chat.completions.create(
+      { ...params, stream: true, stream_options: { include_usage: true } },
+      { signal: request.signal }
+    );
+    let text = "";
+    let usage: TokenUsage | undefined;
+    // Streamed tool calls arrive as fragments keyed by index.
+    const calls: AgentToolCall[] = [];
+    for await (const chunk of stream) {
+      // With include_usage the final chunk carries usage and no choices.
+      usage = toUsage(chunk.usage) ?? usage;
+      const delta = chunk.choices?.[0]?.delta;
+      if (delta?.content) {
+        text += delta.content;
+        request.onDelta(delta.content);
+      }
+      for (const fragment of delta?.tool_calls ?? []) {
+        const call = (calls[fragment.index] ??= { id: "", name: "", arguments: "" });
+        if (fragment.id) call.id = fragment.id;
+        if (fragment.function?.name) call.name += fragment.function.name;
+        if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+      }
+    }
+    return {
+      text: text.trim(),
+      toolCalls: calls.filter(Boolean).map((call, index) => ({ ...call, id: call.id || `call_${index}` })),
+      usage
+    };
+  }
+}
@@ -8,16 +8,29 @@ function commandName(base: string): string {
   return process.platform === "win32" ? `${base}.cmd` : base;
 }
 
-async function run(command: string, args: string[], stdinInput?: string): Promise<void> {
+async function run(
+  command: string,
+  args: string[],
+  stdinInput?: string,
+  onStdout?: (text: string) => void,
+  signal?: AbortSignal
+): Promise<void> {
   await new Promise<void>((resolve, reject) => {
+    // An aborted signal (the router's timeout) kills the child and rejects with an AbortError.
     const child = spawn(command, args, {
       stdio: ["pipe", "pipe", "pipe"],
       env: process.env,
-      shell: process.platform === "win32"
+      shell: process.platform === "win32",
+      signal
     });
     let stderr = "";
     child.stdout.on("data", (chunk: Buffer) => {
-      process.stdout.write(chunk.toString("utf-8"));
+      const text = chunk.toString("utf-8");
+      if (onStdout) {
+        onStdout(text);
+      } else {
+        process.stdout.write(text);
+      }
     });
     child.stderr.on("data", (chunk: Buffer) => {
       const text = chunk.toString("utf-8");
@@ -41,7 +54,18 @@ async function run(command: string, args: string[], stdinInput?: string): Promis
   });
 }
 
-export async function runCodexExec(model: string, prompt: string): Promise<string> {
+/**
+ * Runs `codex exec` and returns its last message. With onStdout, stdout is forwarded
+ * incrementally as it is printed; the returned message remains the authoritative reply.
+ * Aborting `signal` kills the running CLI and skips the remaining attempts, as does a failure
+ * after some output was forwarded.
+ */
+export async function runCodexExec(
+  model: string,
+  prompt: string,
+  onStdout?: (text: string) => void,
+  signal?: AbortSignal
+): Promise<string> {
   const outputFile = join(tmpdir(), `gnamiai-codex-${randomUUID()}.txt`);
   const attempts: Array<{ cmd: string; args: string[] }> = [
     {
@@ -73,10 +97,20 @@ export async function runCodexExec(model: string, prompt: string): Promise<strin
   ];
 
   let lastError: Error | null = null;
+  let printed = false;
+  const forward = onStdout
+    ? (text: string) => {
+        printed = true;
+        onStdout(text);
+      }
+    : undefined;
   try {
     for (const attempt of attempts) {
+      signal?.throwIfAborted();
+      // Output already forwarded belongs to the failed attempt; a rerun would repeat it.
+      if (printed) break;
       try {
-        await run(attempt.cmd, attempt.args, prompt);
+        await run(attempt.cmd, attempt.args, prompt, forward, signal);
         const output = (await readFile(outputFile, "utf-8")).trim();
         if (!output) {
           throw new Error("Codex exec returned empty output.");
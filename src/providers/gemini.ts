@@ -0,0 +1,138 @@
+import type { AgentToolCall } from "../core/tools.js";
+import { postJson, readSse } from "./http.js";
+import type {
+  CompletionRequest,
+  CompletionResponse,
+  ConversationItem,
+  ModelProvider,
+  TokenUsage
+} from "./types.js";
+
+export interface GeminiOptions {
+  apiKey: string;
+  baseUrl: string;
+}
+
+interface GeminiPart {
+  text?: string;
+  thought?: boolean;
+  functionCall?: { id?: string; name: string; args?: Record<string, unknown> };
+  functionResponse?: { id?: string; name: string; response: Record<string, unknown> };
+  thoughtSignature?: string;
+}
+
+interface GeminiContent {
+  role: "user" | "model";
+  parts: GeminiPart[];
+}
+
+interface GeminiResponse {
+  candidates?: Array<{ content?: { parts?: GeminiPart[] } }>;
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; thoughtsTokenCount?: number };
+}
+
+function toUsage(metadata: GeminiResponse["usageMetadata"]): TokenUsage | undefined {
+  if (!metadata) return undefined;
+  return {
+    promptTokens: metadata.promptTokenCount ?? 0,
+    // Thinking tokens are billed as output.
+    completionTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0)
+  };
+}
+
+function toContents(messages: ConversationItem[]): GeminiContent[] {
+  const result: GeminiContent[] = [];
+  for (const item of messages) {
+    if (item.role === "user") {
+      result.push({ role: "user", parts: [{ text: item.content }] });
+    } else if (item.role === "assistant") {
+      // Replaying the original parts keeps thought signatures that multi-step tool calls require.
+      const parts = Array.isArray(item.raw)
+        ? (item.raw as GeminiPart[])
+        : [
+            ...(item.content ? [{ text: item.content }] : []),
+            ...item.toolCalls.map((call) => ({
+              functionCall: { name: call.name, args: JSON.parse(call.arguments || "{}") as Record<string, unknown> }
+            }))
+          ];
+      result.push({ role: "model", parts });
+    } else {
+      const part: GeminiPart = {
+        functionResponse: { name: item.name, response: { content: item.content } }
+      };
+      const last = result[result.length - 1];
+      if (last?.role === "user" && last.parts.every((entry) => entry.functionResponse)) {
+        last.parts.push(part);
+      } else {
+        result.push({ role: "user", parts: [part] });
+      }
+    }
+  }
+  return result;
+}
+
+function fromParts(parts: GeminiPart[], usage?: TokenUsage): CompletionResponse {
+  const toolCalls: AgentToolCall[] = [];
+  let text = "";
+  for (const part of parts) {
+    if (part.text && !part.thought) text += part.text;
+    if (part.functionCall) {
+      toolCalls.push({
+        id: part.functionCall.id ?? `call_${toolCalls.length}`,
+        name: part.functionCall.name,
+        arguments: JSON.stringify(part.functionCall.args ?? {})
+      });
+    }
+  }
+  return { text: text.trim(), toolCalls, raw: parts, usage };
+}
+
+/** Google Gemini generateContent API. */
+export class GeminiProvider implements ModelProvider {
+  readonly name = "gemini";
+  readonly supportsTools = true;
+
+  constructor(private readonly options: GeminiOptions) {}
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const method = request.onDelta ? "streamGenerateContent?alt=sse" : "generateContent";
+    const url = `${this.options.baseUrl.replace(/\/+$/, "")}/v1beta/models/${encodeURIComponent(request.model)}:${method}`;
+    const body = {
+      systemInstruction: { parts: [{ text: request.system }] },
+      contents: toContents(request.messages),
+      generationConfig: { temperature: request.temperature },
+      ...(request.tools
+        ? {
+            tools: [
+              {
+                functionDeclarations: request.tools.map((tool) => ({
+                  name: tool.name,
+                  description: tool.description,
+                  parametersJsonSchema: tool.parameters
+                }))
+              }
+            ],
+            toolConfig: {
+              functionCallingConfig: { mode: request.toolChoice === "none" ? "NONE" : "AUTO" }
+            }
+          }
+        : {})
+    };
+    const response = await postJson("Gemini", url, { "x-goog-api-key": this.options.apiKey }, body, request.signal);
+    if (!request.onDelta) {
+      const data = (await response.json()) as GeminiResponse;
+      return fromParts(data.candidates?.[0]?.content?.parts ?? [], toUsage(data.usageMetadata));
+    }
+    const parts: GeminiPart[] = [];
+    let usage: TokenUsage | undefined;
+    for await (const event of readSse(response)) {
+      const chunk = JSON.parse(event.data) as GeminiResponse;
+      usage = toUsage(chunk.usageMetadata) ?? usage;
+      for (const part of chunk.candidates?.[0]?.content?.parts ?? []) {
+        if (part.text && !part.thought) request.onDelta(part.text);
+        parts.push(part);
+      }
+    }
+    return fromParts(parts, usage);
+  }
+}
@@ -0,0 +1,69 @@
+export interface SseEvent {
+  event?: string;
+  data: string;
+}
+
+/** Non-2xx reply from a provider API; `status` drives retry decisions in the router. */
+export class ProviderHttpError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = "ProviderHttpError";
+  }
+}
+
+export async function postJson(
+  provider: string,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal?: AbortSignal
+): Promise<globalThis.Response> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+    signal
+  });
+  if (!response.ok) {
+    const text = await response.text();
+    throw new ProviderHttpError(
+      `${provider} request failed (${response.status}): ${text.slice(0, 500)}`,
+      response.status
+    );
+  }
+  return response;
+}
+
+/** Parses a text/event-stream body into events; `data:` lines of one event are joined. */
+export async function* readSse(response: globalThis.Response): AsyncGenerator<SseEvent> {
+  if (!response.body) return;
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let event: string | undefined;
+  let data: string[] = [];
+  const reader = response.body.getReader();
+  for (;;) {
+    const { value, done } = await reader.read();
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+    let newline = buffer.indexOf("\n");
+    while (newline >= 0) {
+      const line = buffer.slice(0, newline).replace(/\r$/, "");
+      buffer = buffer.slice(newline + 1);
+      if (line === "") {
+        if (data.length > 0) yield { event, data: data.join("\n") };
+        event = undefined;
+        data = [];
+      } else if (line.startsWith("event:")) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith("data:")) {
+        data.push(line.slice(5).trimStart());
+      }
+      newline = buffer.indexOf("\n");
+    }
+    if (done) break;
+  }
+  if (data.length > 0) yield { event, data: data.join("\n") };
+}
@@ -0,0 +1,171 @@
+import OpenAI from "openai";
+import type {
+  FunctionTool,
+  Response,
+  ResponseCreateParamsNonStreaming,
+  ResponseFunctionToolCall,
+  ResponseInputItem
+} from "openai/resources/responses/responses";
+import { runCodexExec } from "./codex-cli.js";
+import type { CompletionRequest, CompletionResponse, ConversationItem, ModelProvider } from "./types.js";
+
+type ResponseParams = Omit<ResponseCreateParamsNonStreaming, "model">;
+type ReplayableItem = Extract<ResponseInputItem, { type: "message" | "function_call" | "reasoning" }>;
+
+function candidateModels(model: string, fallbackModel?: string): string[] {
+  return [model, fallbackModel].filter(
+    (value, index, arr): value is string => Boolean(value) && arr.indexOf(value) === index
+  );
+}
+
+function responseText(response: Response): string {
+  return response.output
+    .flatMap((item) => (item.type === "message" ? item.content : []))
+    .map((part) => (part.type === "output_text" ? part.text : ""))
+    .join("")
+    .trim();
+}
+
+function toResponseInput(messages: ConversationItem[]): ResponseInputItem[] {
+  return messages.flatMap((item): ResponseInputItem[] => {
+    if (item.role === "user") return [{ role: "user", content: item.content }];
+    if (item.role === "tool") {
+      return [{ type: "function_call_output", call_id: item.callId, output: item.content }];
+    }
+    if (Array.isArray(item.raw)) return item.raw as ReplayableItem[];
+    return [
+      ...(item.content ? [{ role: "assistant" as const, content: item.content }] : []),
+      ...item.toolCalls.map((call) => ({
+        type: "function_call" as const,
+        call_id: call.id,
+        name: call.name,
+        arguments: call.arguments
+      }))
+    ];
+  });
+}
+
+/** OpenAI Responses API with an API key. */
+export class OpenAIResponsesProvider implements ModelProvider {
+  readonly name = "openai";
+  readonly supportsTools = true;
+
+  constructor(
+    private readonly client: OpenAI,
+    private readonly fallbackModel?: string
+  ) {}
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const tools: FunctionTool[] | undefined = request.tools?.map((tool) => ({
+      type: "function",
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+      strict: false
+    }));
+    const response = await this.createResponse(
+      candidateModels(request.model, this.fallbackModel),
+      {
+        temperature: request.temperature,
+        input: [{ role: "system", content: request.system }, ...toResponseInput(request.messages)],
+        ...(tools ? { tools, tool_choice: request.toolChoice ?? "auto" } : {})
+      },
+      request.onDelta,
+      request.signal
+    );
+    const calls = response.output.filter(
+      (item): item is ResponseFunctionToolCall => item.type === "function_call"
+    );
+    return {
+      text: responseText(response),
+      toolCalls: calls.map((call) => ({ id: call.call_id, name: call.name, arguments: call.arguments })),
+      usage: response.usage
+        ? { promptTokens: response.usage.input_tokens, completionTokens: response.usage.output_tokens }
+        : undefined,
+      raw: response.output.filter(
+        (item): item is ReplayableItem =>
+          item.type === "message" || item.type === "function_call" || item.type === "reasoning"
+      )
+    };
+  }
+
+  private async createResponse(
+    models: string[],
+    params: ResponseParams,
+    onDelta?: (delta: string) => void,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    let lastError: unknown = null;
+    let streamed = false;
+    for (const candidateModel of models) {
+      try {
+        if (!onDelta) {
+          return await this.client.responses.create({ ...params, model: candidateModel }, { signal });
+        }
+        const stream = await this.client.responses.create(
+          { ...params, model: candidateModel, stream: true },
+          { signal }
+        );
+        let completed: Response | null = null;
+        for await (const event of stream) {
+          if (event.type === "response.output_text.delta") {
+            streamed = true;
+            onDelta(event.delta);
+          } else if (event.type === "response.completed") {
+            completed = event.response;
+          }
+        }
+        if (!completed) {
+          throw new Error("OpenAI stream ended before the response completed.");
+        }
+        return completed;
+      } catch (error) {
+        // The client already shows part of this answer; another model would append a different one.
+        if (streamed) throw error;
+        lastError = error;
+      }
+    }
+    throw lastError instanceof Error ? lastError : new Error("OpenAI request failed.");
+  }
+}
+
+/** Codex CLI (ChatGPT OAuth). Takes a flat prompt, so tool use goes through gnami-action fences. */
+export class CodexCliProvider implements ModelProvider {
+  readonly name = "openai";
+  readonly supportsTools = false;
+
+  constructor(private readonly fallbackModel?: string) {}
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const prompt = [
+      request.system,
+      "",
+      ...request.messages.map((item) => {
+        if (item.role === "user") return item.content;
+        if (item.role === "tool") return `Tool result (${item.name}): ${item.content}`;
+        return `Assistant: ${item.content}`;
+      })
+    ].join("\n");
+    let lastCodexError: unknown = null;
+    let streamed = false;
+    const onDelta = request.onDelta;
+    const forward = onDelta
+      ? (text: string) => {
+          streamed = true;
+          onDelta(text);
+        }
+      : undefined;
+    for (const candidateModel of candidateModels(request.model, this.fallbackModel)) {
+      request.signal?.throwIfAborted();
+      try {
+        const text = await runCodexExec(candidateModel, prompt, forward, request.signal);
+        return { text, toolCalls: [] };
+      } catch (error) {
+        // As in createResponse: once output reached the client, falling back would append a second answer.
+        if (streamed) throw error;
+        lastCodexError = error;
+      }
+    }
+    throw lastCodexError instanceof Error ? lastCodexError : new Error("Codex OAuth request failed.");
+  }
+}
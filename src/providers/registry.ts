@@ -0,0 +1,173 @@
+import OpenAI, { AzureOpenAI } from "openai";
+import type { GnamiConfig } from "../core/config.js";
+import { resolveRuntimeEnvVar } from "../core/env.js";
+import { AnthropicProvider } from "./anthropic.js";
+import { ChatCompletionsProvider } from "./chat-completions.js";
+import { GeminiProvider } from "./gemini.js";
+import { CodexCliProvider, OpenAIResponsesProvider } from "./openai.js";
+import type { ModelProvider } from "./types.js";
+
+export const PROVIDER_NAMES = [
+  "openai",
+  "local",
+  "anthropic",
+  "gemini",
+  "azure",
+  "openrouter",
+  "compatible"
+] as const;
+
+export type ProviderName = (typeof PROVIDER_NAMES)[number];
+
+export interface ModelRef {
+  provider: ProviderName;
+  model: string;
+}
+
+export const DEFAULT_LOCAL_BASE_URL = "http://127.0.0.1:11434/v1";
+export const DEFAULT_ANTHROPIC_BASE_URL = "https://api.anthropic.com";
+export const DEFAULT_GEMINI_BASE_URL = "https://generativelanguage.googleapis.com";
+export const DEFAULT_OPENROUTER_BASE_URL = "https://openrouter.ai/api/v1";
+export const DEFAULT_AZURE_API_VERSION = "2024-10-21";
+
+function isProviderName(value: string): value is ProviderName {
+  return (PROVIDER_NAMES as readonly string[]).includes(value);
+}
+
+export function parseModelRef(modelString: string): ModelRef {
+  const [provider, ...rest] = modelString.split("/");
+  const model = rest.join("/");
+  if (!provider || !model) {
+    throw new Error(
+      `Invalid model "${modelString}". Expected provider/model (example: openai/gpt-5.3-codex).`
+    );
+  }
+  if (!isProviderName(provider)) {
+    throw new Error(`Unsupported provider "${provider}". Use one of: ${PROVIDER_NAMES.join(", ")}.`);
+  }
+  return { provider, model };
+}
+
+function env(...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = resolveRuntimeEnvVar(key);
+    if (value) return value;
+  }
+  return undefined;
+}
+
+/** Config problems that would make the provider fail before any request is sent. */
+export function providerConfigIssues(config: GnamiConfig, provider: ProviderName): string[] {
+  const providers = config.providers;
+  const issues: string[] = [];
+  const checkUrl = (label: string, value: string | undefined) => {
+    if (value && !/^https?:\/\//.test(value)) issues.push(`${label} must start with http:// or https://.`);
+  };
+  if (provider === "anthropic") {
+    if (!providers.anthropic?.apiKey && !env("ANTHROPIC_API_KEY")) {
+      issues.push("Anthropic API key missing. Set providers.anthropic.apiKey or ANTHROPIC_API_KEY.");
+    }
+    checkUrl("providers.anthropic.baseUrl", providers.anthropic?.baseUrl);
+  }
+  if (provider === "gemini") {
+    if (!providers.gemini?.apiKey && !env("GEMINI_API_KEY", "GOOGLE_API_KEY")) {
+      issues.push("Gemini API key missing. Set providers.gemini.apiKey or GEMINI_API_KEY.");
+    }
+    checkUrl("providers.gemini.baseUrl", providers.gemini?.baseUrl);
+  }
+  if (provider === "azure") {
+    if (!providers.azure?.endpoint && !env("AZURE_OPENAI_ENDPOINT")) {
+      issues.push("Azure OpenAI endpoint missing. Set providers.azure.endpoint or AZURE_OPENAI_ENDPOINT.");
+    }
+    if (!providers.azure?.apiKey && !env("AZURE_OPENAI_API_KEY")) {
+      issues.push("Azure OpenAI API key missing. Set providers.azure.apiKey or AZURE_OPENAI_API_KEY.");
+    }
+  }
+  if (provider === "openrouter" && !providers.openrouter?.apiKey && !env("OPENROUTER_API_KEY")) {
+    issues.push("OpenRouter API key missing. Set providers.openrouter.apiKey or OPENROUTER_API_KEY.");
+  }
+  if (provider === "compatible") {
+    if (!providers.compatible?.baseUrl) {
+      issues.push("providers.compatible.baseUrl is required for compatible/<model>.");
+    }
+    checkUrl("providers.compatible.baseUrl", providers.compatible?.baseUrl);
+  }
+  return issues;
+}
+
+/** SDK clients get `maxRetries: 0`; retries, timeouts and fallback are handled by the model router. */
+export function createProvider(config: GnamiConfig, provider: ProviderName): ModelProvider {
+  const issues = providerConfigIssues(config, provider);
+  if (issues.length > 0) {
+    throw new Error(issues.join(" "));
+  }
+  const providers = config.providers;
+  switch (provider) {
+    case "openai": {
+      if (config.agent.openaiAuthMode === "codex_oauth") {
+        return new CodexCliProvider(config.agent.openaiFallbackModel);
+      }
+      const apiKey = config.agent.openaiApiKey ?? process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new Error(
+          "OpenAI key missing for api_key mode. Run `gnamiai oauth codex` or set agent.openaiApiKey."
+        );
+      }
+      return new OpenAIResponsesProvider(new OpenAI({ apiKey, maxRetries: 0 }), config.agent.openaiFallbackModel);
+    }
+    case "local":
+      return new ChatCompletionsProvider(
+        "local",
+        new OpenAI({
+          maxRetries: 0,
+          apiKey: config.agent.localApiKey ?? process.env.LOCAL_MODEL_API_KEY ?? "local",
+          baseURL: config.agent.localBaseUrl ?? process.env.LOCAL_MODEL_BASE_URL ?? DEFAULT_LOCAL_BASE_URL
+        })
+      );
+    case "anthropic":
+      return new AnthropicProvider({
+        apiKey: providers.anthropic?.apiKey ?? env("ANTHROPIC_API_KEY") ?? "",
+        baseUrl: providers.anthropic?.baseUrl ?? DEFAULT_ANTHROPIC_BASE_URL,
+        maxTokens: providers.anthropic?.maxTokens ?? 4096
+      });
+    case "gemini":
+      return new GeminiProvider({
+        apiKey: providers.gemini?.apiKey ?? env("GEMINI_API_KEY", "GOOGLE_API_KEY") ?? "",
+        baseUrl: providers.gemini?.baseUrl ?? DEFAULT_GEMINI_BASE_URL
+      });
+    case "azure":
+      // The model segment of azure/<deployment> is the deployment name.
+      return new ChatCompletionsProvider(
+        "azure",
+        new AzureOpenAI({
+          maxRetries: 0,
+          endpoint: providers.azure?.endpoint ?? env("AZURE_OPENAI_ENDPOINT"),
+          apiKey: providers.azure?.apiKey ?? env("AZURE_OPENAI_API_KEY"),
+          apiVersion: providers.azure?.apiVersion ?? DEFAULT_AZURE_API_VERSION
+        })
+      );
+    case "openrouter":
+      return new ChatCompletionsProvider(
+        "openrouter",
+        new OpenAI({
+          maxRetries: 0,
+          apiKey: providers.openrouter?.apiKey ?? env("OPENROUTER_API_KEY"),
+          baseURL: providers.openrouter?.baseUrl ?? DEFAULT_OPENROUTER_BASE_URL,
+          defaultHeaders: {
+            "X-Title": providers.openrouter?.appName ?? "GnamiAI",
+            ...(providers.openrouter?.siteUrl ? { "HTTP-Referer": providers.openrouter.siteUrl } : {})
+          }
+        })
+      );
+    case "compatible":
+      return new ChatCompletionsProvider(
+        "compatible",
+        new OpenAI({
+          maxRetries: 0,
+          apiKey: providers.compatible?.apiKey ?? "none",
+          baseURL: providers.compatible?.baseUrl,
+          defaultHeaders: providers.compatible?.headers
+        })
+      );
+  }
+}
@@ -0,0 +1,279 @@
+import { setTimeout as delay } from "node:timers/promises";
+import type { GnamiConfig } from "../core/config.js";
+import { estimateTokens } from "../core/usage.js";
+import { createProvider, parseModelRef, type ProviderName } from "./registry.js";
+import type { CompletionRequest, CompletionResponse, ConversationItem, ModelProvider } from "./types.js";
+
+export type BreakerState = "closed" | "open" | "half_open";
+
+export interface RouteHealth {
+  provider: ProviderName;
+  state: BreakerState;
+  consecutiveFailures: number;
+  openUntil: string | null;
+  lastError: string | null;
+  lastSuccessAt: string | null;
+}
+
+export interface RoutedResponse {
+  /** `provider/model` that produced the response. */
+  route: string;
+  provider: ModelProvider;
+  response: CompletionResponse;
+  /** Wall time of the successful attempt. */
+  latencyMs: number;
+  /** False when the response carried no usage and the counts come from `estimateUsage`. */
+  usageReported: boolean;
+}
+
+interface Route {
+  ref: string;
+  name: ProviderName;
+  model: string;
+}
+
+class TimeoutError extends Error {
+  constructor(ms: number) {
+    super(`Request timed out after ${ms}ms.`);
+    this.name = "TimeoutError";
+  }
+}
+
+/** Per-provider breaker: opens after N consecutive failures, lets one probe through after the cooldown. */
+class CircuitBreaker {
+  private failures = 0;
+  private openUntil = 0;
+  private lastError: string | null = null;
+  private lastSuccessAt: string | null = null;
+
+  constructor(
+    private readonly threshold: number,
+    private readonly cooldownMs: number
+  ) {}
+
+  state(now = Date.now()): BreakerState {
+    if (this.failures < this.threshold) return "closed";
+    return now < this.openUntil ? "open" : "half_open";
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openUntil = 0;
+    this.lastSuccessAt = new Date().toISOString();
+  }
+
+  recordFailure(error: string): void {
+    this.failures += 1;
+    this.lastError = error;
+    if (this.failures >= this.threshold) {
+      this.openUntil = Date.now() + this.cooldownMs;
+    }
+  }
+
+  snapshot(provider: ProviderName): RouteHealth {
+    const state = this.state();
+    return {
+      provider,
+      state,
+      consecutiveFailures: this.failures,
+      openUntil: state === "open" ? new Date(this.openUntil).toISOString() : null,
+      lastError: this.lastError,
+      lastSuccessAt: this.lastSuccessAt
+    };
+  }
+}
+
+function itemText(item: ConversationItem): string {
+  if (item.role === "assistant") {
+    return item.content + item.toolCalls.map((call) => call.name + call.arguments).join("");
+  }
+  return item.content;
+}
+
+/** Character-based estimate for backends that report no usage (Codex CLI). */
+export function estimateUsage(request: CompletionRequest, response: CompletionResponse) {
+  const prompt = request.system + request.messages.map(itemText).join("\n");
+  const completion = response.text + response.toolCalls.map((call) => call.name + call.arguments).join("");
+  return { promptTokens: estimateTokens(prompt), completionTokens: estimateTokens(completion) };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** 429, 5xx and timeouts are worth retrying on the same provider; anything else moves down the chain. */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof TimeoutError) return true;
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === "number" && (status === 429 || status >= 500);
+}
+
+/**
+ * Walks `agent.model` then `agent.fallbackModels`, retrying transient failures with exponential
+ * backoff and skipping providers whose circuit breaker is open.
+ */
+export class ModelRouter {
+  private routeList: Route[] | null = null;
+  private readonly providers = new Map<string, ModelProvider>();
+  private readonly breakers = new Map<ProviderName, CircuitBreaker>();
+
+  constructor(private readonly config: GnamiConfig) {}
+
+  /**
+   * Whether the first usable route has native tool calling; decides between the tool loop and
+   * gnami-action fences for a turn. Defaults to true when no route can be built, so the routed
+   * call surfaces the configuration error.
+   */
+  primarySupportsTools(): boolean {
+    for (const route of this.routes()) {
+      if (this.breaker(route.name).state() === "open") continue;
+      try {
+        return this.provider(route).supportsTools;
+      } catch {
+        continue;
+      }
+    }
+    return true;
+  }
+
+  async complete(request: Omit<CompletionRequest, "model">): Promise<RoutedResponse> {
+    const failures: string[] = [];
+    for (const route of this.routes()) {
+      const breaker = this.breaker(route.name);
+      if (breaker.state() === "open") {
+        const { openUntil } = breaker.snapshot(route.name);
+        failures.push(`${route.ref}: skipped, circuit open until ${openUntil}`);
+        continue;
+      }
+      let provider: ModelProvider;
+      try {
+        provider = this.provider(route);
+      } catch (error) {
+        // Configuration errors say nothing about the backend's health, so the breaker is left alone.
+        failures.push(`${route.ref}: ${errorMessage(error)}`);
+        continue;
+      }
+      let streamed = false;
+      const onDelta = request.onDelta;
+      const routeRequest: CompletionRequest = {
+        ...request,
+        model: route.model,
+        // Raw items are only meaningful to the route that produced them.
+        messages: request.messages.map((item) =>
+          item.role === "assistant" && item.raw !== undefined && item.source !== route.ref
+            ? { ...item, raw: undefined }
+            : item
+        )
+      };
+      for (let attempt = 0; ; attempt += 1) {
+        const startedAt = Date.now();
+        // A timed-out attempt may still deliver a late delta before its abort lands; it is dropped.
+        let live = true;
+        const attemptRequest: CompletionRequest = {
+          ...routeRequest,
+          onDelta: onDelta
+            ? (text) => {
+                if (!live) return;
+                streamed = true;
+                onDelta(text);
+              }
+            : undefined
+        };
+        try {
+          const completed = await this.withTimeout(provider, attemptRequest);
+          breaker.recordSuccess();
+          const response = completed.usage
+            ? completed
+            : { ...completed, usage: estimateUsage(attemptRequest, completed) };
+          return {
+            route: route.ref,
+            provider,
+            response,
+            latencyMs: Date.now() - startedAt,
+            usageReported: Boolean(completed.usage)
+          };
+        } catch (error) {
+          live = false;
+          // Text already shown to the user cannot be taken back, so a half-streamed reply is final.
+          if (streamed) {
+            breaker.recordFailure(errorMessage(error));
+            throw error;
+          }
+          if (isRetryableError(error) && attempt < this.config.agent.routing.maxRetries) {
+            await delay(this.config.agent.routing.retryBaseMs * 2 ** attempt);
+            continue;
+          }
+          breaker.recordFailure(errorMessage(error));
+          failures.push(`${route.ref}: ${errorMessage(error)}`);
+          break;
+        }
+      }
+    }
+    if (failures.length === 1) {
+      throw new Error(failures[0]);
+    }
+    throw new Error(`All model routes failed. ${failures.join("; ")}`);
+  }
+
+  health(): RouteHealth[] {
+    let routes: Route[];
+    try {
+      routes = this.routes();
+    } catch {
+      return [];
+    }
+    const names = routes
+      .map((route) => route.name)
+      .filter((name, index, arr) => arr.indexOf(name) === index);
+    return names.map((name) => this.breaker(name).snapshot(name));
+  }
+
+  private routes(): Route[] {
+    if (!this.routeList) {
+      const refs = [this.config.agent.model, ...this.config.agent.fallbackModels].filter(
+        (value, index, arr) => arr.indexOf(value) === index
+      );
+      this.routeList = refs.map((ref) => {
+        const { provider, model } = parseModelRef(ref);
+        return { ref, name: provider, model };
+      });
+    }
+    return this.routeList;
+  }
+
+  private provider(route: Route): ModelProvider {
+    let provider = this.providers.get(route.ref);
+    if (!provider) {
+      provider = createProvider(this.config, route.name);
+      this.providers.set(route.ref, provider);
+    }
+    return provider;
+  }
+
+  private breaker(name: ProviderName): CircuitBreaker {
+    let breaker = this.breakers.get(name);
+    if (!breaker) {
+      const { failureThreshold, cooldownMs } = this.config.agent.routing;
+      breaker = new CircuitBreaker(failureThreshold, cooldownMs);
+      this.breakers.set(name, breaker);
+    }
+    return breaker;
+  }
+
+  private async withTimeout(provider: ModelProvider, request: CompletionRequest): Promise<CompletionResponse> {
+    const timeoutMs = this.config.agent.routing.timeoutMs;
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new TimeoutError(timeoutMs));
+      }, timeoutMs);
+    });
+    try {
+      return await Promise.race([provider.complete({ ...request, signal: controller.signal }), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import type { AgentToolCall, AgentToolDefinition } from "../core/tools.js";
+
+/** Provider-neutral conversation used by the agent loop. */
+export type ConversationItem =
+  | { role: "user"; content: string }
+  | {
+      role: "assistant";
+      content: string;
+      toolCalls: AgentToolCall[];
+      /** Provider-specific items replayed verbatim by the provider that produced them. */
+      raw?: unknown;
+      /** `provider/model` that produced `raw`; other routes get the item without it. */
+      source?: string;
+    }
+  | { role: "tool"; callId: string; name: string; content: string };
+
+export interface CompletionRequest {
+  model: string;
+  system: string;
+  messages: ConversationItem[];
+  temperature: number;
+  tools?: AgentToolDefinition[];
+  /** "none" forbids tool calls on this request while keeping earlier tool turns valid. */
+  toolChoice?: "auto" | "none";
+  onDelta?: (delta: string) => void;
+  /** Aborted by the router when the request exceeds its timeout. */
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface CompletionResponse {
+  text: string;
+  toolCalls: AgentToolCall[];
+  raw?: unknown;
+  /** Token counts reported by the API; absent when the backend does not report usage. */
+  usage?: TokenUsage;
+}
+
+export interface ModelProvider {
+  readonly name: string;
+  /** False for providers that only take a flat prompt (Codex CLI); they fall back to gnami-action fences. */
+  readonly supportsTools: boolean;
+  complete(request: CompletionRequest): Promise<CompletionResponse>;
+}
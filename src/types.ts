@@ -1,4 +1,9 @@
-export type ChannelName = "webchat" | "telegram";
+import type { ActionResult, AgentAction } from "./core/actions.js";
+import type { IntegrationName } from "./integrations/types.js";
+
+export const CHANNEL_NAMES = ["webchat", "telegram", "discord", "slack", "whatsapp", "signal", "email"] as const;
+
+export type ChannelName = (typeof CHANNEL_NAMES)[number];
 
 export interface PairingRecord {
   channel: ChannelName;
@@ -8,25 +13,149 @@ export interface PairingRecord {
   createdAt: string;
 }
 
+export interface MemoryEventRecord {
+  /** `channel:senderId` of the conversation the memory write belonged to. */
+  sessionKey: string;
+  status: "saved" | "failed";
+  detail: string | null;
+  createdAt: string;
+}
+
 export interface MessageRecord {
   id: number;
   sessionId: number;
   direction: "inbound" | "outbound";
   content: string;
+  /** `provider/model` that answered, for outbound agent replies. */
+  model?: string | null;
   createdAt: string;
 }
 
+/** One conversation thread; a sender can have several, exactly one of them active. */
 export interface SessionRecord {
   id: number;
   channel: ChannelName;
   senderId: string;
+  title: string;
+  active: boolean;
+  /** Set on threads created by forking; the copied history ends at `forkedFromMessageId`. */
+  parentSessionId: number | null;
+  forkedFromMessageId: number | null;
+  /** The person behind a per-thread sender id (see `InboundMessage.pairingId`); null when it is the sender. */
+  pairingId: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface ThreadRecord extends SessionRecord {
+  messageCount: number;
+}
+
+export interface MessageSearchHit {
+  id: number;
+  sessionId: number;
+  channel: ChannelName;
+  senderId: string;
+  threadTitle: string;
+  direction: MessageRecord["direction"];
+  /** Matching excerpt with hits wrapped in `**`. */
+  snippet: string;
+  createdAt: string;
+}
+
+/** Rolling summary of a session's older messages, prepended to the model context. */
+export interface SessionSummaryRecord {
+  sessionId: number;
+  content: string;
+  /** Last message folded into `content`; later messages are still passed verbatim. */
+  throughMessageId: number;
+  /** True when the last write came from the API rather than the model. */
+  edited: boolean;
+  updatedAt: string;
+}
+
 export interface InboundMessage {
   channel: ChannelName;
   senderId: string;
+  /** Who has to be paired, when that differs from `senderId` (Discord, Slack, Signal groups and email pair a user once, not per channel or thread). */
+  pairingId?: string;
+  /** Text of the message; media is described here too, e.g. `[image] caption`. */
   content: string;
+  attachments?: InboundAttachment[];
   reply: (content: string) => Promise<void>;
+  /** Live progress hooks for channels that can render partial replies (webchat). */
+  stream?: InboundStream;
+}
+
+/** Media sent with an inbound message; `id` is the channel's own media handle. */
+export interface InboundAttachment {
+  kind: "image" | "audio" | "video" | "document" | "sticker";
+  id: string;
+  mimeType?: string;
+  filename?: string;
+  caption?: string;
+}
+
+/** Reply of a channel webhook handler, sent back by the gateway route as is. */
+export interface WebhookResponse {
+  status: number;
+  body?: unknown;
+}
+
+export type DeliveryStatus = "sent" | "delivered" | "read" | "failed";
+
+/** Delivery state of one outbound message on a channel that reports it (WhatsApp, Signal). */
+export interface DeliveryRecord {
+  channel: ChannelName;
+  /** The channel's own message id, e.g. a WhatsApp `wamid` or a Signal timestamp. */
+  externalId: string;
+  recipient: string;
+  status: DeliveryStatus;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface InboundStream {
+  delta: (text: string) => void;
+  actionStarted: (action: AgentAction, index: number) => void;
+  actionResult: (result: ActionResult, index: number) => void;
+}
+
+export type CronJobKind = "cron" | "at";
+
+export type CronJobTarget =
+  | { type: "agent"; prompt: string; channel?: ChannelName; to?: string }
+  | { type: "action"; action: AgentAction; channel?: ChannelName; to?: string }
+  | { type: "integration"; app: IntegrationName; action: string; params?: Record<string, unknown> };
+
+export interface CronJobRecord {
+  id: number;
+  name: string;
+  kind: CronJobKind;
+  expression: string;
+  timezone: string;
+  target: CronJobTarget;
+  enabled: boolean;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastStatus: "ok" | "failed" | null;
+  lastResult: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ApprovalStatus = "pending" | "approved" | "denied";
+
+export interface ApprovalRecord {
+  id: number;
+  sessionId: number;
+  channel: ChannelName;
+  senderId: string;
+  action: AgentAction;
+  request: string;
+  status: ApprovalStatus;
+  result: string | null;
+  createdAt: string;
+  resolvedAt: string | null;
 }
@@ -7,3 +7,6 @@ export const DATA_DIR = join(GNAMI_HOME, "data");
 export const DB_PATH = join(DATA_DIR, "gateway.sqlite");
 export const BASIC_MEMORY_PATH = join(DATA_DIR, "basic-memory.json");
 export const MEMORY_ENTITY_LOCK_PATH = join(DATA_DIR, "memory-entity.lock");
+export const SANDBOX_DIR = join(GNAMI_HOME, "sandbox");
+export const BACKUP_DIR = join(DATA_DIR, "backups");
+export const MASTER_KEY_PATH = join(GNAMI_HOME, "master.key");
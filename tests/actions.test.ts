@@ -0,0 +1,114 @@
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type * as Actions from "../src/core/actions.js";
+import type * as Config from "../src/core/config.js";
+import type * as IntegrationRuntime from "../src/integrations/runtime.js";
+import type { Store as StoreType } from "../src/core/store.js";
+
+// Paths derive from GNAMI_HOME at import time, so everything loads after it is set.
+let actions: typeof Actions;
+let store: StoreType;
+let ensureConfig: typeof Config.ensureConfig;
+let createIntegrationRuntime: typeof IntegrationRuntime.createIntegrationRuntime;
+
+beforeAll(async () => {
+  process.env.GNAMI_HOME = mkdtempSync(join(tmpdir(), "gnamiai-actions-"));
+  actions = await import("../src/core/actions.js");
+  ({ ensureConfig } = await import("../src/core/config.js"));
+  ({ createIntegrationRuntime } = await import("../src/integrations/runtime.js"));
+  const { Store } = await import("../src/core/store.js");
+  store = await Store.open({ keyring: null });
+});
+
+afterAll(() => {
+  store.close();
+});
+
+describe("agent actions", () => {
+  it("parses gnami-action blocks", () => {
+    const text = [
+      "Sure.",
+      "```gnami-action",
+      '{"type":"integration","app":"github","action":"list_issues","params":{"owner":"o","repo":"r"}}',
+      "```"
+    ].join("\n");
+    expect(actions.parseAgentActions(text)).toEqual([
+      { type: "integration", app: "github", action: "list_issues", params: { owner: "o", repo: "r" } }
+    ]);
+  });
+
+  it("gates side-effecting actions behind approval", async () => {
+    const integrations = createIntegrationRuntime(await ensureConfig());
+    expect(actions.requiresApproval({ type: "shell", command: "ls" })).toBe(true);
+    expect(actions.requiresApproval({ type: "install_skill", name: "x", content: "# x" })).toBe(true);
+    expect(
+      actions.requiresApproval(
+        { type: "integration", app: "twitter", action: "post_tweet", params: {} },
+        integrations
+      )
+    ).toBe(true);
+    expect(
+      actions.requiresApproval(
+        { type: "integration", app: "github", action: "list_issues", params: {} },
+        integrations
+      )
+    ).toBe(false);
+    expect(
+      actions.requiresApproval({ type: "integration", app: "github", action: "list_issues", params: {} })
+    ).toBe(true);
+  });
+
+  it("hides action blocks from streamed text even when markers are split", () => {
+    const text = 'Checking.\n```gnami-action\n{"type":"shell","command":"ls"}\n```\nDone `soon`.';
+    let visible = "";
+    const filter = actions.createActionStreamFilter((chunk) => {
+      visible += chunk;
+    });
+    for (let i = 0; i < text.length; i += 3) {
+      filter.push(text.slice(i, i + 3));
+    }
+    filter.flush();
+    expect(visible.trim().replace(/\n+/g, " ")).toBe(actions.stripAgentActions(text).replace(/\n+/g, " "));
+  });
+});
+
+describe("approval queue", () => {
+  const action = { type: "shell", command: "ls" } as const;
+
+  it("moves a pending approval to approved exactly once", () => {
+    const sessionId = store.getOrCreateSession("telegram", "alice");
+    const approval = store.addApproval(sessionId, "telegram", "alice", action, "list files");
+    expect(approval.status).toBe("pending");
+    expect(store.listApprovals("pending").map((entry) => entry.id)).toContain(approval.id);
+
+    expect(store.resolveApproval(approval.id, "approved")).toBe(true);
+    expect(store.getApproval(approval.id)?.status).toBe("approved");
+
+    // A second decision (a double tap, or /deny after /approve) must not flip it back.
+    expect(store.resolveApproval(approval.id, "denied")).toBe(false);
+    expect(store.resolveApproval(approval.id, "approved")).toBe(false);
+    expect(store.getApproval(approval.id)?.status).toBe("approved");
+  });
+
+  it("moves a pending approval to denied and keeps it there", () => {
+    const sessionId = store.getOrCreateSession("telegram", "alice");
+    const approval = store.addApproval(sessionId, "telegram", "alice", action, "list files");
+
+    expect(store.resolveApproval(approval.id, "denied")).toBe(true);
+    expect(store.resolveApproval(approval.id, "approved")).toBe(false);
+    expect(store.getApproval(approval.id)?.status).toBe("denied");
+    expect(store.listApprovals("pending").map((entry) => entry.id)).not.toContain(approval.id);
+  });
+
+  it("only lets the requesting sender on the same channel /approve", () => {
+    const sessionId = store.getOrCreateSession("telegram", "alice");
+    const approval = store.addApproval(sessionId, "telegram", "alice", action, "list files");
+
+    expect(store.getApprovalFor(approval.id, "telegram", "mallory")).toBeNull();
+    expect(store.getApprovalFor(approval.id, "discord", "alice")).toBeNull();
+    expect(store.getApprovalFor(approval.id, "telegram", "alice")?.id).toBe(approval.id);
+    expect(store.getApproval(approval.id)?.status).toBe("pending");
+  });
+});
@@ -0,0 +1,92 @@
+import { mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type * as Commands from "../src/commands/config.js";
+import type * as Config from "../src/core/config.js";
+
+let home: string;
+let config: typeof Config;
+let commands: typeof Commands;
+let output = "";
+
+function readSaved(): Config.GnamiConfig {
+  return JSON.parse(readFileSync(join(home, "gnamiai.json"), "utf-8"));
+}
+
+beforeAll(async () => {
+  home = mkdtempSync(join(tmpdir(), "gnamiai-config-cli-"));
+  process.env.GNAMI_HOME = home;
+  delete process.env.GNAMI_MASTER_KEY;
+  process.env.GNAMI_TEST_SLACK_TOKEN = "xoxb-from-env";
+  config = await import("../src/core/config.js");
+  commands = await import("../src/commands/config.js");
+  vi.spyOn(process.stdout, "write").mockImplementation((chunk) => {
+    output += String(chunk);
+    return true;
+  });
+});
+
+afterAll(() => {
+  delete process.env.GNAMI_TEST_SLACK_TOKEN;
+  vi.restoreAllMocks();
+});
+
+describe("config CLI", () => {
+  it("sets, reads and unsets values with validation", async () => {
+    writeFileSync(
+      join(home, "gnamiai.json"),
+      JSON.stringify({
+        gateway: { authToken: "secret-gateway-token" },
+        integrations: { slack: { enabled: true, botToken: "env:GNAMI_TEST_SLACK_TOKEN" } }
+      }),
+      "utf-8"
+    );
+
+    await commands.runConfigSet("gateway.port", "8080");
+    await commands.runConfigSet("agent.assistantName", "42");
+    await commands.runConfigSet("agent.fallbackModels", '["openai/gpt-5.2"]');
+    await commands.runConfigSet("agent.fallbackModels[0]", "local/llama");
+    let saved = readSaved();
+    expect(saved.gateway.port).toBe(8080);
+    expect(saved.agent.assistantName).toBe("42");
+    expect(saved.agent.fallbackModels).toEqual(["local/llama"]);
+    expect(saved.integrations.slack.botToken).toBe("env:GNAMI_TEST_SLACK_TOKEN");
+
+    await expect(commands.runConfigSet("gateway.port", "99999")).rejects.toThrow("gateway.port");
+    await expect(commands.runConfigSet("gateway.nope", "1")).rejects.toThrow('Unknown config key "gateway.nope"');
+    expect(readSaved().gateway.port).toBe(8080);
+
+    const loaded = await config.loadConfig();
+    expect(config.readConfigValue(loaded, ["gateway"])).toEqual({ port: 8080, authToken: "********" });
+    expect(config.readConfigValue(loaded, config.parseConfigPath("integrations.slack.botToken"))).toBe(
+      "env:GNAMI_TEST_SLACK_TOKEN"
+    );
+    output = "";
+    await commands.runConfigGet("gateway.authToken", {});
+    expect(output).toBe("********\n");
+
+    await commands.runConfigUnset("gateway.port");
+    await commands.runConfigUnset("integrations.slack.botToken");
+    saved = readSaved();
+    expect(saved.gateway.port).toBe(18789);
+    expect(saved.integrations.slack.botToken).toBeUndefined();
+  });
+
+  it("validates the file and exports a JSON Schema", async () => {
+    writeFileSync(join(home, "gnamiai.json"), JSON.stringify({ agent: { maxToolSteps: 0 } }), "utf-8");
+    output = "";
+    await commands.runConfigValidate();
+    expect(process.exitCode).toBe(1);
+    expect(output).toContain("agent.maxToolSteps");
+    process.exitCode = undefined;
+
+    const schema = config.configJsonSchema();
+    expect(schema).toMatchObject({
+      properties: {
+        gateway: { properties: { port: { type: "integer", default: 18789 } } },
+        retention: { properties: { channels: { propertyNames: { enum: expect.arrayContaining(["telegram"]) } } } }
+      }
+    });
+  });
+});
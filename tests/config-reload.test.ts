@@ -0,0 +1,98 @@
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import pino from "pino";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import type { GnamiConfig } from "../src/core/config.js";
+import type * as Runtime from "../src/gateway/runtime.js";
+
+let home: string;
+let runtime: typeof Runtime;
+const logger = pino({ level: "silent" });
+
+function writeConfig(value: unknown): void {
+  writeFileSync(join(home, "gnamiai.json"), typeof value === "string" ? value : JSON.stringify(value), "utf-8");
+}
+
+beforeAll(async () => {
+  home = mkdtempSync(join(tmpdir(), "gnamiai-config-reload-"));
+  process.env.GNAMI_HOME = home;
+  delete process.env.GNAMI_MASTER_KEY;
+  runtime = await import("../src/gateway/runtime.js");
+});
+
+describe("config reload", () => {
+  it("applies a valid config and keeps the running one when the file is invalid", async () => {
+    const apply = vi.fn((config: GnamiConfig) => [config.agent.assistantName]);
+    const reloader = new runtime.ConfigReloader(apply, logger);
+
+    writeConfig({ agent: { assistantName: "Nova" } });
+    const ok = await reloader.reload("api");
+    expect(ok).toMatchObject({ ok: true, trigger: "api", changed: ["Nova"] });
+    expect(apply).toHaveBeenCalledTimes(1);
+
+    writeConfig({ agent: { maxToolSteps: 99 } });
+    const invalid = await reloader.reload("api");
+    expect(invalid.ok).toBe(false);
+    expect(invalid.error).toContain("maxToolSteps");
+
+    writeConfig("{ not json");
+    expect((await reloader.reload("api")).ok).toBe(false);
+    expect(apply).toHaveBeenCalledTimes(1);
+    expect(reloader.last?.ok).toBe(false);
+  });
+
+  it("reloads when the watched config file changes", async () => {
+    writeConfig({ agent: { assistantName: "Before" } });
+    const seen: string[] = [];
+    const reloader = new runtime.ConfigReloader(
+      (config) => {
+        seen.push(config.agent.assistantName);
+        return [];
+      },
+      logger,
+      20
+    );
+    await reloader.start();
+    try {
+      writeConfig({ agent: { assistantName: "After" } });
+      await vi.waitFor(() => expect(seen).toEqual(["After"]), { timeout: 3000 });
+      expect(reloader.last?.trigger).toBe("watch");
+    } finally {
+      reloader.stop();
+    }
+  });
+
+  it("lists the top-level sections that changed", async () => {
+    const { loadConfig } = await import("../src/core/config.js");
+    writeConfig({});
+    const previous = await loadConfig();
+    const next = structuredClone(previous);
+    next.agent.assistantName = "Changed";
+    next.gateway.port = previous.gateway.port + 1;
+    expect(runtime.changedSections(previous, next)).toEqual(["gateway", "agent"]);
+  });
+
+  it("keeps an unchanged WhatsApp channel across a reload", async () => {
+    const { loadConfig } = await import("../src/core/config.js");
+    writeConfig({
+      channels: {
+        whatsapp: { accessToken: "token", phoneNumberId: "123", appSecret: "secret", verifyToken: "verify" }
+      }
+    });
+    const config = await loadConfig();
+    const context = { onMessage: vi.fn(), store: {} as Runtime.ChannelContext["store"], logger };
+    const first = runtime.createGatewayServices(config, context);
+    expect(first.whatsapp).not.toBeNull();
+
+    const renamed = structuredClone(config);
+    renamed.agent.assistantName = "Changed";
+    expect(runtime.createGatewayServices(renamed, context, first).whatsapp).toBe(first.whatsapp);
+
+    const rotated = structuredClone(config);
+    rotated.channels.whatsapp!.verifyToken = "rotated";
+    const next = runtime.createGatewayServices(rotated, context, first).whatsapp;
+    expect(next).not.toBeNull();
+    expect(next).not.toBe(first.whatsapp);
+  });
+});
@@ -0,0 +1,126 @@
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import pino from "pino";
+import { describe, expect, it } from "vitest";
+import { nextCronRun, parseRunAt, validateCronExpression } from "../src/core/cron.js";
+import { normalizeCronJob, Scheduler } from "../src/core/scheduler.js";
+
+describe("cron expressions", () => {
+  it("finds the next matching minute", () => {
+    const next = nextCronRun("*/15 * * * *", new Date("2026-03-01T10:07:30Z"));
+    expect(next.toISOString()).toBe("2026-03-01T10:15:00.000Z");
+  });
+
+  it("respects the time zone", () => {
+    const next = nextCronRun("0 9 * * 1-5", new Date("2026-03-06T20:00:00Z"), "America/Toronto");
+    // Friday evening -> Monday 09:00, after the DST switch (EDT, UTC-4).
+    expect(next.toISOString()).toBe("2026-03-09T13:00:00.000Z");
+  });
+
+  it("supports macros and names", () => {
+    expect(nextCronRun("@daily", new Date("2026-03-01T10:00:00Z")).toISOString()).toBe(
+      "2026-03-02T00:00:00.000Z"
+    );
+    expect(nextCronRun("0 0 1 jan *", new Date("2026-03-01T10:00:00Z")).toISOString()).toBe(
+      "2027-01-01T00:00:00.000Z"
+    );
+  });
+
+  it("rejects malformed expressions", () => {
+    expect(() => validateCronExpression("61 * * * *")).toThrow();
+    expect(() => validateCronExpression("* * *")).toThrow();
+  });
+
+  it("parses one-shot times in a zone", () => {
+    expect(parseRunAt("2026-07-01T09:00", "Europe/Paris").toISOString()).toBe(
+      "2026-07-01T07:00:00.000Z"
+    );
+    expect(parseRunAt("2026-07-01T09:00:00Z").toISOString()).toBe("2026-07-01T09:00:00.000Z");
+  });
+});
+
+describe("cron job normalization", () => {
+  it("computes the next run and rejects past one-shot jobs", () => {
+    const now = new Date("2026-03-01T10:00:00Z");
+    const job = normalizeCronJob(
+      {
+        name: "standup",
+        expression: "30 10 * * *",
+        timezone: "UTC",
+        target: { type: "agent", prompt: "Summarize my day" }
+      },
+      now
+    );
+    expect(job.nextRunAt).toBe("2026-03-01T10:30:00.000Z");
+    expect(() =>
+      normalizeCronJob(
+        {
+          name: "late",
+          kind: "at",
+          expression: "2026-02-01T09:00Z",
+          target: { type: "agent", prompt: "Too late" }
+        },
+        now
+      )
+    ).toThrow(/in the past/);
+  });
+});
+
+describe("cron scheduler", () => {
+  it("keeps edits made while a job runs", async () => {
+    // DB_PATH is derived from GNAMI_HOME at import time, so the store loads after it is set.
+    process.env.GNAMI_HOME = mkdtempSync(join(tmpdir(), "gnamiai-cron-"));
+    const { Store } = await import("../src/core/store.js");
+    const store = await Store.open({ keyring: null });
+    try {
+      const input = normalizeCronJob({
+        name: "standup",
+        expression: "*/5 * * * *",
+        timezone: "UTC",
+        target: { type: "agent", prompt: "Summarize my day" }
+      });
+      const oneShot = normalizeCronJob({
+        name: "reminder",
+        kind: "at",
+        expression: new Date(Date.now() + 3600000).toISOString(),
+        target: { type: "agent", prompt: "Renew the passport" }
+      });
+      const disabled = store.addCronJob(input);
+      const edited = store.addCronJob(oneShot);
+      const untouched = store.addCronJob({ ...oneShot, name: "untouched" });
+      const scheduler = new Scheduler(
+        store,
+        async (job) => {
+          if (job.id === disabled.id) store.updateCronJob(job.id, { ...input, enabled: false, nextRunAt: null });
+          if (job.id === edited.id) store.updateCronJob(job.id, { ...oneShot, name: "renamed" });
+          return `ran ${job.name}`;
+        },
+        pino({ level: "silent" })
+      );
+
+      await scheduler.tick(new Date(Date.now() + 2 * 3600000));
+
+      expect(store.getCronJob(disabled.id)).toMatchObject({
+        enabled: false,
+        nextRunAt: null,
+        lastStatus: "ok",
+        lastResult: "ran standup"
+      });
+      // Edited mid-run: the edit stands instead of the one-shot job retiring.
+      expect(store.getCronJob(edited.id)).toMatchObject({
+        name: "renamed",
+        enabled: true,
+        nextRunAt: oneShot.nextRunAt,
+        lastResult: "ran reminder"
+      });
+      expect(store.getCronJob(untouched.id)).toMatchObject({
+        enabled: false,
+        nextRunAt: null,
+        lastResult: "ran untouched"
+      });
+    } finally {
+      store.close();
+    }
+  });
+});
@@ -0,0 +1,166 @@
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { WebSocketServer, type WebSocket } from "ws";
+import { DiscordChannel, discordChannelId, discordSenderId } from "../src/channels/discord.js";
+import { splitMessage } from "../src/channels/text.js";
+import type { InboundMessage } from "../src/types.js";
+import { startStubServer, type StubServer } from "./helpers/stub-server.js";
+
+interface MockGateway {
+  url: string;
+  /** Payloads the client sent, per connection. */
+  received: Array<Array<{ op: number; d: unknown }>>;
+  sockets: WebSocket[];
+  close(): Promise<void>;
+}
+
+/** Minimal Discord gateway: HELLO on connect, READY after IDENTIFY, RESUMED after RESUME. */
+async function startMockGateway(): Promise<MockGateway> {
+  const server = new WebSocketServer({ port: 0, host: "127.0.0.1" });
+  await new Promise<void>((resolve) => server.once("listening", () => resolve()));
+  const url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/?v=10&encoding=json`;
+  const gateway: MockGateway = {
+    url,
+    received: [],
+    sockets: [],
+    close: () =>
+      new Promise<void>((resolve) => {
+        for (const socket of gateway.sockets) socket.terminate();
+        server.close(() => resolve());
+      })
+  };
+  server.on("connection", (socket) => {
+    const received: Array<{ op: number; d: unknown }> = [];
+    gateway.received.push(received);
+    gateway.sockets.push(socket);
+    socket.on("message", (data) => {
+      const payload = JSON.parse(data.toString()) as { op: number; d: unknown };
+      received.push(payload);
+      if (payload.op === 2) {
+        socket.send(
+          JSON.stringify({
+            op: 0,
+            s: 1,
+            t: "READY",
+            d: { session_id: "session-1", resume_gateway_url: url.split("?")[0], user: { id: "bot-1" } }
+          })
+        );
+      }
+      if (payload.op === 6) {
+        socket.send(JSON.stringify({ op: 0, s: 5, t: "RESUMED", d: {} }));
+      }
+    });
+    socket.send(JSON.stringify({ op: 10, d: { heartbeat_interval: 60000 } }));
+  });
+  return gateway;
+}
+
+function dispatchMessage(socket: WebSocket, seq: number, message: Record<string, unknown>): void {
+  socket.send(JSON.stringify({ op: 0, s: seq, t: "MESSAGE_CREATE", d: message }));
+}
+
+let cleanup: Array<() => Promise<void> | void> = [];
+
+afterEach(async () => {
+  for (const step of cleanup.reverse()) await step();
+  cleanup = [];
+});
+
+describe("discord channel", () => {
+  it("answers DMs and mentions in servers, replying to the triggering message", async () => {
+    const gateway = await startMockGateway();
+    const api: StubServer = await startStubServer(() => ({ json: { id: "reply-1" } }));
+    const inbound: InboundMessage[] = [];
+    const channel = new DiscordChannel(
+      {
+        botToken: "bot-token",
+        requireMention: true,
+        guilds: [],
+        gatewayUrl: gateway.url,
+        apiBaseUrl: api.baseUrl
+      },
+      async (message) => {
+        inbound.push(message);
+        await message.reply(`echo: ${message.content}`);
+      }
+    );
+    cleanup.push(
+      () => gateway.close(),
+      () => api.close(),
+      () => channel.stop()
+    );
+    channel.start();
+
+    await vi.waitFor(() => expect(channel.botUserId).toBe("bot-1"));
+    expect(gateway.received[0][0]).toMatchObject({ op: 2, d: { token: "bot-token" } });
+
+    const socket = gateway.sockets[0];
+    const author = { id: "user-1", username: "ada" };
+    dispatchMessage(socket, 2, { id: "m1", channel_id: "c1", guild_id: "g1", content: "chatter", author });
+    dispatchMessage(socket, 3, {
+      id: "m2",
+      channel_id: "c1",
+      guild_id: "g1",
+      content: "bot talk",
+      author: { id: "b2", bot: true }
+    });
+    dispatchMessage(socket, 4, {
+      id: "m3",
+      channel_id: "c1",
+      guild_id: "g1",
+      content: "<@bot-1> what's up?",
+      author,
+      mentions: [{ id: "bot-1" }]
+    });
+    dispatchMessage(socket, 5, { id: "m4", channel_id: "dm-1", content: "hello in private", author });
+
+    await vi.waitFor(() => expect(api.requests).toHaveLength(2));
+    expect(inbound.map((message) => [message.senderId, message.pairingId, message.content])).toEqual([
+      ["g1:c1:user-1", "user-1", "what's up?"],
+      ["dm:dm-1:user-1", "user-1", "hello in private"]
+    ]);
+    expect(api.requests[0]).toMatchObject({
+      method: "POST",
+      url: "/channels/c1/messages",
+      headers: { authorization: "Bot bot-token" },
+      body: { content: "echo: what's up?", message_reference: { message_id: "m3" } }
+    });
+    expect(api.requests[1].url).toBe("/channels/dm-1/messages");
+  });
+
+  it("resumes the session after the gateway drops the connection", async () => {
+    const gateway = await startMockGateway();
+    const channel = new DiscordChannel(
+      {
+        botToken: "bot-token",
+        requireMention: true,
+        guilds: [],
+        gatewayUrl: gateway.url,
+        apiBaseUrl: "http://127.0.0.1:9"
+      },
+      async () => undefined
+    );
+    cleanup.push(
+      () => gateway.close(),
+      () => channel.stop()
+    );
+    channel.start();
+    await vi.waitFor(() => expect(channel.botUserId).toBe("bot-1"));
+    gateway.sockets[0].send(JSON.stringify({ op: 0, s: 7, t: "TYPING_START", d: {} }));
+    gateway.sockets[0].send(JSON.stringify({ op: 7 }));
+
+    await vi.waitFor(() => expect(gateway.received[1]?.[0]).toBeDefined(), { timeout: 3000 });
+    expect(gateway.received[1][0]).toEqual({
+      op: 6,
+      d: { token: "bot-token", session_id: "session-1", seq: 7 }
+    });
+  });
+
+  it("maps sender ids to channels and splits long replies", () => {
+    expect(discordSenderId(undefined, "dm-1", "user-1")).toBe("dm:dm-1:user-1");
+    expect(discordChannelId("g1:c1:user-1")).toBe("c1");
+    expect(discordChannelId("112233445566778899")).toBe("112233445566778899");
+    const parts = splitMessage(`${"a".repeat(1500)}\n${"b".repeat(1500)}`, 2000);
+    expect(parts).toEqual(["a".repeat(1500), "b".repeat(1500)]);
+  });
+});
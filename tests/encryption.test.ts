@@ -0,0 +1,140 @@
+import { existsSync, mkdtempSync, readFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type * as Encryption from "../src/core/encryption.js";
+import type * as Config from "../src/core/config.js";
+import type * as Secrets from "../src/commands/secrets.js";
+import type { Store as StoreType } from "../src/core/store.js";
+import { scanMatch, toFtsQuery } from "../src/core/search.js";
+import { toExportRecords } from "../src/core/transfer.js";
+
+let home: string;
+let encryption: typeof Encryption;
+let config: typeof Config;
+let secrets: typeof Secrets;
+let Store: typeof StoreType;
+
+beforeAll(async () => {
+  home = mkdtempSync(join(tmpdir(), "gnamiai-encryption-"));
+  process.env.GNAMI_HOME = home;
+  delete process.env.GNAMI_MASTER_KEY;
+  encryption = await import("../src/core/encryption.js");
+  config = await import("../src/core/config.js");
+  secrets = await import("../src/commands/secrets.js");
+  ({ Store } = await import("../src/core/store.js"));
+  vi.spyOn(process.stdout, "write").mockImplementation(() => true);
+});
+
+afterAll(() => {
+  vi.restoreAllMocks();
+});
+
+describe("keyring", () => {
+  it("round-trips values and names the missing key", () => {
+    const key = encryption.parseMasterKey(encryption.generateMasterKey());
+    const other = encryption.parseMasterKey("correct horse battery staple");
+    const keyring = new encryption.Keyring([key]);
+    const sealed = keyring.encrypt("hello");
+    expect(sealed.startsWith(`enc:v1:${key.id}:`)).toBe(true);
+    expect(sealed).not.toBe(keyring.encrypt("hello"));
+    expect(keyring.decrypt(sealed)).toBe("hello");
+    expect(keyring.decrypt("plain")).toBe("plain");
+    expect(new encryption.Keyring([other, key]).decrypt(sealed)).toBe("hello");
+    expect(() => new encryption.Keyring([other]).decrypt(sealed)).toThrow(key.id);
+    expect(() => encryption.openValue(sealed, null)).toThrow("no master key");
+  });
+
+  it("scans decrypted text like the search index would", () => {
+    expect(scanMatch(toFtsQuery("passport renew*"), "Remind me to renew my Passport in May")).toBe(
+      "Remind me to **renew** my **Passport** in May"
+    );
+    expect(scanMatch(toFtsQuery("passport"), "one two three four passport five", 3)).toBe("…three four **passport**…");
+    expect(scanMatch(toFtsQuery('"cafe au lait"'), "Un café au lait, s'il vous plaît")).toContain("**café**");
+    expect(scanMatch(toFtsQuery("passport visa"), "passport only")).toBeNull();
+  });
+});
+
+describe("encrypted store and rotation", () => {
+  let store: StoreType;
+
+  afterAll(() => {
+    store?.close();
+  });
+
+  it("encrypts content, searches it and rotates the key", async () => {
+    await config.saveConfig({
+      ...(await config.loadConfig()),
+      gateway: { port: 18789, authToken: "super-secret-token" }
+    });
+    store = await Store.open();
+    const session = store.getOrCreateSession("telegram", "alice");
+    store.addMessage(session, "inbound", "my passport number is X123");
+    store.close();
+
+    await secrets.runSecretsRotate();
+    expect(existsSync(join(home, "master.key"))).toBe(true);
+    const firstKey = encryption.loadKeyring()?.current.id;
+    const raw = readFileSync(join(home, "gnamiai.json"), "utf-8");
+    expect(raw).not.toContain("super-secret-token");
+    expect((await config.loadConfig()).gateway.authToken).toBe("super-secret-token");
+
+    store = await Store.open();
+    store.addMessage(session, "outbound", "Noted your passport.");
+    const approval = store.addApproval(
+      session,
+      "telegram",
+      "alice",
+      { type: "shell", command: "cat ~/passport.txt" },
+      "show my passport scan"
+    );
+    store.setApprovalResult(approval.id, "passport X123");
+    const job = store.addCronJob({
+      name: "renewal",
+      kind: "at",
+      expression: "2030-01-01T00:00:00.000Z",
+      timezone: "UTC",
+      target: { type: "agent", prompt: "check" },
+      enabled: true,
+      nextRunAt: null
+    });
+    store.recordCronRun(job.id, { status: "ok", result: "passport renewal due" }, { nextRunAt: null, enabled: false });
+    expect(store.getApproval(approval.id)).toMatchObject({
+      action: { command: "cat ~/passport.txt" },
+      request: "show my passport scan",
+      result: "passport X123"
+    });
+    expect(store.getCronJob(job.id)?.lastResult).toBe("passport renewal due");
+    expect(store.getRecentMessages(session, 10).map((message) => message.content)).toEqual([
+      "my passport number is X123",
+      "Noted your passport."
+    ]);
+    const hits = store.searchMessages({ match: toFtsQuery("passport"), channel: "telegram" });
+    expect(hits.map((hit) => hit.snippet)).toEqual(["Noted your **passport**.", "my **passport** number is X123"]);
+    const exported = toExportRecords(store.exportData({}));
+    expect(store.importData(exported)).toMatchObject({ sessionsCreated: 0, messagesSkipped: 2 });
+    store.close();
+
+    const plainStore = await Store.open({ keyring: null });
+    expect(() => plainStore.getRecentMessages(session, 10)).toThrow("no master key");
+    expect(() => plainStore.getApproval(approval.id)).toThrow("no master key");
+    expect(() => plainStore.getCronJob(job.id)).toThrow("no master key");
+    plainStore.close();
+
+    await secrets.runSecretsRotate();
+    const rotated = encryption.loadKeyring();
+    expect(rotated?.keys).toHaveLength(1);
+    expect(rotated?.current.id).not.toBe(firstKey);
+    store = await Store.open();
+    expect(store.getRecentMessages(session, 10)).toHaveLength(2);
+    store.close();
+
+    await secrets.runSecretsDisable();
+    expect(existsSync(join(home, "master.key"))).toBe(false);
+    expect(readFileSync(join(home, "gnamiai.json"), "utf-8")).toContain("super-secret-token");
+    store = await Store.open();
+    expect(store.searchMessages({ match: toFtsQuery("X123") })).toHaveLength(1);
+    expect(store.getApproval(approval.id)?.result).toBe("passport X123");
+    expect(store.getCronJob(job.id)?.lastResult).toBe("passport renewal due");
+  });
+});
@@ -0,0 +1,195 @@
+import { createServer, type Server, type Socket } from "node:net";
+import type { AddressInfo } from "node:net";
+
+export interface StoredMail {
+  uid: number;
+  raw: string;
+  flags: Set<string>;
+}
+
+export interface ImapServer {
+  port: number;
+  mailbox: StoredMail[];
+  /** Every command received, without its tag. */
+  commands: string[];
+  /** Adds a message and tells clients waiting in IDLE. */
+  deliver(raw: string): void;
+  close(): Promise<void>;
+}
+
+export interface SentMail {
+  from: string;
+  to: string[];
+  /** The message as sent, dot-stuffing undone. */
+  data: string;
+  auth?: string;
+}
+
+export interface SmtpServer {
+  port: number;
+  sent: SentMail[];
+  /** Every command received outside DATA. */
+  commands: string[];
+  close(): Promise<void>;
+}
+
+function listen(server: Server, sockets: Set<Socket>): Promise<number> {
+  server.on("connection", (socket) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+  });
+  return new Promise((resolve) => server.listen(0, "127.0.0.1", () => resolve((server.address() as AddressInfo).port)));
+}
+
+function shutdown(server: Server, sockets: Set<Socket>): Promise<void> {
+  for (const socket of sockets) socket.destroy();
+  return new Promise((resolve) => server.close(() => resolve()));
+}
+
+/** Line-based reader; `handler` gets each CRLF-terminated line. */
+function onLines(socket: Socket, handler: (line: string) => void): void {
+  let buffer = "";
+  socket.on("data", (chunk) => {
+    buffer += chunk.toString("utf-8");
+    let end = buffer.indexOf("\r\n");
+    while (end >= 0) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      handler(line);
+      end = buffer.indexOf("\r\n");
+    }
+  });
+}
+
+/** A single-mailbox IMAP server with just what the email channel uses; `idle: false` drops IDLE. */
+export async function startImapServer(options: {
+  user: string;
+  password: string;
+  idle?: boolean;
+}): Promise<ImapServer> {
+  const mailbox: StoredMail[] = [];
+  const commands: string[] = [];
+  const idling = new Map<Socket, string>();
+  const sockets = new Set<Socket>();
+  let nextUid = 1;
+  const server = createServer((socket) => {
+    socket.write("* OK IMAP4rev1 test server ready\r\n");
+    onLines(socket, (line) => {
+      const idleTag = idling.get(socket);
+      if (idleTag) {
+        if (line === "DONE") {
+          idling.delete(socket);
+          socket.write(`${idleTag} OK IDLE terminated\r\n`);
+        }
+        return;
+      }
+      const [tag, ...words] = line.split(" ");
+      const command = words.join(" ");
+      commands.push(command);
+      const ok = (text = "completed") => socket.write(`${tag} OK ${text}\r\n`);
+      const upper = command.toUpperCase();
+      if (upper === "CAPABILITY") {
+        socket.write(`* CAPABILITY IMAP4rev1${options.idle === false ? "" : " IDLE"}\r\n`);
+        ok();
+      } else if (upper.startsWith("LOGIN ")) {
+        const [user, password] = [...command.matchAll(/"((?:\\.|[^"])*)"/g)].map((m) => m[1]);
+        if (user === options.user && password === options.password) ok();
+        else socket.write(`${tag} NO [AUTHENTICATIONFAILED] Invalid credentials\r\n`);
+      } else if (upper.startsWith("SELECT ")) {
+        socket.write(`* ${mailbox.length} EXISTS\r\n* OK [UIDVALIDITY 7] UIDs valid\r\n* OK [UIDNEXT ${nextUid}]\r\n`);
+        ok("[READ-WRITE] SELECT completed");
+      } else if (upper.startsWith("UID SEARCH UID ")) {
+        const from = Number(command.slice(15).split(":")[0]);
+        const last = mailbox.at(-1)?.uid;
+        // Like real servers, `n:*` includes the newest message even when its UID is below n.
+        const uids = mailbox.filter((mail) => mail.uid >= from).map((mail) => mail.uid);
+        socket.write(`* SEARCH ${(uids.length > 0 ? uids : last ? [last] : []).join(" ")}\r\n`);
+        ok();
+      } else if (upper.startsWith("UID FETCH ")) {
+        const uid = Number(words[2]);
+        const index = mailbox.findIndex((mail) => mail.uid === uid);
+        if (index >= 0) {
+          const raw = mailbox[index].raw;
+          socket.write(`* ${index + 1} FETCH (UID ${uid} BODY[] {${Buffer.byteLength(raw)}}\r\n${raw})\r\n`);
+        }
+        ok();
+      } else if (upper.startsWith("UID STORE ")) {
+        const mail = mailbox.find((entry) => entry.uid === Number(words[2]));
+        for (const flag of /\(([^)]*)\)/.exec(command)?.[1].split(" ") ?? []) mail?.flags.add(flag);
+        ok();
+      } else if (upper === "IDLE" && options.idle !== false) {
+        idling.set(socket, tag);
+        socket.write("+ idling\r\n");
+      } else if (upper === "LOGOUT") {
+        socket.write("* BYE\r\n");
+        ok();
+        socket.end();
+      } else {
+        socket.write(`${tag} BAD unknown command\r\n`);
+      }
+    });
+  });
+  const port = await listen(server, sockets);
+  return {
+    port,
+    mailbox,
+    commands,
+    deliver(raw) {
+      mailbox.push({ uid: nextUid, raw, flags: new Set() });
+      nextUid += 1;
+      for (const socket of idling.keys()) socket.write(`* ${mailbox.length} EXISTS\r\n`);
+    },
+    close: () => shutdown(server, sockets)
+  };
+}
+
+/** An SMTP server that accepts every message and offers AUTH PLAIN, without STARTTLS. */
+export async function startSmtpServer(): Promise<SmtpServer> {
+  const sent: SentMail[] = [];
+  const commands: string[] = [];
+  const sockets = new Set<Socket>();
+  const server = createServer((socket) => {
+    let current: SentMail = { from: "", to: [], data: "" };
+    let inData = false;
+    let data: string[] = [];
+    socket.write("220 localhost ESMTP test server\r\n");
+    onLines(socket, (line) => {
+      if (inData) {
+        if (line === ".") {
+          inData = false;
+          sent.push({ ...current, data: `${data.join("\r\n")}\r\n` });
+          current = { from: "", to: [], data: "", ...(current.auth ? { auth: current.auth } : {}) };
+          data = [];
+          socket.write("250 OK queued\r\n");
+        } else {
+          data.push(line.startsWith("..") ? line.slice(1) : line);
+        }
+        return;
+      }
+      commands.push(line);
+      const upper = line.toUpperCase();
+      if (upper.startsWith("EHLO ")) {
+        socket.write("250-localhost greets you\r\n250-8BITMIME\r\n250 AUTH PLAIN\r\n");
+      } else if (upper.startsWith("AUTH PLAIN ")) {
+        current.auth = Buffer.from(line.slice(11), "base64").toString("utf-8");
+        socket.write("235 Authentication succeeded\r\n");
+      } else if (upper.startsWith("MAIL FROM:")) {
+        current.from = /<([^>]*)>/.exec(line)?.[1] ?? "";
+        socket.write("250 OK\r\n");
+      } else if (upper.startsWith("RCPT TO:")) {
+        current.to.push(/<([^>]*)>/.exec(line)?.[1] ?? "");
+        socket.write("250 OK\r\n");
+      } else if (upper === "DATA") {
+        inData = true;
+        socket.write("354 End data with <CR><LF>.<CR><LF>\r\n");
+      } else if (upper === "QUIT") {
+        socket.write("221 Bye\r\n");
+        socket.end();
+      } else {
+        socket.write("502 Command not implemented\r\n");
+      }
+    });
+  });
+  const port = await listen(server, sockets);
+  return { port, sent, commands, close: () => shutdown(server, sockets) };
+}
@@ -0,0 +1,67 @@
+import { createServer, type IncomingHttpHeaders } from "node:http";
+import type { AddressInfo } from "node:net";
+
+export interface StubRequest {
+  method: string;
+  /** Path plus query string, e.g. `/v1/messages?x=1`. */
+  url: string;
+  headers: IncomingHttpHeaders;
+  body: Record<string, unknown>;
+}
+
+export interface SseEvent {
+  event?: string;
+  data: unknown;
+}
+
+/** One canned reply. `sse` events are written as `text/event-stream`; strings are sent as-is in `data:`. */
+export type StubReply =
+  | { status?: number; json: unknown }
+  | { status?: number; sse: Array<SseEvent | string> };
+
+export interface StubServer {
+  baseUrl: string;
+  requests: StubRequest[];
+  close(): Promise<void>;
+}
+
+/** Local HTTP server standing in for a model API. The handler sees every request in order. */
+export async function startStubServer(
+  handler: (request: StubRequest, index: number) => StubReply
+): Promise<StubServer> {
+  const requests: StubRequest[] = [];
+  const server = createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const raw = Buffer.concat(chunks).toString("utf-8");
+    const request: StubRequest = {
+      method: req.method ?? "GET",
+      url: req.url ?? "/",
+      headers: req.headers,
+      body: raw ? (JSON.parse(raw) as Record<string, unknown>) : {}
+    };
+    requests.push(request);
+    const reply = handler(request, requests.length - 1);
+    if ("json" in reply) {
+      res.writeHead(reply.status ?? 200, { "content-type": "application/json" });
+      res.end(JSON.stringify(reply.json));
+      return;
+    }
+    res.writeHead(reply.status ?? 200, { "content-type": "text/event-stream" });
+    for (const entry of reply.sse) {
+      if (typeof entry === "string") {
+        res.write(`data: ${entry}\n\n`);
+      } else {
+        res.write(`${entry.event ? `event: ${entry.event}\n` : ""}data: ${JSON.stringify(entry.data)}\n\n`);
+      }
+    }
+    res.end();
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve()))
+  };
+}
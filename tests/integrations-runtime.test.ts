@@ -1,3 +1,6 @@
+import { mkdtempSync, readFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { describe, expect, it } from "vitest";
 import { ensureConfig } from "../src/core/config.js";
 import { createIntegrationRuntime } from "../src/integrations/runtime.js";
@@ -30,3 +33,42 @@ describe("integrations runtime", () => {
   });
 });
 
+describe("integration action catalog", () => {
+  it("publishes examples that satisfy each action schema", async () => {
+    const runtime = createIntegrationRuntime(await ensureConfig());
+    for (const entry of runtime.describe()) {
+      expect(entry.actions.length).toBeGreaterThan(0);
+      for (const action of entry.actions) {
+        const spec = runtime.actionSpec(entry.app, action.name);
+        expect(spec?.params.safeParse(action.example).success, `${entry.app}.${action.name}`).toBe(true);
+      }
+    }
+    const browser = runtime.describe().find((entry) => entry.app === "browser");
+    // Params with defaults are optional for callers.
+    expect(browser?.actions.find((action) => action.name === "extract_text")?.params.required).toEqual(["url"]);
+  });
+
+  it("validates params before executing", async () => {
+    const config = await ensureConfig();
+    const vaultPath = mkdtempSync(join(tmpdir(), "gnamiai-vault-"));
+    const runtime = createIntegrationRuntime({
+      ...config,
+      integrations: { ...config.integrations, obsidian: { enabled: true, vaultPath } }
+    });
+    await expect(runtime.exec({ app: "obsidian", action: "append_note", params: {} })).rejects.toThrow(
+      /Invalid params for obsidian.append_note/
+    );
+    await expect(runtime.exec({ app: "obsidian", action: "delete_note", params: {} })).rejects.toThrow(
+      /Available: append_note, read_note, overwrite_note/
+    );
+    await expect(
+      runtime.exec({ app: "obsidian", action: "append_note", params: { notePath: "Inbox.md", content: "  " } })
+    ).rejects.toThrow(/Invalid params for obsidian.append_note/);
+    await runtime.exec({
+      app: "obsidian",
+      action: "append_note",
+      params: { notePath: " Inbox.md ", content: "hello" }
+    });
+    expect(readFileSync(join(vaultPath, "Inbox.md"), "utf-8")).toBe("hello\n");
+  });
+});
@@ -0,0 +1,73 @@
+import { existsSync, mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import Database from "better-sqlite3";
+import { beforeAll, describe, expect, it } from "vitest";
+
+// BACKUP_DIR is derived from GNAMI_HOME at import time.
+let home: string;
+let migrations: typeof import("../src/core/migrations.js");
+
+beforeAll(async () => {
+  home = mkdtempSync(join(tmpdir(), "gnamiai-migrations-"));
+  process.env.GNAMI_HOME = home;
+  migrations = await import("../src/core/migrations.js");
+});
+
+describe("schema migrations", () => {
+  it("applies every migration once to a new database without a backup", async () => {
+    const db = new Database(":memory:");
+    const first = await migrations.migrateDatabase(db);
+
+    expect(first.backupPath).toBeNull();
+    const versions = migrations.MIGRATIONS.map((entry) => entry.version);
+    expect(first.applied.map((entry) => entry.version)).toEqual(versions);
+    expect(await migrations.migrateDatabase(db)).toEqual({ applied: [], backupPath: null });
+    expect(migrations.schemaStatus(db)).toMatchObject({
+      current: migrations.LATEST_SCHEMA_VERSION,
+      pending: []
+    });
+    db.close();
+  });
+
+  it("backs up an existing database and rolls back a failing migration", async () => {
+    const path = join(home, "existing.sqlite");
+    const db = new Database(path);
+    await migrations.migrateDatabase(db);
+    db.prepare("INSERT INTO pairings(channel, sender_id, approved, code, created_at) VALUES (?, ?, 1, ?, ?)")
+      .run("telegram", "alice", "123456", new Date().toISOString());
+    const latest = migrations.LATEST_SCHEMA_VERSION;
+    const broken = [
+      ...migrations.MIGRATIONS,
+      {
+        version: latest + 1,
+        name: "half done",
+        up: (target: Database.Database) => {
+          target.exec("CREATE TABLE half_done (id INTEGER)");
+          throw new Error("boom");
+        }
+      }
+    ];
+
+    await expect(migrations.migrateDatabase(db, { migrations: broken })).rejects.toThrow(
+      `Migration ${latest + 1} (half done) failed and was rolled back: boom`
+    );
+    expect(db.prepare("SELECT name FROM sqlite_master WHERE name = 'half_done'").get()).toBeUndefined();
+    expect(migrations.schemaStatus(db).current).toBe(latest);
+
+    const fixed = [...migrations.MIGRATIONS, { version: latest + 1, name: "note", up: () => undefined }];
+    const result = await migrations.migrateDatabase(db, { migrations: fixed });
+    expect(result.applied.map((entry) => entry.version)).toEqual([latest + 1]);
+    expect(result.backupPath).toMatch(new RegExp(`-v${latest}\\.sqlite$`));
+    expect(existsSync(result.backupPath as string)).toBe(true);
+
+    const backup = new Database(result.backupPath as string, { readonly: true });
+    expect(migrations.schemaStatus(backup).current).toBe(latest);
+    expect(backup.prepare("SELECT COUNT(*) as count FROM pairings").get()).toEqual({ count: 1 });
+    backup.close();
+
+    // The database is now ahead of the migrations this build knows about.
+    await expect(migrations.migrateDatabase(db)).rejects.toThrow(/newer than this build supports/);
+    db.close();
+  });
+});
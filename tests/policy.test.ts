@@ -0,0 +1,117 @@
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { evaluateActionPolicy, type ActionPolicy } from "../src/core/policy.js";
+
+function policy(overrides: Partial<ActionPolicy> = {}): ActionPolicy {
+  return {
+    shell: { enabled: true, allow: [], deny: [], allowedCwds: [] },
+    integrations: {},
+    overrides: [],
+    ...overrides
+  };
+}
+
+describe("action policy", () => {
+  it("applies shell allow and deny patterns per command segment", () => {
+    const rules = policy({
+      shell: { enabled: true, allow: ["git status", "/^ls( |$)/"], deny: ["rm"], allowedCwds: [] }
+    });
+    expect(evaluateActionPolicy(rules, { type: "shell", command: "git status" }).allowed).toBe(true);
+    expect(evaluateActionPolicy(rules, { type: "shell", command: "ls -la" }).allowed).toBe(true);
+    expect(evaluateActionPolicy(rules, { type: "shell", command: "git status && curl x" }).allowed).toBe(
+      false
+    );
+    expect(evaluateActionPolicy(rules, { type: "shell", command: "ls; rm -rf /" })).toMatchObject({
+      allowed: false,
+      reason: expect.stringContaining("denied")
+    });
+    expect(evaluateActionPolicy(rules, { type: "shell", command: "ls & rm -rf ~" })).toMatchObject({
+      allowed: false,
+      reason: expect.stringContaining("denied")
+    });
+  });
+
+  it("refuses redirection and process substitution under a shell allowlist", () => {
+    const rules = policy({ shell: { enabled: true, allow: ["ls", "cat", "diff"], deny: [], allowedCwds: [] } });
+    for (const command of ["ls > ~/.bashrc", "ls >> ~/.bashrc", "cat < /etc/shadow", "diff <(ls) x", "ls >(cat)"]) {
+      expect(evaluateActionPolicy(rules, { type: "shell", command })).toMatchObject({
+        allowed: false,
+        reason: expect.stringContaining("Redirection")
+      });
+    }
+    expect(evaluateActionPolicy(rules, { type: "shell", command: "ls & cat x" }).allowed).toBe(true);
+    expect(evaluateActionPolicy(policy(), { type: "shell", command: "ls > out.txt 2>&1" }).allowed).toBe(true);
+  });
+
+  it("restricts working directories and environment", () => {
+    const rules = policy({
+      shell: {
+        enabled: true,
+        allow: [],
+        deny: [],
+        allowedCwds: ["/tmp/sandbox"],
+        envAllowlist: ["PATH"]
+      }
+    });
+    expect(
+      evaluateActionPolicy(rules, { type: "shell", command: "ls", cwd: "/etc" }).allowed
+    ).toBe(false);
+    const decision = evaluateActionPolicy(rules, { type: "shell", command: "ls", cwd: "/tmp/sandbox/a" });
+    expect(decision.allowed).toBe(true);
+    if (decision.allowed) {
+      expect(Object.keys(decision.env ?? {})).toEqual(process.env.PATH ? ["PATH"] : []);
+    }
+  });
+
+  it("leaves sandboxed working directories to the sandbox", () => {
+    const rules = policy({
+      shell: { enabled: true, allow: [], deny: [], allowedCwds: ["/tmp/projects"] }
+    });
+    // A sandboxed cwd is relative to the sender's sandbox root, not to the gateway's working directory.
+    const decision = evaluateActionPolicy(rules, { type: "shell", command: "ls", cwd: "build" }, { sandboxed: true });
+    expect(decision).toEqual({ allowed: true, cwd: undefined });
+    expect(evaluateActionPolicy(rules, { type: "shell", command: "ls", cwd: "build" }).allowed).toBe(false);
+  });
+
+  it("applies integration allowlists with channel overrides", () => {
+    const rules = policy({
+      integrations: { github: ["list_issues"] },
+      overrides: [{ channel: "webchat", integrations: { github: ["list_issues", "create_issue"] } }]
+    });
+    const action = { type: "integration", app: "github", action: "create_issue" } as const;
+    expect(evaluateActionPolicy(rules, action, { channel: "telegram" }).allowed).toBe(false);
+    expect(evaluateActionPolicy(rules, action, { channel: "webchat" }).allowed).toBe(true);
+  });
+
+  it("keeps global shell rules an override from the config file does not set", async () => {
+    const home = mkdtempSync(join(tmpdir(), "gnamiai-policy-"));
+    process.env.GNAMI_HOME = home;
+    writeFileSync(
+      join(home, "gnamiai.json"),
+      JSON.stringify({
+        policy: {
+          shell: { enabled: true, deny: ["rm -rf"] },
+          overrides: [
+            { channel: "telegram", shell: { envAllowlist: ["PATH"] } },
+            { channel: "slack", shell: { enabled: false } },
+            { senderId: "ops", shell: { deny: [] } }
+          ]
+        }
+      }),
+      "utf-8"
+    );
+    const { loadConfig } = await import("../src/core/config.js");
+    const { policy: rules } = await loadConfig();
+    const remove = { type: "shell", command: "rm -rf ~" } as const;
+
+    expect(rules.overrides[0].shell).toEqual({ envAllowlist: ["PATH"] });
+    expect(evaluateActionPolicy(rules, remove, { channel: "telegram" })).toMatchObject({ allowed: false });
+    expect(evaluateActionPolicy(rules, { type: "shell", command: "ls" }, { channel: "slack" })).toMatchObject({
+      allowed: false,
+      reason: "Shell actions are disabled by policy."
+    });
+    expect(evaluateActionPolicy(rules, remove, { channel: "webchat", senderId: "ops" }).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,159 @@
+import { mkdtempSync } from "node:fs";
+import { readFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { GnamiConfig } from "../src/core/config.js";
+import type { Store as StoreType } from "../src/core/store.js";
+import type * as Privacy from "../src/core/privacy.js";
+import type { MemoryService as MemoryServiceType } from "../src/core/memory.js";
+
+let home: string;
+let store: StoreType;
+let config: GnamiConfig;
+let memory: MemoryServiceType;
+let privacy: typeof Privacy;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+beforeAll(async () => {
+  home = mkdtempSync(join(tmpdir(), "gnamiai-privacy-"));
+  process.env.GNAMI_HOME = home;
+  process.env.MEM0_API_KEY = "test-key";
+  const { Store } = await import("../src/core/store.js");
+  const { loadConfig } = await import("../src/core/config.js");
+  const { MemoryService } = await import("../src/core/memory.js");
+  privacy = await import("../src/core/privacy.js");
+  store = await Store.open();
+  config = await loadConfig();
+  memory = new MemoryService(config);
+});
+
+afterAll(() => {
+  store?.close();
+  vi.restoreAllMocks();
+});
+
+function withRetention(retention: Partial<GnamiConfig["retention"]>): GnamiConfig {
+  return { ...config, retention: { ...config.retention, ...retention } };
+}
+
+describe("retention", () => {
+  it("merges per-channel rules over the defaults", () => {
+    const rules = privacy.retentionRules(
+      withRetention({ maxAgeDays: 30, channels: { telegram: { maxMessages: 3 } } })
+    );
+    expect(rules).toEqual({
+      webchat: { maxAgeDays: 30 },
+      telegram: { maxAgeDays: 30, maxMessages: 3 },
+      discord: { maxAgeDays: 30 },
+      slack: { maxAgeDays: 30 },
+      whatsapp: { maxAgeDays: 30 },
+      signal: { maxAgeDays: 30 },
+      email: { maxAgeDays: 30 }
+    });
+    expect(privacy.retentionRules(config)).toEqual({});
+  });
+
+  it("purges by age and per-thread count, reporting the same counts on a dry run", async () => {
+    const now = new Date();
+    const session = store.getOrCreateSession("telegram", "purge-me");
+    for (let index = 0; index < 5; index += 1) {
+      store.addMessage(session, "inbound", `message ${index}`);
+    }
+    const last = store.getRecentMessages(session, 1)[0];
+    store.saveSessionSummary(session, "Five messages about nothing.", last.id);
+    store.addMemoryEvent("telegram:purge-me", "saved", "backend:basic");
+    const keep = store.getOrCreateSession("webchat", "keep-me");
+    store.addMessage(keep, "inbound", "still here");
+    const later = new Date(now.getTime() + 2 * DAY_MS);
+    const settings = withRetention({ channels: { telegram: { maxAgeDays: 1, maxMessages: 2 } } });
+
+    const dryRun = await privacy.runPurge(store, memory, settings, { dryRun: true, now });
+    expect(dryRun.channels).toEqual([{ channel: "telegram", messages: 3, memoryEvents: 0 }]);
+    expect(dryRun.summaries).toBe(1);
+    expect(store.getRecentMessages(session, 10)).toHaveLength(5);
+
+    const report = await privacy.runPurge(store, memory, settings, { now: later });
+    expect(report.channels).toEqual([{ channel: "telegram", messages: 5, memoryEvents: 1 }]);
+    expect(store.getRecentMessages(session, 10)).toHaveLength(0);
+    expect(store.getSessionSummary(session)).toBeNull();
+    expect(store.getRecentMessages(keep, 10)).toHaveLength(1);
+    expect(privacy.formatPurgeReport(report)).toContain("telegram: deleted 5 messages, 1 memory events");
+  });
+});
+
+describe("forget", () => {
+  it("deletes one sender's threads, pairing, memory events and local notes", async () => {
+    store.upsertPairing("telegram", "alice");
+    const alice = store.getOrCreateSession("telegram", "alice");
+    store.addMessage(alice, "inbound", "my secret plans");
+    store.createThread("telegram", "alice", "side quest");
+    store.addMemoryEvent("telegram:alice", "saved", "backend:basic");
+    const bob = store.getOrCreateSession("telegram", "bob");
+    store.addMessage(bob, "inbound", "hi");
+    await writeFile(join(home, "data", "memory-entity.lock"), "gnamiai:telegram:alice", "utf-8");
+    await writeFile(
+      join(home, "data", "basic-memory.json"),
+      JSON.stringify({ users: { "gnamiai:telegram:alice": { notes: ["User: remember my plans"], skills: {} } } }),
+      "utf-8"
+    );
+    const fetchMock = vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response("{}", { status: 200 }));
+
+    const preview = await privacy.forgetSender(store, memory, "telegram", "alice", { dryRun: true });
+    expect(preview.data).toMatchObject({ sessions: 2, messages: 1, pairings: 1, memoryEvents: 1 });
+    expect(preview.memory).toMatchObject({ userIds: ["gnamiai:telegram:alice"], notes: 1, mem0: "dry-run" });
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(store.listThreads("telegram", "alice")).toHaveLength(2);
+
+    const report = await privacy.forgetSender(store, memory, "telegram", "alice");
+    expect(report.data).toEqual(preview.data);
+    expect(report.memory.mem0).toBe("deleted");
+    const [url, init] = fetchMock.mock.calls[0] as [URL, RequestInit];
+    expect(init.method).toBe("DELETE");
+    expect(url.searchParams.get("user_id")).toBe("gnamiai:telegram:alice");
+    expect(store.listThreads("telegram", "alice")).toHaveLength(0);
+    expect(store.searchMessages({ match: '"secret"' })).toHaveLength(0);
+    expect(store.exportData({ channel: "telegram", senderId: "alice" }).pairings).toHaveLength(0);
+    expect(store.getRecentMessages(bob, 10)).toHaveLength(1);
+    const notes = JSON.parse(await readFile(join(home, "data", "basic-memory.json"), "utf-8"));
+    expect(notes.users["gnamiai:telegram:alice"]).toBeUndefined();
+  });
+
+  it("forgets every thread of a Discord user paired by user id, from either id", async () => {
+    await writeFile(join(home, "data", "memory-entity.lock"), "owner", "utf-8");
+    store.upsertPairing("discord", "u42");
+    const general = store.getOrCreateSession("discord", "g1:c1:u42", "u42");
+    store.addMessage(general, "inbound", "my discord secret");
+    const dm = store.getOrCreateSession("discord", "u42", "u42");
+    store.addMessage(dm, "inbound", "direct message");
+    store.createThread("discord", "g1:c1:u42", "side quest");
+    store.addMemoryEvent("discord:g1:c1:u42", "saved", "backend:basic");
+    const other = store.getOrCreateSession("discord", "g1:c1:u7", "u7");
+    store.addMessage(other, "inbound", "someone else");
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response("{}", { status: 200 }));
+
+    const bySession = await privacy.forgetSender(store, memory, "discord", "g1:c1:u42", { dryRun: true });
+    expect(bySession.data).toMatchObject({ sessions: 3, messages: 2, pairings: 1, memoryEvents: 1 });
+    expect(bySession.memory.userIds).toEqual(["gnamiai:discord:u42", "gnamiai:discord:g1:c1:u42"]);
+
+    const report = await privacy.forgetSender(store, memory, "discord", "u42");
+    expect(report.data).toEqual(bySession.data);
+    expect(store.listThreads("discord", "g1:c1:u42")).toHaveLength(0);
+    expect(store.listThreads("discord", "u42")).toHaveLength(0);
+    expect(store.exportData({ channel: "discord" }).pairings).toHaveLength(0);
+    expect(store.getRecentMessages(other, 10)).toHaveLength(1);
+  });
+
+  it("keeps a memory entity shared with other senders unless asked", async () => {
+    await writeFile(join(home, "data", "memory-entity.lock"), "owner", "utf-8");
+    const kept = await privacy.forgetSender(store, memory, "telegram", "bob", { dryRun: true });
+    expect(kept.memory.sharedEntity).toBe("owner");
+    expect(privacy.formatForgetReport(kept)).toContain("--include-shared-memory");
+    const all = await privacy.forgetSender(store, memory, "telegram", "bob", {
+      dryRun: true,
+      includeSharedMemory: true
+    });
+    expect(all.memory.userIds).toEqual(["gnamiai:telegram:bob", "owner"]);
+  });
+});
@@ -0,0 +1,275 @@
+import { chmodSync, mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { delimiter, join } from "node:path";
+import OpenAI from "openai";
+import { afterEach, describe, expect, it } from "vitest";
+import { ensureConfig, type GnamiConfig } from "../src/core/config.js";
+import { AgentToolset } from "../src/core/tools.js";
+import { AgentRuntime, type AgentTurn } from "../src/providers/agent.js";
+import { runCodexExec } from "../src/providers/codex-cli.js";
+import { OpenAIResponsesProvider } from "../src/providers/openai.js";
+import { providerConfigIssues } from "../src/providers/registry.js";
+import { startStubServer, type StubReply, type StubServer } from "./helpers/stub-server.js";
+
+let stub: StubServer | null = null;
+
+afterEach(async () => {
+  await stub?.close();
+  stub = null;
+});
+
+async function configFor(model: string, providers: GnamiConfig["providers"]): Promise<GnamiConfig> {
+  const base = await ensureConfig();
+  return { ...base, agent: { ...base.agent, model }, providers };
+}
+
+function echoTurn(executed: string[]): AgentTurn {
+  return {
+    tools: new AgentToolset(),
+    maxSteps: 2,
+    execute: async (actions) => {
+      executed.push(...actions.map((action) => (action.type === "shell" ? action.command : action.type)));
+      return actions.map((action) => ({ action, ok: true, output: "hi" }));
+    }
+  };
+}
+
+function chatReply(content: string): StubReply {
+  return {
+    json: {
+      id: "chat-1",
+      object: "chat.completion",
+      created: 0,
+      model: "m",
+      choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content } }]
+    }
+  };
+}
+
+describe("model providers", () => {
+  it("anthropic runs a tool round-trip over the Messages API", async () => {
+    stub = await startStubServer((_request, index) => ({
+      json: {
+        content:
+          index === 0
+            ? [{ type: "tool_use", id: "toolu_1", name: "shell", input: { command: "echo hi" } }]
+            : [{ type: "text", text: "It printed hi." }]
+      }
+    }));
+    const config = await configFor("anthropic/claude-test", {
+      anthropic: { apiKey: "sk-ant-test", baseUrl: stub.baseUrl }
+    });
+    const executed: string[] = [];
+    const reply = await new AgentRuntime(config).runTurn(
+      { input: "say hi", history: [], thinking: "low" },
+      echoTurn(executed)
+    );
+
+    expect(reply).toBe("It printed hi.");
+    expect(executed).toEqual(["echo hi"]);
+    const [first, second] = stub.requests;
+    expect(first.url).toBe("/v1/messages");
+    expect(first.headers["x-api-key"]).toBe("sk-ant-test");
+    expect(first.headers["anthropic-version"]).toBe("2023-06-01");
+    expect(first.body).toMatchObject({ model: "claude-test", max_tokens: 4096, tool_choice: { type: "auto" } });
+    expect(second.body.tool_choice).toEqual({ type: "none" });
+    expect(second.body.messages).toContainEqual({
+      role: "user",
+      content: [{ type: "tool_result", tool_use_id: "toolu_1", content: "hi" }]
+    });
+  });
+
+  it("anthropic streams text deltas", async () => {
+    stub = await startStubServer(() => ({
+      sse: [
+        { event: "message_start", data: { type: "message_start" } },
+        {
+          event: "content_block_start",
+          data: { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } }
+        },
+        {
+          event: "content_block_delta",
+          data: { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Hel" } }
+        },
+        {
+          event: "content_block_delta",
+          data: { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "lo" } }
+        },
+        { event: "message_stop", data: { type: "message_stop" } }
+      ]
+    }));
+    const config = await configFor("anthropic/claude-test", {
+      anthropic: { apiKey: "sk-ant-test", baseUrl: stub.baseUrl }
+    });
+    const deltas: string[] = [];
+    const reply = await new AgentRuntime(config).respond({
+      input: "hello",
+      history: [],
+      thinking: "medium",
+      onDelta: (delta) => deltas.push(delta)
+    });
+
+    expect(reply).toBe("Hello");
+    expect(deltas).toEqual(["Hel", "lo"]);
+    expect(stub.requests[0].body.stream).toBe(true);
+  });
+
+  it("gemini replays model parts and returns function responses", async () => {
+    stub = await startStubServer((_request, index) => ({
+      json: {
+        candidates: [
+          {
+            content: {
+              role: "model",
+              parts:
+                index === 0
+                  ? [{ functionCall: { name: "shell", args: { command: "echo hi" } }, thoughtSignature: "sig" }]
+                  : [{ text: "Gemini says hi." }]
+            }
+          }
+        ]
+      }
+    }));
+    const config = await configFor("gemini/gemini-test", {
+      gemini: { apiKey: "g-test", baseUrl: stub.baseUrl }
+    });
+    const executed: string[] = [];
+    const reply = await new AgentRuntime(config).runTurn(
+      { input: "say hi", history: [], thinking: "low" },
+      echoTurn(executed)
+    );
+
+    expect(reply).toBe("Gemini says hi.");
+    expect(executed).toEqual(["echo hi"]);
+    const [first, second] = stub.requests;
+    expect(first.url).toBe("/v1beta/models/gemini-test:generateContent");
+    expect(first.headers["x-goog-api-key"]).toBe("g-test");
+    expect(first.body.toolConfig).toEqual({ functionCallingConfig: { mode: "AUTO" } });
+    expect(second.body.contents).toEqual([
+      expect.objectContaining({ role: "user" }),
+      {
+        role: "model",
+        parts: [{ functionCall: { name: "shell", args: { command: "echo hi" } }, thoughtSignature: "sig" }]
+      },
+      { role: "user", parts: [{ functionResponse: { name: "shell", response: { content: "hi" } } }] }
+    ]);
+  });
+
+  it("azure routes the deployment and api-version into the URL", async () => {
+    stub = await startStubServer(() => chatReply("From Azure."));
+    const config = await configFor("azure/my-deployment", {
+      azure: { endpoint: stub.baseUrl, apiKey: "az-test" }
+    });
+    const reply = await new AgentRuntime(config).respond({ input: "hi", history: [], thinking: "low" });
+
+    expect(reply).toBe("From Azure.");
+    expect(stub.requests[0].url).toBe(
+      "/openai/deployments/my-deployment/chat/completions?api-version=2024-10-21"
+    );
+    expect(stub.requests[0].headers["api-key"]).toBe("az-test");
+  });
+
+  it("openrouter sends attribution headers", async () => {
+    stub = await startStubServer(() => chatReply("From OpenRouter."));
+    const config = await configFor("openrouter/anthropic/claude-test", {
+      openrouter: { apiKey: "or-test", baseUrl: `${stub.baseUrl}/api/v1`, siteUrl: "https://example.com" }
+    });
+    const reply = await new AgentRuntime(config).respond({ input: "hi", history: [], thinking: "low" });
+
+    expect(reply).toBe("From OpenRouter.");
+    const [request] = stub.requests;
+    expect(request.url).toBe("/api/v1/chat/completions");
+    expect(request.body.model).toBe("anthropic/claude-test");
+    expect(request.headers.authorization).toBe("Bearer or-test");
+    expect(request.headers["x-title"]).toBe("GnamiAI");
+    expect(request.headers["http-referer"]).toBe("https://example.com");
+  });
+
+  it("compatible streams with custom headers", async () => {
+    const chunk = (content: string) => ({
+      id: "c",
+      object: "chat.completion.chunk",
+      created: 0,
+      model: "m",
+      choices: [{ index: 0, delta: { content }, finish_reason: null }]
+    });
+    stub = await startStubServer(() => ({ sse: [{ data: chunk("Str") }, { data: chunk("eamed") }, "[DONE]"] }));
+    const config = await configFor("compatible/llama", {
+      compatible: { baseUrl: `${stub.baseUrl}/v1`, headers: { "X-Tenant": "acme" } }
+    });
+    const deltas: string[] = [];
+    const reply = await new AgentRuntime(config).respond({
+      input: "hi",
+      history: [],
+      thinking: "low",
+      onDelta: (delta) => deltas.push(delta)
+    });
+
+    expect(reply).toBe("Streamed");
+    expect(deltas).toEqual(["Str", "eamed"]);
+    expect(stub.requests[0].headers["x-tenant"]).toBe("acme");
+  });
+
+  it("reports missing provider config before any request", async () => {
+    const config = await configFor("compatible/llama", {});
+    expect(providerConfigIssues(config, "compatible")).toEqual([
+      "providers.compatible.baseUrl is required for compatible/<model>."
+    ]);
+    await expect(
+      new AgentRuntime(config).respond({ input: "hi", history: [], thinking: "low" })
+    ).rejects.toThrow(/baseUrl is required/);
+  });
+
+  it("openai does not fall back to another model after streaming part of a reply", async () => {
+    const delta = (text: string) => ({
+      event: "response.output_text.delta",
+      data: { type: "response.output_text.delta", item_id: "msg_1", output_index: 0, content_index: 0, delta: text }
+    });
+    // The stream drops before `response.completed`.
+    stub = await startStubServer(() => ({ sse: [delta("Hel"), delta("lo")] }));
+    const client = new OpenAI({ apiKey: "test-key", baseURL: `${stub.baseUrl}/v1`, maxRetries: 0 });
+    const provider = new OpenAIResponsesProvider(client, "fallback-model");
+    const deltas: string[] = [];
+
+    await expect(
+      provider.complete({
+        model: "primary-model",
+        system: "Be brief.",
+        messages: [{ role: "user", content: "hi" }],
+        onDelta: (text) => deltas.push(text)
+      })
+    ).rejects.toThrow(/ended before the response completed/);
+    expect(deltas).toEqual(["Hel", "lo"]);
+    expect(stub.requests.map((request) => request.body.model)).toEqual(["primary-model"]);
+  });
+
+  it.skipIf(process.platform === "win32")("codex cli is killed when the request is aborted", async () => {
+    const bin = mkdtempSync(join(tmpdir(), "gnamiai-codex-"));
+    const pidFile = join(bin, "pid");
+    writeFileSync(join(bin, "codex"), `#!/bin/sh\necho $$ > "${pidFile}"\nexec sleep 30\n`);
+    chmodSync(join(bin, "codex"), 0o755);
+    const path = process.env.PATH;
+    process.env.PATH = `${bin}${delimiter}${path ?? ""}`;
+    try {
+      const controller = new AbortController();
+      const running = runCodexExec("gpt-5", "hello", () => undefined, controller.signal);
+      await expect.poll(() => readFileSync(pidFile, "utf-8").trim(), { timeout: 5000 }).not.toBe("");
+      const pid = Number(readFileSync(pidFile, "utf-8"));
+      controller.abort();
+      // Rejects without falling back to `npx @openai/codex`, and the CLI process is gone.
+      await expect(running).rejects.toThrow(/abort/i);
+      await expect
+        .poll(() => {
+          try {
+            process.kill(pid, 0);
+            return true;
+          } catch {
+            return false;
+          }
+        })
+        .toBe(false);
+    } finally {
+      process.env.PATH = path;
+    }
+  });
+});
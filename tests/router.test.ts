@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { ensureConfig, type GnamiConfig } from "../src/core/config.js";
+import { AgentRuntime } from "../src/providers/agent.js";
+import { startStubServer, type StubReply, type StubServer } from "./helpers/stub-server.js";
+
+const stubs: StubServer[] = [];
+
+afterEach(async () => {
+  await Promise.all(stubs.splice(0).map((stub) => stub.close()));
+});
+
+async function stub(handler: (index: number) => StubReply): Promise<StubServer> {
+  const server = await startStubServer((_request, index) => handler(index));
+  stubs.push(server);
+  return server;
+}
+
+function chatReply(content: string): StubReply {
+  return {
+    json: {
+      id: "chat-1",
+      object: "chat.completion",
+      created: 0,
+      model: "m",
+      choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content } }]
+    }
+  };
+}
+
+async function chainConfig(
+  primary: StubServer,
+  fallback: StubServer,
+  routing: Partial<GnamiConfig["agent"]["routing"]> = {}
+): Promise<GnamiConfig> {
+  const base = await ensureConfig();
+  return {
+    ...base,
+    agent: {
+      ...base.agent,
+      model: "local/primary",
+      localBaseUrl: `${primary.baseUrl}/v1`,
+      fallbackModels: ["compatible/backup"],
+      routing: { ...base.agent.routing, retryBaseMs: 0, ...routing }
+    },
+    providers: { compatible: { baseUrl: `${fallback.baseUrl}/v1` } }
+  };
+}
+
+async function ask(agent: AgentRuntime): Promise<{ reply: string; route: string | null }> {
+  let route: string | null = null;
+  const reply = await agent.respond({
+    input: "hi",
+    history: [],
+    thinking: "low",
+    onRoute: (value) => {
+      route = value;
+    }
+  });
+  return { reply, route };
+}
+
+describe("model router", () => {
+  it("retries 429 responses on the same provider", async () => {
+    const primary = await stub((index) =>
+      index === 0 ? { status: 429, json: { error: { message: "slow down" } } } : chatReply("primary ok")
+    );
+    const fallback = await stub(() => chatReply("fallback ok"));
+    const result = await ask(new AgentRuntime(await chainConfig(primary, fallback)));
+
+    expect(result).toEqual({ reply: "primary ok", route: "local/primary" });
+    expect(primary.requests).toHaveLength(2);
+    expect(fallback.requests).toHaveLength(0);
+  });
+
+  it("falls back across providers once retries are exhausted", async () => {
+    const primary = await stub(() => ({ status: 503, json: { error: { message: "down" } } }));
+    const fallback = await stub(() => chatReply("fallback ok"));
+    const result = await ask(new AgentRuntime(await chainConfig(primary, fallback, { maxRetries: 2 })));
+
+    expect(result).toEqual({ reply: "fallback ok", route: "compatible/backup" });
+    expect(primary.requests).toHaveLength(3);
+    expect(fallback.requests[0].body.model).toBe("backup");
+  });
+
+  it("opens the circuit after repeated failures and skips the provider", async () => {
+    const primary = await stub(() => ({ status: 400, json: { error: { message: "bad request" } } }));
+    const fallback = await stub(() => chatReply("fallback ok"));
+    const agent = new AgentRuntime(await chainConfig(primary, fallback, { failureThreshold: 2 }));
+
+    await ask(agent);
+    await ask(agent);
+    expect(agent.routeHealth()[0]).toMatchObject({ provider: "local", state: "open", consecutiveFailures: 2 });
+    const third = await ask(agent);
+
+    expect(third.route).toBe("compatible/backup");
+    expect(primary.requests).toHaveLength(2);
+    expect(fallback.requests).toHaveLength(3);
+  });
+
+  it("reports every route when the whole chain fails", async () => {
+    const primary = await stub(() => ({ status: 500, json: {} }));
+    const fallback = await stub(() => ({ status: 500, json: {} }));
+    const agent = new AgentRuntime(await chainConfig(primary, fallback, { maxRetries: 0 }));
+
+    await expect(ask(agent)).rejects.toThrow(/All model routes failed\. local\/primary: .*; compatible\/backup: /);
+  });
+});
@@ -0,0 +1,105 @@
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { beforeAll, describe, expect, it } from "vitest";
+import type { SandboxConfig } from "../src/core/sandbox.js";
+
+// SANDBOX_DIR is derived from GNAMI_HOME at import time, so modules load after it is set.
+let executeAgentActions: typeof import("../src/core/actions.js").executeAgentActions;
+let scrubEnv: typeof import("../src/core/sandbox.js").scrubEnv;
+let sandboxDirName: typeof import("../src/core/sandbox.js").sandboxDirName;
+let collectConfigSecrets: typeof import("../src/core/sandbox.js").collectConfigSecrets;
+let loadConfig: typeof import("../src/core/config.js").loadConfig;
+let home: string;
+
+const sandboxConfig: SandboxConfig = {
+  enabled: true,
+  maxOutputBytes: 128,
+  cpuSeconds: 10,
+  memoryMb: 512,
+  denyNetwork: false
+};
+
+const openPolicy = {
+  shell: { enabled: true, allow: [], deny: [], allowedCwds: [] },
+  integrations: {},
+  overrides: []
+};
+
+beforeAll(async () => {
+  home = mkdtempSync(join(tmpdir(), "gnamiai-sandbox-"));
+  process.env.GNAMI_HOME = home;
+  ({ executeAgentActions } = await import("../src/core/actions.js"));
+  ({ scrubEnv, collectConfigSecrets, sandboxDirName } = await import("../src/core/sandbox.js"));
+  ({ loadConfig } = await import("../src/core/config.js"));
+});
+
+describe("sandboxed shell", () => {
+  it("drops credential variables and configured secret values", () => {
+    const env = scrubEnv(
+      { PATH: "/bin", OPENAI_API_KEY: "sk-1", SLACK_BOT_TOKEN: "x", CUSTOM: "hunter22-secret", LANG: "C" },
+      ["hunter22-secret"]
+    );
+    expect(env).toEqual({ PATH: "/bin", LANG: "C" });
+  });
+
+  it("gives senders that slug alike their own directories", () => {
+    expect(sandboxDirName("webchat", "alice")).toMatch(/^webchat-alice-[0-9a-f]{16}$/);
+    expect(sandboxDirName("webchat", "a-b")).not.toBe(sandboxDirName("webchat-a", "b"));
+    expect(sandboxDirName("webchat", "a.b")).not.toBe(sandboxDirName("webchat", "a_b"));
+    expect(sandboxDirName("webchat", "Alice")).not.toBe(sandboxDirName("webchat", "alice"));
+  });
+
+  it.skipIf(process.platform === "win32")("runs in a per-session directory and caps output", async () => {
+    const options = {
+      policy: openPolicy,
+      context: { channel: "webchat", senderId: "alice" },
+      sandbox: { config: sandboxConfig, secretValues: [] }
+    };
+    const [cwd, homeVar, loud] = await executeAgentActions(
+      [
+        { type: "shell", command: "pwd" },
+        { type: "shell", command: "echo $HOME" },
+        { type: "shell", command: "yes gnami | head -c 500" }
+      ],
+      options
+    );
+    const root = join(home, "sandbox", sandboxDirName("webchat", "alice"));
+    expect(cwd.output).toBe(root);
+    expect(homeVar.output).toBe(root);
+    expect(loud.output).toContain("[output truncated at 128 bytes");
+
+    const [escape] = await executeAgentActions([{ type: "shell", command: "pwd", cwd: "../.." }], options);
+    expect(escape).toMatchObject({ ok: false, output: expect.stringContaining("outside the sandbox") });
+  });
+
+  it.skipIf(process.platform === "win32")("redacts provider keys and the gateway token", async () => {
+    const apiKey = "sk-ant-test-0123456789";
+    writeFileSync(
+      join(home, "gnamiai.json"),
+      JSON.stringify({
+        gateway: { authToken: "gateway-token-0123" },
+        providers: { anthropic: { apiKey } }
+      }),
+      "utf-8"
+    );
+    const secretValues = collectConfigSecrets(await loadConfig());
+    expect(secretValues).toEqual(expect.arrayContaining([apiKey, "gateway-token-0123"]));
+
+    process.env.GNAMI_TEST_LEAKED = apiKey;
+    try {
+      const [result] = await executeAgentActions(
+        [{ type: "shell", command: `echo "key=${apiKey}"; echo "$GNAMI_TEST_LEAKED"` }],
+        {
+          policy: openPolicy,
+          context: { channel: "webchat", senderId: "alice" },
+          sandbox: { config: sandboxConfig, secretValues }
+        }
+      );
+      // Printed output is redacted, and the value never reaches the command's environment.
+      expect(result.output).toBe("key=[redacted]");
+    } finally {
+      delete process.env.GNAMI_TEST_LEAKED;
+    }
+  });
+});
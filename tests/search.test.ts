@@ -0,0 +1,80 @@
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { toFtsQuery } from "../src/core/search.js";
+import type { Store as StoreType } from "../src/core/store.js";
+
+// Paths are derived from GNAMI_HOME at import time, so modules that touch them load after it is set.
+let store: StoreType;
+let actions: typeof import("../src/core/actions.js");
+
+beforeAll(async () => {
+  process.env.GNAMI_HOME = mkdtempSync(join(tmpdir(), "gnamiai-search-"));
+  const { Store } = await import("../src/core/store.js");
+  actions = await import("../src/core/actions.js");
+  store = await Store.open();
+  const alice = store.getOrCreateSession("telegram", "alice");
+  store.addMessage(alice, "inbound", "Remind me to renew the passport before the Lisbon trip");
+  store.addMessage(alice, "outbound", "Noted: passport renewal before Lisbon.");
+  store.addMessage(alice, "inbound", "What was the café called?");
+  const bob = store.getOrCreateSession("webchat", "bob");
+  store.addMessage(bob, "inbound", "My passport number is private");
+});
+
+afterAll(() => {
+  store?.close();
+});
+
+describe("toFtsQuery", () => {
+  it("quotes words, keeps phrases and prefixes, and neutralises operators", () => {
+    expect(toFtsQuery('renew "lisbon trip" pass*')).toBe('"renew" "lisbon trip" "pass"*');
+    expect(toFtsQuery("a OR b NOT c")).toBe('"a" "OR" "b" "NOT" "c"');
+    expect(() => toFtsQuery('  "" * ')).toThrow("Search query is empty.");
+  });
+});
+
+describe("message search", () => {
+  it("finds messages with filters and highlighted snippets", () => {
+    const hits = store.searchMessages({ match: toFtsQuery("passport") });
+    expect(hits).toHaveLength(3);
+
+    const inbound = store.searchMessages({
+      match: toFtsQuery("passport"),
+      channel: "telegram",
+      direction: "inbound"
+    });
+    expect(inbound).toEqual([
+      expect.objectContaining({ senderId: "alice", threadTitle: "default", direction: "inbound" })
+    ]);
+    expect(inbound[0].snippet).toContain("**passport**");
+
+    expect(store.searchMessages({ match: toFtsQuery("cafe") })).toHaveLength(1);
+    expect(store.searchMessages({ match: toFtsQuery("passport"), until: new Date("2000-01-01") })).toEqual([]);
+  });
+
+  it("indexes messages copied into a fork", () => {
+    const sessionId = store.getOrCreateSession("telegram", "alice");
+    const fork = store.forkThread(sessionId, store.getThreadMessageId(sessionId, 2) as number, "trip");
+    const hits = store.searchMessages({ match: toFtsQuery("lisbon"), senderId: "alice" });
+    expect(hits.filter((hit) => hit.sessionId === fork?.id)).toHaveLength(2);
+  });
+
+  it("lets the agent search only its own sender's history without approval", async () => {
+    const action = { type: "search_history" as const, query: "passport" };
+    expect(actions.requiresApproval(action)).toBe(false);
+
+    const [result] = await actions.executeAgentActions([action], {
+      store,
+      context: { channel: "webchat", senderId: "bob" }
+    });
+    expect(result.ok).toBe(true);
+    expect(result.output).toContain("webchat:bob");
+    expect(result.output).not.toContain("alice");
+
+    for (const context of [{}, { channel: "webchat" }, undefined]) {
+      const [refused] = await actions.executeAgentActions([action], { store, context });
+      expect(refused).toMatchObject({ ok: false, output: expect.stringContaining("known sender") });
+    }
+  });
+});
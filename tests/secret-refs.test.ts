@@ -0,0 +1,80 @@
+import { mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type * as Config from "../src/core/config.js";
+import { envVarName, parseSecretRef } from "../src/core/env.js";
+
+let home: string;
+let config: typeof Config;
+
+beforeAll(async () => {
+  home = mkdtempSync(join(tmpdir(), "gnamiai-secret-refs-"));
+  process.env.GNAMI_HOME = home;
+  delete process.env.GNAMI_MASTER_KEY;
+  process.env.GNAMI_TEST_SLACK_TOKEN = "xoxb-from-env";
+  config = await import("../src/core/config.js");
+});
+
+afterAll(() => {
+  delete process.env.GNAMI_TEST_SLACK_TOKEN;
+});
+
+describe("secret references", () => {
+  it("parses references and derives env var names", () => {
+    expect(parseSecretRef("env:SLACK_BOT_TOKEN")).toEqual({ kind: "env", target: "SLACK_BOT_TOKEN" });
+    expect(parseSecretRef("file:/run/secrets/x")).toEqual({ kind: "file", target: "/run/secrets/x" });
+    expect(parseSecretRef("env:not a name")).toBeNull();
+    expect(parseSecretRef("plain-token")).toBeNull();
+    expect(envVarName("slack", "botToken")).toBe("SLACK_BOT_TOKEN");
+    expect(envVarName("hue", "appKey")).toBe("HUE_APP_KEY");
+  });
+
+  it("resolves env and file references at load time and writes them back on save", async () => {
+    const secretFile = join(home, "github-token");
+    writeFileSync(secretFile, "ghp_from_file\n", "utf-8");
+    writeFileSync(
+      join(home, "gnamiai.json"),
+      JSON.stringify({
+        integrations: {
+          slack: { enabled: true, botToken: "env:GNAMI_TEST_SLACK_TOKEN" },
+          github: { enabled: true, token: `file:${secretFile}` },
+          discord: { enabled: true, botToken: "env:GNAMI_TEST_MISSING" },
+          twitter: { enabled: true, bearerToken: "literal-bearer" }
+        }
+      }),
+      "utf-8"
+    );
+
+    const loaded = await config.loadConfig();
+    expect(loaded.integrations.slack.botToken).toBe("xoxb-from-env");
+    expect(loaded.integrations.github.token).toBe("ghp_from_file");
+    expect(loaded.integrations.discord.botToken).toBeUndefined();
+    expect(config.configSecretRefs(loaded)).toContainEqual({
+      path: "integrations.discord.botToken",
+      ref: "env:GNAMI_TEST_MISSING",
+      resolved: false
+    });
+
+    loaded.integrations.github.enabled = false;
+    await config.saveConfig(loaded);
+    const saved = JSON.parse(readFileSync(join(home, "gnamiai.json"), "utf-8"));
+    expect(saved.integrations.slack.botToken).toBe("env:GNAMI_TEST_SLACK_TOKEN");
+    expect(saved.integrations.github).toEqual({ enabled: false, token: `file:${secretFile}` });
+    expect(saved.integrations.discord.botToken).toBe("env:GNAMI_TEST_MISSING");
+    expect(config.findPlaintextSecrets(saved)).toEqual(["integrations.twitter.bearerToken"]);
+  });
+
+  it("names an unresolved reference on a required field", async () => {
+    writeFileSync(
+      join(home, "gnamiai.json"),
+      JSON.stringify({ channels: { discord: { botToken: "env:GNAMI_TEST_MISSING" } } }),
+      "utf-8"
+    );
+    const error = await config.loadConfig().catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(Error);
+    expect(config.formatConfigError(error)).toBe(
+      `Unresolved secret reference in ${join(home, "gnamiai.json")}: channels.discord.botToken (env:GNAMI_TEST_MISSING)`
+    );
+  });
+});
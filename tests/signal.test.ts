@@ -0,0 +1,230 @@
+import { createServer, type Server, type Socket } from "node:net";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { SignalChannel } from "../src/channels/signal.js";
+import { SignalAdapter } from "../src/integrations/adapters/communications.js";
+import type { InboundMessage } from "../src/types.js";
+
+const ACCOUNT = "+15145550100";
+const SENT_TIMESTAMP = 1760000000123;
+
+interface MockDaemon {
+  port: number;
+  requests: Array<{ method: string; params: Record<string, unknown> }>;
+  sockets: Set<Socket>;
+  /** Pushes a `receive` notification to every connected client. */
+  receive(envelope: Record<string, unknown>): void;
+  close(): Promise<void>;
+}
+
+/** Stands in for `signal-cli daemon --tcp`: newline-delimited JSON-RPC. */
+async function startMockDaemon(): Promise<MockDaemon> {
+  const requests: MockDaemon["requests"] = [];
+  const sockets = new Set<Socket>();
+  const server: Server = createServer((socket) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+    let buffer = "";
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString();
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      for (const line of lines.filter(Boolean)) {
+        const request = JSON.parse(line) as { id: number; method: string; params: Record<string, unknown> };
+        requests.push({ method: request.method, params: request.params });
+        const result =
+          request.method === "send"
+            ? { timestamp: SENT_TIMESTAMP, results: [] }
+            : request.method === "getUserStatus"
+              ? [{ recipient: ACCOUNT, number: ACCOUNT, uuid: "uuid-bot", isRegistered: true }]
+              : {};
+        socket.write(`${JSON.stringify({ jsonrpc: "2.0", id: request.id, result })}\n`);
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+  return {
+    port: (server.address() as AddressInfo).port,
+    requests,
+    sockets,
+    receive(envelope) {
+      const line = JSON.stringify({ jsonrpc: "2.0", method: "receive", params: { envelope, account: ACCOUNT } });
+      for (const socket of sockets) socket.write(`${line}\n`);
+    },
+    close: () =>
+      new Promise<void>((resolve) => {
+        for (const socket of sockets) socket.destroy();
+        server.close(() => resolve());
+      })
+  };
+}
+
+function channelConfig(port: number) {
+  return {
+    account: ACCOUNT,
+    host: "127.0.0.1",
+    port,
+    autoStart: false,
+    signalCliPath: "signal-cli",
+    requireMention: true,
+    groups: [],
+    readReceipts: true,
+    typingIndicators: true
+  };
+}
+
+let cleanup: Array<() => Promise<void> | void> = [];
+
+afterEach(async () => {
+  for (const step of cleanup.reverse()) await step();
+  cleanup = [];
+});
+
+describe("signal channel", () => {
+  it("answers direct and mentioned group messages over the daemon connection", async () => {
+    const daemon = await startMockDaemon();
+    const inbound: InboundMessage[] = [];
+    const store = { recordDelivery: vi.fn() };
+    const channel = new SignalChannel(
+      channelConfig(daemon.port),
+      async (message) => {
+        inbound.push(message);
+        await message.reply(`echo: ${message.content}`);
+      },
+      store
+    );
+    cleanup.push(
+      () => daemon.close(),
+      () => channel.stop()
+    );
+    channel.start();
+    await vi.waitFor(() => expect(channel.connected).toBe(true));
+
+    daemon.receive({
+      sourceNumber: "+15145550123",
+      sourceUuid: "uuid-alice",
+      timestamp: 1001,
+      dataMessage: { timestamp: 1001, message: "hello" }
+    });
+    await vi.waitFor(() => expect(daemon.requests.filter((r) => r.method === "sendTyping")).toHaveLength(2));
+    expect(daemon.requests).toEqual([
+      { method: "sendReceipt", params: { recipient: "+15145550123", targetTimestamp: [1001], type: "read" } },
+      { method: "sendTyping", params: { recipient: ["+15145550123"] } },
+      { method: "send", params: { recipient: ["+15145550123"], message: "echo: hello" } },
+      { method: "sendTyping", params: { recipient: ["+15145550123"], stop: true } }
+    ]);
+    expect(store.recordDelivery).toHaveBeenCalledWith("signal", String(SENT_TIMESTAMP), "+15145550123", "sent");
+
+    const group = { groupInfo: { groupId: "R3JvdXA=", type: "DELIVER" } };
+    daemon.receive({ sourceNumber: "+15145550124", dataMessage: { timestamp: 1002, message: "chatter", ...group } });
+    daemon.receive({
+      sourceNumber: "+15145550124",
+      dataMessage: {
+        timestamp: 1003,
+        message: "\uFFFC what's the plan?",
+        mentions: [{ number: ACCOUNT, uuid: "uuid-bot", start: 0, length: 1 }],
+        attachments: [{ id: "att-1", contentType: "image/png", filename: "map.png" }],
+        ...group
+      }
+    });
+    await vi.waitFor(() => expect(inbound).toHaveLength(2));
+    expect(inbound.map((message) => [message.senderId, message.pairingId, message.content])).toEqual([
+      ["+15145550123", undefined, "hello"],
+      ["group:R3JvdXA=:+15145550124", "+15145550124", "[image: map.png] what's the plan?"]
+    ]);
+    expect(inbound[1].attachments).toEqual([
+      { kind: "image", id: "att-1", mimeType: "image/png", filename: "map.png" }
+    ]);
+    await vi.waitFor(() =>
+      expect(daemon.requests).toContainEqual({
+        method: "send",
+        params: { groupId: "R3JvdXA=", message: "echo: [image: map.png] what's the plan?" }
+      })
+    );
+
+    daemon.receive({
+      sourceNumber: "+15145550123",
+      receiptMessage: { isDelivery: false, isRead: true, timestamps: [SENT_TIMESTAMP] }
+    });
+    await vi.waitFor(() =>
+      expect(store.recordDelivery).toHaveBeenCalledWith("signal", String(SENT_TIMESTAMP), "+15145550123", "read")
+    );
+  });
+
+  it("matches group mentions that carry only the account uuid", async () => {
+    const daemon = await startMockDaemon();
+    const inbound: InboundMessage[] = [];
+    const channel = new SignalChannel(
+      { ...channelConfig(daemon.port), readReceipts: false, typingIndicators: false },
+      async (message) => {
+        inbound.push(message);
+      },
+      { recordDelivery: vi.fn() }
+    );
+    cleanup.push(
+      () => daemon.close(),
+      () => channel.stop()
+    );
+    channel.start();
+    await vi.waitFor(() => expect(channel.connected).toBe(true));
+
+    const group = { groupInfo: { groupId: "R3JvdXA=", type: "DELIVER" } };
+    const mention = (timestamp: number, uuid: string) => ({
+      sourceNumber: "+15145550124",
+      dataMessage: {
+        timestamp,
+        message: "\uFFFC ping",
+        mentions: [{ number: null, uuid, start: 0, length: 1 }],
+        ...group
+      }
+    });
+    daemon.receive(mention(3001, "uuid-someone-else"));
+    daemon.receive(mention(3002, "uuid-bot"));
+    daemon.receive(mention(3003, "uuid-bot"));
+    await vi.waitFor(() => expect(inbound).toHaveLength(2));
+    expect(inbound.map((message) => message.content)).toEqual(["ping", "ping"]);
+    expect(daemon.requests.filter((request) => request.method === "getUserStatus")).toEqual([
+      { method: "getUserStatus", params: { recipient: [ACCOUNT] } }
+    ]);
+  });
+
+  it("reconnects after the daemon drops the connection", async () => {
+    const daemon = await startMockDaemon();
+    const inbound: InboundMessage[] = [];
+    const channel = new SignalChannel(
+      { ...channelConfig(daemon.port), readReceipts: false, typingIndicators: false },
+      async (message) => {
+        inbound.push(message);
+      },
+      { recordDelivery: vi.fn() }
+    );
+    cleanup.push(
+      () => daemon.close(),
+      () => channel.stop()
+    );
+    channel.start();
+    await vi.waitFor(() => expect(daemon.sockets.size).toBe(1));
+    for (const socket of daemon.sockets) socket.destroy();
+    await vi.waitFor(() => expect(channel.connected).toBe(false));
+
+    await vi.waitFor(() => expect(daemon.sockets.size).toBe(1), { timeout: 3000 });
+    await vi.waitFor(() => expect(channel.connected).toBe(true));
+    daemon.receive({ sourceNumber: "+15145550123", dataMessage: { timestamp: 2001, message: "still there?" } });
+    await vi.waitFor(() => expect(inbound).toHaveLength(1));
+    expect(daemon.requests).toEqual([]);
+  });
+
+  it("lets the integration send through a running daemon", async () => {
+    const daemon = await startMockDaemon();
+    cleanup.push(() => daemon.close());
+    const adapter = new SignalAdapter({ enabled: true, accountNumber: ACCOUNT, rpcPort: daemon.port });
+
+    await expect(adapter.execute("send_message", { to: "+15145550123", text: "Running late" })).resolves.toEqual({
+      ok: true,
+      result: { timestamp: SENT_TIMESTAMP, results: [] }
+    });
+    expect(daemon.requests).toEqual([
+      { method: "send", params: { recipient: ["+15145550123"], message: "Running late" } }
+    ]);
+  });
+});
@@ -0,0 +1,150 @@
+import { createHmac } from "node:crypto";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { WebSocketServer } from "ws";
+import { SlackChannel, slackTarget, verifySlackSignature } from "../src/channels/slack.js";
+import type { InboundMessage } from "../src/types.js";
+import { startStubServer, type StubServer } from "./helpers/stub-server.js";
+
+const SECRET = "signing-secret";
+
+function signed(body: string, contentType: string, timestamp = Math.floor(Date.now() / 1000)) {
+  return {
+    "content-type": contentType,
+    "x-slack-request-timestamp": String(timestamp),
+    "x-slack-signature": `v0=${createHmac("sha256", SECRET).update(`v0:${timestamp}:${body}`).digest("hex")}`
+  };
+}
+
+/** Slack Web API stub: `auth.test` names the bot, everything else succeeds. */
+function startSlackApi(extra: Record<string, unknown> = {}): Promise<StubServer> {
+  return startStubServer((request) =>
+    request.url === "/auth.test"
+      ? { json: { ok: true, user_id: "UBOT" } }
+      : { json: { ok: true, ...(request.url === "/apps.connections.open" ? extra : {}) } }
+  );
+}
+
+let cleanup: Array<() => Promise<void> | void> = [];
+
+afterEach(async () => {
+  for (const step of cleanup.reverse()) await step();
+  cleanup = [];
+});
+
+describe("slack channel", () => {
+  it("verifies request signatures", () => {
+    const body = '{"type":"event_callback"}';
+    const headers = signed(body, "application/json");
+    const now = Number(headers["x-slack-request-timestamp"]) * 1000;
+    const signature = headers["x-slack-signature"];
+    expect(verifySlackSignature(SECRET, headers["x-slack-request-timestamp"], body, signature, now)).toBe(true);
+    expect(verifySlackSignature(SECRET, headers["x-slack-request-timestamp"], `${body} `, signature, now)).toBe(false);
+    expect(verifySlackSignature(SECRET, headers["x-slack-request-timestamp"], body, signature, now + 600_000)).toBe(
+      false
+    );
+  });
+
+  it("handles Events API mentions, DMs and slash commands", async () => {
+    const api = await startSlackApi();
+    const inbound: InboundMessage[] = [];
+    const channel = new SlackChannel(
+      { botToken: "xoxb-1", signingSecret: SECRET, mode: "events", apiBaseUrl: api.baseUrl },
+      async (message) => {
+        inbound.push(message);
+        await message.reply(`echo: ${message.content}`);
+      }
+    );
+    cleanup.push(
+      () => api.close(),
+      () => channel.stop()
+    );
+    channel.start();
+    await vi.waitFor(() => expect(channel.botUserId).toBe("UBOT"));
+
+    const challenge = JSON.stringify({ type: "url_verification", challenge: "abc" });
+    expect(channel.handleRequest(signed(challenge, "application/json"), challenge)).toEqual({
+      status: 200,
+      body: { challenge: "abc" }
+    });
+    expect(channel.handleRequest({ "content-type": "application/json" }, challenge).status).toBe(401);
+
+    const mention = JSON.stringify({
+      type: "event_callback",
+      event_id: "Ev1",
+      event: { type: "app_mention", channel: "C1", user: "U1", text: "<@UBOT> summarize this", ts: "100.1" }
+    });
+    expect(channel.handleRequest(signed(mention, "application/json"), mention).status).toBe(200);
+    // A retried delivery of the same event is ignored.
+    channel.handleRequest(signed(mention, "application/json"), mention);
+    const dm = JSON.stringify({
+      type: "event_callback",
+      event_id: "Ev2",
+      event: { type: "message", channel_type: "im", channel: "D1", user: "U1", text: "hi", ts: "100.2" }
+    });
+    channel.handleRequest(signed(dm, "application/json"), dm);
+    const responder = await startStubServer(() => ({ json: {} }));
+    cleanup.push(() => responder.close());
+    const command = new URLSearchParams({
+      command: "/skill",
+      text: "restore weather",
+      user_id: "U1",
+      channel_id: "C1",
+      response_url: `${responder.baseUrl}/respond`
+    }).toString();
+    channel.handleRequest(signed(command, "application/x-www-form-urlencoded"), command);
+
+    await vi.waitFor(() => expect(responder.requests).toHaveLength(1));
+    await vi.waitFor(() => expect(api.requests.filter((r) => r.url === "/chat.postMessage")).toHaveLength(2));
+    expect(inbound.map((message) => [message.senderId, message.pairingId, message.content])).toEqual([
+      ["C1:100.1:U1", "U1", "summarize this"],
+      ["D1:U1", "U1", "hi"],
+      ["C1:U1", "U1", "/skill restore weather"]
+    ]);
+    const posts = api.requests.filter((request) => request.url === "/chat.postMessage").map((r) => r.body);
+    expect(posts).toContainEqual({ channel: "C1", text: "echo: summarize this", thread_ts: "100.1" });
+    expect(posts).toContainEqual({ channel: "D1", text: "echo: hi" });
+    expect(responder.requests[0].body).toEqual({ response_type: "ephemeral", text: "echo: /skill restore weather" });
+  });
+
+  it("receives events over Socket Mode and acknowledges them", async () => {
+    const server = new WebSocketServer({ port: 0, host: "127.0.0.1" });
+    await new Promise<void>((resolve) => server.once("listening", () => resolve()));
+    const acks: unknown[] = [];
+    server.on("connection", (socket) => {
+      socket.on("message", (data) => acks.push(JSON.parse(data.toString())));
+      socket.send(JSON.stringify({ type: "hello" }));
+      socket.send(
+        JSON.stringify({
+          type: "events_api",
+          envelope_id: "env-1",
+          payload: {
+            event_id: "Ev9",
+            event: { type: "message", channel_type: "im", channel: "D9", user: "U9", text: "ping", ts: "1.0" }
+          }
+        })
+      );
+    });
+    const api = await startSlackApi({ url: `ws://127.0.0.1:${(server.address() as AddressInfo).port}` });
+    const inbound: InboundMessage[] = [];
+    const channel = new SlackChannel(
+      { botToken: "xoxb-1", appToken: "xapp-1", mode: "socket", apiBaseUrl: api.baseUrl },
+      async (message) => {
+        inbound.push(message);
+      }
+    );
+    cleanup.push(
+      () => new Promise<void>((resolve) => server.close(() => resolve())),
+      () => api.close(),
+      () => channel.stop()
+    );
+    channel.start();
+
+    await vi.waitFor(() => expect(inbound).toHaveLength(1));
+    await vi.waitFor(() => expect(acks).toEqual([{ envelope_id: "env-1" }]));
+    expect(inbound[0]).toMatchObject({ channel: "slack", senderId: "D9:U9", content: "ping" });
+    const open = api.requests.find((request) => request.url === "/apps.connections.open");
+    expect(open?.headers.authorization).toBe("Bearer xapp-1");
+    expect(slackTarget("C1:100.1:U1")).toEqual({ channel: "C1", threadTs: "100.1" });
+  });
+});
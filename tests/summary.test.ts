@@ -0,0 +1,94 @@
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { Store as StoreType } from "../src/core/store.js";
+import type { AgentRequest, AgentRuntime } from "../src/providers/agent.js";
+
+let store: StoreType;
+let loadConversation: typeof import("../src/core/summary.js").loadConversation;
+
+const settings = { enabled: true, tokenBudget: 40, keepRecent: 2 };
+
+function fakeAgent(reply: (request: AgentRequest) => string) {
+  const calls: AgentRequest[] = [];
+  const agent = {
+    respond: async (request: AgentRequest) => {
+      calls.push(request);
+      return reply(request);
+    }
+  } as unknown as AgentRuntime;
+  return { agent, calls };
+}
+
+function say(sessionId: number, count: number, from = 0) {
+  for (let i = from; i < from + count; i += 1) {
+    store.addMessage(sessionId, i % 2 === 0 ? "inbound" : "outbound", `message ${i} ${"x".repeat(40)}`);
+  }
+}
+
+beforeAll(async () => {
+  process.env.GNAMI_HOME = mkdtempSync(join(tmpdir(), "gnamiai-summary-"));
+  const { Store } = await import("../src/core/store.js");
+  ({ loadConversation } = await import("../src/core/summary.js"));
+  store = await Store.open();
+});
+
+afterAll(() => {
+  store?.close();
+});
+
+describe("session summaries", () => {
+  it("leaves short sessions alone", async () => {
+    const sessionId = store.getOrCreateSession("webchat", "short");
+    say(sessionId, 2);
+    const { agent, calls } = fakeAgent(() => "unused");
+
+    const context = await loadConversation(store, agent, settings, sessionId);
+
+    expect(calls).toHaveLength(0);
+    expect(context.summary).toBeNull();
+    expect(context.history).toHaveLength(2);
+  });
+
+  it("folds older messages and only summarizes new ones on the next pass", async () => {
+    const sessionId = store.getOrCreateSession("webchat", "long");
+    say(sessionId, 6);
+    const { agent, calls } = fakeAgent(() => `summary #${calls.length}`);
+
+    const first = await loadConversation(store, agent, settings, sessionId);
+    expect(first.summary).toBe("summary #1");
+    expect(first.history.map((message) => message.content.split(" ")[1])).toEqual(["4", "5"]);
+    expect(calls[0].input).toContain("message 0");
+    expect(calls[0].input).toContain("message 3");
+    expect(calls[0].input).not.toContain("message 4");
+
+    const { throughMessageId } = store.getSessionSummary(sessionId)!;
+    store.saveSessionSummary(sessionId, "edited by hand", throughMessageId, true);
+    say(sessionId, 4, 6);
+    const second = await loadConversation(store, agent, settings, sessionId);
+
+    expect(calls[1].input).toContain("edited by hand");
+    expect(calls[1].input).not.toContain("message 3");
+    expect(calls[1].input).toContain("message 4");
+    expect(calls[1].input).toContain("message 7");
+    expect(second.summary).toBe("summary #2");
+    expect(store.getSessionSummary(sessionId)).toMatchObject({ content: "summary #2", edited: false });
+    expect(second.history.map((message) => message.content.split(" ")[1])).toEqual(["8", "9"]);
+  });
+
+  it("keeps the previous summary when the model call fails", async () => {
+    const sessionId = store.getOrCreateSession("webchat", "failing");
+    store.saveSessionSummary(sessionId, "older facts", 0, true);
+    say(sessionId, 6);
+    const { agent } = fakeAgent(() => {
+      throw new Error("provider down");
+    });
+
+    const context = await loadConversation(store, agent, settings, sessionId);
+
+    expect(context).toMatchObject({ summary: "older facts", summaryError: "provider down" });
+    expect(context.history).toHaveLength(6);
+    expect(store.getSessionSummary(sessionId)?.throughMessageId).toBe(0);
+  });
+});
@@ -0,0 +1,82 @@
+import { mkdirSync, mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import Database from "better-sqlite3";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { Store as StoreType } from "../src/core/store.js";
+
+// DB_PATH is derived from GNAMI_HOME at import time, so the store loads after it is set.
+let store: StoreType;
+
+beforeAll(async () => {
+  const home = mkdtempSync(join(tmpdir(), "gnamiai-threads-"));
+  process.env.GNAMI_HOME = home;
+  mkdirSync(join(home, "data"), { recursive: true });
+  // A database from before threads: one UNIQUE session per sender.
+  const legacy = new Database(join(home, "data", "gateway.sqlite"));
+  legacy.exec(`
+    CREATE TABLE sessions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      channel TEXT NOT NULL,
+      sender_id TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      UNIQUE(channel, sender_id)
+    );
+    CREATE TABLE messages (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      session_id INTEGER NOT NULL,
+      direction TEXT NOT NULL,
+      content TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      FOREIGN KEY (session_id) REFERENCES sessions(id)
+    );
+    INSERT INTO sessions VALUES (7, 'telegram', 'alice', '2026-01-01T00:00:00.000Z', '2026-01-01T00:00:00.000Z');
+    INSERT INTO messages(session_id, direction, content, created_at) VALUES
+      (7, 'inbound', 'plan a trip', '2026-01-01T00:00:00.000Z'),
+      (7, 'outbound', 'where to?', '2026-01-01T00:00:01.000Z'),
+      (7, 'inbound', 'lisbon', '2026-01-01T00:00:02.000Z');
+  `);
+  legacy.close();
+  const { Store } = await import("../src/core/store.js");
+  store = await Store.open();
+});
+
+afterAll(() => {
+  store?.close();
+});
+
+describe("conversation threads", () => {
+  it("keeps legacy sessions as the active default thread", () => {
+    const threads = store.listThreads("telegram", "alice");
+    expect(threads).toEqual([
+      expect.objectContaining({ id: 7, title: "default", active: true, messageCount: 3 })
+    ]);
+    expect(store.getOrCreateSession("telegram", "alice")).toBe(7);
+  });
+
+  it("creates, switches and isolates threads per sender", () => {
+    const work = store.createThread("telegram", "alice", "work");
+    expect(store.getOrCreateSession("telegram", "alice")).toBe(work.id);
+    store.addMessage(work.id, "inbound", "status report");
+    expect(store.getRecentMessages(work.id).map((message) => message.content)).toEqual(["status report"]);
+
+    expect(store.switchThread("telegram", "bob", 7)).toBeNull();
+    expect(store.switchThread("telegram", "alice", 7)).toMatchObject({ id: 7, active: true });
+    expect(store.getOrCreateSession("telegram", "alice")).toBe(7);
+    expect(store.listThreads("telegram", "alice").filter((thread) => thread.active)).toHaveLength(1);
+  });
+
+  it("forks a thread up to a message", () => {
+    const secondId = store.getThreadMessageId(7, 2) as number;
+    const fork = store.forkThread(7, secondId, "trip v2");
+
+    expect(fork).toMatchObject({ title: "trip v2", active: true, parentSessionId: 7, forkedFromMessageId: secondId });
+    expect(store.getRecentMessages(fork!.id).map((message) => message.content)).toEqual([
+      "plan a trip",
+      "where to?"
+    ]);
+    expect(store.getRecentMessages(7)).toHaveLength(3);
+    expect(store.forkThread(fork!.id, secondId)).toBeNull();
+  });
+});
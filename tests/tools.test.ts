@@ -0,0 +1,124 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { z } from "zod";
+import { AgentToolset } from "../src/core/tools.js";
+import { AgentRuntime } from "../src/providers/agent.js";
+import { ensureConfig, type GnamiConfig } from "../src/core/config.js";
+import type { AgentAction } from "../src/core/actions.js";
+import { startStubServer, type StubServer } from "./helpers/stub-server.js";
+
+const catalog = [
+  {
+    app: "github" as const,
+    actions: [
+      {
+        name: "list_issues",
+        description: "List open issues in a repository.",
+        params: z.object({ owner: z.string(), repo: z.string() })
+      }
+    ]
+  }
+];
+
+describe("agent tools", () => {
+  it("exposes actions as JSON Schema tools and validates calls", () => {
+    const tools = new AgentToolset(catalog);
+    const names = tools.definitions().map((tool) => tool.name);
+    expect(names).toEqual(["shell", "install_skill", "search_history", "github__list_issues"]);
+    expect(tools.definitions()[3].parameters).toMatchObject({
+      type: "object",
+      required: ["owner", "repo"]
+    });
+    expect(
+      tools.toAction({ id: "1", name: "github__list_issues", arguments: '{"owner":"o","repo":"r"}' })
+    ).toEqual({ type: "integration", app: "github", action: "list_issues", params: { owner: "o", repo: "r" } });
+    expect(() => tools.toAction({ id: "2", name: "shell", arguments: "{}" })).toThrow(/Invalid arguments/);
+    expect(() => tools.toAction({ id: "3", name: "nope", arguments: "{}" })).toThrow(/Unknown tool/);
+  });
+
+  describe("local provider tool loop", () => {
+    let stub: StubServer;
+
+    beforeAll(async () => {
+      stub = await startStubServer((request, index) => ({
+        json: {
+          id: `chat-${index}`,
+          object: "chat.completion",
+          created: 0,
+          model: request.body.model,
+          choices: [
+            {
+              index: 0,
+              finish_reason: "stop",
+              message:
+                index === 0 || JSON.stringify(request.body.messages).includes("keep going")
+                  ? {
+                      role: "assistant",
+                      content: null,
+                      tool_calls: [
+                        {
+                          id: "call_1",
+                          type: "function",
+                          function: { name: "shell", arguments: '{"command":"echo hi"}' }
+                        }
+                      ]
+                    }
+                  : { role: "assistant", content: "The command printed hi." }
+            }
+          ]
+        }
+      }));
+    });
+    afterAll(async () => {
+      await stub.close();
+    });
+
+    it("runs requested tools and feeds results back until the model answers", async () => {
+      const base = await ensureConfig();
+      const config: GnamiConfig = {
+        ...base,
+        agent: { ...base.agent, model: "local/test", localBaseUrl: `${stub.baseUrl}/v1` }
+      };
+      const executed: AgentAction[] = [];
+      const reply = await new AgentRuntime(config).runTurn(
+        { input: "say hi", history: [], thinking: "low" },
+        {
+          tools: new AgentToolset(),
+          maxSteps: 4,
+          execute: async (actions) => {
+            executed.push(...actions);
+            return actions.map((action) => ({ action, ok: true, output: "hi" }));
+          }
+        }
+      );
+      expect(reply).toBe("The command printed hi.");
+      expect(executed).toEqual([{ type: "shell", command: "echo hi" }]);
+      expect(stub.requests[0].body.tools).toHaveLength(3);
+      expect(stub.requests[1].body.messages).toContainEqual({ role: "tool", tool_call_id: "call_1", content: "hi" });
+    });
+
+    it("stops at maxSteps when the model keeps requesting tools", async () => {
+      const base = await ensureConfig();
+      const config: GnamiConfig = {
+        ...base,
+        agent: { ...base.agent, model: "local/test", localBaseUrl: `${stub.baseUrl}/v1` }
+      };
+      const before = stub.requests.length;
+      let executed = 0;
+      const reply = await new AgentRuntime(config).runTurn(
+        { input: "keep going", history: [], thinking: "low" },
+        {
+          tools: new AgentToolset(),
+          maxSteps: 3,
+          execute: async (actions) => {
+            executed += actions.length;
+            return actions.map((action) => ({ action, ok: true, output: "hi" }));
+          }
+        }
+      );
+      expect(reply).toMatch(/step limit/);
+      expect(stub.requests.length - before).toBe(3);
+      expect(stub.requests.at(-1)?.body.tools).toBeUndefined();
+      expect(executed).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { Store as StoreType } from "../src/core/store.js";
+import { parseExportJsonl, renderExport, type ExportRecord } from "../src/core/transfer.js";
+
+let store: StoreType;
+
+beforeAll(async () => {
+  process.env.GNAMI_HOME = mkdtempSync(join(tmpdir(), "gnamiai-transfer-"));
+  const { Store } = await import("../src/core/store.js");
+  store = await Store.open();
+  store.upsertPairing("telegram", "alice");
+  const alice = store.getOrCreateSession("telegram", "alice");
+  store.addMessage(alice, "inbound", "Book a table for two");
+  store.addMessage(alice, "outbound", "Booked for 8pm.", "anthropic/claude-sonnet-4-5");
+  store.addMemoryEvent("telegram:alice", "saved", "backend:mem0");
+  const bob = store.getOrCreateSession("webchat", "bob");
+  store.addMessage(bob, "inbound", "hello?");
+});
+
+afterAll(() => {
+  store?.close();
+});
+
+/** Moves every record to another sender, as if the export came from a different install. */
+function asSender(records: ExportRecord[], from: string, to: string): ExportRecord[] {
+  const swap = (value: string) => value.replace(`:${from}`, `:${to}`);
+  return records.map((record) => {
+    if (record.type === "session") return { ...record, key: swap(record.key), senderId: to };
+    if (record.type === "message") return { ...record, session: swap(record.session) };
+    if (record.type === "pairing") return { ...record, senderId: to };
+    if (record.type === "memory_event") return { ...record, sessionKey: swap(record.sessionKey) };
+    return record;
+  });
+}
+
+describe("export and import", () => {
+  it("filters by channel and sender and round-trips through jsonl", () => {
+    const data = store.exportData({ channel: "telegram", senderId: "alice" });
+    expect(data.sessions).toHaveLength(1);
+    expect(data.messages).toHaveLength(2);
+    expect(data.pairings).toEqual([expect.objectContaining({ senderId: "alice", approved: false })]);
+    expect(data.memoryEvents).toHaveLength(1);
+
+    const records = parseExportJsonl(renderExport(data, "jsonl"));
+    expect(records.map((record) => record.type)).toEqual([
+      "export",
+      "session",
+      "message",
+      "message",
+      "pairing",
+      "memory_event"
+    ]);
+    expect(store.exportData({ since: new Date(Date.now() + 60_000) }).sessions).toEqual([]);
+  });
+
+  it("imports idempotently", () => {
+    const exported = renderExport(store.exportData({ senderId: "alice" }), "jsonl");
+    const records = asSender(parseExportJsonl(exported), "alice", "carol");
+
+    expect(store.importData(records)).toEqual({
+      sessionsCreated: 1,
+      messagesImported: 2,
+      messagesSkipped: 0,
+      pairingsImported: 1,
+      memoryEventsImported: 1,
+      memoryEventsSkipped: 0
+    });
+    expect(store.importData(records)).toMatchObject({
+      sessionsCreated: 0,
+      messagesImported: 0,
+      messagesSkipped: 2,
+      pairingsImported: 0,
+      memoryEventsSkipped: 1
+    });
+    const sessionId = store.getOrCreateSession("telegram", "carol");
+    expect(store.getRecentMessages(sessionId).map((message) => message.model ?? null)).toEqual([
+      null,
+      "anthropic/claude-sonnet-4-5"
+    ]);
+    expect(() => store.importData([records[2]])).toThrow(/unknown session/);
+  });
+
+  it("keeps the pairing id of per-thread sender ids across a round trip", () => {
+    const general = store.getOrCreateSession("discord", "g1:general:u1", "u1");
+    const random = store.getOrCreateSession("discord", "g1:random:u1", "u1");
+    store.addMessage(general, "inbound", "hi from general");
+    store.addMessage(random, "inbound", "hi from random");
+    const records = parseExportJsonl(renderExport(store.exportData({ channel: "discord" }), "jsonl"));
+    expect(records.filter((record) => record.type === "session")).toEqual([
+      expect.objectContaining({ senderId: "g1:general:u1", pairingId: "u1" }),
+      expect.objectContaining({ senderId: "g1:random:u1", pairingId: "u1" })
+    ]);
+
+    store.forgetSender("discord", "u1");
+    expect(store.exportData({ channel: "discord" }).sessions).toEqual([]);
+    expect(store.importData(records)).toMatchObject({ sessionsCreated: 2, messagesImported: 2 });
+    expect(store.pairedSenderIds("discord", "g1:general:u1").sort()).toEqual([
+      "g1:general:u1",
+      "g1:random:u1",
+      "u1"
+    ]);
+    expect(store.forgetSender("discord", "g1:general:u1")).toMatchObject({ sessions: 2, messages: 2 });
+  });
+
+  it("renders markdown transcripts and fine-tuning lines", () => {
+    const data = store.exportData();
+    const markdown = renderExport(data, "markdown");
+    expect(markdown).toContain("## telegram:alice — default");
+    expect(markdown).toContain("**Assistant (anthropic/claude-sonnet-4-5)**");
+
+    const lines = renderExport(data, "openai").trim().split("\n").map((line) => JSON.parse(line));
+    // bob's thread has no assistant turn, so only alice's and carol's threads qualify.
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toEqual({
+      messages: [
+        { role: "user", content: "Book a table for two" },
+        { role: "assistant", content: "Booked for 8pm." }
+      ]
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { ensureConfig } from "../src/core/config.js";
+import { parseSince, priceFor, summarizeUsage, type ModelCallUsage } from "../src/core/usage.js";
+import { AgentRuntime } from "../src/providers/agent.js";
+import { startStubServer, type StubServer } from "./helpers/stub-server.js";
+
+let stub: StubServer | null = null;
+
+afterEach(async () => {
+  await stub?.close();
+  stub = null;
+});
+
+describe("usage accounting", () => {
+  it("parses relative windows and ISO dates", () => {
+    const now = new Date("2026-03-10T12:00:00.000Z");
+    expect(parseSince("7d", now).toISOString()).toBe("2026-03-03T12:00:00.000Z");
+    expect(parseSince("24h", now).toISOString()).toBe("2026-03-09T12:00:00.000Z");
+    expect(parseSince("2026-03-01", now).toISOString()).toBe("2026-03-01T00:00:00.000Z");
+    expect(() => parseSince("soon", now)).toThrow(/Invalid --since/);
+  });
+
+  it("prices each model and folds rows per group", () => {
+    const prices = {
+      "anthropic/claude-test": { inputPerMillion: 3, outputPerMillion: 15 },
+      "openai/*": { inputPerMillion: 1, outputPerMillion: 4 }
+    };
+    expect(priceFor(prices, "openai/gpt-x")).toEqual(prices["openai/*"]);
+    expect(priceFor(prices, "local/llama")).toBeNull();
+
+    const row = (key: string, model: string, calls: number, prompt: number, completion: number, latencyMs: number) => ({
+      key,
+      model,
+      calls,
+      promptTokens: prompt,
+      completionTokens: completion,
+      latencyMs,
+      estimatedCalls: model.startsWith("openai/") ? calls : 0
+    });
+    const summary = summarizeUsage(
+      [
+        row("webchat", "anthropic/claude-test", 2, 1_000_000, 100_000, 800),
+        row("webchat", "local/llama", 1, 500, 50, 100),
+        row("telegram", "openai/gpt-x", 1, 2_000, 1_000, 300)
+      ],
+      prices,
+      "channel",
+      new Date("2026-03-03T00:00:00.000Z")
+    );
+    expect(summary.rows.map((row) => row.key)).toEqual(["webchat", "telegram"]);
+    expect(summary.rows[0]).toMatchObject({ calls: 3, costUsd: 4.5, unpricedCalls: 1, avgLatencyMs: 300 });
+    expect(summary.rows[1]).toMatchObject({ costUsd: 0.006, estimatedCalls: 1 });
+    expect(summary.total).toMatchObject({ calls: 4, costUsd: 4.506, avgLatencyMs: 300 });
+  });
+
+  it("reports API usage fields and estimates when they are missing", async () => {
+    stub = await startStubServer((_request, index) => ({
+      json: {
+        id: "chat-1",
+        object: "chat.completion",
+        created: 0,
+        model: "m",
+        choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: "Hello there" } }],
+        ...(index === 0 ? { usage: { prompt_tokens: 42, completion_tokens: 7, total_tokens: 49 } } : {})
+      }
+    }));
+    const base = await ensureConfig();
+    const agent = new AgentRuntime({
+      ...base,
+      agent: { ...base.agent, model: "local/test", localBaseUrl: `${stub.baseUrl}/v1` }
+    });
+    const usage: ModelCallUsage[] = [];
+    const request = {
+      input: "hi",
+      history: [],
+      thinking: "low" as const,
+      onUsage: (entry: ModelCallUsage) => usage.push(entry)
+    };
+    await agent.respond(request);
+    await agent.respond(request);
+
+    expect(usage[0]).toMatchObject({ route: "local/test", promptTokens: 42, completionTokens: 7, estimated: false });
+    expect(usage[1]).toMatchObject({ route: "local/test", completionTokens: 3, estimated: true });
+    expect(usage[1].promptTokens).toBeGreaterThan(0);
+    expect(usage[1].latencyMs).toBeGreaterThanOrEqual(0);
+  });
+});
@@ -0,0 +1,152 @@
+import { createHmac } from "node:crypto";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { parseWhatsAppMessage, verifyWhatsAppSignature, WhatsAppChannel } from "../src/channels/whatsapp.js";
+import type { Store as StoreType } from "../src/core/store.js";
+import type { InboundMessage } from "../src/types.js";
+import { startStubServer, type StubServer } from "./helpers/stub-server.js";
+
+const APP_SECRET = "app-secret";
+
+// DB_PATH is derived from GNAMI_HOME at import time, so the store loads after it is set.
+let store: StoreType;
+let graph: StubServer;
+let sent = 0;
+
+function signed(body: string) {
+  return { "x-hub-signature-256": `sha256=${createHmac("sha256", APP_SECRET).update(body).digest("hex")}` };
+}
+
+function webhook(value: Record<string, unknown>): string {
+  return JSON.stringify({ object: "whatsapp_business_account", entry: [{ id: "1", changes: [{ value }] }] });
+}
+
+function channel(
+  onMessage: (message: InboundMessage) => Promise<void>,
+  template?: { name: string; language: string; textParameter: boolean }
+) {
+  return new WhatsAppChannel(
+    {
+      accessToken: "token",
+      phoneNumberId: "PN1",
+      appSecret: APP_SECRET,
+      verifyToken: "verify-me",
+      apiBaseUrl: graph.baseUrl,
+      ...(template ? { template } : {})
+    },
+    onMessage,
+    store
+  );
+}
+
+beforeAll(async () => {
+  process.env.GNAMI_HOME = mkdtempSync(join(tmpdir(), "gnamiai-whatsapp-"));
+  const { Store } = await import("../src/core/store.js");
+  store = await Store.open({ keyring: null });
+  graph = await startStubServer(() => ({ json: { messages: [{ id: `wamid.${++sent}` }] } }));
+});
+
+afterAll(async () => {
+  store.close();
+  await graph.close();
+});
+
+describe("whatsapp channel", () => {
+  it("answers the verify handshake and rejects unsigned webhooks", () => {
+    const whatsapp = channel(async () => {});
+    const query = { "hub.mode": "subscribe", "hub.verify_token": "verify-me", "hub.challenge": "1158201444" };
+    expect(whatsapp.handleVerification(query)).toEqual({ status: 200, body: "1158201444" });
+    expect(whatsapp.handleVerification({ ...query, "hub.verify_token": "wrong" }).status).toBe(403);
+
+    const body = webhook({ messages: [] });
+    expect(verifyWhatsAppSignature(APP_SECRET, body, signed(body)["x-hub-signature-256"])).toBe(true);
+    expect(whatsapp.handleWebhook({}, body).status).toBe(401);
+    expect(whatsapp.handleWebhook(signed(`${body} `), body).status).toBe(401);
+    expect(whatsapp.handleWebhook(signed(body), body).status).toBe(200);
+  });
+
+  it("parses text and media messages and replies inside the window", async () => {
+    const inbound: InboundMessage[] = [];
+    const whatsapp = channel(async (message) => {
+      inbound.push(message);
+      store.addMessage(store.getOrCreateSession("whatsapp", message.senderId), "inbound", message.content);
+      await message.reply(`echo: ${message.content}`);
+    });
+    const body = webhook({
+      messages: [
+        { from: "15145550123", id: "wamid.in1", type: "text", text: { body: "hello" } },
+        {
+          from: "15145550123",
+          id: "wamid.in2",
+          type: "image",
+          image: { id: "media-1", mime_type: "image/jpeg", caption: "my receipt" }
+        },
+        { from: "15145550123", id: "wamid.in3", type: "reaction" }
+      ]
+    });
+    expect(whatsapp.handleWebhook(signed(body), body).status).toBe(200);
+    // Meta retried the same delivery.
+    whatsapp.handleWebhook(signed(body), body);
+
+    await vi.waitFor(() => expect(inbound).toHaveLength(2));
+    expect(inbound[0]).toMatchObject({ channel: "whatsapp", senderId: "15145550123", content: "hello" });
+    expect(inbound[1]).toMatchObject({
+      content: "[image] my receipt",
+      attachments: [{ kind: "image", id: "media-1", mimeType: "image/jpeg", caption: "my receipt" }]
+    });
+    expect(
+      parseWhatsAppMessage({ from: "1", id: "x", type: "document", document: { id: "d", filename: "a.pdf" } })
+    ).toMatchObject({ content: "[document: a.pdf]" });
+
+    await vi.waitFor(() => expect(graph.requests).toHaveLength(2));
+    expect(graph.requests[0]).toMatchObject({
+      url: "/PN1/messages",
+      body: { messaging_product: "whatsapp", to: "15145550123", type: "text", text: { body: "echo: hello" } }
+    });
+    expect(graph.requests[0].headers.authorization).toBe("Bearer token");
+
+    // The customer wrote just now, so a proactive send is plain text too.
+    await whatsapp.send("15145550123", "follow-up");
+    expect(graph.requests.at(-1)?.body).toMatchObject({ type: "text", text: { body: "follow-up" } });
+  });
+
+  it("tracks delivery statuses without moving them back", () => {
+    const whatsapp = channel(async () => {});
+    const report = (id: string, status: string, errors?: unknown[]) => {
+      const body = webhook({ statuses: [{ id, status, recipient_id: "15145550199", timestamp: "1", errors }] });
+      whatsapp.handleWebhook(signed(body), body);
+    };
+    report("wamid.out1", "sent");
+    report("wamid.out1", "read");
+    report("wamid.out1", "delivered");
+    report("wamid.out2", "failed", [{ code: 131047, title: "Re-engagement message" }]);
+    report("wamid.out2", "delivered");
+
+    const deliveries = store.listDeliveries({ channel: "whatsapp", recipient: "15145550199" });
+    expect(deliveries.map((delivery) => [delivery.externalId, delivery.status, delivery.error])).toEqual([
+      ["wamid.out2", "failed", "Re-engagement message"],
+      ["wamid.out1", "read", null]
+    ]);
+  });
+
+  it("falls back to the template outside the 24-hour window", async () => {
+    await expect(channel(async () => {}).send("15145550777", "your order shipped")).rejects.toThrow(/template/);
+
+    const whatsapp = channel(async () => {}, { name: "order_update", language: "en_US", textParameter: true });
+    await whatsapp.send("15145550777", "your order shipped");
+    expect(graph.requests.at(-1)?.body).toMatchObject({
+      to: "15145550777",
+      type: "template",
+      template: {
+        name: "order_update",
+        language: { code: "en_US" },
+        components: [{ type: "body", parameters: [{ type: "text", text: "your order shipped" }] }]
+      }
+    });
+    expect(store.listDeliveries({ recipient: "15145550777" })).toMatchObject([
+      { channel: "whatsapp", externalId: `wamid.${sent}`, status: "sent" }
+    ]);
+  });
+});
@@ -21,6 +21,8 @@ const chat = document.getElementById("chat");
 const form = document.getElementById("composer");
 const input = document.getElementById("message");
 const healthPill = document.getElementById("health-pill");
+const threadSelect = document.getElementById("thread-select");
+const threadNew = document.getElementById("thread-new");
 const viewTitle = document.getElementById("view-title");
 const viewSubtitle = document.getElementById("view-subtitle");
 const themeToggle = document.getElementById("theme-toggle");
@@ -29,8 +31,17 @@ const navItems = Array.from(document.querySelectorAll(".nav-item"));
 const overviewCards = document.getElementById("overview-cards");
 const channelsCards = document.getElementById("channels-cards");
 const sessionsTable = document.getElementById("sessions-table");
+const historySearch = document.getElementById("history-search");
+const historyQuery = document.getElementById("history-query");
+const searchResults = document.getElementById("search-results");
+const searchTable = document.getElementById("search-table");
 const instancesTable = document.getElementById("instances-table");
 const cronCards = document.getElementById("cron-cards");
+const cronTable = document.getElementById("cron-table");
+const approvalsTable = document.getElementById("approvals-table");
+const usageCards = document.getElementById("usage-cards");
+const usageTable = document.getElementById("usage-table");
+const usageGroups = Array.from(document.querySelectorAll(".usage-group"));
 const skillsCards = document.getElementById("skills-cards");
 const configCards = document.getElementById("config-cards");
 const docEditor = document.getElementById("doc-editor");
@@ -63,6 +74,14 @@ const viewMeta = {
     title: "Cron Jobs",
     subtitle: "Scheduled automation and wakeups."
   },
+  approvals: {
+    title: "Approvals",
+    subtitle: "Side-effecting agent actions waiting for a decision."
+  },
+  usage: {
+    title: "Usage",
+    subtitle: "Model tokens, latency and cost over the last 7 days."
+  },
   skills: {
     title: "Skills.md Skills",
     subtitle: "Discovered workspace skills."
@@ -77,11 +96,20 @@ let latestOverview = null;
 let latestSessions = [];
 let latestSkills = [];
 let latestInstances = [];
+let latestCron = null;
+let latestApprovals = [];
+let latestUsage = null;
+let latestThreads = [];
+let activeThreadId = null;
+let usageGroupBy = "day";
 let latestDocs = {};
 let activeDoc = "SOUL.md";
 let lastApiError = "";
 let pendingTypingNode = null;
 let assistantRenderQueue = Promise.resolve();
+let streamingNode = null;
+let streamingText = "";
+let actionNodes = new Map();
 
 function authHeaders() {
   return token ? { "x-gnamiai-token": token } : {};
@@ -104,6 +132,64 @@ function appendMessage(content, type) {
   return node;
 }
 
+async function apiPost(path, body) {
+  const response = await fetch(path, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(body ?? {})
+  });
+  if (!response.ok) {
+    throw new Error(`Request failed: ${response.status}`);
+  }
+  return response.json();
+}
+
+function renderThreadOptions() {
+  threadSelect.innerHTML = "";
+  if (latestThreads.length === 0) {
+    const option = document.createElement("option");
+    option.textContent = "default";
+    threadSelect.append(option);
+    return;
+  }
+  for (const thread of latestThreads) {
+    const option = document.createElement("option");
+    option.value = String(thread.id);
+    option.textContent = `#${thread.id} ${thread.title} (${thread.messageCount})`;
+    option.selected = thread.active;
+    threadSelect.append(option);
+  }
+}
+
+async function refreshThreads() {
+  try {
+    const data = await apiGet(`/api/threads?channel=webchat&sender=${encodeURIComponent(senderId)}`);
+    latestThreads = data.threads ?? [];
+  } catch {
+    return;
+  }
+  renderThreadOptions();
+  const active = latestThreads.find((thread) => thread.active);
+  if (active && active.id !== activeThreadId) {
+    await loadThread(active.id);
+  }
+}
+
+async function loadThread(id) {
+  const data = await apiGet(`/api/threads/${id}/messages`);
+  activeThreadId = id;
+  chat.innerHTML = "";
+  for (const message of data.messages ?? []) {
+    const node = appendMessage(message.content, message.direction === "inbound" ? "user" : "assistant");
+    const fork = document.createElement("button");
+    fork.type = "button";
+    fork.className = "fork-btn";
+    fork.dataset.messageId = String(message.id);
+    fork.textContent = "Fork from here";
+    node.append(fork);
+  }
+}
+
 function sleep(ms) {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
@@ -142,6 +228,48 @@ async function renderAssistantMessage(content) {
   pendingTypingNode = null;
 }
 
+function appendStreamDelta(content) {
+  if (!streamingNode) {
+    streamingNode = ensureTypingBubble();
+    streamingNode.classList.remove("typing");
+    streamingText = "";
+  }
+  streamingText += content;
+  streamingNode.textContent = normalizeAssistantText(streamingText);
+  chat.scrollTop = chat.scrollHeight;
+}
+
+function renderActionStarted(index, action) {
+  // Keep the typing bubble below the progress line while the action runs.
+  if (pendingTypingNode && pendingTypingNode.classList.contains("typing")) {
+    pendingTypingNode.remove();
+  }
+  pendingTypingNode = null;
+  streamingNode = null;
+  actionNodes.set(index, appendMessage(`Running ${action}...`, "action running"));
+  ensureTypingBubble();
+}
+
+function renderActionResult(payload) {
+  const node = actionNodes.get(payload.index) ?? appendMessage("", "action");
+  const status = payload.refused ? "refused" : payload.ok ? "done" : "failed";
+  const firstLine = String(payload.output ?? "").split("\n")[0].slice(0, 200);
+  node.className = `msg action ${status}`;
+  node.textContent = `${payload.action}: ${status}${firstLine ? ` - ${firstLine}` : ""}`;
+  chat.scrollTop = chat.scrollHeight;
+}
+
+function finishStream(content) {
+  const node = streamingNode ?? ensureTypingBubble();
+  node.classList.remove("typing");
+  node.textContent = normalizeAssistantText(content) || "(empty response)";
+  chat.scrollTop = chat.scrollHeight;
+  streamingNode = null;
+  streamingText = "";
+  pendingTypingNode = null;
+  actionNodes = new Map();
+}
+
 function formatTime(iso) {
   try {
     return new Date(iso).toLocaleString();
@@ -165,6 +293,12 @@ function renderOverview() {
   }
   overviewCards.append(card("Model", latestOverview.model));
   overviewCards.append(card("Auth Mode", latestOverview.authMode));
+  overviewCards.append(card("Answered By", latestOverview.routing?.lastAnsweredBy ?? "none yet"));
+  for (const provider of latestOverview.routing?.providers ?? []) {
+    if (provider.state !== "closed") {
+      overviewCards.append(card(`Provider ${provider.provider}`, `circuit ${provider.state.replace("_", "-")}`));
+    }
+  }
   overviewCards.append(card("Sessions", String(latestOverview.stats.sessions)));
   overviewCards.append(card("Messages", String(latestOverview.stats.messages)));
   overviewCards.append(card("Pairings Approved", String(latestOverview.stats.pairingsApproved)));
@@ -182,6 +316,11 @@ function renderChannels() {
   const configured = latestOverview.channelsConfigured;
   channelsCards.append(card("WebChat", configured.webchat ? "Enabled" : "Disabled"));
   channelsCards.append(card("Telegram", configured.telegram ? "Configured" : "Not configured"));
+  channelsCards.append(card("Discord", configured.discord ? "Configured" : "Not configured"));
+  channelsCards.append(card("Slack", configured.slack ? "Configured" : "Not configured"));
+  channelsCards.append(card("WhatsApp", configured.whatsapp ? "Configured" : "Not configured"));
+  channelsCards.append(card("Signal", configured.signal ? "Configured" : "Not configured"));
+  channelsCards.append(card("Email", configured.email ? "Configured" : "Not configured"));
   for (const entry of latestOverview.stats.byChannel) {
     channelsCards.append(card(`Sessions: ${entry.channel}`, String(entry.count)));
   }
@@ -196,7 +335,7 @@ function renderSessions() {
   for (const session of latestSessions) {
     const row = document.createElement("tr");
     row.innerHTML = `
-      <td>${session.id}</td>
+      <td>${session.id} ${escapeHtml(session.title ?? "")}${session.active ? " (active)" : ""}</td>
       <td>${session.senderId}</td>
       <td>${session.channel}</td>
       <td>${formatTime(session.updatedAt)}</td>
@@ -205,6 +344,36 @@ function renderSessions() {
   }
 }
 
+function highlightSnippet(snippet) {
+  return escapeHtml(snippet).replace(/\*\*([\s\S]*?)\*\*/g, "<mark>$1</mark>");
+}
+
+async function runHistorySearch(query) {
+  searchResults.hidden = !query;
+  if (!query) return;
+  searchTable.innerHTML = `<tr><td colspan="4">Searching...</td></tr>`;
+  try {
+    const { hits } = await apiGet(`/api/search?${new URLSearchParams({ q: query, limit: "50" })}`);
+    searchTable.innerHTML = "";
+    if (hits.length === 0) {
+      searchTable.innerHTML = `<tr><td colspan="4">No matching messages</td></tr>`;
+      return;
+    }
+    for (const hit of hits) {
+      const row = document.createElement("tr");
+      row.innerHTML = `
+        <td>${formatTime(hit.createdAt)}</td>
+        <td>#${hit.sessionId} ${escapeHtml(hit.threadTitle)}</td>
+        <td>${escapeHtml(`${hit.channel}:${hit.senderId}`)}</td>
+        <td>${hit.direction === "inbound" ? "User" : "Assistant"}: ${highlightSnippet(hit.snippet)}</td>
+      `;
+      searchTable.append(row);
+    }
+  } catch (error) {
+    searchTable.innerHTML = `<tr><td colspan="4">${escapeHtml(error instanceof Error ? error.message : String(error))}</td></tr>`;
+  }
+}
+
 function renderInstances() {
   instancesTable.innerHTML = "";
   if (latestInstances.length === 0) {
@@ -231,11 +400,126 @@ function setActiveDoc(docName) {
   docStatus.textContent = "";
 }
 
+function escapeHtml(value) {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
 function renderCron() {
   cronCards.innerHTML = "";
-  cronCards.append(card("Jobs", "0"));
-  cronCards.append(card("Scheduler", "Ready"));
-  cronCards.append(card("Next Run", "No jobs configured"));
+  cronTable.innerHTML = "";
+  if (!latestCron) {
+    cronCards.append(card("Scheduler", "No data"));
+    cronTable.innerHTML = `<tr><td colspan="5">No data</td></tr>`;
+    return;
+  }
+  const jobs = latestCron.jobs ?? [];
+  const upcoming = jobs
+    .filter((job) => job.enabled && job.nextRunAt)
+    .sort((a, b) => a.nextRunAt.localeCompare(b.nextRunAt))[0];
+  cronCards.append(card("Jobs", String(jobs.length)));
+  cronCards.append(card("Scheduler", latestCron.scheduler?.running ? "Running" : "Stopped"));
+  cronCards.append(
+    card("Next Run", upcoming ? `${escapeHtml(upcoming.name)} at ${formatTime(upcoming.nextRunAt)}` : "No jobs scheduled")
+  );
+  if (jobs.length === 0) {
+    cronTable.innerHTML = `<tr><td colspan="5">No jobs configured. Use gnamiai cron add</td></tr>`;
+    return;
+  }
+  for (const job of jobs) {
+    const row = document.createElement("tr");
+    const lastResult = job.lastStatus
+      ? `${job.lastStatus}: ${String(job.lastResult ?? "").slice(0, 120)}`
+      : "never run";
+    row.innerHTML = `
+      <td>#${job.id} ${escapeHtml(job.name)}${job.enabled ? "" : " (disabled)"}</td>
+      <td>${escapeHtml(job.kind === "at" ? `once at ${job.expression}` : job.expression)} (${escapeHtml(job.timezone)})</td>
+      <td>${job.nextRunAt ? formatTime(job.nextRunAt) : "-"}</td>
+      <td>${job.lastRunAt ? formatTime(job.lastRunAt) : "-"}</td>
+      <td>${escapeHtml(lastResult)}</td>
+    `;
+    cronTable.append(row);
+  }
+}
+
+function describeAction(action) {
+  if (action.type === "shell") return `shell: ${action.command}`;
+  if (action.type === "install_skill") return `install_skill: ${action.name}`;
+  if (action.type === "search_history") return `search_history: ${action.query}`;
+  return `${action.app}.${action.action} ${JSON.stringify(action.params ?? {})}`;
+}
+
+function renderApprovals() {
+  approvalsTable.innerHTML = "";
+  if (latestApprovals.length === 0) {
+    approvalsTable.innerHTML = `<tr><td colspan="5">No approval requests</td></tr>`;
+    return;
+  }
+  for (const approval of latestApprovals) {
+    const row = document.createElement("tr");
+    const status =
+      approval.status === "pending"
+        ? `<button class="approval-btn" data-id="${approval.id}" data-decision="approve" type="button">Approve</button>
+           <button class="approval-btn" data-id="${approval.id}" data-decision="deny" type="button">Deny</button>`
+        : `${approval.status}${approval.result ? `: ${escapeHtml(approval.result.slice(0, 120))}` : ""}`;
+    row.innerHTML = `
+      <td>#${approval.id}</td>
+      <td>${escapeHtml(`${approval.channel}:${approval.senderId}`)}</td>
+      <td>${escapeHtml(describeAction(approval.action))}</td>
+      <td>${formatTime(approval.createdAt)}</td>
+      <td>${status}</td>
+    `;
+    approvalsTable.append(row);
+  }
+}
+
+function formatUsageRow(row) {
+  const cost = row.unpricedCalls > 0 ? `$${row.costUsd.toFixed(4)} (+${row.unpricedCalls} unpriced)` : `$${row.costUsd.toFixed(4)}`;
+  return `
+    <td>${escapeHtml(row.key)}</td>
+    <td>${row.calls}${row.estimatedCalls > 0 ? ` (${row.estimatedCalls} estimated)` : ""}</td>
+    <td>${row.promptTokens.toLocaleString()}</td>
+    <td>${row.completionTokens.toLocaleString()}</td>
+    <td>${row.avgLatencyMs} ms</td>
+    <td>${cost}</td>
+  `;
+}
+
+function renderUsage() {
+  usageCards.innerHTML = "";
+  usageTable.innerHTML = "";
+  usageGroups.forEach((button) => button.classList.toggle("active", button.dataset.group === usageGroupBy));
+  if (!latestUsage) {
+    usageCards.append(card("Usage", "No data"));
+    usageTable.innerHTML = `<tr><td colspan="6">No data</td></tr>`;
+    return;
+  }
+  const total = latestUsage.total;
+  usageCards.append(card("Model Calls", String(total.calls)));
+  usageCards.append(card("Tokens", (total.promptTokens + total.completionTokens).toLocaleString()));
+  usageCards.append(card("Cost", `$${total.costUsd.toFixed(4)}`));
+  usageCards.append(card("Avg Latency", `${total.avgLatencyMs} ms`));
+  if (latestUsage.rows.length === 0) {
+    usageTable.innerHTML = `<tr><td colspan="6">No model calls recorded yet</td></tr>`;
+    return;
+  }
+  for (const row of latestUsage.rows) {
+    const tr = document.createElement("tr");
+    tr.innerHTML = formatUsageRow(row);
+    usageTable.append(tr);
+  }
+}
+
+async function refreshUsage() {
+  try {
+    latestUsage = await apiGet(`/api/usage?since=7d&groupBy=${usageGroupBy}`);
+  } catch {
+    if (!lastApiError) lastApiError = "usage fetch failed";
+    // keep previous usage
+  }
 }
 
 function renderSkills() {
@@ -260,6 +544,7 @@ function renderConfig() {
   configCards.append(card("Gateway Port", String(latestOverview.gatewayPort)));
   configCards.append(card("Model", latestOverview.model));
   configCards.append(card("Auth", latestOverview.authMode));
+  configCards.append(card("Fallback Chain", (latestOverview.routing?.chain ?? [latestOverview.model]).join(" → ")));
   configCards.append(card("Memory", latestOverview.memory?.enabled ? latestOverview.memory.provider : "off"));
   configCards.append(card("Mem0 Key", latestOverview.memory?.envKeyLoaded ? "loaded from .env" : "not loaded"));
   configCards.append(card("Memory Entity", latestOverview.memory?.entity ?? "session-based"));
@@ -344,6 +629,25 @@ async function refreshData() {
     // keep previous instances
   }
 
+  try {
+    latestCron = await apiGet("/api/cron");
+    anyPanelLoaded = true;
+  } catch {
+    if (!lastApiError) lastApiError = "cron fetch failed";
+    // keep previous cron jobs
+  }
+
+  try {
+    const approvals = await apiGet("/api/approvals");
+    latestApprovals = approvals.approvals ?? [];
+    anyPanelLoaded = true;
+  } catch {
+    if (!lastApiError) lastApiError = "approvals fetch failed";
+    // keep previous approvals
+  }
+
+  await refreshUsage();
+
   try {
     const docs = await apiGet("/api/workspace/docs");
     latestDocs = docs.docs ?? {};
@@ -366,6 +670,8 @@ async function refreshData() {
   renderSessions();
   renderInstances();
   renderCron();
+  renderApprovals();
+  renderUsage();
   renderSkills();
   renderConfig();
 }
@@ -411,10 +717,77 @@ docSave.addEventListener("click", async () => {
   }
 });
 
+usageGroups.forEach((button) => {
+  button.addEventListener("click", async () => {
+    usageGroupBy = button.dataset.group ?? "day";
+    await refreshUsage();
+    renderUsage();
+  });
+});
+
+historySearch.addEventListener("submit", async (event) => {
+  event.preventDefault();
+  await runHistorySearch(historyQuery.value.trim());
+});
+
+threadSelect.addEventListener("change", async () => {
+  const id = Number(threadSelect.value);
+  if (!id) return;
+  try {
+    await apiPost(`/api/threads/${id}/activate`);
+    await loadThread(id);
+    await refreshThreads();
+  } catch {
+    renderThreadOptions();
+  }
+});
+
+threadNew.addEventListener("click", async () => {
+  const title = window.prompt("Thread title (optional)") ?? "";
+  try {
+    const data = await apiPost("/api/threads", { channel: "webchat", senderId, title: title.trim() || undefined });
+    await loadThread(data.thread.id);
+    await refreshThreads();
+  } catch {
+    // keep current thread
+  }
+});
+
+chat.addEventListener("click", async (event) => {
+  const button = event.target.closest(".fork-btn");
+  if (!button || !activeThreadId) return;
+  try {
+    const data = await apiPost(`/api/threads/${activeThreadId}/fork`, { messageId: Number(button.dataset.messageId) });
+    await loadThread(data.thread.id);
+    await refreshThreads();
+  } catch {
+    // keep current thread
+  }
+});
+
+approvalsTable.addEventListener("click", async (event) => {
+  const button = event.target.closest(".approval-btn");
+  if (!button) return;
+  button.disabled = true;
+  try {
+    const response = await fetch(`/api/approvals/${button.dataset.id}/${button.dataset.decision}`, {
+      method: "POST",
+      headers: authHeaders()
+    });
+    if (!response.ok) {
+      throw new Error(`Request failed: ${response.status}`);
+    }
+  } catch {
+    button.disabled = false;
+  }
+  refreshData();
+});
+
 ws.addEventListener("open", () => {});
 
 ws.addEventListener("close", () => {
   pendingTypingNode = null;
+  streamingNode = null;
   appendMessage("Disconnected from gateway.", "assistant");
 });
 
@@ -422,6 +795,16 @@ ws.addEventListener("message", (event) => {
   const payload = JSON.parse(event.data);
   if (payload.type === "assistant") {
     assistantRenderQueue = assistantRenderQueue.then(() => renderAssistantMessage(payload.content));
+  } else if (payload.type === "assistant_delta") {
+    appendStreamDelta(payload.content);
+  } else if (payload.type === "action_started") {
+    renderActionStarted(payload.index, payload.action);
+  } else if (payload.type === "action_result") {
+    renderActionResult(payload);
+  } else if (payload.type === "assistant_done") {
+    finishStream(payload.content);
+    // Chat commands such as /new or /switch change the active thread.
+    refreshThreads();
   }
 });
 
@@ -438,4 +821,5 @@ form.addEventListener("submit", (event) => {
 applyTheme();
 setView("chat");
 refreshData();
+refreshThreads();
 setInterval(refreshData, 10000);